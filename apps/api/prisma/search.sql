@@ -0,0 +1,116 @@
+-- Parts of the tables Prisma can't declare: generated columns for search,
+-- filters and sorting, partial indexes and the change order of the sync feed.
+-- db:push runs this after pushing the schema.
+
+-- Full-text search: a tsvector column with a GIN index. It follows the search
+-- rules clients use locally (pin-search.ts in @wiserpin/core): the same fields,
+-- lowercase words without diacritics, split on anything but letters and digits,
+-- and no URL boilerplate. Encrypted notes and summaries are left out, as their
+-- ciphertext can't be searched.
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Words of a text for the 'simple' configuration. Declared immutable, as
+-- generated columns need, though unaccent isn't.
+CREATE OR REPLACE FUNCTION pin_search_words(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(
+      lower(public.unaccent('public.unaccent'::regdictionary, coalesce($1, ''))),
+      '[^[:alnum:]]+', ' ', 'g')
+  $$;
+
+CREATE OR REPLACE FUNCTION pin_search_url_words(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(pin_search_words($1), '(^| )(http|https|www|html|htm|php|index)(?= |$)', ' ', 'g')
+  $$;
+
+-- Search vector of a pin: the words of each field, and of each tag, with their
+-- weight. A placeholder word after each one, deleted at the end, leaves a gap
+-- so phrases don't run from one field or tag into the next.
+CREATE OR REPLACE FUNCTION pin_search_vector(
+  title text, tags text[], site_name text, note text, summary text, description text, url text
+) RETURNS tsvector
+  LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $$
+DECLARE
+  vector tsvector := '';
+  field record;
+BEGIN
+  FOR field IN
+    SELECT pin_search_words(title) AS words, 'A' AS weight
+    UNION ALL SELECT pin_search_words(tag), 'A' FROM unnest(tags) AS tag
+    UNION ALL SELECT pin_search_words(site_name), 'B'
+    UNION ALL SELECT pin_search_words(note), 'B'
+    UNION ALL SELECT pin_search_words(summary), 'C'
+    UNION ALL SELECT pin_search_words(description), 'C'
+    UNION ALL SELECT pin_search_url_words(url), 'D'
+  LOOP
+    vector := vector || setweight(to_tsvector('simple', field.words), field.weight::"char") || '_:1'::tsvector;
+  END LOOP;
+  RETURN ts_delete(vector, '_');
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pins' AND column_name = 'searchVector' AND is_generated = 'ALWAYS'
+      AND generation_expression LIKE '%pin_search_vector%'
+  ) THEN
+    ALTER TABLE "pins" DROP COLUMN IF EXISTS "searchVector";
+    ALTER TABLE "pins" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+      pin_search_vector(
+        "title",
+        "tags",
+        "siteName",
+        CASE WHEN "note" LIKE 'enc:v1:%' THEN NULL ELSE "note" END,
+        CASE WHEN "summaryText" LIKE 'enc:v1:%' THEN NULL ELSE "summaryText" END,
+        "description",
+        "url")
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "pins_searchVector_idx" ON "pins" USING GIN ("searchVector");
+
+-- Domain: the host of the URL, lowercase and without "www.", for domain filters and sorting
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pins' AND column_name = 'domain' AND is_generated = 'ALWAYS'
+  ) THEN
+    ALTER TABLE "pins" DROP COLUMN IF EXISTS "domain";
+    ALTER TABLE "pins" ADD COLUMN "domain" text GENERATED ALWAYS AS (
+      regexp_replace(
+        lower(substring("url" from '^[A-Za-z][A-Za-z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')),
+        '^www\.', ''
+      )
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "pins_userId_domain_idx" ON "pins" ("userId", "domain");
+
+-- Unique URL among live pins; deleted and trashed pins may share a live pin's URL
+CREATE UNIQUE INDEX IF NOT EXISTS "pins_userId_url_live_key" ON "pins" ("userId", "url")
+  WHERE "deletedAt" IS NULL AND "trashedAt" IS NULL;
+
+-- Sync changes feed: the transaction that last wrote a row. The feed only
+-- serves rows of transactions older than every one still running, so a row
+-- can't be committed behind a cursor that already moved past it.
+CREATE OR REPLACE FUNCTION set_change_xid() RETURNS trigger
+  LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."changeXid" := pg_current_xact_id();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS "collections_changeXid" ON "collections";
+CREATE TRIGGER "collections_changeXid" BEFORE INSERT OR UPDATE ON "collections"
+  FOR EACH ROW EXECUTE FUNCTION set_change_xid();
+
+DROP TRIGGER IF EXISTS "pins_changeXid" ON "pins";
+CREATE TRIGGER "pins_changeXid" BEFORE INSERT OR UPDATE ON "pins"
+  FOR EACH ROW EXECUTE FUNCTION set_change_xid();
+
+CREATE INDEX IF NOT EXISTS "collections_userId_changeXid_idx" ON "collections" ("userId", "changeXid", "id");
+CREATE INDEX IF NOT EXISTS "pins_userId_changeXid_idx" ON "pins" ("userId", "changeXid", "id");
@@ -6,9 +6,13 @@ import { AuthModule } from './auth/auth.module';
 import { CollectionsModule } from './collections/collections.module';
 import { PinsModule } from './pins/pins.module';
 import { AiModule } from './ai/ai.module';
+import { SyncModule } from './sync/sync.module';
+import { EventsModule } from './events/events.module';
+import { TrashModule } from './trash/trash.module';
+import { SharesModule } from './shares/shares.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, CollectionsModule, PinsModule, AiModule],
+  imports: [PrismaModule, AuthModule, EventsModule, CollectionsModule, PinsModule, AiModule, SyncModule, TrashModule, SharesModule],
   controllers: [AppController],
   providers: [AppService],
 })
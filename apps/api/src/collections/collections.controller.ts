@@ -7,11 +7,18 @@ import {
   Param,
   Delete,
   UseGuards,
+  Query,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiOperation } from '@nestjs/swagger';
 import { CollectionsService } from './collections.service';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { UpdateCollectionDto } from './dto/update-collection.dto';
+import {
+  BatchCreateCollectionsDto,
+  BatchUpdateCollectionsDto,
+  BatchDeleteCollectionsDto,
+} from './dto/batch-collections.dto';
+import { FindCollectionsQueryDto } from './dto/find-collections-query.dto';
 import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
 import { CurrentUser } from '../auth/user.decorator';
 
@@ -31,10 +38,42 @@ export class CollectionsController {
     return this.collectionsService.create(user.userId, createCollectionDto);
   }
 
+  @Post('batch')
+  @ApiOperation({ summary: 'Create collections in one transaction, with a result per collection' })
+  createMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchCreateCollectionsDto,
+  ) {
+    return this.collectionsService.createMany(user.userId, batchDto);
+  }
+
+  @Patch('batch')
+  @ApiOperation({ summary: 'Update collections in one transaction, with a result per collection' })
+  updateMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchUpdateCollectionsDto,
+  ) {
+    return this.collectionsService.updateMany(user.userId, batchDto);
+  }
+
+  @Delete('batch')
+  @ApiOperation({ summary: 'Move collections to the trash in one transaction, with a result per collection' })
+  removeMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchDeleteCollectionsDto,
+  ) {
+    return this.collectionsService.removeMany(user.userId, batchDto);
+  }
+
   @Get()
-  @ApiOperation({ summary: 'Get all collections for the current user' })
-  findAll(@CurrentUser() user: { userId: string }) {
-    return this.collectionsService.findAll(user.userId);
+  @ApiOperation({
+    summary: 'Get the collections of the current user, newest first, all at once or a page at a time',
+  })
+  findAll(
+    @CurrentUser() user: { userId: string },
+    @Query() query: FindCollectionsQueryDto,
+  ) {
+    return this.collectionsService.findAll(user.userId, query);
   }
 
   @Get(':id')
@@ -54,8 +93,14 @@ export class CollectionsController {
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a collection' })
+  @ApiOperation({ summary: 'Move a collection and its pins to the trash' })
   remove(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
     return this.collectionsService.remove(user.userId, id);
   }
+
+  @Post(':id/restore')
+  @ApiOperation({ summary: 'Restore a collection from the trash, with the pins trashed along with it' })
+  restore(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
+    return this.collectionsService.restore(user.userId, id);
+  }
 }
@@ -1,11 +1,50 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, ConflictException } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { isUniqueViolation } from '../prisma/prisma-errors';
+import { EventsService } from '../events/events.service';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { UpdateCollectionDto } from './dto/update-collection.dto';
+import {
+  BatchCreateCollectionsDto,
+  BatchUpdateCollectionsDto,
+  BatchDeleteCollectionsDto,
+} from './dto/batch-collections.dto';
+import { FindCollectionsQueryDto } from './dto/find-collections-query.dto';
+import { afterCursor, cursorPage } from '../common/cursor';
+
+/**
+ * Time allowed for the transaction of a full batch
+ */
+const BATCH_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Outcome of one item of a batch request, in the order of the request
+ * - created / updated / trashed: the write was made, see `record`
+ * - deleted: the collection was already deleted
+ * - existing: a collection with this ID already exists and is returned unchanged
+ * - invalid: the item was skipped, see `error`
+ */
+export interface CollectionBatchResult {
+  index: number;
+  id?: string;
+  status: 'created' | 'updated' | 'trashed' | 'deleted' | 'existing' | 'invalid';
+  record?: unknown;
+  error?: string;
+}
+
+const WITH_PIN_COUNT = {
+  _count: {
+    select: { pins: { where: { deletedAt: null, trashedAt: null } } },
+  },
+};
 
 @Injectable()
 export class CollectionsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+  ) {}
 
   async create(userId: string, createCollectionDto: CreateCollectionDto) {
     // Ensure user exists (create if not)
@@ -24,58 +63,160 @@ export class CollectionsService {
         where: { id: createCollectionDto.id },
         include: {
           _count: {
-            select: { pins: true },
+            select: { pins: { where: { deletedAt: null, trashedAt: null } } },
           },
         },
       });
 
-      if (existing) {
+      if (existing && !existing.deletedAt) {
         console.log(`[CollectionsService] Collection already exists with ID: ${createCollectionDto.id}, returning existing`);
         return existing;
       }
 
+      const data = {
+        name: createCollectionDto.name,
+        description: createCollectionDto.description,
+        color: createCollectionDto.color,
+        updatedAt: createCollectionDto.updatedAt,
+      };
+
+      // Re-creating a deleted collection (e.g. edited offline after deletion) revives it
+      if (existing) {
+        if (existing.userId !== userId) {
+          throw new ForbiddenException('You do not have access to this collection');
+        }
+
+        console.log(`[CollectionsService] Reviving deleted collection with ID: ${createCollectionDto.id}`);
+        const revived = await this.prisma.collection.update({
+          where: { id: createCollectionDto.id },
+          data: { ...data, deletedAt: null, trashedAt: null },
+          include: {
+            _count: {
+              select: { pins: { where: { deletedAt: null, trashedAt: null } } },
+            },
+          },
+        });
+        return this.events.recordChanged(userId, 'collection', revived);
+      }
+
       console.log(`[CollectionsService] Creating NEW collection with provided ID: ${createCollectionDto.id}, name: ${createCollectionDto.name}`);
-      return this.prisma.collection.create({
+      const created = await this.prisma.collection.create({
         data: {
+          ...data,
           id: createCollectionDto.id,
-          name: createCollectionDto.name,
-          description: createCollectionDto.description,
-          color: createCollectionDto.color,
           userId,
         },
         include: {
           _count: {
-            select: { pins: true },
+            select: { pins: { where: { deletedAt: null, trashedAt: null } } },
           },
         },
       });
+      return this.events.recordChanged(userId, 'collection', created);
     }
 
     // Otherwise create normally with auto-generated ID
     console.log(`[CollectionsService] Creating collection with auto-generated ID, name: ${createCollectionDto.name}`);
-    return this.prisma.collection.create({
+    const created = await this.prisma.collection.create({
       data: {
         ...createCollectionDto,
         userId,
       },
       include: {
         _count: {
-          select: { pins: true },
+          select: { pins: { where: { deletedAt: null, trashedAt: null } } },
         },
       },
     });
+    return this.events.recordChanged(userId, 'collection', created);
   }
 
-  async findAll(userId: string) {
-    return this.prisma.collection.findMany({
-      where: { userId },
-      include: {
-        _count: {
-          select: { pins: true },
-        },
+  /**
+   * Create up to COLLECTIONS_BATCH_LIMIT collections in one transaction.
+   * Items are checked like single creates, but a bad item is reported instead of failing the batch.
+   */
+  async createMany(userId: string, batchDto: BatchCreateCollectionsDto) {
+    await this.prisma.user.upsert({
+      where: { id: userId },
+      update: {},
+      create: {
+        id: userId,
       },
-      orderBy: { createdAt: 'desc' },
     });
+
+    const { items } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const ids = items.map((item) => item.id).filter(Boolean);
+        const existingById = new Map<string, any>(
+          (await tx.collection.findMany({ where: { id: { in: ids } }, include: WITH_PIN_COUNT }))
+            .map((collection) => [collection.id, collection]),
+        );
+
+        const results: CollectionBatchResult[] = [];
+        for (const [index, item] of items.entries()) {
+          const existing = item.id ? existingById.get(item.id) : undefined;
+
+          if (existing && existing.userId !== userId) {
+            results.push({ index, id: item.id, status: 'invalid', error: 'You do not have access to this collection' });
+          } else if (existing && !existing.deletedAt) {
+            results.push({ index, id: item.id, status: 'existing', record: existing });
+          } else if (existing) {
+            // Re-creating a deleted collection revives it
+            const revived = await tx.collection.update({
+              where: { id: item.id },
+              data: { ...item, deletedAt: null, trashedAt: null },
+              include: WITH_PIN_COUNT,
+            });
+            results.push({ index, id: item.id, status: 'created', record: revived });
+          } else {
+            const created = await tx.collection.create({
+              data: { ...item, userId },
+              include: WITH_PIN_COUNT,
+            });
+            existingById.set(created.id, created);
+            results.push({ index, id: created.id, status: 'created', record: created });
+          }
+        }
+
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    );
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  /**
+   * Collections of a user, newest first. Pages come as `{ data, meta }` once a
+   * cursor or a limit is given; without either, all of them come as a plain
+   * array, as they did before paging, so older clients keep working.
+   */
+  async findAll(userId: string, query: FindCollectionsQueryDto = {}) {
+    const { cursor, includeDeleted = false } = query;
+
+    // Deleted and trashed collections are only returned to sync clients
+    const where = {
+      userId,
+      ...(!includeDeleted && { deletedAt: null, trashedAt: null }),
+    };
+    const orderBy = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
+
+    if (!cursor && query.limit === undefined) {
+      return this.prisma.collection.findMany({ where, include: WITH_PIN_COUNT, orderBy });
+    }
+
+    const limit = query.limit ?? 50;
+    const collections = await this.prisma.collection.findMany({
+      where: { ...where, ...(cursor && afterCursor(cursor, 'desc')) },
+      include: WITH_PIN_COUNT,
+      orderBy,
+      take: limit + 1,
+    });
+    const { data, hasMore, nextCursor } = cursorPage(collections, limit);
+
+    return { data, meta: { limit, hasMore, nextCursor } };
   }
 
   async findOne(userId: string, id: string) {
@@ -83,15 +224,16 @@ export class CollectionsService {
       where: { id },
       include: {
         pins: {
+          where: { deletedAt: null, trashedAt: null },
           orderBy: { createdAt: 'desc' },
         },
         _count: {
-          select: { pins: true },
+          select: { pins: { where: { deletedAt: null, trashedAt: null } } },
         },
       },
     });
 
-    if (!collection) {
+    if (!collection || collection.deletedAt || collection.trashedAt) {
       throw new NotFoundException('Collection not found');
     }
 
@@ -107,7 +249,7 @@ export class CollectionsService {
       where: { id },
     });
 
-    if (!collection) {
+    if (!collection || collection.deletedAt || collection.trashedAt) {
       throw new NotFoundException('Collection not found');
     }
 
@@ -115,23 +257,103 @@ export class CollectionsService {
       throw new ForbiddenException('You do not have access to this collection');
     }
 
-    return this.prisma.collection.update({
+    const updated = await this.prisma.collection.update({
       where: { id },
       data: updateCollectionDto,
       include: {
         _count: {
-          select: { pins: true },
+          select: { pins: { where: { deletedAt: null, trashedAt: null } } },
         },
       },
     });
+    return this.events.recordChanged(userId, 'collection', updated);
   }
 
+  /**
+   * Update up to COLLECTIONS_BATCH_LIMIT collections in one transaction
+   */
+  async updateMany(userId: string, batchDto: BatchUpdateCollectionsDto) {
+    const { items } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const collections = await tx.collection.findMany({
+          where: { id: { in: items.map((item) => item.id) }, userId, deletedAt: null, trashedAt: null },
+          select: { id: true },
+        });
+        const live = new Set<string>(collections.map((collection) => collection.id));
+
+        const results: CollectionBatchResult[] = [];
+        for (const [index, { id, ...data }] of items.entries()) {
+          if (!live.has(id)) {
+            results.push({ index, id, status: 'invalid', error: 'Collection not found' });
+            continue;
+          }
+
+          const updated = await tx.collection.update({
+            where: { id },
+            data,
+            include: WITH_PIN_COUNT,
+          });
+          results.push({ index, id, status: 'updated', record: updated });
+        }
+
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    );
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  /**
+   * Move up to COLLECTIONS_BATCH_LIMIT collections to the trash in one transaction,
+   * with their pins. Collections already trashed or deleted are reported as such.
+   */
+  async removeMany(userId: string, batchDto: BatchDeleteCollectionsDto) {
+    const { ids } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const collections = await tx.collection.findMany({ where: { id: { in: ids }, userId } });
+        const collectionsById = new Map<string, any>(collections.map((collection) => [collection.id, collection]));
+        const now = new Date();
+
+        const results: CollectionBatchResult[] = [];
+        for (const [index, id] of ids.entries()) {
+          const collection = collectionsById.get(id);
+
+          if (!collection) {
+            results.push({ index, id, status: 'invalid', error: 'Collection not found' });
+          } else if (collection.deletedAt) {
+            results.push({ index, id, status: 'deleted' });
+          } else if (collection.trashedAt) {
+            results.push({ index, id, status: 'trashed' });
+          } else {
+            const trashed = await this.trashWithPins(tx, id, now);
+            collectionsById.set(id, trashed);
+            results.push({ index, id, status: 'trashed', record: trashed });
+          }
+        }
+
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    );
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  /**
+   * Move a collection and its pins to the trash, where they can be restored
+   * until the trash is emptied or their retention period ends
+   */
   async remove(userId: string, id: string) {
     const collection = await this.prisma.collection.findUnique({
       where: { id },
     });
 
-    if (!collection) {
+    if (!collection || collection.deletedAt || collection.trashedAt) {
       throw new NotFoundException('Collection not found');
     }
 
@@ -139,8 +361,89 @@ export class CollectionsService {
       throw new ForbiddenException('You do not have access to this collection');
     }
 
-    return this.prisma.collection.delete({
+    const trashed = await this.prisma.$transaction((tx) => this.trashWithPins(tx, id, new Date()));
+    return this.events.recordChanged(userId, 'collection', trashed);
+  }
+
+  /**
+   * Bring a collection back from the trash with the pins trashed along with it.
+   * Pins trashed on their own before the collection stay in the trash, and so
+   * do pins whose URL was saved again in the meantime.
+   */
+  async restore(userId: string, id: string) {
+    const collection = await this.prisma.collection.findUnique({
+      where: { id },
+    });
+
+    if (!collection || collection.deletedAt || !collection.trashedAt) {
+      throw new NotFoundException('Collection not found in trash');
+    }
+
+    if (collection.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this collection');
+    }
+
+    const trashedWithCollection = { collectionId: id, deletedAt: null, trashedAt: collection.trashedAt };
+    const trashedPins = await this.prisma.pin.findMany({
+      where: trashedWithCollection,
+      select: { url: true },
+    });
+    const savedAgain = await this.prisma.pin.findMany({
+      where: {
+        userId,
+        url: { in: trashedPins.map((pin) => pin.url) },
+        deletedAt: null,
+        trashedAt: null,
+      },
+      select: { url: true },
+    });
+
+    const now = new Date();
+    const [, restored] = await this.prisma
+      .$transaction([
+        this.prisma.pin.updateMany({
+          where: { ...trashedWithCollection, url: { notIn: savedAgain.map((pin) => pin.url) } },
+          data: { trashedAt: null, updatedAt: now },
+        }),
+        this.prisma.collection.update({
+          where: { id },
+          data: { trashedAt: null, updatedAt: now },
+          include: WITH_PIN_COUNT,
+        }),
+      ])
+      .catch((error) => {
+        // A URL of the collection's pins was saved again while restoring
+        throw isUniqueViolation(error)
+          ? new ConflictException('A pin of this collection was just saved again, try again')
+          : error;
+      });
+
+    return this.events.recordChanged(userId, 'collection', restored);
+  }
+
+  /**
+   * Trash a collection and its live pins with the same trashedAt, so they
+   * can be restored together
+   */
+  private async trashWithPins(tx: Prisma.TransactionClient, id: string, now: Date) {
+    await tx.pin.updateMany({
+      where: { collectionId: id, deletedAt: null, trashedAt: null },
+      data: { trashedAt: now, updatedAt: now },
+    });
+    return tx.collection.update({
       where: { id },
+      data: { trashedAt: now, updatedAt: now },
     });
   }
+
+  /**
+   * Tell the user's clients about the writes of a batch, once it is committed
+   */
+  private announce(userId: string, results: CollectionBatchResult[]) {
+    for (const result of results) {
+      if (result.record && result.status !== 'existing') {
+        this.events.recordChanged(userId, 'collection', result.record as { id: string; updatedAt: Date });
+      }
+    }
+  }
 }
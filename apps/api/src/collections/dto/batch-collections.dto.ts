@@ -0,0 +1,44 @@
+import { IsArray, IsUUID, ArrayMinSize, ArrayMaxSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCollectionDto } from './create-collection.dto';
+
+/**
+ * Maximum number of collections in one batch request
+ */
+export const COLLECTIONS_BATCH_LIMIT = 200;
+
+export class BatchCreateCollectionsDto {
+  @ApiProperty({ description: `Collections to create, up to ${COLLECTIONS_BATCH_LIMIT}`, type: [CreateCollectionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(COLLECTIONS_BATCH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => CreateCollectionDto)
+  items: CreateCollectionDto[];
+}
+
+export class BatchUpdateCollectionDto extends PartialType(OmitType(CreateCollectionDto, ['id'] as const)) {
+  @ApiProperty({ description: 'Collection ID (UUID)' })
+  @IsUUID()
+  id: string;
+}
+
+export class BatchUpdateCollectionsDto {
+  @ApiProperty({ description: `Collection updates, up to ${COLLECTIONS_BATCH_LIMIT}`, type: [BatchUpdateCollectionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(COLLECTIONS_BATCH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => BatchUpdateCollectionDto)
+  items: BatchUpdateCollectionDto[];
+}
+
+export class BatchDeleteCollectionsDto {
+  @ApiProperty({ description: `IDs of the collections to delete, up to ${COLLECTIONS_BATCH_LIMIT}` })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(COLLECTIONS_BATCH_LIMIT)
+  @IsUUID('all', { each: true })
+  ids: string[];
+}
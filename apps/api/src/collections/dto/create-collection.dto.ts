@@ -1,4 +1,4 @@
-import { IsString, IsOptional, MaxLength, IsUUID } from 'class-validator';
+import { IsString, IsOptional, MaxLength, IsUUID, IsDateString } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateCollectionDto {
@@ -27,4 +27,9 @@ export class CreateCollectionDto {
   @IsOptional()
   @IsString()
   icon?: string;
+
+  @ApiPropertyOptional({ description: 'Last update time from the client (ISO 8601), kept as-is for sync' })
+  @IsOptional()
+  @IsDateString()
+  updatedAt?: string;
 }
@@ -0,0 +1,34 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Largest page of collections a list request can ask for
+ */
+export const COLLECTIONS_PAGE_LIMIT = 100;
+
+export class FindCollectionsQueryDto {
+  @ApiPropertyOptional({ description: 'Cursor from meta.nextCursor of the previous page' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Items per page (default: 50 with a cursor; without both, all collections come as an array)',
+    minimum: 1,
+    maximum: COLLECTIONS_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(COLLECTIONS_PAGE_LIMIT)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Include deleted collections (tombstones) for sync clients' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeDeleted?: boolean;
+}
@@ -0,0 +1,61 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Position in a list ordered by creation time, ties broken by ID
+ */
+export interface CursorPosition {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Opaque cursor pointing after a record, for the next page of a list
+ */
+export function encodeCursor(record: CursorPosition): string {
+  return Buffer.from(JSON.stringify([record.createdAt.toISOString(), record.id])).toString(
+    'base64url',
+  );
+}
+
+/**
+ * Position a cursor points after; a cursor that wasn't made by encodeCursor is a bad request
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const date = new Date(createdAt);
+    if (typeof createdAt === 'string' && typeof id === 'string' && !isNaN(date.getTime())) {
+      return { createdAt: date, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
+
+/**
+ * Prisma filter for the records after a cursor, in a list ordered by
+ * `[{ createdAt: order }, { id: order }]`. Unlike offsets, a cursor keeps its
+ * place when records are added or removed while paging.
+ */
+export function afterCursor(cursor: string, order: 'asc' | 'desc') {
+  const { createdAt, id } = decodeCursor(cursor);
+  const after = order === 'desc' ? 'lt' : 'gt';
+  return {
+    OR: [{ createdAt: { [after]: createdAt } }, { createdAt, id: { [after]: id } }],
+  };
+}
+
+/**
+ * One page of records fetched with `take: limit + 1`: the extra record, if
+ * any, only tells that there are more
+ */
+export function cursorPage<T extends CursorPosition>(records: T[], limit: number) {
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(data[data.length - 1]) : null,
+  };
+}
@@ -0,0 +1,22 @@
+import { Controller, Sse, UseGuards, MessageEvent } from "@nestjs/common";
+import { ApiBearerAuth, ApiTags, ApiOperation } from "@nestjs/swagger";
+import { Observable } from "rxjs";
+import { EventsService } from "./events.service";
+import { ClerkAuthGuard } from "../auth/clerk-auth.guard";
+import { CurrentUser } from "../auth/user.decorator";
+
+@ApiTags("events")
+@ApiBearerAuth()
+@UseGuards(ClerkAuthGuard)
+@Controller("events")
+export class EventsController {
+  constructor(private readonly eventsService: EventsService) {}
+
+  @Sse()
+  @ApiOperation({
+    summary: "Stream collection and pin change events for the current user (server-sent events)",
+  })
+  stream(@CurrentUser() user: { userId: string }): Observable<MessageEvent> {
+    return this.eventsService.stream(user.userId);
+  }
+}
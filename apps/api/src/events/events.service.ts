@@ -0,0 +1,70 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+
+/**
+ * Interval between heartbeats, so proxies don't close idle streams
+ */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+type ChangedEntity = 'collection' | 'pin';
+
+/**
+ * Event sent to clients when a record changes (SyncChangeEvent in @wiserpin/core)
+ */
+export interface ChangeEvent {
+  entity: ChangedEntity;
+  id: string;
+  op: 'upsert' | 'delete';
+  updatedAt: string;
+  clientId?: string;
+}
+
+interface ChangedRecord {
+  id: string;
+  updatedAt: Date;
+  deletedAt?: Date | null;
+}
+
+@Injectable()
+export class EventsService {
+  private readonly changes = new Subject<{ userId: string; event: ChangeEvent }>();
+
+  /**
+   * Announce a written or deleted record to the user's connected clients.
+   * Returns the record so it can wrap the write it reports. `clientId` names
+   * the client that made the change, so it can skip its own events.
+   */
+  recordChanged<T extends ChangedRecord>(
+    userId: string,
+    entity: ChangedEntity,
+    record: T,
+    clientId?: string,
+  ): T {
+    this.changes.next({
+      userId,
+      event: {
+        entity,
+        id: record.id,
+        op: record.deletedAt ? 'delete' : 'upsert',
+        updatedAt: record.updatedAt.toISOString(),
+        ...(clientId && { clientId }),
+      },
+    });
+    return record;
+  }
+
+  /**
+   * Change events for one user, interleaved with heartbeats
+   */
+  stream(userId: string): Observable<MessageEvent> {
+    const changes = this.changes.pipe(
+      filter((change) => change.userId === userId),
+      map(({ event }): MessageEvent => ({ type: 'change', data: event })),
+    );
+    const heartbeats = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+    );
+
+    return merge(changes, heartbeats);
+  }
+}
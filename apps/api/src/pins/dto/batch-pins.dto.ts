@@ -0,0 +1,44 @@
+import { IsArray, IsUUID, ArrayMinSize, ArrayMaxSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { CreatePinDto } from './create-pin.dto';
+
+/**
+ * Maximum number of pins in one batch request
+ */
+export const PINS_BATCH_LIMIT = 200;
+
+export class BatchCreatePinsDto {
+  @ApiProperty({ description: `Pins to create, up to ${PINS_BATCH_LIMIT}`, type: [CreatePinDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(PINS_BATCH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => CreatePinDto)
+  items: CreatePinDto[];
+}
+
+export class BatchUpdatePinDto extends PartialType(OmitType(CreatePinDto, ['id'] as const)) {
+  @ApiProperty({ description: 'Pin ID (UUID)' })
+  @IsUUID()
+  id: string;
+}
+
+export class BatchUpdatePinsDto {
+  @ApiProperty({ description: `Pin updates, up to ${PINS_BATCH_LIMIT}`, type: [BatchUpdatePinDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(PINS_BATCH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => BatchUpdatePinDto)
+  items: BatchUpdatePinDto[];
+}
+
+export class BatchDeletePinsDto {
+  @ApiProperty({ description: `IDs of the pins to delete, up to ${PINS_BATCH_LIMIT}` })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(PINS_BATCH_LIMIT)
+  @IsUUID('all', { each: true })
+  ids: string[];
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsUrl, IsArray, IsUUID, MaxLength } from 'class-validator';
+import { IsString, IsOptional, IsUrl, IsArray, IsUUID, MaxLength, IsDateString } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreatePinDto {
@@ -15,12 +15,29 @@ export class CreatePinDto {
   @IsString()
   title: string;
 
-  @ApiPropertyOptional({ description: 'Pin description' })
+  @ApiPropertyOptional({ description: 'Page description from its metadata' })
   @IsOptional()
   @IsString()
   @MaxLength(1000)
   description?: string;
 
+  @ApiPropertyOptional({ description: 'Personal note (ciphertext with E2E encryption)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  note?: string;
+
+  @ApiPropertyOptional({ description: 'AI-generated summary (ciphertext with E2E encryption)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  summaryText?: string;
+
+  @ApiPropertyOptional({ description: 'When the summary was generated (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  summaryCreatedAt?: string;
+
   @ApiPropertyOptional({ description: 'Image URL' })
   @IsOptional()
   @IsUrl({ require_tld: false })
@@ -31,6 +48,12 @@ export class CreatePinDto {
   @IsUrl({ require_tld: false })
   favicon?: string;
 
+  @ApiPropertyOptional({ description: 'Site name', example: 'Example' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  siteName?: string;
+
   @ApiPropertyOptional({ description: 'Tags', example: ['web', 'design'] })
   @IsOptional()
   @IsArray()
@@ -41,4 +64,14 @@ export class CreatePinDto {
   @IsOptional()
   @IsUUID()
   collectionId?: string;
+
+  @ApiPropertyOptional({ description: 'Creation time from the client (ISO 8601), kept as-is for sync' })
+  @IsOptional()
+  @IsDateString()
+  createdAt?: string;
+
+  @ApiPropertyOptional({ description: 'Last update time from the client (ISO 8601), kept as-is for sync' })
+  @IsOptional()
+  @IsDateString()
+  updatedAt?: string;
 }
@@ -0,0 +1,159 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Largest page of pins a list request can ask for
+ */
+export const PINS_PAGE_LIMIT = 100;
+
+export const PIN_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'domain'] as const;
+
+export type PinListSortField = (typeof PIN_SORT_FIELDS)[number];
+
+/**
+ * Query string booleans arrive as text; anything but "true" is false
+ */
+const toBoolean = ({ value }: { value: unknown }) => value === true || value === 'true';
+
+/**
+ * Lists can be given as repeated parameters (tags=a&tags=b) or comma-separated (tags=a,b)
+ */
+const toList = ({ value }: { value: unknown }) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export class FindPinsQueryDto {
+  @ApiPropertyOptional({ description: 'Only pins of this collection' })
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins without a collection' })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  uncategorized?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Search query: full-text search, best matches first, with filters like ' +
+      'site:github.com tag:rust collection:"Reading" before:2026-01-01 -is:summarized',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins with these tags', example: ['rust', 'async'] })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether pins need any of the tags or all of them (default: any)',
+    enum: ['any', 'all'],
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMatch?: 'any' | 'all';
+
+  @ApiPropertyOptional({
+    description: 'Only pins of this domain or its subdomains',
+    example: 'github.com',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  domain?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins created at or after this time (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins created before this time (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  createdBefore?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins updated at or after this time (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  updatedAfter?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins updated before this time (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  updatedBefore?: string;
+
+  @ApiPropertyOptional({ description: 'Only pins with (true) or without (false) a summary' })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasSummary?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Sort field (default: createdAt; searches sort by relevance unless given)',
+    enum: PIN_SORT_FIELDS,
+  })
+  @IsOptional()
+  @IsIn(PIN_SORT_FIELDS)
+  sortBy?: PinListSortField;
+
+  @ApiPropertyOptional({ description: 'Sort direction (default: desc)', enum: ['asc', 'desc'] })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({ description: 'Page number (default: 1)', minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Cursor from meta.nextCursor of the previous page, instead of a page number. ' +
+      'Only for the createdAt sort order, and not for searches.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Items per page (default: 12)',
+    minimum: 1,
+    maximum: PINS_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(PINS_PAGE_LIMIT)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Include deleted and trashed pins (tombstones) for sync clients' })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeDeleted?: boolean;
+}
@@ -0,0 +1,120 @@
+import { Prisma } from "@prisma/client";
+import {
+  pinQueryDate,
+  siteUrlPatterns,
+  type PinQuery,
+  type PinQueryState,
+  type PinQueryTerm,
+} from "@wiserpin/core";
+
+type PinFieldTerm = Exclude<PinQueryTerm, { type: "text" }>;
+
+const PIN_STATES: Record<PinQueryState, object> = {
+  summarized: { AND: [{ summaryText: { not: null } }, { summaryText: { not: "" } }] },
+  noted: { AND: [{ note: { not: null } }, { note: { not: "" } }] },
+  tagged: { tags: { isEmpty: false } },
+};
+
+/**
+ * The same states as SQL conditions on the "pins" table, for raw search queries
+ */
+const PIN_STATES_SQL: Record<PinQueryState, Prisma.Sql> = {
+  summarized: Prisma.sql`coalesce("summaryText", '') <> ''`,
+  noted: Prisma.sql`coalesce("note", '') <> ''`,
+  tagged: Prisma.sql`cardinality("tags") > 0`,
+};
+
+/**
+ * Prisma filter for pins in a state, as written with `is:`
+ */
+export function pinStateWhere(state: PinQueryState): object {
+  return PIN_STATES[state];
+}
+
+/**
+ * SQL condition for pins in a state, like pinStateWhere
+ */
+export function pinStateSql(state: PinQueryState): Prisma.Sql {
+  return PIN_STATES_SQL[state];
+}
+
+/**
+ * Value matched literally by LIKE, with its wildcards escaped
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function termWhere(term: PinFieldTerm): object {
+  switch (term.type) {
+    case "site": {
+      const { contains, endsWith } = siteUrlPatterns(term.value);
+      return {
+        OR: [
+          ...contains.map((pattern) => ({ url: { contains: pattern, mode: "insensitive" } })),
+          ...endsWith.map((pattern) => ({ url: { endsWith: pattern, mode: "insensitive" } })),
+        ],
+      };
+    }
+    case "tag":
+      return { tags: { has: term.value } };
+    case "collection":
+      return {
+        collection: {
+          is: { name: { equals: term.value, mode: "insensitive" }, deletedAt: null, trashedAt: null },
+        },
+      };
+    case "before":
+      return { createdAt: { lt: pinQueryDate(term.value) } };
+    case "after":
+      return { createdAt: { gte: pinQueryDate(term.value) } };
+    case "is":
+      return PIN_STATES[term.value];
+  }
+}
+
+function termSql(term: PinFieldTerm): Prisma.Sql {
+  switch (term.type) {
+    case "site": {
+      const { contains, endsWith } = siteUrlPatterns(term.value);
+      const patterns = [
+        ...contains.map((pattern) => `%${escapeLike(pattern)}%`),
+        ...endsWith.map((pattern) => `%${escapeLike(pattern)}`),
+      ];
+      return Prisma.sql`"url" ILIKE ANY(${patterns}::text[])`;
+    }
+    case "tag":
+      return Prisma.sql`${term.value} = ANY("tags")`;
+    case "collection":
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM "collections"
+        WHERE "collections"."id" = "pins"."collectionId" AND lower("collections"."name") = lower(${term.value})
+          AND "collections"."deletedAt" IS NULL AND "collections"."trashedAt" IS NULL)`;
+    case "before":
+      return Prisma.sql`"createdAt" < ${pinQueryDate(term.value)}`;
+    case "after":
+      return Prisma.sql`"createdAt" >= ${pinQueryDate(term.value)}`;
+    case "is":
+      return PIN_STATES_SQL[term.value];
+  }
+}
+
+/**
+ * Prisma filter for the field terms of a search query. Clients filter local
+ * pins with the same rules (compilePinQuery in @wiserpin/storage).
+ */
+export function toPinWhere(query: PinQuery) {
+  const terms = query.terms.filter((term): term is PinFieldTerm => term.type !== "text");
+  return {
+    AND: terms.map((term) => (term.negated ? { NOT: termWhere(term) } : termWhere(term))),
+  };
+}
+
+/**
+ * SQL conditions on the "pins" table for the field terms of a search query, like toPinWhere
+ */
+export function toPinSql(query: PinQuery): Prisma.Sql[] {
+  return query.terms
+    .filter((term): term is PinFieldTerm => term.type !== "text")
+    .map((term) => (term.negated ? Prisma.sql`NOT (${termSql(term)})` : termSql(term)));
+}
@@ -8,16 +8,23 @@ import {
   Delete,
   UseGuards,
   Query,
+  Headers,
 } from "@nestjs/common";
 import {
   ApiBearerAuth,
   ApiTags,
   ApiOperation,
-  ApiQuery,
 } from "@nestjs/swagger";
 import { PinsService } from "./pins.service";
 import { CreatePinDto } from "./dto/create-pin.dto";
 import { UpdatePinDto } from "./dto/update-pin.dto";
+import { FindPinsQueryDto } from "./dto/find-pins-query.dto";
+import {
+  BatchCreatePinsDto,
+  BatchUpdatePinsDto,
+  BatchDeletePinsDto,
+} from "./dto/batch-pins.dto";
+import { CLIENT_HEADER, revisionSource } from "./revisions";
 import { ClerkAuthGuard } from "../auth/clerk-auth.guard";
 import { CurrentUser } from "../auth/user.decorator";
 
@@ -37,43 +44,41 @@ export class PinsController {
     return this.pinsService.create(user.userId, createPinDto);
   }
 
+  @Post("batch")
+  @ApiOperation({ summary: "Create pins in one transaction, with a result per pin" })
+  createMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchCreatePinsDto,
+  ) {
+    return this.pinsService.createMany(user.userId, batchDto);
+  }
+
+  @Patch("batch")
+  @ApiOperation({ summary: "Update pins in one transaction, with a result per pin" })
+  updateMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchUpdatePinsDto,
+    @Headers(CLIENT_HEADER) client?: string,
+  ) {
+    return this.pinsService.updateMany(user.userId, batchDto, revisionSource(client));
+  }
+
+  @Delete("batch")
+  @ApiOperation({ summary: "Move pins to the trash in one transaction, with a result per pin" })
+  removeMany(
+    @CurrentUser() user: { userId: string },
+    @Body() batchDto: BatchDeletePinsDto,
+  ) {
+    return this.pinsService.removeMany(user.userId, batchDto);
+  }
+
   @Get()
-  @ApiOperation({ summary: "Get all pins for the current user" })
-  @ApiQuery({
-    name: "collectionId",
-    required: false,
-    description: "Filter by collection ID",
-  })
-  @ApiQuery({
-    name: "search",
-    required: false,
-    description: "Search pins by title, description, or URL",
-  })
-  @ApiQuery({
-    name: "page",
-    required: false,
-    description: "Page number (default: 1)",
-  })
-  @ApiQuery({
-    name: "limit",
-    required: false,
-    description: "Items per page (default: 12)",
-  })
+  @ApiOperation({ summary: "Get all pins for the current user, filtered, sorted and paged" })
   findAll(
     @CurrentUser() user: { userId: string },
-    @Query("collectionId") collectionId?: string,
-    @Query("search") search?: string,
-    @Query("page") page?: string,
-    @Query("limit") limit?: string,
+    @Query() query: FindPinsQueryDto,
   ) {
-    const pageNum = page ? parseInt(page, 10) : 1;
-    const limitNum = limit ? parseInt(limit, 10) : 12;
-    return this.pinsService.findAll(user.userId, {
-      collectionId,
-      search,
-      page: pageNum,
-      limit: limitNum,
-    });
+    return this.pinsService.findAll(user.userId, query);
   }
 
   @Get(":id")
@@ -88,13 +93,26 @@ export class PinsController {
     @CurrentUser() user: { userId: string },
     @Param("id") id: string,
     @Body() updatePinDto: UpdatePinDto,
+    @Headers(CLIENT_HEADER) client?: string,
   ) {
-    return this.pinsService.update(user.userId, id, updatePinDto);
+    return this.pinsService.update(user.userId, id, updatePinDto, revisionSource(client));
+  }
+
+  @Get(":id/revisions")
+  @ApiOperation({ summary: "Get the revision history of a pin, newest first" })
+  findRevisions(@CurrentUser() user: { userId: string }, @Param("id") id: string) {
+    return this.pinsService.findRevisions(user.userId, id);
   }
 
   @Delete(":id")
-  @ApiOperation({ summary: "Delete a pin" })
+  @ApiOperation({ summary: "Move a pin to the trash" })
   remove(@CurrentUser() user: { userId: string }, @Param("id") id: string) {
     return this.pinsService.remove(user.userId, id);
   }
+
+  @Post(":id/restore")
+  @ApiOperation({ summary: "Restore a pin from the trash, with its collection if trashed" })
+  restore(@CurrentUser() user: { userId: string }, @Param("id") id: string) {
+    return this.pinsService.restore(user.userId, id);
+  }
 }
@@ -1,16 +1,84 @@
 import {
   Injectable,
+  BadRequestException,
   NotFoundException,
   ForbiddenException,
   ConflictException,
 } from "@nestjs/common";
+import { Prisma, type Pin } from "@prisma/client";
 import { PrismaService } from "../prisma/prisma.service";
+import { isUniqueViolation } from "../prisma/prisma-errors";
+import { EventsService } from "../events/events.service";
 import { CreatePinDto } from "./dto/create-pin.dto";
 import { UpdatePinDto } from "./dto/update-pin.dto";
+import {
+  BatchCreatePinsDto,
+  BatchUpdatePinsDto,
+  BatchDeletePinsDto,
+} from "./dto/batch-pins.dto";
+import { recordRevision, RevisionSource } from "./revisions";
+import { FindPinsQueryDto, PinListSortField } from "./dto/find-pins-query.dto";
+import {
+  escapeLike,
+  pinStateSql,
+  pinStateWhere,
+  toPinSql,
+  toPinWhere,
+} from "./pin-query";
+import { afterCursor, cursorPage, encodeCursor } from "../common/cursor";
+import {
+  ENCRYPTED_PREFIX,
+  parsePinQuery,
+  PinQuerySyntaxError,
+  toPinTsQuery,
+  type PinQuery,
+} from "@wiserpin/core";
+
+/**
+ * Options of ts_headline for search snippets: matches are wrapped in <mark> tags
+ */
+const SNIPPET_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2";
+
+/**
+ * Error of saving a URL that a live pin of the user already has
+ */
+const DUPLICATE_URL_ERROR = "You have already saved this URL";
+
+/**
+ * A write that broke the unique URL of live pins (prisma/search.sql), because
+ * it raced another save of the URL, fails like the duplicate checks do
+ */
+function duplicateUrlConflict(error: unknown): unknown {
+  return isUniqueViolation(error) ? new ConflictException(DUPLICATE_URL_ERROR) : error;
+}
+
+/**
+ * Time allowed for the transaction of a full batch
+ */
+const BATCH_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Outcome of one item of a batch request, in the order of the request
+ * - created / updated / trashed: the write was made, see `record`
+ * - deleted: the pin was already deleted
+ * - existing: a pin with this ID already exists and is returned unchanged
+ * - conflict: a live pin already has this URL, see `id`
+ * - invalid: the item was skipped, see `error`
+ */
+export interface PinBatchResult {
+  index: number;
+  id?: string;
+  status: "created" | "updated" | "trashed" | "deleted" | "existing" | "conflict" | "invalid";
+  record?: unknown;
+  error?: string;
+}
 
 @Injectable()
 export class PinsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+  ) {}
 
   async create(userId: string, createPinDto: CreatePinDto) {
     // Ensure user exists (create if not)
@@ -22,17 +90,6 @@ export class PinsService {
       },
     });
 
-    // Verify collection belongs to user if provided (skip for upsert with ID)
-    if (createPinDto.collectionId && !createPinDto.id) {
-      const collection = await this.prisma.collection.findUnique({
-        where: { id: createPinDto.collectionId },
-      });
-
-      if (!collection || collection.userId !== userId) {
-        throw new ForbiddenException("Invalid collection");
-      }
-    }
-
     // If ID is provided, check if it already exists
     if (createPinDto.id) {
       const existing = await this.prisma.pin.findUnique({
@@ -42,44 +99,78 @@ export class PinsService {
         },
       });
 
-      if (existing) {
+      if (existing && !existing.deletedAt) {
         return existing;
       }
 
-      return this.prisma.pin.create({
+      const data = {
+        url: createPinDto.url,
+        title: createPinDto.title,
+        description: createPinDto.description,
+        imageUrl: createPinDto.imageUrl,
+        favicon: createPinDto.favicon,
+        siteName: createPinDto.siteName,
+        tags: createPinDto.tags || [],
+        note: createPinDto.note,
+        summaryText: createPinDto.summaryText,
+        summaryCreatedAt: createPinDto.summaryCreatedAt,
+        collectionId: createPinDto.collectionId,
+        createdAt: createPinDto.createdAt,
+        updatedAt: createPinDto.updatedAt,
+      };
+
+      if (existing && existing.userId !== userId) {
+        throw new ForbiddenException("You do not have access to this pin");
+      }
+
+      if (createPinDto.collectionId) {
+        await this.assertOwnCollection(userId, createPinDto.collectionId);
+      }
+
+      if (await this.findLiveDuplicate(userId, createPinDto.url, createPinDto.id)) {
+        throw new ConflictException(DUPLICATE_URL_ERROR);
+      }
+
+      // Re-creating a deleted pin (e.g. edited offline after deletion) revives it
+      if (existing) {
+        const revived = await this.prisma.pin.update({
+          where: { id: createPinDto.id },
+          data: { ...data, deletedAt: null, trashedAt: null },
+          include: {
+            collection: true,
+          },
+        }).catch((error) => {
+          throw duplicateUrlConflict(error);
+        });
+        return this.events.recordChanged(userId, "pin", revived);
+      }
+
+      const created = await this.prisma.pin.create({
         data: {
+          ...data,
           id: createPinDto.id,
-          url: createPinDto.url,
-          title: createPinDto.title,
-          description: createPinDto.description,
-          imageUrl: createPinDto.imageUrl,
-          favicon: createPinDto.favicon,
-          tags: createPinDto.tags || [],
-          collectionId: createPinDto.collectionId,
           userId,
         },
         include: {
           collection: true,
         },
+      }).catch((error) => {
+        throw duplicateUrlConflict(error);
       });
+      return this.events.recordChanged(userId, "pin", created);
     }
 
-    // Check for duplicate URL (only for new pins without ID)
-    const existing = await this.prisma.pin.findUnique({
-      where: {
-        userId_url: {
-          userId,
-          url: createPinDto.url,
-        },
-      },
-    });
+    if (createPinDto.collectionId) {
+      await this.assertOwnCollection(userId, createPinDto.collectionId);
+    }
 
-    if (existing) {
-      throw new ConflictException("You have already saved this URL");
+    // Check for duplicate URL among live pins
+    if (await this.findLiveDuplicate(userId, createPinDto.url)) {
+      throw new ConflictException(DUPLICATE_URL_ERROR);
     }
 
     // Otherwise create normally with auto-generated ID
-    return this.prisma.pin.create({
+    const created = await this.prisma.pin.create({
       data: {
         ...createPinDto,
         userId,
@@ -88,34 +179,181 @@ export class PinsService {
       include: {
         collection: true,
       },
+    }).catch((error) => {
+      throw duplicateUrlConflict(error);
     });
+    return this.events.recordChanged(userId, "pin", created);
   }
 
-  async findAll(
-    userId: string,
-    options?: {
-      collectionId?: string;
-      search?: string;
-      page?: number;
-      limit?: number;
-    },
-  ) {
-    const { collectionId, search, page = 1, limit = 12 } = options || {};
+  /**
+   * Create up to PINS_BATCH_LIMIT pins in one transaction. Items are checked
+   * like single creates, but a bad item is reported instead of failing the batch.
+   */
+  async createMany(userId: string, batchDto: BatchCreatePinsDto) {
+    await this.prisma.user.upsert({
+      where: { id: userId },
+      update: {},
+      create: {
+        id: userId,
+      },
+    });
+
+    const { items } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const validCollections = await this.findValidCollectionIds(
+          tx,
+          userId,
+          items.map((item) => item.collectionId),
+        );
+
+        const ids = items.map((item) => item.id).filter(Boolean);
+        const existingById = new Map<string, any>(
+          (await tx.pin.findMany({ where: { id: { in: ids } }, include: { collection: true } }))
+            .map((pin) => [pin.id, pin]),
+        );
+
+        // Live pins by URL, including the ones created earlier in this batch
+        const urls = items.map((item) => item.url);
+        const liveByUrl = new Map<string, string>(
+          (await tx.pin.findMany({
+            where: { userId, url: { in: urls }, deletedAt: null, trashedAt: null },
+            select: { id: true, url: true },
+          })).map((pin) => [pin.url, pin.id]),
+        );
+
+        const results: PinBatchResult[] = [];
+        for (const [index, item] of items.entries()) {
+          const { tags, ...fields } = item;
+          const data = { ...fields, tags: tags || [] };
+
+          // Pins with an ID are upserts from sync clients, like single creates
+          if (item.id) {
+            const existing = existingById.get(item.id);
+
+            if (existing && existing.userId !== userId) {
+              results.push({ index, id: item.id, status: "invalid", error: "You do not have access to this pin" });
+            } else if (existing && !existing.deletedAt) {
+              results.push({ index, id: item.id, status: "existing", record: existing });
+            } else if (item.collectionId && !validCollections.has(item.collectionId)) {
+              results.push({ index, id: item.id, status: "invalid", error: "Invalid collection" });
+            } else if (liveByUrl.has(item.url)) {
+              results.push({ index, id: liveByUrl.get(item.url), status: "conflict", error: DUPLICATE_URL_ERROR });
+            } else if (existing) {
+              const revived = await tx.pin.update({
+                where: { id: item.id },
+                data: { ...data, deletedAt: null, trashedAt: null },
+                include: { collection: true },
+              });
+              liveByUrl.set(revived.url, revived.id);
+              results.push({ index, id: item.id, status: "created", record: revived });
+            } else {
+              const created = await tx.pin.create({
+                data: { ...data, userId },
+                include: { collection: true },
+              });
+              existingById.set(created.id, created);
+              liveByUrl.set(created.url, created.id);
+              results.push({ index, id: item.id, status: "created", record: created });
+            }
+            continue;
+          }
+
+          if (item.collectionId && !validCollections.has(item.collectionId)) {
+            results.push({ index, status: "invalid", error: "Invalid collection" });
+            continue;
+          }
+
+          const duplicate = liveByUrl.get(item.url);
+          if (duplicate) {
+            results.push({ index, id: duplicate, status: "conflict", error: DUPLICATE_URL_ERROR });
+            continue;
+          }
+
+          const created = await tx.pin.create({
+            data: { ...data, userId },
+            include: { collection: true },
+          });
+          liveByUrl.set(created.url, created.id);
+          results.push({ index, id: created.id, status: "created", record: created });
+        }
+
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    ).catch((error) => {
+      throw duplicateUrlConflict(error);
+    });
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  async findAll(userId: string, filters: FindPinsQueryDto = {}) {
+    const {
+      collectionId,
+      uncategorized,
+      search,
+      sortBy,
+      sortOrder = "desc",
+      page = 1,
+      limit = 12,
+      cursor,
+      includeDeleted = false,
+    } = filters;
+
+    if (collectionId && uncategorized) {
+      throw new BadRequestException("collectionId and uncategorized can't be combined");
+    }
+    if (cursor && filters.page) {
+      throw new BadRequestException("page and cursor can't be combined");
+    }
+
     const skip = (page - 1) * limit;
+    const query = this.parseQuery(search);
+    const text = toPinTsQuery(query);
 
-    // Build where clause
+    // Build where clause (deleted and trashed pins are only returned to sync clients)
     const where: any = {
       userId,
       ...(collectionId && { collectionId }),
+      ...(uncategorized && { collectionId: null }),
+      ...(!includeDeleted && { deletedAt: null, trashedAt: null }),
+      AND: [toPinWhere(query), ...this.filterWhere(filters)],
     };
+    const orderBy = this.orderBy(sortBy ?? "createdAt", sortOrder);
+
+    // Cursors are positions in the default order, so they can't page through other orders
+    const byCreation = text === null && (sortBy ?? "createdAt") === "createdAt";
+    if (cursor && !byCreation) {
+      throw new BadRequestException("cursor can only be used with the createdAt sort order");
+    }
 
-    // Add search filter if provided
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: "insensitive" } },
-        { description: { contains: search, mode: "insensitive" } },
-        { url: { contains: search, mode: "insensitive" } },
+    // Searches are ordered by relevance unless a sort field is given
+    if (text !== null) {
+      const conditions = [
+        Prisma.sql`"userId" = ${userId}`,
+        ...(collectionId ? [Prisma.sql`"collectionId" = ${collectionId}`] : []),
+        ...(uncategorized ? [Prisma.sql`"collectionId" IS NULL`] : []),
+        ...(!includeDeleted ? [Prisma.sql`"deletedAt" IS NULL AND "trashedAt" IS NULL`] : []),
+        ...toPinSql(query),
+        ...this.filterSql(filters),
       ];
+      return this.search(userId, text, conditions, page, limit, sortBy ? this.orderBySql(sortBy, sortOrder) : null);
+    }
+
+    if (cursor) {
+      const pins = await this.prisma.pin.findMany({
+        where: { ...where, AND: [...where.AND, afterCursor(cursor, sortOrder)] },
+        include: {
+          collection: true,
+        },
+        orderBy,
+        take: limit + 1,
+      });
+      const { data, hasMore, nextCursor } = cursorPage(pins, limit);
+
+      return { data, meta: { limit, hasMore, nextCursor } };
     }
 
     // Get total count for pagination
@@ -127,11 +365,13 @@ export class PinsService {
       include: {
         collection: true,
       },
-      orderBy: { createdAt: "desc" },
+      orderBy,
       skip,
       take: limit,
     });
 
+    // The cursor lets clients go on from this page without offsets
+    const hasMore = skip + pins.length < total;
     return {
       data: pins,
       meta: {
@@ -139,10 +379,200 @@ export class PinsService {
         page,
         limit,
         totalPages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor: hasMore && byCreation ? encodeCursor(pins[pins.length - 1]) : null,
       },
     };
   }
 
+  /**
+   * Full-text search through the generated searchVector column (see prisma/search.sql),
+   * best matches first, among the pins matching SQL conditions. Only the page is
+   * read, and the matches are counted separately. Encrypted notes and summaries
+   * aren't indexed, so clients are told when they were left out.
+   */
+  private async search(
+    userId: string,
+    text: string,
+    conditions: Prisma.Sql[],
+    page: number,
+    limit: number,
+    orderBy: Prisma.Sql | null,
+  ) {
+    const tsquery = Prisma.sql`to_tsquery('simple', ${text})`;
+    const where = Prisma.join([...conditions, Prisma.sql`"searchVector" @@ ${tsquery}`], " AND ");
+
+    const [{ total }] = await this.prisma.$queryRaw<{ total: number }[]>`
+      SELECT count(*)::int AS total FROM "pins" WHERE ${where}`;
+
+    // Best matches first, newest first among equals, unless a sort field is given
+    const matches = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "pins"
+      WHERE ${where}
+      ORDER BY ${orderBy ?? Prisma.sql`ts_rank("searchVector", ${tsquery}) DESC, "createdAt" DESC, "id" ASC`}
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}`;
+    const ids = matches.map((match) => match.id);
+
+    const pins = await this.prisma.pin.findMany({
+      where: { id: { in: ids } },
+      include: {
+        collection: true,
+      },
+    });
+    const pinsById = new Map<string, any>(pins.map((pin) => [pin.id, pin]));
+
+    const snippets = await this.prisma.$queryRaw<{ id: string; snippet: string }[]>`
+      SELECT "id", ts_headline(
+        'simple',
+        concat_ws(' … ', "title", "description",
+          CASE WHEN "note" LIKE ${`${ENCRYPTED_PREFIX}%`} THEN NULL ELSE "note" END,
+          CASE WHEN "summaryText" LIKE ${`${ENCRYPTED_PREFIX}%`} THEN NULL ELSE "summaryText" END),
+        ${tsquery},
+        ${SNIPPET_OPTIONS}
+      ) AS snippet
+      FROM "pins"
+      WHERE "id" = ANY(${ids}::text[])`;
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { encryptionSalt: true },
+    });
+
+    return {
+      data: ids.map((id) => pinsById.get(id)).filter(Boolean),
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+        nextCursor: null,
+        snippets: Object.fromEntries(snippets.map((match) => [match.id, match.snippet])),
+        encryptedFieldsSkipped: !!user?.encryptionSalt,
+      },
+    };
+  }
+
+  /**
+   * Prisma filters for the list filters other than collection and search
+   */
+  private filterWhere(filters: FindPinsQueryDto): object[] {
+    const { tags, tagMatch = "any", domain, hasSummary } = filters;
+    const where: object[] = [];
+
+    if (tags?.length) {
+      where.push({ tags: tagMatch === "all" ? { hasEvery: tags } : { hasSome: tags } });
+    }
+
+    // Domains are stored without "www." (see prisma/search.sql)
+    if (domain) {
+      const host = domain.toLowerCase().replace(/^www\./, "");
+      where.push({ OR: [{ domain: host }, { domain: { endsWith: `.${host}` } }] });
+    }
+
+    const ranges = [
+      ["createdAt", filters.createdAfter, filters.createdBefore],
+      ["updatedAt", filters.updatedAfter, filters.updatedBefore],
+    ] as const;
+    for (const [field, after, before] of ranges) {
+      if (after || before) {
+        where.push({
+          [field]: { ...(after && { gte: new Date(after) }), ...(before && { lt: new Date(before) }) },
+        });
+      }
+    }
+
+    if (hasSummary !== undefined) {
+      const summarized = pinStateWhere("summarized");
+      where.push(hasSummary ? summarized : { NOT: summarized });
+    }
+
+    return where;
+  }
+
+  /**
+   * The list filters other than collection and search as SQL conditions on
+   * the "pins" table, like filterWhere
+   */
+  private filterSql(filters: FindPinsQueryDto): Prisma.Sql[] {
+    const { tags, tagMatch = "any", domain, hasSummary } = filters;
+    const conditions: Prisma.Sql[] = [];
+
+    if (tags?.length) {
+      conditions.push(
+        tagMatch === "all" ? Prisma.sql`"tags" @> ${tags}::text[]` : Prisma.sql`"tags" && ${tags}::text[]`,
+      );
+    }
+
+    if (domain) {
+      const host = domain.toLowerCase().replace(/^www\./, "");
+      conditions.push(Prisma.sql`("domain" = ${host} OR "domain" LIKE ${`%.${escapeLike(host)}`})`);
+    }
+
+    const ranges = [
+      [Prisma.raw('"createdAt"'), filters.createdAfter, filters.createdBefore],
+      [Prisma.raw('"updatedAt"'), filters.updatedAfter, filters.updatedBefore],
+    ] as const;
+    for (const [column, after, before] of ranges) {
+      if (after) {
+        conditions.push(Prisma.sql`${column} >= ${new Date(after)}`);
+      }
+      if (before) {
+        conditions.push(Prisma.sql`${column} < ${new Date(before)}`);
+      }
+    }
+
+    if (hasSummary !== undefined) {
+      const summarized = pinStateSql("summarized");
+      conditions.push(hasSummary ? summarized : Prisma.sql`NOT (${summarized})`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Sort order of a pin list, newest first among equal values.
+   * Pins without a domain (URLs it can't be read from) come last.
+   */
+  private orderBy(sortBy: PinListSortField, sortOrder: "asc" | "desc"): object[] {
+    const primary =
+      sortBy === "domain"
+        ? { domain: { sort: sortOrder, nulls: "last" } }
+        : { [sortBy]: sortOrder };
+    return sortBy === "createdAt"
+      ? [primary, { id: sortOrder }]
+      : [primary, { createdAt: "desc" }, { id: "asc" }];
+  }
+
+  /**
+   * The sort order of orderBy as an SQL ORDER BY list
+   */
+  private orderBySql(sortBy: PinListSortField, sortOrder: "asc" | "desc"): Prisma.Sql {
+    // Both are checked against fixed lists by FindPinsQueryDto
+    const column = Prisma.raw(`"${sortBy}"`);
+    const direction = Prisma.raw(sortOrder === "asc" ? "ASC" : "DESC");
+
+    if (sortBy === "createdAt") {
+      return Prisma.sql`"createdAt" ${direction}, "id" ${direction}`;
+    }
+    const nulls = Prisma.raw(sortBy === "domain" ? " NULLS LAST" : "");
+    return Prisma.sql`${column} ${direction}${nulls}, "createdAt" DESC, "id" ASC`;
+  }
+
+  /**
+   * Parse a search query (see parsePinQuery in @wiserpin/core)
+   */
+  private parseQuery(search?: string): PinQuery {
+    try {
+      return parsePinQuery(search || "");
+    } catch (error) {
+      if (error instanceof PinQuerySyntaxError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
   async findOne(userId: string, id: string) {
     const pin = await this.prisma.pin.findUnique({
       where: { id },
@@ -151,7 +581,7 @@ export class PinsService {
       },
     });
 
-    if (!pin) {
+    if (!pin || pin.deletedAt || pin.trashedAt) {
       throw new NotFoundException("Pin not found");
     }
 
@@ -162,12 +592,17 @@ export class PinsService {
     return pin;
   }
 
-  async update(userId: string, id: string, updatePinDto: UpdatePinDto) {
+  async update(
+    userId: string,
+    id: string,
+    updatePinDto: UpdatePinDto,
+    source: RevisionSource = "web",
+  ) {
     const pin = await this.prisma.pin.findUnique({
       where: { id },
     });
 
-    if (!pin) {
+    if (!pin || pin.deletedAt || pin.trashedAt) {
       throw new NotFoundException("Pin not found");
     }
 
@@ -177,30 +612,171 @@ export class PinsService {
 
     // Verify collection belongs to user if changing collection
     if (updatePinDto.collectionId) {
-      const collection = await this.prisma.collection.findUnique({
-        where: { id: updatePinDto.collectionId },
-      });
+      await this.assertOwnCollection(userId, updatePinDto.collectionId);
+    }
 
-      if (!collection || collection.userId !== userId) {
-        throw new ForbiddenException("Invalid collection");
-      }
+    if (updatePinDto.url && (await this.findLiveDuplicate(userId, updatePinDto.url, id))) {
+      throw new ConflictException(DUPLICATE_URL_ERROR);
     }
 
-    return this.prisma.pin.update({
-      where: { id },
-      data: updatePinDto,
-      include: {
-        collection: true,
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.pin.update({
+        where: { id },
+        data: updatePinDto,
+        include: {
+          collection: true,
+        },
+      });
+      await recordRevision(tx, userId, pin, updated, source);
+      return updated;
+    }).catch((error) => {
+      throw duplicateUrlConflict(error);
+    });
+    return this.events.recordChanged(userId, "pin", updated);
+  }
+
+  /**
+   * Update up to PINS_BATCH_LIMIT pins in one transaction
+   */
+  async updateMany(userId: string, batchDto: BatchUpdatePinsDto, source: RevisionSource = "web") {
+    const { items } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const pins = await this.findOwnPins(tx, userId, items.map((item) => item.id));
+        const validCollections = await this.findValidCollectionIds(
+          tx,
+          userId,
+          items.map((item) => item.collectionId),
+        );
+
+        // Live pins by URL, as the batch changes them
+        const urls = items.map((item) => item.url).filter(Boolean);
+        const liveByUrl = new Map<string, string>(
+          (await tx.pin.findMany({
+            where: { userId, url: { in: urls }, deletedAt: null, trashedAt: null },
+            select: { id: true, url: true },
+          })).map((pin) => [pin.url, pin.id]),
+        );
+
+        const results: PinBatchResult[] = [];
+        for (const [index, { id, ...data }] of items.entries()) {
+          const pin = pins.get(id);
+          const error = pin
+            ? data.collectionId && !validCollections.has(data.collectionId)
+              ? "Invalid collection"
+              : null
+            : "Pin not found";
+
+          if (error) {
+            results.push({ index, id, status: "invalid", error });
+            continue;
+          }
+
+          const duplicate = data.url && liveByUrl.get(data.url);
+          if (duplicate && duplicate !== id) {
+            results.push({ index, id: duplicate, status: "conflict", error: DUPLICATE_URL_ERROR });
+            continue;
+          }
+
+          const updated = await tx.pin.update({
+            where: { id },
+            data,
+            include: { collection: true },
+          });
+          await recordRevision(tx, userId, pin, updated, source);
+          if (updated.url !== pin.url) {
+            liveByUrl.delete(pin.url);
+            liveByUrl.set(updated.url, id);
+          }
+          pins.set(id, updated);
+          results.push({ index, id, status: "updated", record: updated });
+        }
+
+        return results;
       },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    ).catch((error) => {
+      throw duplicateUrlConflict(error);
+    });
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  /**
+   * Revision history of a pin, newest first. Encrypted values are returned
+   * as stored, for clients to decrypt.
+   */
+  async findRevisions(userId: string, id: string) {
+    const pin = await this.prisma.pin.findUnique({
+      where: { id },
+    });
+
+    if (!pin || pin.deletedAt) {
+      throw new NotFoundException("Pin not found");
+    }
+
+    if (pin.userId !== userId) {
+      throw new ForbiddenException("You do not have access to this pin");
+    }
+
+    return this.prisma.pinRevision.findMany({
+      where: { pinId: id },
+      orderBy: { createdAt: "desc" },
     });
   }
 
+  /**
+   * Move up to PINS_BATCH_LIMIT pins to the trash in one transaction. Pins that
+   * are already trashed or deleted are reported as such, so retries are harmless.
+   */
+  async removeMany(userId: string, batchDto: BatchDeletePinsDto) {
+    const { ids } = batchDto;
+    const results = await this.prisma.$transaction(
+      async (tx) => {
+        const pins = await tx.pin.findMany({ where: { id: { in: ids }, userId } });
+        const pinsById = new Map<string, any>(pins.map((pin) => [pin.id, pin]));
+        const now = new Date();
+
+        const results: PinBatchResult[] = [];
+        for (const [index, id] of ids.entries()) {
+          const pin = pinsById.get(id);
+
+          if (!pin) {
+            results.push({ index, id, status: "invalid", error: "Pin not found" });
+          } else if (pin.deletedAt) {
+            results.push({ index, id, status: "deleted" });
+          } else if (pin.trashedAt) {
+            results.push({ index, id, status: "trashed" });
+          } else {
+            const trashed = await tx.pin.update({
+              where: { id },
+              data: { trashedAt: now, updatedAt: now },
+            });
+            pinsById.set(id, trashed);
+            results.push({ index, id, status: "trashed", record: trashed });
+          }
+        }
+
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    );
+
+    this.announce(userId, results);
+    return { results };
+  }
+
+  /**
+   * Move a pin to the trash, where it can be restored until the trash is
+   * emptied or its retention period ends
+   */
   async remove(userId: string, id: string) {
     const pin = await this.prisma.pin.findUnique({
       where: { id },
     });
 
-    if (!pin) {
+    if (!pin || pin.deletedAt || pin.trashedAt) {
       throw new NotFoundException("Pin not found");
     }
 
@@ -208,8 +784,133 @@ export class PinsService {
       throw new ForbiddenException("You do not have access to this pin");
     }
 
-    return this.prisma.pin.delete({
+    const now = new Date();
+    const trashed = await this.prisma.pin.update({
       where: { id },
+      data: {
+        trashedAt: now,
+        updatedAt: now,
+      },
     });
+    return this.events.recordChanged(userId, "pin", trashed);
+  }
+
+  /**
+   * Bring a pin back from the trash, along with its collection if that was trashed too
+   */
+  async restore(userId: string, id: string) {
+    const pin = await this.prisma.pin.findUnique({
+      where: { id },
+      include: {
+        collection: true,
+      },
+    });
+
+    if (!pin || pin.deletedAt || !pin.trashedAt) {
+      throw new NotFoundException("Pin not found in trash");
+    }
+
+    if (pin.userId !== userId) {
+      throw new ForbiddenException("You do not have access to this pin");
+    }
+
+    // The URL may have been saved again while the pin was in the trash
+    if (await this.findLiveDuplicate(userId, pin.url, id)) {
+      throw new ConflictException(DUPLICATE_URL_ERROR);
+    }
+
+    const now = new Date();
+    const collection = pin.collection?.trashedAt && !pin.collection.deletedAt ? pin.collection : null;
+
+    const { restored, restoredCollection } = await this.prisma.$transaction(async (tx) => {
+      const restoredCollection = collection
+        ? await tx.collection.update({
+            where: { id: collection.id },
+            data: { trashedAt: null, updatedAt: now },
+          })
+        : null;
+
+      const restored = await tx.pin.update({
+        where: { id },
+        data: { trashedAt: null, updatedAt: now },
+        include: {
+          collection: true,
+        },
+      });
+      return { restored, restoredCollection };
+    }).catch((error) => {
+      throw duplicateUrlConflict(error);
+    });
+
+    // Clients hear about the restore only once it is committed
+    if (restoredCollection) {
+      this.events.recordChanged(userId, "collection", restoredCollection);
+    }
+    return this.events.recordChanged(userId, "pin", restored);
+  }
+
+  /**
+   * Fail unless the collection is a live collection of the user
+   */
+  private async assertOwnCollection(userId: string, collectionId: string) {
+    const collection = await this.prisma.collection.findUnique({
+      where: { id: collectionId },
+    });
+
+    if (!collection || collection.userId !== userId || collection.deletedAt || collection.trashedAt) {
+      throw new ForbiddenException("Invalid collection");
+    }
+  }
+
+  /**
+   * Another live pin of the user with the URL
+   */
+  private findLiveDuplicate(userId: string, url: string, exceptId?: string) {
+    return this.prisma.pin.findFirst({
+      where: {
+        userId,
+        url,
+        deletedAt: null,
+        trashedAt: null,
+        ...(exceptId && { id: { not: exceptId } }),
+      },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * The user's live pins among the given ones, by ID
+   */
+  private async findOwnPins(tx: Prisma.TransactionClient, userId: string, ids: string[]) {
+    const pins = await tx.pin.findMany({
+      where: { id: { in: ids }, userId, deletedAt: null, trashedAt: null },
+    });
+    return new Map<string, Pin>(pins.map((pin) => [pin.id, pin]));
+  }
+
+  /**
+   * IDs of the user's live collections among the given ones
+   */
+  private async findValidCollectionIds(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    ids: (string | undefined)[],
+  ) {
+    const collections = await tx.collection.findMany({
+      where: { id: { in: ids.filter(Boolean) }, userId, deletedAt: null, trashedAt: null },
+      select: { id: true },
+    });
+    return new Set<string>(collections.map((collection) => collection.id));
+  }
+
+  /**
+   * Tell the user's clients about the writes of a batch, once it is committed
+   */
+  private announce(userId: string, results: PinBatchResult[]) {
+    for (const result of results) {
+      if (result.record && result.status !== "existing") {
+        this.events.recordChanged(userId, "pin", result.record as { id: string; updatedAt: Date });
+      }
+    }
   }
 }
@@ -0,0 +1,59 @@
+import type { Pin, Prisma } from "@prisma/client";
+import {
+  diffPinRevision,
+  redactPinRevisionChanges,
+  type PinRevisionValues,
+  type RevisionSource,
+} from "@wiserpin/core";
+
+export type { RevisionSource };
+
+/**
+ * Header clients send to say which one they are (CLIENT_HEADER in @wiserpin/core)
+ */
+export const CLIENT_HEADER = "x-wiserpin-client";
+
+type RevisedPin = Pick<Pin, "title" | "note" | "tags" | "summaryText">;
+
+/**
+ * Source of an edit made through the REST API, from the client header
+ */
+export function revisionSource(client?: string): RevisionSource {
+  return client === "extension" ? "extension" : "web";
+}
+
+function revisionValues(pin: RevisedPin): PinRevisionValues {
+  return {
+    title: pin.title ?? null,
+    note: pin.note ?? null,
+    tags: pin.tags ?? [],
+    summaryText: pin.summaryText ?? null,
+  };
+}
+
+/**
+ * Append a revision for an edit of a pin, when it changed a revised field.
+ * Plaintext replaced by ciphertext isn't kept (see redactPinRevisionChanges).
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  before: RevisedPin,
+  after: RevisedPin & { id: string; updatedAt: Date },
+  source: RevisionSource,
+) {
+  const changes = diffPinRevision(revisionValues(before), revisionValues(after));
+  if (!changes) {
+    return null;
+  }
+
+  return tx.pinRevision.create({
+    data: {
+      pinId: after.id,
+      userId,
+      changes: redactPinRevisionChanges(changes) as Prisma.InputJsonObject,
+      source,
+      createdAt: after.updatedAt,
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Whether a write failed on a unique constraint, such as the unique URL of
+ * live pins (see prisma/search.sql)
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
@@ -0,0 +1,69 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Largest page of pins a public collection request can ask for
+ */
+export const PUBLIC_PINS_PAGE_LIMIT = 100;
+
+export class UpdateShareDto {
+  @ApiPropertyOptional({
+    description: 'When the link stops working (ISO 8601), or null for no expiry',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Password visitors need to open the link, or null to remove it',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MinLength(4)
+  @MaxLength(200)
+  password?: string | null;
+
+  @ApiPropertyOptional({ description: 'Pins of the collection to leave out of the public page' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5000)
+  @IsString({ each: true })
+  hiddenPinIds?: string[];
+}
+
+export class PublicCollectionQueryDto {
+  @ApiPropertyOptional({ description: 'Cursor from meta.nextCursor of the previous page' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Pins per page (default: 50)',
+    minimum: 1,
+    maximum: PUBLIC_PINS_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(PUBLIC_PINS_PAGE_LIMIT)
+  limit?: number;
+}
@@ -0,0 +1,97 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+/**
+ * Hash of a share link password, stored as "scrypt:<salt>:<hash>" in base64url
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('base64url')}:${hash.toString('base64url')}`;
+}
+
+/**
+ * Whether a password matches a hash made by hashSharePassword
+ */
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Wrong passwords a client can send to a share link within
+ * PASSWORD_FAILURE_WINDOW_MS before the link stops checking its passwords
+ */
+export const MAX_PASSWORD_FAILURES = 10;
+
+export const PASSWORD_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Wrong password attempts per share link and client IP, so a password can't
+ * be found by trying many, and one client's guesses don't lock others out.
+ * Counts are kept in the database, shared by all API instances.
+ */
+@Injectable()
+export class SharePasswordFailures {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Whether the client sent the link too many wrong passwords lately
+   */
+  async isLocked(shareId: string, clientIp: string, now = new Date()): Promise<boolean> {
+    const failures = await this.prisma.sharePasswordFailure.findUnique({
+      where: { shareId_clientIp: { shareId, clientIp } },
+    });
+    return (
+      !!failures &&
+      failures.count >= MAX_PASSWORD_FAILURES &&
+      now.getTime() - failures.since.getTime() < PASSWORD_FAILURE_WINDOW_MS
+    );
+  }
+
+  /**
+   * Count a wrong password, in a new window if the last one has passed
+   */
+  async record(shareId: string, clientIp: string, now = new Date()) {
+    const windowStart = new Date(now.getTime() - PASSWORD_FAILURE_WINDOW_MS);
+
+    await this.prisma.$executeRaw`
+      INSERT INTO "share_password_failures" ("shareId", "clientIp", "count", "since")
+      VALUES (${shareId}, ${clientIp}, 1, ${now})
+      ON CONFLICT ("shareId", "clientIp") DO UPDATE SET
+        "count" = CASE WHEN "share_password_failures"."since" <= ${windowStart} THEN 1
+                       ELSE "share_password_failures"."count" + 1 END,
+        "since" = CASE WHEN "share_password_failures"."since" <= ${windowStart} THEN ${now}
+                       ELSE "share_password_failures"."since" END`;
+
+    // Windows that have passed hold nothing worth keeping
+    await this.prisma.sharePasswordFailure.deleteMany({
+      where: { shareId, since: { lte: windowStart } },
+    });
+  }
+
+  /**
+   * Forget the wrong passwords of one client, or of all clients of the link
+   */
+  async clear(shareId: string, clientIp?: string) {
+    await this.prisma.sharePasswordFailure.deleteMany({
+      where: { shareId, ...(clientIp !== undefined && { clientIp }) },
+    });
+  }
+}
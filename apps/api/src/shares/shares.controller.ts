@@ -0,0 +1,59 @@
+import { Controller, Get, Put, Delete, Body, Param, Query, Headers, Ip, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
+import { SHARE_PASSWORD_HEADER } from '@wiserpin/core';
+import { SharesService } from './shares.service';
+import { PublicCollectionQueryDto, UpdateShareDto } from './dto/update-share.dto';
+import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('shares')
+@ApiBearerAuth()
+@UseGuards(ClerkAuthGuard)
+@Controller('collections/:id/share')
+export class SharesController {
+  constructor(private readonly sharesService: SharesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the share link of a collection, or null when it was never published' })
+  findOne(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
+    return this.sharesService.findOne(user.userId, id);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Publish a collection, or change the expiry, password or hidden pins of its link' })
+  publish(
+    @CurrentUser() user: { userId: string },
+    @Param('id') id: string,
+    @Body() updateShareDto: UpdateShareDto,
+  ) {
+    return this.sharesService.publish(user.userId, id, updateShareDto);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Revoke the share link of a collection' })
+  revoke(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
+    return this.sharesService.revoke(user.userId, id);
+  }
+}
+
+@ApiTags('public')
+@Controller('public/collections')
+export class PublicSharesController {
+  constructor(private readonly sharesService: SharesService) {}
+
+  @Get(':slug')
+  @ApiOperation({ summary: 'Get a shared collection and its visible pins, without signing in' })
+  @ApiHeader({
+    name: SHARE_PASSWORD_HEADER,
+    required: false,
+    description: 'Password of a protected share link; 429 after too many wrong ones from the same IP',
+  })
+  findOne(
+    @Param('slug') slug: string,
+    @Headers(SHARE_PASSWORD_HEADER) password: string | undefined,
+    @Ip() clientIp: string,
+    @Query() query: PublicCollectionQueryDto,
+  ) {
+    return this.sharesService.findPublic(slug, password, clientIp, query);
+  }
+}
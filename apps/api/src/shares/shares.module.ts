@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SharesService } from './shares.service';
+import { SharePasswordFailures } from './share-password';
+import { SharesController, PublicSharesController } from './shares.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [SharesController, PublicSharesController],
+  providers: [SharesService, SharePasswordFailures],
+})
+export class SharesModule {}
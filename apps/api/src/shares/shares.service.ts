@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { CollectionShare } from '@prisma/client';
+import { isEncrypted, type ApiCollectionShare, type ApiPublicCollection } from '@wiserpin/core';
+import { PrismaService } from '../prisma/prisma.service';
+import { afterCursor, cursorPage } from '../common/cursor';
+import { hashSharePassword, SharePasswordFailures, verifySharePassword } from './share-password';
+import { PublicCollectionQueryDto, UpdateShareDto } from './dto/update-share.dto';
+
+/**
+ * Pin fields shown on public pages; notes stay private
+ */
+const PUBLIC_PIN_FIELDS = {
+  id: true,
+  url: true,
+  title: true,
+  description: true,
+  imageUrl: true,
+  favicon: true,
+  siteName: true,
+  tags: true,
+  summaryText: true,
+  createdAt: true,
+} as const;
+
+@Injectable()
+export class SharesService {
+  constructor(
+    private prisma: PrismaService,
+    private passwordFailures: SharePasswordFailures,
+  ) {}
+
+  /**
+   * Share link of a collection, or null when it was never published
+   */
+  async findOne(userId: string, collectionId: string): Promise<ApiCollectionShare | null> {
+    await this.findOwnCollection(userId, collectionId);
+    const share = await this.prisma.collectionShare.findUnique({ where: { collectionId } });
+    return share ? this.toApiShare(share) : null;
+  }
+
+  /**
+   * Publish a collection, or change its share link. A revoked link is
+   * replaced by one with a new slug, so the old URL keeps failing.
+   */
+  async publish(userId: string, collectionId: string, dto: UpdateShareDto): Promise<ApiCollectionShare> {
+    await this.findOwnCollection(userId, collectionId);
+
+    if (dto.expiresAt && new Date(dto.expiresAt).getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const existing = await this.prisma.collectionShare.findUnique({ where: { collectionId } });
+    const data = {
+      ...(dto.expiresAt !== undefined && {
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+      }),
+      ...(dto.password !== undefined && {
+        passwordHash: dto.password ? await hashSharePassword(dto.password) : null,
+      }),
+      ...(dto.hiddenPinIds && {
+        hiddenPinIds: await this.collectionPinIds(collectionId, dto.hiddenPinIds),
+      }),
+    };
+
+    let share;
+    if (!existing) {
+      share = await this.prisma.collectionShare.create({
+        data: { ...data, slug: this.newSlug(), collectionId, userId },
+      });
+    } else if (existing.revokedAt) {
+      // Settings of the revoked link aren't carried over, apart from hidden pins
+      share = await this.prisma.collectionShare.update({
+        where: { id: existing.id },
+        data: {
+          expiresAt: null,
+          passwordHash: null,
+          ...data,
+          slug: this.newSlug(),
+          revokedAt: null,
+        },
+      });
+    } else {
+      share = await this.prisma.collectionShare.update({ where: { id: existing.id }, data });
+    }
+
+    // A new password starts with a clean slate
+    if (dto.password !== undefined) {
+      await this.passwordFailures.clear(share.id);
+    }
+
+    return this.toApiShare(share);
+  }
+
+  /**
+   * Revoke the share link of a collection; its public page stops working at once
+   */
+  async revoke(userId: string, collectionId: string): Promise<ApiCollectionShare> {
+    await this.findOwnCollection(userId, collectionId);
+    const share = await this.prisma.collectionShare.findUnique({ where: { collectionId } });
+
+    if (!share) {
+      throw new NotFoundException('This collection is not shared');
+    }
+    if (share.revokedAt) {
+      return this.toApiShare(share);
+    }
+
+    return this.toApiShare(
+      await this.prisma.collectionShare.update({
+        where: { id: share.id },
+        data: { revokedAt: new Date() },
+      }),
+    );
+  }
+
+  /**
+   * Public page of a shared collection, without authentication. Unknown,
+   * revoked and expired links all look the same, so slugs can't be probed.
+   */
+  async findPublic(
+    slug: string,
+    password: string | undefined,
+    clientIp: string,
+    query: PublicCollectionQueryDto,
+  ): Promise<ApiPublicCollection> {
+    const { cursor, limit = 50 } = query;
+
+    const share = await this.prisma.collectionShare.findUnique({
+      where: { slug },
+      include: { collection: true },
+    });
+    const collection = share?.collection;
+
+    if (
+      !share ||
+      share.revokedAt ||
+      (share.expiresAt && share.expiresAt.getTime() <= Date.now()) ||
+      collection.deletedAt ||
+      collection.trashedAt
+    ) {
+      throw new NotFoundException('Shared collection not found');
+    }
+
+    if (share.passwordHash) {
+      if (!password) {
+        throw new UnauthorizedException('This shared collection needs a password');
+      }
+      if (await this.passwordFailures.isLocked(share.id, clientIp)) {
+        throw new HttpException('Too many wrong passwords, try again later', HttpStatus.TOO_MANY_REQUESTS);
+      }
+      if (!(await verifySharePassword(password, share.passwordHash))) {
+        await this.passwordFailures.record(share.id, clientIp);
+        throw new UnauthorizedException('Wrong password');
+      }
+      await this.passwordFailures.clear(share.id, clientIp);
+    }
+
+    const pins = await this.prisma.pin.findMany({
+      where: {
+        collectionId: collection.id,
+        deletedAt: null,
+        trashedAt: null,
+        ...(share.hiddenPinIds.length > 0 && { id: { notIn: share.hiddenPinIds } }),
+        ...(cursor && afterCursor(cursor, 'desc')),
+      },
+      select: PUBLIC_PIN_FIELDS,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+    const { data, hasMore, nextCursor } = cursorPage(pins, limit);
+
+    return {
+      collection: {
+        name: collection.name,
+        description: isEncrypted(collection.description) ? null : collection.description,
+        color: collection.color,
+      },
+      data: data.map((pin) => ({
+        ...pin,
+        summaryText: isEncrypted(pin.summaryText) ? null : pin.summaryText,
+        createdAt: pin.createdAt.toISOString(),
+      })),
+      meta: { limit, hasMore, nextCursor },
+    };
+  }
+
+  private async findOwnCollection(userId: string, collectionId: string) {
+    const collection = await this.prisma.collection.findUnique({ where: { id: collectionId } });
+
+    if (!collection || collection.deletedAt || collection.trashedAt) {
+      throw new NotFoundException('Collection not found');
+    }
+
+    if (collection.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this collection');
+    }
+
+    return collection;
+  }
+
+  /**
+   * The given IDs that are pins of the collection
+   */
+  private async collectionPinIds(collectionId: string, ids: string[]): Promise<string[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const pins = await this.prisma.pin.findMany({
+      where: { collectionId, id: { in: ids } },
+      select: { id: true },
+    });
+    return pins.map((pin) => pin.id);
+  }
+
+  /**
+   * 128 random bits, so share links can't be guessed
+   */
+  private newSlug() {
+    return randomBytes(16).toString('base64url');
+  }
+
+  private toApiShare(share: CollectionShare): ApiCollectionShare {
+    return {
+      slug: share.slug,
+      expiresAt: share.expiresAt?.toISOString() ?? null,
+      revokedAt: share.revokedAt?.toISOString() ?? null,
+      hasPassword: !!share.passwordHash,
+      hiddenPinIds: share.hiddenPinIds,
+      createdAt: share.createdAt.toISOString(),
+      updatedAt: share.updatedAt.toISOString(),
+    };
+  }
+}
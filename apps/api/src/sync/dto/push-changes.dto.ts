@@ -0,0 +1,86 @@
+import {
+  IsIn,
+  IsUUID,
+  IsDateString,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateCollectionDto } from '../../collections/dto/create-collection.dto';
+import { CreatePinDto } from '../../pins/dto/create-pin.dto';
+
+/**
+ * Maximum number of mutations per entity type in one push request
+ */
+export const SYNC_PUSH_LIMIT = 100;
+
+export class SyncCollectionDataDto extends OmitType(CreateCollectionDto, ['id', 'updatedAt'] as const) {
+  @ApiPropertyOptional({ description: 'When the collection was moved to the trash (ISO 8601), null once restored', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  trashedAt?: string | null;
+}
+
+export class SyncPinDataDto extends OmitType(CreatePinDto, ['id', 'updatedAt'] as const) {
+  @ApiPropertyOptional({ description: 'When the pin was moved to the trash (ISO 8601), null once restored', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  trashedAt?: string | null;
+}
+
+class MutationDto {
+  @ApiProperty({ description: 'Mutation type', enum: ['upsert', 'delete'] })
+  @IsIn(['upsert', 'delete'])
+  op: 'upsert' | 'delete';
+
+  @ApiProperty({ description: 'Record ID (UUID)' })
+  @IsUUID()
+  id: string;
+
+  @ApiProperty({ description: 'Client time of the change (ISO 8601): updatedAt for upserts, deletedAt for deletes' })
+  @IsDateString()
+  timestamp: string;
+
+  @ApiPropertyOptional({ description: 'updatedAt of the server version the change was based on, enables conflict detection' })
+  @IsOptional()
+  @IsDateString()
+  baseVersion?: string;
+}
+
+export class CollectionMutationDto extends MutationDto {
+  @ApiPropertyOptional({ description: 'Collection fields, required for upserts', type: SyncCollectionDataDto })
+  @ValidateIf((mutation) => mutation.op === 'upsert')
+  @ValidateNested()
+  @Type(() => SyncCollectionDataDto)
+  data?: SyncCollectionDataDto;
+}
+
+export class PinMutationDto extends MutationDto {
+  @ApiPropertyOptional({ description: 'Pin fields, required for upserts', type: SyncPinDataDto })
+  @ValidateIf((mutation) => mutation.op === 'upsert')
+  @ValidateNested()
+  @Type(() => SyncPinDataDto)
+  data?: SyncPinDataDto;
+}
+
+export class PushChangesDto {
+  @ApiPropertyOptional({ description: 'Collection mutations', type: [CollectionMutationDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_PUSH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => CollectionMutationDto)
+  collections?: CollectionMutationDto[];
+
+  @ApiPropertyOptional({ description: 'Pin mutations', type: [PinMutationDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(SYNC_PUSH_LIMIT)
+  @ValidateNested({ each: true })
+  @Type(() => PinMutationDto)
+  pins?: PinMutationDto[];
+}
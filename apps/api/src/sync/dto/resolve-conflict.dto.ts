@@ -0,0 +1,18 @@
+import { IsIn, IsObject, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ResolveConflictDto {
+  @ApiProperty({
+    description: 'Keep the device version, the cloud version, or merge them field by field',
+    enum: ['local', 'remote', 'merge'],
+  })
+  @IsIn(['local', 'remote', 'merge'])
+  resolution: 'local' | 'remote' | 'merge';
+
+  @ApiPropertyOptional({
+    description: 'Side to take per field when merging, e.g. { "title": "local", "description": "remote" }',
+  })
+  @ValidateIf((dto) => dto.resolution === 'merge')
+  @IsObject()
+  fields?: Record<string, 'local' | 'remote'>;
+}
@@ -0,0 +1,19 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SetupEncryptionDto {
+  @ApiProperty({ description: 'Salt the clients derive the key from, with the passphrase (base64)' })
+  @IsString()
+  @MaxLength(100)
+  salt: string;
+
+  @ApiProperty({ description: 'Known text encrypted with the key, used by clients to check a passphrase' })
+  @IsString()
+  @MaxLength(500)
+  keyCheck: string;
+
+  @ApiPropertyOptional({ description: 'Also encrypt collection descriptions (goals)', default: false })
+  @IsOptional()
+  @IsBoolean()
+  encryptCollections?: boolean;
+}
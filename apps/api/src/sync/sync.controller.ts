@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  Headers,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { CLIENT_ID_HEADER } from "@wiserpin/core";
+import { SyncService } from "./sync.service";
+import { PushChangesDto } from "./dto/push-changes.dto";
+import { ResolveConflictDto } from "./dto/resolve-conflict.dto";
+import { SetupEncryptionDto } from "./dto/setup-encryption.dto";
+import { ClerkAuthGuard } from "../auth/clerk-auth.guard";
+import { CurrentUser } from "../auth/user.decorator";
+
+@ApiTags("sync")
+@ApiBearerAuth()
+@UseGuards(ClerkAuthGuard)
+@Controller("sync")
+export class SyncController {
+  constructor(private readonly syncService: SyncService) {}
+
+  @Get("changes")
+  @ApiOperation({
+    summary: "Get collections and pins changed since a cursor, including deletions",
+  })
+  @ApiQuery({
+    name: "since",
+    required: false,
+    description: "Cursor returned by the previous call (omit for a full sync)",
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    description: "Max records per entity type (default: 500, max: 1000)",
+  })
+  getChanges(
+    @CurrentUser() user: { userId: string },
+    @Query("since") since?: string,
+    @Query("limit") limit?: string,
+  ) {
+    const limitNum = limit ? parseInt(limit, 10) : 500;
+    return this.syncService.getChanges(
+      user.userId,
+      since,
+      Math.min(Math.max(limitNum || 500, 1), 1000),
+    );
+  }
+
+  @Post("push")
+  @ApiOperation({ summary: "Apply a batch of collection and pin mutations" })
+  push(
+    @CurrentUser() user: { userId: string },
+    @Body() pushChangesDto: PushChangesDto,
+    @Headers(CLIENT_ID_HEADER) clientId?: string,
+  ) {
+    return this.syncService.pushChanges(user.userId, pushChangesDto, clientId);
+  }
+
+  @Get("encryption")
+  @ApiOperation({ summary: "Get the E2E encryption settings (salt and key check, never the key)" })
+  getEncryption(@CurrentUser() user: { userId: string }) {
+    return this.syncService.getEncryption(user.userId);
+  }
+
+  @Put("encryption")
+  @ApiOperation({ summary: "Turn on E2E encryption for note and summary fields" })
+  setupEncryption(
+    @CurrentUser() user: { userId: string },
+    @Body() setupEncryptionDto: SetupEncryptionDto,
+  ) {
+    return this.syncService.setupEncryption(user.userId, setupEncryptionDto);
+  }
+
+  @Get("conflicts")
+  @ApiOperation({ summary: "Get open sync conflicts for the current user" })
+  findConflicts(@CurrentUser() user: { userId: string }) {
+    return this.syncService.findConflicts(user.userId);
+  }
+
+  @Post("conflicts/:id/resolve")
+  @ApiOperation({
+    summary: "Resolve a sync conflict by keeping one version or merging fields",
+  })
+  resolveConflict(
+    @CurrentUser() user: { userId: string },
+    @Param("id") id: string,
+    @Body() resolveConflictDto: ResolveConflictDto,
+    @Headers(CLIENT_ID_HEADER) clientId?: string,
+  ) {
+    return this.syncService.resolveConflict(user.userId, id, resolveConflictDto, clientId);
+  }
+}
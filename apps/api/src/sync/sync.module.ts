@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SyncService } from './sync.service';
+import { SyncController } from './sync.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [SyncController],
+  providers: [SyncService],
+})
+export class SyncModule {}
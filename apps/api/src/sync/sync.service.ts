@@ -0,0 +1,624 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { isUniqueViolation } from '../prisma/prisma-errors';
+import { EventsService } from '../events/events.service';
+import {
+  PushChangesDto,
+  CollectionMutationDto,
+  PinMutationDto,
+} from './dto/push-changes.dto';
+import { ResolveConflictDto } from './dto/resolve-conflict.dto';
+import { SetupEncryptionDto } from './dto/setup-encryption.dto';
+import { recordRevision } from '../pins/revisions';
+
+type SyncEntity = 'collection' | 'pin';
+
+/**
+ * Fields written when a conflict is resolved, and the subset that can be merged one by one
+ */
+const CONFLICT_FIELDS: Record<SyncEntity, { writable: string[]; mergeable: string[] }> = {
+  collection: {
+    writable: ['name', 'description', 'color', 'icon', 'trashedAt'],
+    mergeable: ['name', 'description', 'color'],
+  },
+  pin: {
+    writable: [
+      'url', 'title', 'description', 'imageUrl', 'favicon', 'siteName', 'tags',
+      'note', 'summaryText', 'summaryCreatedAt', 'collectionId', 'trashedAt',
+    ],
+    mergeable: ['title', 'note', 'summaryText', 'collectionId'],
+  },
+};
+
+/**
+ * Fields that always come from the same side as another field when merging
+ */
+const MERGE_COMPANIONS: Record<string, string> = {
+  summaryCreatedAt: 'summaryText',
+};
+
+/**
+ * Position in the changes feed: transaction ID (changeXid) and id of the last record seen
+ */
+type FeedPosition = [string, string];
+
+/**
+ * Tables in the changes feed, by the cursor key that keeps their position
+ */
+const FEED_TABLES = {
+  collections: Prisma.raw('"collections"'),
+  pins: Prisma.raw('"pins"'),
+};
+
+interface SyncCursor {
+  collections?: FeedPosition;
+  pins?: FeedPosition;
+}
+
+/**
+ * Outcome of a single pushed mutation
+ * - applied: the server now holds the client's version
+ * - stale: the server holds a newer version, returned in `record`
+ * - conflict: both sides edited the record; both versions are kept until resolved
+ * - rejected: the mutation is invalid, see `error`
+ */
+export interface PushResult {
+  id: string;
+  status: 'applied' | 'stale' | 'conflict' | 'rejected';
+  record?: unknown;
+  error?: string;
+}
+
+@Injectable()
+export class SyncService {
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+  ) {}
+
+  /**
+   * Collections and pins written since the cursor, including deletions.
+   * Records are ordered by the transaction that wrote them, and only served
+   * once every older transaction has ended, so a slow write can't commit
+   * behind a cursor that already moved past it.
+   */
+  async getChanges(userId: string, since?: string, limit = 500) {
+    const position = since ? this.decodeCursor(since) : {};
+
+    const [collectionIds, pinIds] = await Promise.all([
+      this.changedIds('collections', userId, position.collections, limit),
+      this.changedIds('pins', userId, position.pins, limit),
+    ]);
+
+    const hasMore = collectionIds.length > limit || pinIds.length > limit;
+    const collectionsPage = collectionIds.slice(0, limit);
+    const pinsPage = pinIds.slice(0, limit);
+
+    const [collections, pins] = await Promise.all([
+      this.prisma.collection.findMany({
+        where: { id: { in: collectionsPage.map((change) => change.id) } },
+      }),
+      this.prisma.pin.findMany({
+        where: { id: { in: pinsPage.map((change) => change.id) } },
+      }),
+    ]);
+
+    return {
+      collections: this.inFeedOrder(collections, collectionsPage),
+      pins: this.inFeedOrder(pins, pinsPage),
+      cursor: this.encodeCursor({
+        collections: this.positionOf(collectionsPage) ?? position.collections,
+        pins: this.positionOf(pinsPage) ?? position.pins,
+      }),
+      hasMore,
+    };
+  }
+
+  /**
+   * Apply a batch of client mutations. Each mutation is applied on its own,
+   * and only if it is at least as recent as what the server already holds.
+   */
+  async pushChanges(userId: string, pushChangesDto: PushChangesDto, clientId?: string) {
+    // Ensure user exists (create if not)
+    await this.prisma.user.upsert({
+      where: { id: userId },
+      update: {},
+      create: {
+        id: userId,
+      },
+    });
+
+    const collections: PushResult[] = [];
+    for (const mutation of pushChangesDto.collections || []) {
+      const result = await this.applyCollectionMutation(userId, mutation);
+      this.announce(userId, 'collection', result, clientId);
+      collections.push(result);
+    }
+
+    const pins: PushResult[] = [];
+    for (const mutation of pushChangesDto.pins || []) {
+      const result = await this.applyPinMutation(userId, mutation);
+      this.announce(userId, 'pin', result, clientId);
+      pins.push(result);
+    }
+
+    return { collections, pins };
+  }
+
+  /**
+   * E2E encryption settings shared by the user's clients. The key itself
+   * never reaches the API; encrypted fields are stored as they arrive.
+   */
+  async getEncryption(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    return {
+      enabled: !!user?.encryptionSalt,
+      salt: user?.encryptionSalt ?? null,
+      keyCheck: user?.encryptionKeyCheck ?? null,
+      encryptCollections: user?.encryptCollections ?? false,
+    };
+  }
+
+  /**
+   * Turn on E2E encryption. The salt can only be set once, since changing it
+   * would leave data encrypted by other clients unreadable.
+   */
+  async setupEncryption(userId: string, setupEncryptionDto: SetupEncryptionDto) {
+    const user = await this.prisma.user.upsert({
+      where: { id: userId },
+      update: {},
+      create: {
+        id: userId,
+      },
+    });
+
+    if (user.encryptionSalt) {
+      throw new ConflictException('Encryption is already set up');
+    }
+
+    // Revisions hold plaintext notes and summaries, so the history starts over
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          encryptionSalt: setupEncryptionDto.salt,
+          encryptionKeyCheck: setupEncryptionDto.keyCheck,
+          encryptCollections: setupEncryptionDto.encryptCollections ?? false,
+        },
+      }),
+      this.prisma.pinRevision.deleteMany({ where: { userId } }),
+    ]);
+
+    console.log(`[SyncService] Encryption set up for user ${userId}`);
+    return this.getEncryption(userId);
+  }
+
+  /**
+   * Open conflicts for the user, newest first
+   */
+  async findConflicts(userId: string) {
+    return this.prisma.syncConflict.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Resolve a conflict by keeping one version or merging them field by field.
+   * The result is saved as a new edit, so every device pulls it. A record
+   * deleted in the cloud meanwhile stays deleted, unless the device version
+   * is kept.
+   */
+  async resolveConflict(
+    userId: string,
+    id: string,
+    resolveConflictDto: ResolveConflictDto,
+    clientId?: string,
+  ) {
+    const conflict = await this.prisma.syncConflict.findUnique({
+      where: { id },
+    });
+
+    if (!conflict) {
+      throw new NotFoundException(`Conflict with ID ${id} not found`);
+    }
+
+    if (conflict.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this conflict');
+    }
+
+    const entity = conflict.entity as SyncEntity;
+    const { writable, mergeable } = CONFLICT_FIELDS[entity];
+    const local = conflict.localData as Record<string, unknown>;
+    const remote = conflict.remoteData as Record<string, unknown>;
+    const { resolution } = resolveConflictDto;
+    const fields = resolveConflictDto.fields || {};
+
+    for (const field of Object.keys(fields)) {
+      if (!mergeable.includes(field)) {
+        throw new BadRequestException(`Field ${field} cannot be merged`);
+      }
+    }
+
+    const data: Record<string, unknown> = {};
+    for (const field of writable) {
+      const mergeField = MERGE_COMPANIONS[field] || field;
+      const side =
+        resolution === 'merge' ? fields[mergeField] || 'remote' : resolution;
+      data[field] = side === 'local' ? local[field] : remote[field];
+    }
+
+    const now = new Date();
+    const update = { ...data, updatedAt: now, deletedAt: null };
+
+    if (entity === 'collection') {
+      const existing = await this.prisma.collection.findUnique({
+        where: { id: conflict.recordId },
+      });
+
+      if (!existing) {
+        throw new NotFoundException(`Collection with ID ${conflict.recordId} not found`);
+      }
+
+      if (existing.deletedAt && resolution !== 'local') {
+        return this.keepTombstone(id, existing);
+      }
+
+      const [record] = await this.prisma.$transaction([
+        this.prisma.collection.update({
+          where: { id: conflict.recordId },
+          data: update,
+        }),
+        this.prisma.syncConflict.delete({ where: { id } }),
+      ]);
+      return this.events.recordChanged(userId, 'collection', record, clientId);
+    }
+
+    const existing = await this.prisma.pin.findUnique({
+      where: { id: conflict.recordId },
+    });
+
+    if (!existing) {
+      throw new NotFoundException(`Pin with ID ${conflict.recordId} not found`);
+    }
+
+    if (existing.deletedAt && resolution !== 'local') {
+      return this.keepTombstone(id, existing);
+    }
+
+    if (data.collectionId) {
+      const collection = await this.prisma.collection.findUnique({
+        where: { id: data.collectionId as string },
+      });
+
+      if (!collection || collection.userId !== userId || collection.deletedAt) {
+        throw new BadRequestException('Invalid collection');
+      }
+    }
+
+    // Only live pins need a unique URL; a trashed pin may share it
+    const duplicate = !data.trashedAt && await this.prisma.pin.findFirst({
+      where: {
+        userId,
+        url: data.url as string,
+        deletedAt: null,
+        trashedAt: null,
+        id: { not: conflict.recordId },
+      },
+    });
+
+    if (duplicate) {
+      throw new ConflictException('You have already saved this URL');
+    }
+
+    const record = await this.prisma
+      .$transaction(async (tx) => {
+        const record = await tx.pin.update({
+          where: { id: conflict.recordId },
+          data: update,
+        });
+        if (!existing.deletedAt) {
+          await recordRevision(tx, userId, existing, record, 'sync');
+        }
+        await tx.syncConflict.delete({ where: { id } });
+        return record;
+      })
+      .catch((error) => {
+        // The kept URL belongs to another live pin
+        throw isUniqueViolation(error) ? new ConflictException('You have already saved this URL') : error;
+      });
+    return this.events.recordChanged(userId, 'pin', record, clientId);
+  }
+
+  /**
+   * Close a conflict on a record deleted in the cloud, leaving it deleted
+   */
+  private async keepTombstone<T>(conflictId: string, tombstone: T): Promise<T> {
+    await this.prisma.syncConflict.delete({ where: { id: conflictId } });
+    return tombstone;
+  }
+
+  /**
+   * Tell the user's other clients about a pushed change that was written
+   */
+  private announce(userId: string, entity: SyncEntity, result: PushResult, clientId?: string) {
+    if (result.status === 'applied' && result.record) {
+      this.events.recordChanged(
+        userId,
+        entity,
+        result.record as { id: string; updatedAt: Date },
+        clientId,
+      );
+    }
+  }
+
+  private async applyCollectionMutation(
+    userId: string,
+    mutation: CollectionMutationDto,
+  ): Promise<PushResult> {
+    const { id, op } = mutation;
+    const timestamp = new Date(mutation.timestamp);
+    const existing = await this.prisma.collection.findUnique({ where: { id } });
+
+    if (existing && existing.userId !== userId) {
+      return { id, status: 'rejected', error: 'You do not have access to this collection' };
+    }
+
+    if (existing && this.isConflict(existing, mutation)) {
+      return this.recordConflict(userId, 'collection', mutation, existing);
+    }
+
+    if (existing && this.isNewer(existing, timestamp, op)) {
+      return { id, status: 'stale', record: existing };
+    }
+
+    if (op === 'delete') {
+      if (!existing || existing.deletedAt) {
+        return { id, status: 'applied' };
+      }
+
+      // Detach its pins like the SetNull relation did for hard deletes
+      const [, record] = await this.prisma.$transaction([
+        this.prisma.pin.updateMany({
+          where: { collectionId: id, deletedAt: null },
+          data: { collectionId: null, updatedAt: timestamp },
+        }),
+        this.prisma.collection.update({
+          where: { id },
+          data: { deletedAt: timestamp, updatedAt: timestamp },
+        }),
+      ]);
+      return { id, status: 'applied', record };
+    }
+
+    const data = { ...mutation.data!, updatedAt: timestamp, deletedAt: null };
+    const record = await this.prisma.collection.upsert({
+      where: { id },
+      update: data,
+      create: { ...data, id, userId },
+    });
+    return { id, status: 'applied', record };
+  }
+
+  private async applyPinMutation(
+    userId: string,
+    mutation: PinMutationDto,
+  ): Promise<PushResult> {
+    const { id, op } = mutation;
+    const timestamp = new Date(mutation.timestamp);
+    const existing = await this.prisma.pin.findUnique({ where: { id } });
+
+    if (existing && existing.userId !== userId) {
+      return { id, status: 'rejected', error: 'You do not have access to this pin' };
+    }
+
+    if (existing && this.isConflict(existing, mutation)) {
+      return this.recordConflict(userId, 'pin', mutation, existing);
+    }
+
+    if (existing && this.isNewer(existing, timestamp, op)) {
+      return { id, status: 'stale', record: existing };
+    }
+
+    if (op === 'delete') {
+      if (!existing || existing.deletedAt) {
+        return { id, status: 'applied' };
+      }
+
+      const record = await this.prisma.pin.update({
+        where: { id },
+        data: { deletedAt: timestamp, updatedAt: timestamp },
+      });
+      return { id, status: 'applied', record };
+    }
+
+    const { collectionId, url, trashedAt } = mutation.data!;
+
+    if (collectionId) {
+      const collection = await this.prisma.collection.findUnique({
+        where: { id: collectionId },
+      });
+
+      if (!collection || collection.userId !== userId || collection.deletedAt) {
+        return { id, status: 'rejected', error: 'Invalid collection' };
+      }
+    }
+
+    // Only live pins need a unique URL; a trashed pin may share it
+    const duplicate = !trashedAt && await this.prisma.pin.findFirst({
+      where: { userId, url, deletedAt: null, trashedAt: null, id: { not: id } },
+    });
+
+    if (duplicate) {
+      return { id, status: 'rejected', error: 'You have already saved this URL' };
+    }
+
+    const data = {
+      ...mutation.data!,
+      tags: mutation.data!.tags || existing?.tags || [],
+      updatedAt: timestamp,
+      deletedAt: null,
+    };
+    try {
+      const record = await this.prisma.$transaction(async (tx) => {
+        const record = await tx.pin.upsert({
+          where: { id },
+          update: data,
+          create: { ...data, id, userId },
+        });
+        if (existing && !existing.deletedAt) {
+          await recordRevision(tx, userId, existing, record, 'sync');
+        }
+        return record;
+      });
+      return { id, status: 'applied', record };
+    } catch (error) {
+      // Another save of the URL got in after the duplicate check
+      if (isUniqueViolation(error)) {
+        return { id, status: 'rejected', error: 'You have already saved this URL' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the server's version was edited since the version the client's
+   * edit was based on, so neither side knows about the other's change
+   */
+  private isConflict(
+    existing: { updatedAt: Date; deletedAt: Date | null },
+    mutation: CollectionMutationDto | PinMutationDto,
+  ) {
+    if (mutation.op !== 'upsert' || !mutation.baseVersion || existing.deletedAt) {
+      return false;
+    }
+
+    const existingTime = existing.updatedAt.getTime();
+    return (
+      existingTime !== new Date(mutation.baseVersion).getTime() &&
+      existingTime !== new Date(mutation.timestamp).getTime()
+    );
+  }
+
+  /**
+   * Keep both versions of a record until the user resolves the conflict
+   */
+  private async recordConflict(
+    userId: string,
+    entity: SyncEntity,
+    mutation: CollectionMutationDto | PinMutationDto,
+    existing: { id: string },
+  ): Promise<PushResult> {
+    const localData = {
+      ...mutation.data,
+      id: mutation.id,
+      updatedAt: mutation.timestamp,
+    };
+    // Store dates as ISO strings, like the API returns them
+    const remoteData = JSON.parse(JSON.stringify(existing));
+
+    await this.prisma.syncConflict.upsert({
+      where: { recordId: mutation.id },
+      update: { localData, remoteData },
+      create: { entity, recordId: mutation.id, localData, remoteData, userId },
+    });
+
+    console.log(`[SyncService] Conflict on ${entity} ${mutation.id}`);
+    return { id: mutation.id, status: 'conflict', record: existing };
+  }
+
+  /**
+   * Whether the server's version beats a client change made at `timestamp`.
+   * Later changes win; on a tie a deletion beats an edit.
+   */
+  private isNewer(
+    existing: { updatedAt: Date; deletedAt: Date | null },
+    timestamp: Date,
+    op: 'upsert' | 'delete',
+  ) {
+    const existingTime = (existing.deletedAt ?? existing.updatedAt).getTime();
+    const incomingTime = timestamp.getTime();
+
+    if (existingTime !== incomingTime) {
+      return existingTime > incomingTime;
+    }
+
+    return !!existing.deletedAt && op === 'upsert';
+  }
+
+  /**
+   * IDs and transaction IDs of the records of a table after a feed position,
+   * up to `limit + 1` of them. Records of transactions that may still be
+   * running, or may have started before one still running, wait for a later
+   * call: pg_snapshot_xmin is the oldest transaction still running.
+   */
+  private changedIds(
+    table: keyof typeof FEED_TABLES,
+    userId: string,
+    position: FeedPosition | undefined,
+    limit: number,
+  ) {
+    const after = position
+      ? Prisma.sql`AND ("changeXid", "id") > (${position[0]}::xid8, ${position[1]})`
+      : Prisma.empty;
+
+    return this.prisma.$queryRaw<{ id: string; xid: string }[]>`
+      SELECT "id", "changeXid"::text AS "xid" FROM ${FEED_TABLES[table]}
+      WHERE "userId" = ${userId}
+        AND "changeXid" < pg_snapshot_xmin(pg_current_snapshot())
+        ${after}
+      ORDER BY "changeXid", "id"
+      LIMIT ${limit + 1}`;
+  }
+
+  /**
+   * Records in the order of the feed page they were fetched for
+   */
+  private inFeedOrder<T extends { id: string }>(records: T[], page: { id: string }[]): T[] {
+    const byId = new Map(records.map((record) => [record.id, record]));
+    return page.flatMap((change) => byId.get(change.id) ?? []);
+  }
+
+  private positionOf(page: { id: string; xid: string }[]): FeedPosition | undefined {
+    const last = page[page.length - 1];
+    return last ? [last.xid, last.id] : undefined;
+  }
+
+  private encodeCursor(cursor: SyncCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Feed positions a cursor holds; a cursor that wasn't made by encodeCursor is a bad request
+   */
+  private decodeCursor(cursor: string): SyncCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const isPosition = (position: unknown) =>
+        position === undefined ||
+        (Array.isArray(position) &&
+          position.length === 2 &&
+          typeof position[0] === 'string' &&
+          /^\d{1,19}$/.test(position[0]) &&
+          typeof position[1] === 'string');
+
+      if (
+        decoded && typeof decoded === 'object' && !Array.isArray(decoded) &&
+        isPosition(decoded.collections) && isPosition(decoded.pins)
+      ) {
+        return { collections: decoded.collections, pins: decoded.pins };
+      }
+    } catch {
+      // Reported below
+    }
+    throw new BadRequestException('Invalid sync cursor');
+  }
+}
@@ -0,0 +1,37 @@
+import { Controller, Get, Delete, Param, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation } from '@nestjs/swagger';
+import { TrashService } from './trash.service';
+import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
+import { CurrentUser } from '../auth/user.decorator';
+
+@ApiTags('trash')
+@ApiBearerAuth()
+@UseGuards(ClerkAuthGuard)
+@Controller('trash')
+export class TrashController {
+  constructor(private readonly trashService: TrashService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List trashed collections and pins, most recently trashed first' })
+  findAll(@CurrentUser() user: { userId: string }) {
+    return this.trashService.findAll(user.userId);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Empty the trash, deleting everything in it for good' })
+  empty(@CurrentUser() user: { userId: string }) {
+    return this.trashService.empty(user.userId);
+  }
+
+  @Delete('pins/:id')
+  @ApiOperation({ summary: 'Delete a trashed pin for good' })
+  removePin(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
+    return this.trashService.removePin(user.userId, id);
+  }
+
+  @Delete('collections/:id')
+  @ApiOperation({ summary: 'Delete a trashed collection for good, with its trashed pins' })
+  removeCollection(@CurrentUser() user: { userId: string }, @Param('id') id: string) {
+    return this.trashService.removeCollection(user.userId, id);
+  }
+}
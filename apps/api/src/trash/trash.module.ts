@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TrashService } from './trash.service';
+import { TrashController } from './trash.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [TrashController],
+  providers: [TrashService],
+})
+export class TrashModule {}
@@ -0,0 +1,179 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+
+/**
+ * Days items stay in the trash before they are deleted for good
+ */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Interval between purges of expired trash
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TrashService implements OnModuleInit, OnModuleDestroy {
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+  ) {}
+
+  onModuleInit() {
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        console.error('[TrashService] Failed to purge expired trash:', error);
+      });
+    }, PURGE_INTERVAL_MS);
+    // Don't keep the process alive just for purges
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.purgeTimer);
+  }
+
+  /**
+   * Days items stay in the trash, from TRASH_RETENTION_DAYS
+   */
+  get retentionDays() {
+    const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+    return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  async findAll(userId: string) {
+    const where = { userId, deletedAt: null, trashedAt: { not: null } };
+    const [collections, pins] = await Promise.all([
+      this.prisma.collection.findMany({ where, orderBy: { trashedAt: 'desc' } }),
+      this.prisma.pin.findMany({ where, orderBy: { trashedAt: 'desc' } }),
+    ]);
+
+    return { collections, pins, retentionDays: this.retentionDays };
+  }
+
+  /**
+   * Delete everything in the user's trash for good
+   */
+  async empty(userId: string) {
+    const where = { userId, deletedAt: null, trashedAt: { not: null } };
+    const [collections, pins] = await Promise.all([
+      this.prisma.collection.findMany({ where, select: { id: true } }),
+      this.prisma.pin.findMany({ where, select: { id: true } }),
+    ]);
+
+    await this.deleteForever(
+      userId,
+      collections.map((collection) => collection.id),
+      pins.map((pin) => pin.id),
+    );
+    return { deleted: collections.length + pins.length };
+  }
+
+  async removePin(userId: string, id: string) {
+    const pin = await this.prisma.pin.findUnique({ where: { id } });
+
+    if (!pin || pin.deletedAt || !pin.trashedAt) {
+      throw new NotFoundException('Pin not found in trash');
+    }
+
+    if (pin.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this pin');
+    }
+
+    await this.deleteForever(userId, [], [id]);
+    return { deleted: 1 };
+  }
+
+  /**
+   * Delete a trashed collection for good, with every trashed pin of it
+   */
+  async removeCollection(userId: string, id: string) {
+    const collection = await this.prisma.collection.findUnique({ where: { id } });
+
+    if (!collection || collection.deletedAt || !collection.trashedAt) {
+      throw new NotFoundException('Collection not found in trash');
+    }
+
+    if (collection.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this collection');
+    }
+
+    const pins = await this.prisma.pin.findMany({
+      where: { collectionId: id, deletedAt: null, trashedAt: { not: null } },
+      select: { id: true },
+    });
+
+    await this.deleteForever(userId, [id], pins.map((pin) => pin.id));
+    return { deleted: 1 + pins.length };
+  }
+
+  /**
+   * Delete for good, for every user, what has been in the trash longer than the retention period
+   */
+  async purgeExpired(now: Date = new Date()) {
+    const where = {
+      deletedAt: null,
+      trashedAt: { lt: new Date(now.getTime() - this.retentionDays * DAY_MS) },
+    };
+    const [collections, pins] = await Promise.all([
+      this.prisma.collection.findMany({ where, select: { id: true, userId: true } }),
+      this.prisma.pin.findMany({ where, select: { id: true, userId: true } }),
+    ]);
+
+    const userIds = new Set([...collections, ...pins].map((record) => record.userId));
+    for (const userId of userIds) {
+      await this.deleteForever(
+        userId,
+        collections.filter((collection) => collection.userId === userId).map((collection) => collection.id),
+        pins.filter((pin) => pin.userId === userId).map((pin) => pin.id),
+      );
+    }
+
+    if (userIds.size > 0) {
+      console.log(`[TrashService] Purged ${collections.length} collections and ${pins.length} pins`);
+    }
+  }
+
+  /**
+   * Turn trashed records into tombstones so other devices pick up the deletion.
+   * Pins left in a deleted collection are detached, as for hard deletes.
+   */
+  private async deleteForever(userId: string, collectionIds: string[], pinIds: string[]) {
+    if (collectionIds.length === 0 && pinIds.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.pin.updateMany({
+        where: { id: { in: pinIds }, userId },
+        data: { deletedAt: now, updatedAt: now },
+      }),
+      this.prisma.pin.updateMany({
+        where: { collectionId: { in: collectionIds }, deletedAt: null },
+        data: { collectionId: null, updatedAt: now },
+      }),
+      this.prisma.collection.updateMany({
+        where: { id: { in: collectionIds }, userId },
+        data: { deletedAt: now, updatedAt: now },
+      }),
+    ]);
+
+    for (const id of collectionIds) {
+      this.events.recordChanged(userId, 'collection', { id, updatedAt: now, deletedAt: now });
+    }
+    for (const id of pinIds) {
+      this.events.recordChanged(userId, 'pin', { id, updatedAt: now, deletedAt: now });
+    }
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { syncService } from '../services/sync-service';
+import { realtimeService } from '../services/realtime';
+import { getSettings, purgeExpiredTrash } from '@wiserpin/storage';
 import { createClerkClient } from '@clerk/chrome-extension/background';
 
 console.debug('WiserPin background service worker loaded');
@@ -57,10 +59,11 @@ createClerkClient({
     console.debug('[Background] Clerk auth state changed:', { hasSession: !!clerkInstance.session });
     if (clerkInstance.session) {
       // User is signed in, save token for API calls
-      refreshAndSaveToken();
+      refreshAndSaveToken().then(() => connectRealtime());
     } else {
       // User signed out, clear token
       chrome.storage.local.remove(['clerk_session_token']);
+      realtimeService.disconnect();
       console.debug('[Background] Clerk session token cleared');
     }
   });
@@ -76,10 +79,59 @@ createClerkClient({
   console.error('[Background] Failed to initialize Clerk client:', error);
 });
 
+// Listen for changes made on other devices and in the web app
+function connectRealtime() {
+  realtimeService.connect().catch((error) => {
+    console.error('Failed to connect to change events:', error);
+  });
+}
+
+// Trashed items past the retention period are purged daily
+const TRASH_PURGE_ALARM = 'wiserpin-trash-purge';
+
+async function purgeTrash() {
+  const { trashRetentionDays } = await getSettings();
+  const purged = await purgeExpiredTrash(trashRetentionDays);
+  if (purged > 0) {
+    console.debug(`[Background] Purged ${purged} items from the trash`);
+  }
+}
+
+async function scheduleTrashPurge() {
+  if (!(await chrome.alarms.get(TRASH_PURGE_ALARM))) {
+    await chrome.alarms.create(TRASH_PURGE_ALARM, { periodInMinutes: 24 * 60 });
+  }
+}
+
+purgeTrash().catch((error) => {
+  console.error('Failed to purge trash:', error);
+});
+scheduleTrashPurge().catch((error) => {
+  console.error('Failed to schedule trash purge:', error);
+});
+
 // Initialize sync service on extension load
 syncService.initialize().catch((error) => {
   console.error('Failed to initialize sync service:', error);
 });
+connectRealtime();
+
+// Automatic sync runs on an alarm, which wakes the service worker when it is suspended
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === TRASH_PURGE_ALARM) {
+    purgeTrash().catch((error) => {
+      console.error('Failed to purge trash:', error);
+    });
+    return;
+  }
+
+  syncService.handleAlarm(alarm).catch((error) => {
+    console.error('Failed to run scheduled sync:', error);
+  });
+
+  // The stream is dropped while the service worker is suspended
+  connectRealtime();
+});
 
 // Extension installation handler
 chrome.runtime.onInstalled.addListener((details) => {
@@ -126,13 +178,25 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       // Refresh token before enabling sync
       refreshAndSaveToken()
         .then(() => syncService.enable())
-        .then(() => sendResponse({ success: true }))
+        .then(() => {
+          connectRealtime();
+          sendResponse({ success: true });
+        })
+        .catch((error) => sendResponse({ success: false, error: error.message }));
+      return true;
+
+    case 'UPDATE_SYNC_SETTINGS':
+      syncService.updateSettings(message.settings)
+        .then((settings) => sendResponse({ success: true, settings }))
         .catch((error) => sendResponse({ success: false, error: error.message }));
       return true;
 
     case 'DISABLE_SYNC':
       syncService.disable()
-        .then(() => sendResponse({ success: true }))
+        .then(() => {
+          realtimeService.disconnect();
+          sendResponse({ success: true });
+        })
         .catch((error) => sendResponse({ success: false, error: error.message }));
       return true;
 
@@ -155,4 +219,5 @@ chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
 chrome.runtime.onStartup.addListener(() => {
   console.debug('WiserPin service worker started');
   syncService.initialize().catch(console.error);
+  connectRealtime();
 });
@@ -1,14 +1,20 @@
 import { useEffect, useState, useRef } from 'react';
-import { Cloud, RefreshCw, CloudCheck } from 'lucide-react';
+import { Cloud, RefreshCw, CloudCheck, AlertTriangle } from 'lucide-react';
+import { getOutboxCount } from '@wiserpin/storage';
 
 interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: number | null;
   error: string | null;
   pendingChanges: number;
+  conflicts?: number;
 }
 
-export function SyncButton() {
+interface SyncButtonProps {
+  onShowConflicts?: () => void;
+}
+
+export function SyncButton({ onShowConflicts }: SyncButtonProps) {
   const [status, setStatus] = useState<SyncStatus>({
     isSyncing: false,
     lastSyncTime: null,
@@ -69,6 +75,10 @@ export function SyncButton() {
     if (result.wiserpin_sync_settings) {
       setIsEnabled(result.wiserpin_sync_settings.enabled);
     }
+
+    // Local changes are queued between syncs, so count them directly
+    const pendingChanges = await getOutboxCount();
+    setStatus((current) => ({ ...current, pendingChanges }));
   }
 
   async function handleSync() {
@@ -103,25 +113,41 @@ export function SyncButton() {
     }
   };
 
+  const conflicts = status.conflicts || 0;
+
   return (
-    <button
-      onClick={handleSync}
-      disabled={status.isSyncing || showSuccess}
-      className="p-2 rounded-lg transition-colors hover:bg-black/10 disabled:opacity-50 relative"
-      title={formatLastSync()}
-    >
-      {status.isSyncing ? (
-        <RefreshCw className="w-5 h-5 animate-spin" />
-      ) : showSuccess ? (
-        <CloudCheck className="w-5 h-5" />
-      ) : (
-        <Cloud className="w-5 h-5" />
-      )}
-      {status.pendingChanges > 0 && !status.isSyncing && !showSuccess && (
-        <span className="absolute -top-1 -right-1 w-4 h-4 text-[10px] font-bold bg-white text-[#ff751f] rounded-full flex items-center justify-center">
-          {status.pendingChanges > 9 ? '9+' : status.pendingChanges}
-        </span>
+    <>
+      {conflicts > 0 && onShowConflicts && (
+        <button
+          onClick={onShowConflicts}
+          className="p-2 rounded-lg transition-colors hover:bg-black/10 relative"
+          title={`${conflicts} sync conflict${conflicts === 1 ? '' : 's'} to resolve`}
+        >
+          <AlertTriangle className="w-5 h-5" />
+          <span className="absolute -top-1 -right-1 w-4 h-4 text-[10px] font-bold bg-white text-[#ff751f] rounded-full flex items-center justify-center">
+            {conflicts > 9 ? '9+' : conflicts}
+          </span>
+        </button>
       )}
-    </button>
+      <button
+        onClick={handleSync}
+        disabled={status.isSyncing || showSuccess}
+        className="p-2 rounded-lg transition-colors hover:bg-black/10 disabled:opacity-50 relative"
+        title={formatLastSync()}
+      >
+        {status.isSyncing ? (
+          <RefreshCw className="w-5 h-5 animate-spin" />
+        ) : showSuccess ? (
+          <CloudCheck className="w-5 h-5" />
+        ) : (
+          <Cloud className="w-5 h-5" />
+        )}
+        {status.pendingChanges > 0 && !status.isSyncing && !showSuccess && (
+          <span className="absolute -top-1 -right-1 w-4 h-4 text-[10px] font-bold bg-white text-[#ff751f] rounded-full flex items-center justify-center">
+            {status.pendingChanges > 9 ? '9+' : status.pendingChanges}
+          </span>
+        )}
+      </button>
+    </>
   );
 }
@@ -1,11 +1,13 @@
 import { useEffect, useState } from 'react';
 import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+import { getOutboxCount } from '@wiserpin/storage';
 
 interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: number | null;
   error: string | null;
   pendingChanges: number;
+  conflicts?: number;
 }
 
 export function SyncStatus() {
@@ -40,6 +42,10 @@ export function SyncStatus() {
     if (result.wiserpin_sync_settings) {
       setIsEnabled(result.wiserpin_sync_settings.enabled);
     }
+
+    // Local changes are queued between syncs, so count them directly
+    const pendingChanges = await getOutboxCount();
+    setStatus((current) => ({ ...current, pendingChanges }));
   }
 
   async function handleSync() {
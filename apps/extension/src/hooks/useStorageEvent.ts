@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import type { StorageEventType } from '@wiserpin/core';
+import { subscribe, type StorageEventHandler } from '@wiserpin/storage';
+
+/**
+ * Run a handler whenever pins, collections or settings of the given event
+ * types change in any extension context (popup, options page, background),
+ * for as long as the component is mounted
+ */
+export function useStorageEvent<T extends StorageEventType>(
+  type: T | T[],
+  handler: StorageEventHandler<T>
+): void {
+  // Always call the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const types = Array.isArray(type) ? type : [type];
+  const typesKey = types.join(',');
+
+  useEffect(() => subscribe(types, (event) => handlerRef.current(event)), [typesKey]);
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Collection } from '@wiserpin/core';
+import { StorageEventType, type Collection } from '@wiserpin/core';
 import { listCollections } from '@wiserpin/storage';
 import { Button } from '@wiserpin/ui';
 import { ChromeAISummarizer, type ChromeAIAvailability } from '@wiserpin/prompts';
@@ -8,9 +8,22 @@ import { CollectionList } from './components/CollectionList';
 import { CreateCollectionForm } from './components/CreateCollectionForm';
 import { CollectionSelector } from './components/CollectionSelector';
 import { Settings } from './components/Settings';
+import { SyncDiagnostics } from './components/SyncDiagnostics';
+import { SyncConflicts } from './components/SyncConflicts';
+import { Trash } from './components/Trash';
 import { SyncButton } from '../components/SyncButton';
+import { useStorageEvent } from '../hooks/useStorageEvent';
 
-type ViewType = 'create-pin' | 'collections' | 'create-collection' | 'select-collection' | 'settings';
+const COLLECTION_EVENTS = [
+  StorageEventType.COLLECTION_CREATED,
+  StorageEventType.COLLECTION_UPDATED,
+  StorageEventType.COLLECTION_DELETED,
+  StorageEventType.COLLECTION_TRASHED,
+  StorageEventType.COLLECTION_RESTORED,
+  StorageEventType.DATA_CLEARED,
+];
+
+type ViewType = 'create-pin' | 'collections' | 'create-collection' | 'select-collection' | 'settings' | 'conflicts' | 'diagnostics' | 'trash';
 
 export function App() {
   const [view, setView] = useState<ViewType>('create-pin');
@@ -36,6 +49,11 @@ export function App() {
     loadCollections();
   }, []);
 
+  // Collections changed here, in another view or by sync in the background
+  useStorageEvent(COLLECTION_EVENTS, () => {
+    loadCollections();
+  });
+
   // Restore scroll when returning to create-pin view
   useEffect(() => {
     if (view === 'create-pin' && scrollContainerRef.current && scrollPosition > 0) {
@@ -68,7 +86,7 @@ export function App() {
 
   const loadCollections = async () => {
     try {
-      const cols = await listCollections();
+      const cols = await listCollections({ sortBy: 'name' });
       setCollections(cols);
     } catch (error) {
       console.error('Failed to load collections:', error);
@@ -120,7 +138,7 @@ export function App() {
             <img src="/logo.png" alt="WiserPin" className="h-12" />
           </div>
           <div className="flex gap-2">
-            <SyncButton />
+            <SyncButton onShowConflicts={() => setView('conflicts')} />
             <button
               onClick={() => setView('collections')}
               className={`p-2 rounded-lg transition-colors ${
@@ -164,7 +182,16 @@ export function App() {
             onCreateCollection={() => setView('create-collection')}
           />
         ) : view === 'settings' ? (
-          <Settings onBack={() => setView('create-pin')} />
+          <Settings
+            onBack={() => setView('create-pin')}
+            onShowDiagnostics={() => setView('diagnostics')}
+          />
+        ) : view === 'diagnostics' ? (
+          <SyncDiagnostics onBack={() => setView('settings')} />
+        ) : view === 'conflicts' ? (
+          <SyncConflicts onBack={() => setView('create-pin')} />
+        ) : view === 'trash' ? (
+          <Trash onBack={() => setView('collections')} />
         ) : (
           <div className="p-4">
             {view === 'create-pin' && (
@@ -190,6 +217,7 @@ export function App() {
                 collections={collections}
                 onCollectionChanged={loadCollections}
                 onCreateCollection={() => setView('create-collection')}
+                onOpenTrash={() => setView('trash')}
               />
             )}
             {view === 'create-collection' && (
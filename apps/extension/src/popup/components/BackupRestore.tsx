@@ -0,0 +1,116 @@
+import { useRef, useState } from 'react';
+import { Button } from '@wiserpin/ui';
+import {
+  exportAll,
+  importAll,
+  BACKUP_FILE_EXTENSION,
+  InvalidBackupError,
+  QuotaExceededError,
+  type ImportMode,
+  type ImportResult,
+} from '@wiserpin/storage';
+
+function describeImport({ collections, pins, skipped, remapped, deleted }: ImportResult): string {
+  const lines = [`Restored ${collections} collections and ${pins} pins.`];
+  if (skipped > 0) lines.push(`${skipped} already here were left as they are.`);
+  if (remapped > 0) lines.push(`${remapped} were given new IDs because theirs were taken.`);
+  if (deleted > 0) lines.push(`${deleted} local pins and collections not in the backup were deleted.`);
+  return lines.join('\n');
+}
+
+export function BackupRestore() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+
+  const handleBackup = async () => {
+    setBusy(true);
+    try {
+      const bundle = await exportAll();
+      const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `wiserpin-backup-${bundle.header.exportedAt.slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('[BackupRestore] Backup failed:', error);
+      alert('Failed to create the backup. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseFile = (nextMode: ImportMode) => {
+    setMode(nextMode);
+    fileInput.current?.click();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be chosen again
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    if (
+      mode === 'replace' &&
+      !confirm(
+        'Replace your library with this backup?\n\n' +
+        'Pins and collections that are not in the backup will be deleted, ' +
+        'and your settings will be replaced by the backup\'s.'
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await importAll(await file.text(), { mode });
+      alert(describeImport(result));
+    } catch (error) {
+      console.error('[BackupRestore] Restore failed:', error);
+      if (error instanceof InvalidBackupError) {
+        alert(`This file can't be restored: ${error.message}.`);
+      } else if (error instanceof QuotaExceededError) {
+        alert('Not enough storage space to restore this backup. Free up space and try again.');
+      } else {
+        alert('Failed to restore the backup. Please try again.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-4 mb-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="mb-3">
+        <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Backup &amp; Restore</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Save your pins, collections and settings to a {BACKUP_FILE_EXTENSION} file, or restore
+          one, for example to move your library to another browser profile.
+        </p>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        accept={`${BACKUP_FILE_EXTENSION},application/json`}
+        onChange={handleFile}
+        className="hidden"
+      />
+      <div className="space-y-2">
+        <Button onClick={handleBackup} disabled={busy} variant="outline" size="sm" className="w-full">
+          Back Up to File
+        </Button>
+        <Button onClick={() => chooseFile('merge')} disabled={busy} variant="outline" size="sm" className="w-full">
+          Restore and Merge
+        </Button>
+        <Button onClick={() => chooseFile('replace')} disabled={busy} variant="outline" size="sm" className="w-full">
+          Restore and Replace
+        </Button>
+      </div>
+    </div>
+  );
+}
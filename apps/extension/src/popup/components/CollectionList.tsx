@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
-import type { Collection } from '@wiserpin/core';
-import { deleteCollection, listPinsByCollection } from '@wiserpin/storage';
+import { StorageEventType, type Collection, type Pin } from '@wiserpin/core';
+import {
+  getPinCountByCollection,
+  InvalidQueryError,
+  queryPins,
+  trashCollection,
+} from '@wiserpin/storage';
 import {
   Button,
   Card,
@@ -8,42 +13,95 @@ import {
   CardDescription,
   CardHeader,
   CardTitle,
+  Input,
 } from '@wiserpin/ui';
+import { useStorageEvent } from '../../hooks/useStorageEvent';
+
+const SEARCH_DEBOUNCE_MS = 150;
+const SEARCH_RESULT_LIMIT = 20;
+
+const PIN_EVENTS = [
+  StorageEventType.PIN_CREATED,
+  StorageEventType.PIN_UPDATED,
+  StorageEventType.PIN_DELETED,
+  StorageEventType.PIN_TRASHED,
+  StorageEventType.PIN_RESTORED,
+  StorageEventType.DATA_CLEARED,
+];
 
 interface CollectionListProps {
   collections: Collection[];
   onCollectionChanged: () => Promise<void>;
   onCreateCollection: () => void;
+  onOpenTrash: () => void;
 }
 
-export function CollectionList({ collections, onCollectionChanged, onCreateCollection }: CollectionListProps) {
+export function CollectionList({ collections, onCollectionChanged, onCreateCollection, onOpenTrash }: CollectionListProps) {
   const [pinCounts, setPinCounts] = useState<Record<string, number>>({});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Pin[]>([]);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [pinsVersion, setPinsVersion] = useState(0);
 
   // Load pin counts for each collection
   useEffect(() => {
     loadPinCounts();
-  }, [collections]);
+  }, [collections, pinsVersion]);
+
+  // Refresh counts and search results when pins change anywhere
+  useStorageEvent(PIN_EVENTS, () => setPinsVersion((version) => version + 1));
+
+  // Search pins as the user types
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      setQueryError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const pins = await queryPins({ query: searchQuery }, { limit: SEARCH_RESULT_LIMIT });
+        if (!cancelled) {
+          setSearchResults(pins);
+          setQueryError(null);
+        }
+      } catch (error) {
+        // A half-typed filter keeps the previous results on screen
+        if (error instanceof InvalidQueryError) {
+          if (!cancelled) setQueryError(error.message);
+          return;
+        }
+        console.error('Failed to search pins:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, collections, pinsVersion]);
 
   const loadPinCounts = async () => {
     const counts: Record<string, number> = {};
     for (const collection of collections) {
-      const pins = await listPinsByCollection(collection.id);
-      counts[collection.id] = pins.length;
+      counts[collection.id] = await getPinCountByCollection(collection.id);
     }
     setPinCounts(counts);
   };
 
   const handleDeleteCollection = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this collection? All pins in it will also be deleted.')) {
+    if (!confirm('Move this collection and its pins to the trash? You can restore them from the trash.')) {
       return;
     }
 
     try {
-      await deleteCollection(id);
+      await trashCollection(id);
       await onCollectionChanged();
     } catch (error) {
-      console.error('Failed to delete collection:', error);
-      alert('Failed to delete collection');
+      console.error('Failed to move collection to trash:', error);
+      alert('Failed to move collection to trash');
     }
   };
 
@@ -52,15 +110,77 @@ export function CollectionList({ collections, onCollectionChanged, onCreateColle
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Collections</h2>
-          <Button
-            size="sm"
-            onClick={onCreateCollection}
-          >
-            + New Collection
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenTrash}
+            >
+              Trash
+            </Button>
+            <Button
+              size="sm"
+              onClick={onCreateCollection}
+            >
+              + New Collection
+            </Button>
+          </div>
         </div>
 
-        {collections.length === 0 ? (
+        {collections.length > 0 && (
+          <Input
+            type="search"
+            placeholder="Search pins, or filter with site: tag: is:..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        )}
+
+        {queryError && (
+          <p className="text-xs text-red-600 dark:text-red-400">{queryError}</p>
+        )}
+
+        {searchQuery.trim() ? (
+          searchResults.length === 0 ? (
+            <p className="text-sm text-center py-6 text-gray-500 dark:text-gray-400">
+              No pins match "{searchQuery.trim()}"
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {searchResults.map((pin) => {
+                const collection = collections.find((c) => c.id === pin.collectionId);
+                return (
+                  <button
+                    key={pin.id}
+                    type="button"
+                    onClick={() => chrome.tabs.create({ url: pin.page.url })}
+                    className="w-full text-left rounded-md border border-gray-200 dark:border-gray-700 p-3 hover:bg-gray-50 dark:hover:bg-gray-800"
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {pin.page.title || pin.page.url}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1">
+                      {collection && (
+                        <>
+                          <div
+                            className="w-2 h-2 rounded-full shrink-0"
+                            style={{ backgroundColor: collection.color || '#3b82f6' }}
+                          />
+                          <span className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                            {collection.name}
+                          </span>
+                        </>
+                      )}
+                      <span className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                        {pin.page.siteName || new URL(pin.page.url).hostname}
+                      </span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )
+        ) : collections.length === 0 ? (
           <Card>
             <CardContent className="pt-6">
               <div className="text-center py-8">
@@ -90,7 +210,7 @@ export function CollectionList({ collections, onCollectionChanged, onCreateColle
                       onClick={() => handleDeleteCollection(collection.id)}
                       className="h-auto p-1 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
                     >
-                      Delete
+                      Move to trash
                     </Button>
                   </div>
                   <CardDescription className="text-sm">
@@ -1,15 +1,31 @@
 import { useState, useEffect } from 'react';
-import { Label, Button, Switch } from '@wiserpin/ui';
+import { Label, Button, Switch, Input } from '@wiserpin/ui';
 import { getSettings, updateSettings, clearAllData } from '@wiserpin/storage';
-import type { Settings as SettingsType } from '@wiserpin/core';
+import {
+  StorageEventType,
+  TRASH_RETENTION_OPTIONS,
+  type EncryptionConfig,
+  type Settings as SettingsType,
+} from '@wiserpin/core';
 import { ChromeAISummarizer, type ChromeAIAvailability } from '@wiserpin/prompts';
 import { useUser, SignedIn, SignedOut, UserButton } from '@clerk/chrome-extension';
+import type { SyncSettings, SyncStatus } from '../../services/sync-service';
+import { encryptionService } from '../../services/encryption';
+import { useStorageEvent } from '../../hooks/useStorageEvent';
+import { StorageUsage } from './StorageUsage';
+import { BackupRestore } from './BackupRestore';
+
+/**
+ * Shortest passphrase accepted when turning on encryption
+ */
+const MIN_PASSPHRASE_LENGTH = 8;
 
 interface SettingsProps {
   onBack: () => void;
+  onShowDiagnostics: () => void;
 }
 
-export function Settings({ onBack }: SettingsProps) {
+export function Settings({ onBack, onShowDiagnostics }: SettingsProps) {
   const { isSignedIn, user } = useUser();
 
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
@@ -21,18 +37,111 @@ export function Settings({ onBack }: SettingsProps) {
 
   // Cloud Sync state
   const [syncEnabled, setSyncEnabled] = useState(false);
+  const [wifiOnly, setWifiOnly] = useState(false);
+  const [syncInterval, setSyncInterval] = useState(5);
+  const [nextSyncTime, setNextSyncTime] = useState<number | null>(null);
+
+  // End-to-end encryption state
+  const [encryption, setEncryption] = useState<EncryptionConfig | null>(null);
+  const [encryptionUnlocked, setEncryptionUnlocked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [encryptCollections, setEncryptCollections] = useState(false);
+  const [encryptionBusy, setEncryptionBusy] = useState(false);
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
 
   useEffect(() => {
     loadSettings();
     checkAIAvailability();
     loadSyncSettings();
+    loadEncryption();
+
+    // Keep the next sync time current while the popup is open
+    const listener = (message: any) => {
+      if (message.type === 'SYNC_STATUS_CHANGED') {
+        setNextSyncTime(message.status.nextSyncTime ?? null);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
   }, []);
 
+  // Settings changed in another extension context
+  useStorageEvent(StorageEventType.SETTINGS_UPDATED, ({ data }) => {
+    setSettings(data);
+  });
+
   const loadSyncSettings = async () => {
-    const result = await chrome.storage.local.get(['wiserpin_sync_settings']);
+    const result = await chrome.storage.local.get(['wiserpin_sync_settings', 'wiserpin_sync_status']) as {
+      wiserpin_sync_settings?: SyncSettings;
+      wiserpin_sync_status?: SyncStatus;
+    };
     if (result.wiserpin_sync_settings) {
       setSyncEnabled(result.wiserpin_sync_settings.enabled);
+      setWifiOnly(result.wiserpin_sync_settings.wifiOnly);
+      setSyncInterval(result.wiserpin_sync_settings.syncInterval);
+    }
+    if (result.wiserpin_sync_status) {
+      setNextSyncTime(result.wiserpin_sync_status.nextSyncTime ?? null);
+    }
+  };
+
+  const loadEncryption = async () => {
+    const [config, key] = await Promise.all([
+      encryptionService.getConfig(),
+      encryptionService.getKey(),
+    ]);
+    setEncryption(config);
+    setEncryptionUnlocked(!!key);
+  };
+
+  const handleEncryptionAction = async (action: () => Promise<void>) => {
+    setEncryptionBusy(true);
+    setEncryptionError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmPassphrase('');
+      await loadEncryption();
+
+      // Push re-encrypted records and pull what the key can now read
+      chrome.runtime.sendMessage({ type: 'TRIGGER_SYNC' });
+    } catch (error) {
+      console.error('[Settings] Encryption error:', error);
+      setEncryptionError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setEncryptionBusy(false);
+    }
+  };
+
+  const handleSetupEncryption = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setEncryptionError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setEncryptionError('Passphrases do not match');
+      return;
     }
+
+    const confirmed = window.confirm(
+      'Turn on end-to-end encryption?\n\n' +
+      'Your passphrase cannot be recovered. If you forget it, your encrypted notes and summaries are lost.\n\n' +
+      'Encryption cannot be turned off later.'
+    );
+    if (confirmed) {
+      handleEncryptionAction(() => encryptionService.setup(passphrase, encryptCollections));
+    }
+  };
+
+  const handleUnlockEncryption = () => {
+    handleEncryptionAction(() => encryptionService.unlock(passphrase));
+  };
+
+  const handleLockEncryption = async () => {
+    await encryptionService.lock();
+    setEncryptionUnlocked(false);
   };
 
   const handleToggleSync = async () => {
@@ -50,6 +159,17 @@ export function Settings({ onBack }: SettingsProps) {
     });
   };
 
+  const handleToggleWifiOnly = async () => {
+    const newValue = !wifiOnly;
+    setWifiOnly(newValue);
+
+    // Background reschedules sync with the new settings
+    chrome.runtime.sendMessage({
+      type: 'UPDATE_SYNC_SETTINGS',
+      settings: { wifiOnly: newValue },
+    });
+  };
+
   const handleOpenWebDashboard = () => {
     chrome.tabs.create({ url: 'http://localhost:3000' });
   };
@@ -106,6 +226,12 @@ export function Settings({ onBack }: SettingsProps) {
     setSettings({ ...settings, autoSuggestCollection: newValue });
   };
 
+  const handleRetentionChange = async (days: number) => {
+    if (!settings) return;
+    await updateSettings({ trashRetentionDays: days });
+    setSettings({ ...settings, trashRetentionDays: days });
+  };
+
   const handleClearData = async () => {
     const confirmed = window.confirm(
       'Are you sure you want to clear all local data?\n\n' +
@@ -119,6 +245,8 @@ export function Settings({ onBack }: SettingsProps) {
     if (confirmed) {
       try {
         await clearAllData();
+        // Start the next sync from scratch so cloud data is downloaded again
+        await chrome.storage.local.remove(['wiserpin_sync_cursor']);
         alert('All local data has been cleared successfully!');
         // Reload the popup to reflect the changes
         window.location.reload();
@@ -309,12 +437,143 @@ export function Settings({ onBack }: SettingsProps) {
             </div>
 
             {syncEnabled && isSignedIn && (
-              <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
-                <p className="text-sm text-blue-800 dark:text-blue-300">
-                  ✓ Cloud sync is active. Your pins will automatically sync every 5 minutes. Check the sync status in the header above.
-                </p>
+              <>
+                <div className="mt-3 flex items-center justify-between gap-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                  <div className="flex-1 min-w-0">
+                    <Label htmlFor="wifi-only" className="font-semibold text-gray-900 dark:text-gray-100 cursor-pointer">
+                      Sync on Wi-Fi only
+                    </Label>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Skip automatic sync on cellular and other metered connections
+                    </p>
+                  </div>
+                  <Switch
+                    id="wifi-only"
+                    checked={wifiOnly}
+                    onCheckedChange={handleToggleWifiOnly}
+                    className="flex-shrink-0"
+                  />
+                </div>
+
+                <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                  <p className="text-sm text-blue-800 dark:text-blue-300">
+                    ✓ Cloud sync is active. Your pins will automatically sync every {syncInterval} minutes. Check the sync status in the header above.
+                  </p>
+                  {nextSyncTime && (
+                    <p className="text-xs text-blue-700 dark:text-blue-400 mt-1">
+                      Next sync at {new Date(nextSyncTime).toLocaleTimeString()}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {syncEnabled && isSignedIn && encryption && (
+              <div className="mt-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                <div className="flex items-center justify-between mb-1">
+                  <p className="font-semibold text-gray-900 dark:text-gray-100">End-to-end encryption</p>
+                  {encryption.enabled && (
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                      encryptionUnlocked
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                        : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
+                    }`}>
+                      {encryptionUnlocked ? 'Unlocked' : 'Locked'}
+                    </span>
+                  )}
+                </div>
+
+                {!encryption.enabled ? (
+                  <>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                      Encrypt notes and summaries with a passphrase before they leave your devices. The cloud can no longer read or search them.
+                    </p>
+                    <div className="space-y-2">
+                      <Input
+                        type="password"
+                        placeholder="Passphrase"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                      />
+                      <Input
+                        type="password"
+                        placeholder="Confirm passphrase"
+                        value={confirmPassphrase}
+                        onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      />
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={encryptCollections}
+                          onChange={(e) => setEncryptCollections(e.target.checked)}
+                        />
+                        Also encrypt collection goals
+                      </label>
+                      <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                        Your passphrase cannot be recovered. Forgetting it means losing your encrypted notes.
+                      </p>
+                      <Button
+                        onClick={handleSetupEncryption}
+                        disabled={encryptionBusy || !passphrase}
+                        size="sm"
+                        className="w-full"
+                      >
+                        {encryptionBusy ? 'Setting up...' : 'Turn on encryption'}
+                      </Button>
+                    </div>
+                  </>
+                ) : encryptionUnlocked ? (
+                  <>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                      Notes, summaries{encryption.encryptCollections && ' and collection goals'} are encrypted on this device before syncing.
+                    </p>
+                    <Button
+                      onClick={handleLockEncryption}
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                    >
+                      Lock on this device
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                      Enter your passphrase to sync on this device.
+                    </p>
+                    <div className="space-y-2">
+                      <Input
+                        type="password"
+                        placeholder="Passphrase"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                      />
+                      <Button
+                        onClick={handleUnlockEncryption}
+                        disabled={encryptionBusy || !passphrase}
+                        size="sm"
+                        className="w-full"
+                      >
+                        {encryptionBusy ? 'Unlocking...' : 'Unlock'}
+                      </Button>
+                    </div>
+                  </>
+                )}
+
+                {encryptionError && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-2">{encryptionError}</p>
+                )}
               </div>
             )}
+
+            <Button
+              onClick={onShowDiagnostics}
+              variant="outline"
+              size="sm"
+              className="w-full mt-3"
+            >
+              Sync diagnostics
+            </Button>
           </div>
 
           {/* AI Features Section */}
@@ -488,6 +747,30 @@ export function Settings({ onBack }: SettingsProps) {
           {/* Data Management Section */}
           <div>
             <Label className="text-base font-semibold mb-3 block">Data Management</Label>
+            <div className="p-4 mb-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Trash</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Days before trashed pins and collections are deleted forever
+                  </p>
+                </div>
+                <select
+                  value={settings?.trashRetentionDays}
+                  onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                  disabled={!settings}
+                  className="px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                >
+                  {TRASH_RETENTION_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days} days
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <StorageUsage />
+            <BackupRestore />
             <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
               <div className="mb-3">
                 <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Clear Local Data</p>
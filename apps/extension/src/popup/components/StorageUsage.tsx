@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@wiserpin/ui';
+import {
+  clearPageContent,
+  clearSummaries,
+  emptyTrash,
+  getStorageUsage,
+  type StorageUsage as StorageUsageStats,
+  type StoreName,
+} from '@wiserpin/storage';
+
+/**
+ * Summaries older than this are offered for cleanup
+ */
+const OLD_SUMMARY_DAYS = 90;
+
+/**
+ * Share of the quota above which the section warns that storage is nearly full
+ */
+const USAGE_WARNING_RATIO = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What each store holds, in the order they are listed
+ */
+const STORE_LABELS: [StoreName, string][] = [
+  ['pins', 'Pins'],
+  ['collections', 'Collections'],
+  ['search_index', 'Search index'],
+  ['trashed_pins', 'Trashed pins'],
+  ['trashed_collections', 'Trashed collections'],
+  ['outbox', 'Changes waiting to sync'],
+  ['tombstones', 'Deletion records'],
+  ['pin_revisions', 'Pin history'],
+];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export function StorageUsage() {
+  const [stats, setStats] = useState<StorageUsageStats | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      setStats(await getStorageUsage());
+    } catch (error) {
+      console.error('[StorageUsage] Failed to load storage usage:', error);
+    }
+  };
+
+  const runCleanup = async (
+    confirmation: string,
+    cleanup: () => Promise<number>,
+    done: (count: number) => string
+  ) => {
+    if (!confirm(confirmation)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const count = await cleanup();
+      await loadUsage();
+      alert(done(count));
+    } catch (error) {
+      console.error('[StorageUsage] Cleanup failed:', error);
+      alert('Cleanup failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClearSummaries = () =>
+    runCleanup(
+      `Remove AI summaries created more than ${OLD_SUMMARY_DAYS} days ago? They can be generated again.`,
+      () => clearSummaries(new Date(Date.now() - OLD_SUMMARY_DAYS * DAY_MS)),
+      (count) => `Removed summaries from ${count} ${count === 1 ? 'pin' : 'pins'}.`
+    );
+
+  const handleClearPageContent = () =>
+    runCleanup(
+      'Remove cached page descriptions and preview images from all pins? Titles and links are kept.',
+      clearPageContent,
+      (count) => `Removed cached page content from ${count} ${count === 1 ? 'pin' : 'pins'}.`
+    );
+
+  const handleEmptyTrash = () =>
+    runCleanup(
+      'Delete everything in the trash forever? This cannot be undone.',
+      emptyTrash,
+      (count) => `Deleted ${count} ${count === 1 ? 'item' : 'items'} from the trash.`
+    );
+
+  const ratio = stats?.usage !== undefined && stats.quota ? stats.usage / stats.quota : null;
+  const localBytes = stats
+    ? Object.values(stats.stores).reduce((total, store) => total + store.bytes, 0)
+    : 0;
+
+  return (
+    <div className="p-4 mb-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Storage Usage</p>
+      {!stats ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <>
+          {ratio !== null ? (
+            <div className="mb-3">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                <span>{formatBytes(stats.usage!)} used</span>
+                <span>{formatBytes(stats.quota!)} available</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full ${ratio >= USAGE_WARNING_RATIO ? 'bg-red-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }}
+                />
+              </div>
+              {ratio >= USAGE_WARNING_RATIO && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                  Storage is nearly full. New pins may fail to save until you free up space.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              About {formatBytes(localBytes)} of local data
+            </p>
+          )}
+
+          <div className="space-y-1 mb-3">
+            {STORE_LABELS.map(([name, label]) => (
+              <div key={name} className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                <span>{label}</span>
+                <span>
+                  {stats.stores[name].records} · {formatBytes(stats.stores[name].bytes)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Button onClick={handleClearSummaries} disabled={busy} variant="outline" size="sm" className="w-full">
+              Clear summaries older than {OLD_SUMMARY_DAYS} days
+            </Button>
+            <Button onClick={handleClearPageContent} disabled={busy} variant="outline" size="sm" className="w-full">
+              Clear cached page content
+            </Button>
+            <Button
+              onClick={handleEmptyTrash}
+              disabled={busy || stats.stores.trashed_pins.records + stats.stores.trashed_collections.records === 0}
+              variant="outline"
+              size="sm"
+              className="w-full"
+            >
+              Empty trash
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
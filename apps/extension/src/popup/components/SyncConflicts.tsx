@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@wiserpin/ui';
+import { listCollections } from '@wiserpin/storage';
+import {
+  CONFLICT_MERGE_FIELDS,
+  decryptFields,
+  isEncrypted,
+  type ConflictResolution,
+  type ConflictSide,
+  type SyncConflict,
+} from '@wiserpin/core';
+import { api } from '../../services/api-client';
+import { encryptionService } from '../../services/encryption';
+
+interface SyncConflictsProps {
+  onBack: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  note: 'Note',
+  summaryText: 'Summary',
+  description: 'Description',
+  collectionId: 'Collection',
+  name: 'Name',
+  color: 'Color',
+};
+
+export function SyncConflicts({ onBack }: SyncConflictsProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [collectionNames, setCollectionNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeFields, setMergeFields] = useState<Record<string, ConflictSide>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    try {
+      const [list, collections, key] = await Promise.all([
+        api.sync.conflicts.list() as Promise<SyncConflict[]>,
+        listCollections(),
+        encryptionService.getKey(),
+      ]);
+
+      // Both versions are stored as pushed, so encrypted fields need the key to be shown
+      if (key) {
+        for (const conflict of list) {
+          const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+          conflict.localData = await decryptFields(conflict.localData, fields, key);
+          conflict.remoteData = await decryptFields(conflict.remoteData, fields, key);
+        }
+      }
+
+      setConflicts(list);
+      setCollectionNames(Object.fromEntries(collections.map((c) => [c.id, c.name])));
+    } catch (err) {
+      console.error('[SyncConflicts] Failed to load conflicts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load conflicts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartMerge = (conflict: SyncConflict) => {
+    const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+    setMergingId(conflict.id);
+    setMergeFields(Object.fromEntries(fields.map((field) => [field, 'local' as ConflictSide])));
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    setResolvingId(conflict.id);
+    try {
+      await api.sync.conflicts.resolve(conflict.id, {
+        resolution,
+        fields: resolution === 'merge' ? mergeFields : undefined,
+      });
+      setConflicts((current) => current.filter((c) => c.id !== conflict.id));
+      setMergingId(null);
+
+      // Pull the resolved version right away
+      chrome.runtime.sendMessage({ type: 'TRIGGER_SYNC' });
+    } catch (err) {
+      console.error('[SyncConflicts] Failed to resolve conflict:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (isEncrypted(value)) {
+      return 'Encrypted - unlock in Settings to view';
+    }
+    if (field === 'collectionId') {
+      return collectionNames[value as string] || 'Unknown collection';
+    }
+    return String(value);
+  };
+
+  const recordTitle = (conflict: SyncConflict) => {
+    const data = conflict.remoteData as Record<string, unknown>;
+    return String(data.title || data.name || data.url || conflict.recordId);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700" style={{ padding: '16px 16px 12px 16px' }}>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            <svg className="w-6 h-6 text-gray-600 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Sync Conflicts</h2>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto" style={{ padding: '16px' }}>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading conflicts...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : conflicts.length === 0 ? (
+          <p className="text-sm text-gray-500">No conflicts. Everything is in sync.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              These items were edited on this device and elsewhere before they could sync. Choose which version to keep.
+            </p>
+
+            {conflicts.map((conflict) => {
+              const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+              const isMerging = mergingId === conflict.id;
+              const isResolving = resolvingId === conflict.id;
+
+              return (
+                <div
+                  key={conflict.id}
+                  className="p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                >
+                  <p className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+                    {recordTitle(conflict)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    {conflict.entity === 'pin' ? 'Pin' : 'Collection'} · {new Date(conflict.createdAt).toLocaleString()}
+                  </p>
+
+                  <div className="space-y-2 mb-3">
+                    {fields.map((field) => (
+                      <div key={field} className="text-sm">
+                        <p className="font-medium text-gray-700 dark:text-gray-300">{FIELD_LABELS[field] || field}</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          {(['local', 'remote'] as const).map((side) => {
+                            const data = side === 'local' ? conflict.localData : conflict.remoteData;
+                            const selected = isMerging && mergeFields[field] === side;
+
+                            return (
+                              <button
+                                key={side}
+                                disabled={!isMerging}
+                                onClick={() => setMergeFields((current) => ({ ...current, [field]: side }))}
+                                className={`text-left p-2 rounded-md border text-xs break-words ${
+                                  selected
+                                    ? 'border-[#ff751f] bg-orange-50 dark:bg-orange-900/20'
+                                    : 'border-gray-200 dark:border-gray-700'
+                                } text-gray-900 dark:text-gray-100`}
+                              >
+                                <span className="block text-[10px] uppercase text-gray-500 dark:text-gray-400">
+                                  {side === 'local' ? 'This device' : 'Cloud'}
+                                </span>
+                                {formatValue(field, data[field])}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {isMerging ? (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        disabled={isResolving}
+                        onClick={() => handleResolve(conflict, 'merge')}
+                      >
+                        Save merge
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isResolving}
+                        onClick={() => setMergingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1"
+                        disabled={isResolving}
+                        onClick={() => handleResolve(conflict, 'local')}
+                      >
+                        Keep this device
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1"
+                        disabled={isResolving}
+                        onClick={() => handleResolve(conflict, 'remote')}
+                      >
+                        Keep cloud
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isResolving}
+                        onClick={() => handleStartMerge(conflict)}
+                      >
+                        Merge
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@wiserpin/ui';
+import { getOutboxCount } from '@wiserpin/storage';
+import { clearSyncLog, getSyncLog, type SyncEntityCounts, type SyncRun } from '../../services/sync-log';
+import type { SyncSettings, SyncStatus } from '../../services/sync-service';
+
+interface SyncDiagnosticsProps {
+  onBack: () => void;
+}
+
+const TRIGGER_LABELS: Record<SyncRun['trigger'], string> = {
+  manual: 'Manual',
+  auto: 'Scheduled',
+  realtime: 'Cloud change',
+};
+
+export function SyncDiagnostics({ onBack }: SyncDiagnosticsProps) {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRuns();
+
+    // Show new runs while the view is open
+    const listener = (message: any) => {
+      if (message.type === 'SYNC_STATUS_CHANGED') {
+        loadRuns();
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await getSyncLog());
+    } catch (error) {
+      console.error('[SyncDiagnostics] Failed to load sync log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const result = await chrome.storage.local.get(['wiserpin_sync_settings', 'wiserpin_sync_status']) as {
+      wiserpin_sync_settings?: SyncSettings;
+      wiserpin_sync_status?: SyncStatus;
+    };
+
+    const report = {
+      exportedAt: new Date().toISOString(),
+      extensionVersion: chrome.runtime.getManifest().version,
+      userAgent: navigator.userAgent,
+      online: navigator.onLine,
+      settings: result.wiserpin_sync_settings ?? null,
+      status: result.wiserpin_sync_status ?? null,
+      queuedChanges: await getOutboxCount().catch(() => null),
+      runs: await getSyncLog(),
+    };
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wiserpin-sync-diagnostics-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear the sync history?')) {
+      return;
+    }
+
+    await clearSyncLog();
+    setRuns([]);
+  };
+
+  const formatCounts = (counts: SyncEntityCounts) =>
+    `${counts.collection} collection${counts.collection === 1 ? '' : 's'}, ${counts.pin} pin${counts.pin === 1 ? '' : 's'}`;
+
+  const formatDuration = (run: SyncRun) => {
+    if (!run.finishedAt) {
+      return 'running';
+    }
+    const seconds = (run.finishedAt - run.startedAt) / 1000;
+    return `${seconds.toFixed(1)}s`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700" style={{ padding: '16px 16px 12px 16px' }}>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            <svg className="w-6 h-6 text-gray-600 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Sync Diagnostics</h2>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto" style={{ padding: '16px' }}>
+        <div className="flex gap-2 mb-4">
+          <Button size="sm" className="flex-1" onClick={handleExport}>
+            Export JSON
+          </Button>
+          <Button size="sm" variant="outline" disabled={runs.length === 0} onClick={handleClear}>
+            Clear
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading sync history...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No syncs recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map((run) => {
+              const isExpanded = expandedId === run.id;
+              const issues = run.skipped.length + run.errors.length;
+
+              return (
+                <div
+                  key={run.id}
+                  className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                >
+                  <button
+                    className="w-full text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : run.id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </p>
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${
+                        run.status === 'success'
+                          ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                          : run.status === 'error'
+                            ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300'
+                      }`}>
+                        {run.status}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {TRIGGER_LABELS[run.trigger]} · {formatDuration(run)}
+                      {issues > 0 && ` · ${issues} issue${issues === 1 ? '' : 's'}`}
+                    </p>
+                    {run.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400 mt-1 break-words">{run.error}</p>
+                    )}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-700 dark:text-gray-300 space-y-1">
+                      <p>Pulled: {formatCounts(run.pulled)}</p>
+                      <p>Removed: {formatCounts(run.removed)}</p>
+                      <p>Pushed: {formatCounts(run.pushed)}</p>
+                      <p>Conflicts: {formatCounts(run.conflicts)}</p>
+
+                      {[
+                        { title: 'Skipped', items: run.skipped },
+                        { title: 'Errors', items: run.errors },
+                      ].filter(({ items }) => items.length > 0).map(({ title, items }) => (
+                        <div key={title} className="pt-1">
+                          <p className="font-medium">{title}</p>
+                          <ul className="space-y-1">
+                            {items.map((issue, index) => (
+                              <li key={`${issue.id}-${index}`} className="break-words">
+                                {issue.phase} {issue.entity} <span className="font-mono">{issue.id}</span>: {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@wiserpin/ui';
+import {
+  deleteTrashedCollection,
+  deleteTrashedPin,
+  emptyTrash,
+  getSettings,
+  listTrash,
+  restoreCollection,
+  restorePin,
+  type TrashContents,
+} from '@wiserpin/storage';
+import { StorageEventType } from '@wiserpin/core';
+import { useStorageEvent } from '../../hooks/useStorageEvent';
+
+interface TrashProps {
+  onBack: () => void;
+}
+
+const TRASH_EVENTS = [
+  StorageEventType.COLLECTION_TRASHED,
+  StorageEventType.COLLECTION_RESTORED,
+  StorageEventType.COLLECTION_DELETED,
+  StorageEventType.PIN_TRASHED,
+  StorageEventType.PIN_RESTORED,
+  StorageEventType.PIN_DELETED,
+  StorageEventType.DATA_CLEARED,
+];
+
+const EMPTY_TRASH: TrashContents = { collections: [], pins: [] };
+
+export function Trash({ onBack }: TrashProps) {
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  // Items trashed, restored or purged here, in another view or by sync
+  useStorageEvent(TRASH_EVENTS, () => {
+    loadTrash();
+  });
+
+  const loadTrash = async () => {
+    try {
+      const [contents, settings] = await Promise.all([listTrash(), getSettings()]);
+      setTrash(contents);
+      setRetentionDays(settings.trashRetentionDays);
+    } catch (error) {
+      console.error('[Trash] Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      await loadTrash();
+    } catch (error) {
+      console.error(`[Trash] ${failure}:`, error);
+      alert(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    if (!confirm('Delete this collection and its trashed pins forever? This cannot be undone.')) {
+      return;
+    }
+    runAction(id, () => deleteTrashedCollection(id), 'Failed to delete collection');
+  };
+
+  const handleDeletePin = (id: string) => {
+    if (!confirm('Delete this pin forever? This cannot be undone.')) {
+      return;
+    }
+    runAction(id, () => deleteTrashedPin(id), 'Failed to delete pin');
+  };
+
+  const handleEmptyTrash = () => {
+    if (!confirm('Delete everything in the trash forever? This cannot be undone.')) {
+      return;
+    }
+    runAction('all', emptyTrash, 'Failed to empty trash');
+  };
+
+  const collectionNames = Object.fromEntries(trash.collections.map((c) => [c.id, c.name]));
+  const isEmpty = trash.collections.length === 0 && trash.pins.length === 0;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700" style={{ padding: '16px 16px 12px 16px' }}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onBack}
+              className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+            >
+              <svg className="w-6 h-6 text-gray-600 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Trash</h2>
+          </div>
+          {!isEmpty && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={busyId !== null}
+              onClick={handleEmptyTrash}
+              className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              Empty trash
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto" style={{ padding: '16px' }}>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : isEmpty ? (
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        ) : (
+          <div className="space-y-4">
+            {retentionDays !== null && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Items are deleted forever {retentionDays} days after they were moved to the trash.
+              </p>
+            )}
+
+            {trash.collections.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Collections</h3>
+                {trash.collections.map((collection) => (
+                  <div
+                    key={collection.id}
+                    className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: collection.color || '#3b82f6' }}
+                      />
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{collection.name}</p>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Trashed {new Date(collection.trashedAt!).toLocaleString()}
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId !== null}
+                        onClick={() => runAction(collection.id, () => restoreCollection(collection.id), 'Failed to restore collection')}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyId !== null}
+                        onClick={() => handleDeleteCollection(collection.id)}
+                        className="text-red-600 dark:text-red-400"
+                      >
+                        Delete forever
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trash.pins.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Pins</h3>
+                {trash.pins.map((pin) => (
+                  <div
+                    key={pin.id}
+                    className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {pin.page.title || pin.page.url}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
+                      {collectionNames[pin.collectionId] ? `${collectionNames[pin.collectionId]} · ` : ''}
+                      Trashed {new Date(pin.trashedAt!).toLocaleString()}
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId !== null}
+                        onClick={() => runAction(pin.id, () => restorePin(pin.id), 'Failed to restore pin')}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyId !== null}
+                        onClick={() => handleDeletePin(pin.id)}
+                        className="text-red-600 dark:text-red-400"
+                      >
+                        Delete forever
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
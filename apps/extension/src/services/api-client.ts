@@ -4,8 +4,12 @@
  * Communicates with the WiserPin API with automatic Clerk token injection
  */
 
+import { CLIENT_ID_HEADER, parseEventStream, type ServerSentEvent } from '@wiserpin/core';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+const CLIENT_ID_KEY = 'wiserpin_client_id';
+
 interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
@@ -36,6 +40,31 @@ async function getSessionToken(): Promise<string | null> {
   }
 }
 
+let clientId: Promise<string> | null = null;
+
+/**
+ * Random ID of this installation, made on first use. Requests send it, so
+ * change events caused by this extension's own syncs can be told apart.
+ */
+export function getClientId(): Promise<string> {
+  if (!clientId) {
+    clientId = (async () => {
+      const result = await chrome.storage.local.get([CLIENT_ID_KEY]);
+      if (result[CLIENT_ID_KEY]) {
+        return result[CLIENT_ID_KEY] as string;
+      }
+
+      const id = crypto.randomUUID();
+      await chrome.storage.local.set({ [CLIENT_ID_KEY]: id });
+      return id;
+    })().catch((error) => {
+      clientId = null;
+      throw error;
+    });
+  }
+  return clientId;
+}
+
 /**
  * Make an authenticated API request
  */
@@ -52,6 +81,10 @@ async function request<T = unknown>(
     headers.set('Authorization', `Bearer ${token}`);
   }
 
+  // Identify the client so the API can attribute pin edits
+  headers.set('X-WiserPin-Client', 'extension');
+  headers.set(CLIENT_ID_HEADER, await getClientId());
+
   // Add content type for JSON requests
   if (options.body && !headers.has('Content-Type')) {
     headers.set('Content-Type', 'application/json');
@@ -95,10 +128,51 @@ async function request<T = unknown>(
   }
 }
 
+/**
+ * Open an authenticated server-sent events stream and call onEvent for each event.
+ * Uses fetch because EventSource can't send the Authorization header and
+ * isn't available in the service worker. Resolves when the server closes the stream.
+ */
+async function stream(
+  endpoint: string,
+  onEvent: (event: ServerSentEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const token = await getSessionToken();
+
+  const headers = new Headers({ Accept: 'text/event-stream' });
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, { headers, signal });
+
+  if (!response.ok || !response.body) {
+    throw new ApiError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    const { events, rest } = parseEventStream(buffer + value);
+    buffer = rest;
+    events.forEach(onEvent);
+  }
+}
+
 export const api = {
   // Collections
   collections: {
-    list: () => request('/collections'),
+    list: (options: { includeDeleted?: boolean } = {}) => {
+      const params = options.includeDeleted ? '?includeDeleted=true' : '';
+      return request(`/collections${params}`);
+    },
     get: (id: string) => request(`/collections/${id}`),
     create: (data: any) => request('/collections', {
       method: 'POST',
@@ -115,9 +189,20 @@ export const api = {
 
   // Pins
   pins: {
-    list: (collectionId?: string) => {
-      const params = collectionId ? `?collectionId=${collectionId}` : '';
-      return request(`/pins${params}`);
+    list: (options: {
+      collectionId?: string;
+      includeDeleted?: boolean;
+      page?: number;
+      limit?: number;
+    } = {}) => {
+      const params = new URLSearchParams();
+      if (options.collectionId) params.append('collectionId', options.collectionId);
+      if (options.includeDeleted) params.append('includeDeleted', 'true');
+      if (options.page) params.append('page', options.page.toString());
+      if (options.limit) params.append('limit', options.limit.toString());
+
+      const query = params.toString() ? `?${params.toString()}` : '';
+      return request(`/pins${query}`);
     },
     get: (id: string) => request(`/pins/${id}`),
     create: (data: any) => request('/pins', {
@@ -133,6 +218,42 @@ export const api = {
     }),
   },
 
+  // Sync
+  sync: {
+    changes: (options: { since?: string; limit?: number } = {}) => {
+      const params = new URLSearchParams();
+      if (options.since) params.append('since', options.since);
+      if (options.limit) params.append('limit', options.limit.toString());
+
+      const query = params.toString() ? `?${params.toString()}` : '';
+      return request(`/sync/changes${query}`);
+    },
+    push: (data: any) => request('/sync/push', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+    encryption: {
+      get: () => request('/sync/encryption'),
+      setup: (data: any) => request('/sync/encryption', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
+    },
+    conflicts: {
+      list: () => request('/sync/conflicts'),
+      resolve: (id: string, data: any) => request(`/sync/conflicts/${id}/resolve`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    },
+  },
+
+  // Realtime change events
+  events: {
+    stream: (onEvent: (event: ServerSentEvent) => void, signal: AbortSignal) =>
+      stream('/events', onEvent, signal),
+  },
+
   // Health check
   health: () => request('/health'),
 };
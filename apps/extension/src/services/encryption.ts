@@ -0,0 +1,151 @@
+/**
+ * Encryption Service for WiserPin Extension
+ *
+ * Holds this device's key for end-to-end encrypted sync. The key is derived
+ * from the user's passphrase and kept in chrome.storage.local; the cloud only
+ * stores the salt and a key check, and sees encrypted fields as ciphertext.
+ */
+
+import {
+  createKeyCheck,
+  deriveEncryptionKey,
+  exportEncryptionKey,
+  generateEncryptionSalt,
+  importEncryptionKey,
+  verifyKeyCheck,
+  type EncryptionConfig,
+} from '@wiserpin/core';
+import { enqueueChange, getOutboxEntry, listCollections, listPins, listTrash } from '@wiserpin/storage';
+import { api } from './api-client';
+
+const ENCRYPTION_CONFIG_KEY = 'wiserpin_encryption';
+const ENCRYPTION_KEY_KEY = 'wiserpin_encryption_key';
+
+const DISABLED_CONFIG: EncryptionConfig = {
+  enabled: false,
+  salt: null,
+  keyCheck: null,
+  encryptCollections: false,
+};
+
+/**
+ * Encryption settings and this device's key, if unlocked
+ */
+export interface EncryptionState {
+  config: EncryptionConfig;
+  key: CryptoKey | null;
+}
+
+class EncryptionService {
+  /**
+   * Get the encryption settings, from the cloud when reachable
+   */
+  async getConfig(): Promise<EncryptionConfig> {
+    try {
+      const config = await api.sync.encryption.get() as EncryptionConfig;
+      await chrome.storage.local.set({ [ENCRYPTION_CONFIG_KEY]: config });
+      return config;
+    } catch (error) {
+      console.error('[Encryption] Failed to load encryption settings, using the last known ones:', error);
+      return this.getCachedConfig();
+    }
+  }
+
+  /**
+   * Last encryption settings seen from the cloud
+   */
+  async getCachedConfig(): Promise<EncryptionConfig> {
+    const result = await chrome.storage.local.get([ENCRYPTION_CONFIG_KEY]);
+    return (result[ENCRYPTION_CONFIG_KEY] as EncryptionConfig | undefined) || DISABLED_CONFIG;
+  }
+
+  /**
+   * Get this device's key, if encryption was unlocked here
+   */
+  async getKey(): Promise<CryptoKey | null> {
+    const result = await chrome.storage.local.get([ENCRYPTION_KEY_KEY]);
+    const raw = result[ENCRYPTION_KEY_KEY] as string | undefined;
+    return raw ? importEncryptionKey(raw) : null;
+  }
+
+  /**
+   * Encryption settings and key for a sync run
+   */
+  async getState(): Promise<EncryptionState> {
+    const config = await this.getConfig();
+    return { config, key: config.enabled ? await this.getKey() : null };
+  }
+
+  /**
+   * Turn on encryption for this user and unlock it on this device.
+   * Everything already synced is queued again so the cloud copies get encrypted.
+   */
+  async setup(passphrase: string, encryptCollections: boolean): Promise<void> {
+    const salt = generateEncryptionSalt();
+    const key = await deriveEncryptionKey(passphrase, salt);
+
+    const config = await api.sync.encryption.setup({
+      salt,
+      keyCheck: await createKeyCheck(key),
+      encryptCollections,
+    }) as EncryptionConfig;
+
+    await this.saveKey(key, config);
+
+    // Records with queued edits are pushed, and encrypted, anyway. Trashed
+    // records are encrypted too, as they can still be restored
+    const trash = await listTrash();
+    const pins = [...(await listPins()), ...trash.pins];
+    for (const pin of pins) {
+      if (!(await getOutboxEntry(pin.id))) {
+        await enqueueChange('pin', pin.id, 'upsert');
+      }
+    }
+
+    if (encryptCollections) {
+      const collections = [...(await listCollections()), ...trash.collections];
+      for (const collection of collections) {
+        if (!(await getOutboxEntry(collection.id))) {
+          await enqueueChange('collection', collection.id, 'upsert');
+        }
+      }
+    }
+
+    console.log(`[Encryption] Encryption set up, ${pins.length} pins queued for re-encryption`);
+  }
+
+  /**
+   * Unlock encryption on this device with the user's passphrase
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const config = await this.getConfig();
+    if (!config.enabled || !config.salt || !config.keyCheck) {
+      throw new Error('Encryption is not set up');
+    }
+
+    const key = await deriveEncryptionKey(passphrase, config.salt);
+    if (!(await verifyKeyCheck(config.keyCheck, key))) {
+      throw new Error('Wrong passphrase');
+    }
+
+    await this.saveKey(key, config);
+    console.log('[Encryption] Unlocked on this device');
+  }
+
+  /**
+   * Forget the key on this device; sync stops until it is unlocked again
+   */
+  async lock(): Promise<void> {
+    await chrome.storage.local.remove([ENCRYPTION_KEY_KEY]);
+    console.log('[Encryption] Locked on this device');
+  }
+
+  private async saveKey(key: CryptoKey, config: EncryptionConfig) {
+    await chrome.storage.local.set({
+      [ENCRYPTION_KEY_KEY]: await exportEncryptionKey(key),
+      [ENCRYPTION_CONFIG_KEY]: config,
+    });
+  }
+}
+
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,144 @@
+/**
+ * Realtime Service for WiserPin Extension
+ *
+ * Keeps a server-sent events connection to the API and pulls changes as soon
+ * as the cloud announces them, instead of waiting for the next sync alarm.
+ */
+
+import type { SyncChangeEvent } from '@wiserpin/core';
+import { api, getClientId } from './api-client';
+import { syncService } from './sync-service';
+
+/**
+ * Reconnect delay after the stream drops, doubled on each failed attempt
+ */
+const RECONNECT_BASE_MS = 5 * 1000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Wait after a change event before pulling, so a burst of changes is pulled once
+ */
+const PULL_DELAY_MS = 1000;
+
+class RealtimeService {
+  private controller: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pullTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+
+  /**
+   * Open the event stream if sync is enabled and it isn't open yet.
+   * Resolves only when the stream closes, so callers shouldn't wait on it.
+   * A suspended service worker drops the stream; it is reopened from the
+   * sync alarm and on startup.
+   */
+  async connect(): Promise<void> {
+    if (this.controller) {
+      return;
+    }
+
+    const settings = await syncService.getSettings();
+    if (!settings.enabled) {
+      return;
+    }
+
+    this.clearReconnect();
+    const controller = new AbortController();
+    this.controller = controller;
+    console.log('[Realtime] Connecting to change events...');
+
+    try {
+      const clientId = await getClientId();
+      await api.events.stream((event) => {
+        // Any event, heartbeats included, means the connection works
+        this.attempts = 0;
+
+        if (event.type === 'change') {
+          this.handleChange(JSON.parse(event.data) as SyncChangeEvent, clientId);
+        }
+      }, controller.signal);
+      console.log('[Realtime] Change events stream closed');
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('[Realtime] Change events stream failed:', error);
+      }
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+    }
+
+    if (!controller.signal.aborted) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Close the event stream, e.g. when sync is disabled or the user signs out
+   */
+  disconnect() {
+    this.clearReconnect();
+    this.clearPull();
+    this.attempts = 0;
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  /**
+   * Reopen the stream with the current session, e.g. after signing in
+   */
+  async reconnect(): Promise<void> {
+    this.disconnect();
+    await this.connect();
+  }
+
+  /**
+   * Pull a change made by another client, together with any that follow it
+   * within PULL_DELAY_MS. Changes this extension pushed itself are skipped.
+   */
+  private handleChange(event: SyncChangeEvent, clientId: string) {
+    if (event.clientId === clientId) {
+      return;
+    }
+
+    console.log(`[Realtime] ${event.entity} ${event.id} changed in the cloud`);
+    if (this.pullTimer) {
+      return;
+    }
+
+    this.pullTimer = setTimeout(() => {
+      this.pullTimer = null;
+      console.log('[Realtime] Pulling changes');
+      syncService.pullNow().catch((error) => {
+        console.error('[Realtime] Failed to pull changes:', error);
+      });
+    }, PULL_DELAY_MS);
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts, RECONNECT_MAX_MS);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        console.error('[Realtime] Failed to reconnect:', error);
+      });
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private clearPull() {
+    if (this.pullTimer) {
+      clearTimeout(this.pullTimer);
+      this.pullTimer = null;
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,111 @@
+/**
+ * Sync Log for WiserPin Extension
+ *
+ * Keeps a bounded history of sync runs in chrome.storage so failures can be
+ * inspected in the popup and exported for bug reports.
+ */
+
+import type { SyncEntity } from '@wiserpin/core';
+
+const SYNC_LOG_KEY = 'wiserpin_sync_log';
+
+/**
+ * Runs kept in the log, oldest dropped first
+ */
+const MAX_SYNC_RUNS = 50;
+
+/**
+ * Skipped items and errors kept per run
+ */
+const MAX_RUN_ISSUES = 100;
+
+/**
+ * What started a sync run
+ * - manual: sync button, or enabling sync
+ * - auto: the sync alarm
+ * - realtime: a change announced by the cloud (pull only)
+ */
+export type SyncTrigger = 'manual' | 'auto' | 'realtime';
+
+export type SyncEntityCounts = Record<SyncEntity, number>;
+
+/**
+ * A record that was skipped or failed during a run
+ */
+export interface SyncRunIssue {
+  entity: SyncEntity;
+  id: string;
+  phase: 'pull' | 'push';
+  message: string;
+}
+
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  startedAt: number;
+  finishedAt: number | null;
+  status: 'running' | 'success' | 'error';
+  error: string | null;
+  pulled: SyncEntityCounts;
+  removed: SyncEntityCounts;
+  pushed: SyncEntityCounts;
+  conflicts: SyncEntityCounts;
+  skipped: SyncRunIssue[];
+  errors: SyncRunIssue[];
+}
+
+/**
+ * Start recording a sync run
+ */
+export function createSyncRun(trigger: SyncTrigger): SyncRun {
+  const counts = (): SyncEntityCounts => ({ collection: 0, pin: 0 });
+
+  return {
+    id: crypto.randomUUID(),
+    trigger,
+    startedAt: Date.now(),
+    finishedAt: null,
+    status: 'running',
+    error: null,
+    pulled: counts(),
+    removed: counts(),
+    pushed: counts(),
+    conflicts: counts(),
+    skipped: [],
+    errors: [],
+  };
+}
+
+/**
+ * Note a skipped or failed record, up to the per-run limit
+ */
+export function addRunIssue(issues: SyncRunIssue[], issue: SyncRunIssue) {
+  if (issues.length < MAX_RUN_ISSUES) {
+    issues.push(issue);
+  }
+}
+
+/**
+ * Get recorded sync runs, newest first
+ */
+export async function getSyncLog(): Promise<SyncRun[]> {
+  const result = await chrome.storage.local.get([SYNC_LOG_KEY]);
+  return (result[SYNC_LOG_KEY] as SyncRun[] | undefined) || [];
+}
+
+/**
+ * Store a finished run, dropping the oldest runs beyond the limit
+ */
+export async function saveSyncRun(run: SyncRun) {
+  const runs = await getSyncLog();
+  await chrome.storage.local.set({
+    [SYNC_LOG_KEY]: [run, ...runs.filter((r) => r.id !== run.id)].slice(0, MAX_SYNC_RUNS),
+  });
+}
+
+/**
+ * Remove all recorded runs
+ */
+export async function clearSyncLog() {
+  await chrome.storage.local.remove([SYNC_LOG_KEY]);
+}
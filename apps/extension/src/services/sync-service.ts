@@ -4,14 +4,64 @@
  * Synchronizes data between local IndexedDB and the WiserPin API
  */
 
-import { listCollections, listPins, addCollection, addPin } from '@wiserpin/storage';
+import {
+  decryptFields,
+  encryptFields,
+  fromApiCollection,
+  fromApiPin,
+  ENCRYPTED_COLLECTION_FIELDS,
+  ENCRYPTED_PIN_FIELDS,
+  toApiCollection,
+  toApiPin,
+  reconcile,
+  type ApiCollectionInput,
+  type ApiPinInput,
+  type Collection,
+  type OutboxEntry,
+  type Pin,
+  type RecordVersion,
+  type SyncDecision,
+  type SyncEntity,
+  type SyncOperation,
+} from '@wiserpin/core';
+import {
+  getCollection,
+  getPin,
+  getTrashedCollection,
+  getTrashedPin,
+  getTombstone,
+  enqueueChange,
+  listOutbox,
+  getOutboxEntry,
+  getOutboxCount,
+  removeOutboxEntry,
+  deferOutboxEntry,
+  removeTombstone,
+  saveCollection,
+  savePin,
+  purgeCollection,
+  purgePin,
+} from '@wiserpin/storage';
 import { api } from './api-client';
+import { encryptionService, type EncryptionState } from './encryption';
+import {
+  addRunIssue,
+  createSyncRun,
+  saveSyncRun,
+  type SyncEntityCounts,
+  type SyncRun,
+  type SyncRunIssue,
+  type SyncTrigger,
+} from './sync-log';
 
 export interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: number | null;
   error: string | null;
   pendingChanges: number;
+  conflicts: number;
+  nextSyncTime: number | null;
+  failedAttempts: number;
 }
 
 export interface SyncSettings {
@@ -23,6 +73,8 @@ export interface SyncSettings {
 
 const SYNC_STORAGE_KEY = 'wiserpin_sync_status';
 const SYNC_SETTINGS_KEY = 'wiserpin_sync_settings';
+const SYNC_CURSOR_KEY = 'wiserpin_sync_cursor';
+const SYNC_ALARM = 'wiserpin-sync';
 
 const DEFAULT_SETTINGS: SyncSettings = {
   enabled: false,
@@ -31,22 +83,96 @@ const DEFAULT_SETTINGS: SyncSettings = {
   wifiOnly: false,
 };
 
+/**
+ * Delay before retrying a failed sync; doubles with every failure up to the
+ * sync interval, and is spread by up to 30% either way so clients don't retry in step
+ */
+const SYNC_RETRY_BASE_MS = 60 * 1000;
+const SYNC_RETRY_JITTER = 0.3;
+
+/**
+ * Connection types that are not metered, for the wifiOnly setting
+ */
+const UNMETERED_CONNECTION_TYPES = ['wifi', 'ethernet'];
+
+/**
+ * Subset of the Network Information API (navigator.connection), not yet in the DOM typings
+ */
+interface ConnectionInfo {
+  type?: string;
+  saveData?: boolean;
+}
+
+/**
+ * Maximum number of mutations per entity type in one push request
+ */
+const PUSH_BATCH_SIZE = 100;
+
+/**
+ * Delay before retrying a failed change; doubles with every attempt up to the max
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Position of this device in the server changes feed
+ */
+interface SyncCursor {
+  /** Opaque cursor of the server changes feed */
+  remote?: string;
+}
+
+/**
+ * A single mutation sent to the server, with the outbox entry it drains
+ */
+interface SyncMutation {
+  op: SyncOperation;
+  id: string;
+  timestamp: string;
+  baseVersion?: string;
+  data?: ApiCollectionInput | ApiPinInput;
+  entry: OutboxEntry;
+}
+
+/**
+ * Server outcome of a pushed mutation
+ */
+interface PushResult {
+  id: string;
+  status: 'applied' | 'stale' | 'conflict' | 'rejected';
+  record?: any;
+  error?: string;
+}
+
+/**
+ * IDs the pull phase settled with the cloud
+ */
+interface PullOutcome {
+  pulled: Set<string>;
+}
+
 class SyncService {
   private syncInProgress = false;
-  private syncTimer: number | null = null;
+  private pullRequested = false;
+
+  /** Run being recorded for the sync log, set while a sync or pull is in progress */
+  private run: SyncRun | null = null;
+  private encryption: EncryptionState | null = null;
 
   /**
    * Initialize sync service
+   * Alarms survive service worker suspension but not always a browser restart,
+   * so a missing alarm is recreated to sync shortly after startup.
    */
   async initialize() {
     const settings = await this.getSettings();
-    if (settings.enabled && settings.autoSync) {
-      this.startAutoSync();
+    if (!settings.enabled || !settings.autoSync) {
+      return;
     }
 
-    // Sync on startup if enabled
-    if (settings.enabled) {
-      this.sync();
+    const alarm = await chrome.alarms.get(SYNC_ALARM);
+    if (!alarm) {
+      await this.scheduleSync(Date.now());
     }
   }
 
@@ -68,9 +194,9 @@ class SyncService {
 
     // Restart auto-sync if settings changed
     if (updated.enabled && updated.autoSync) {
-      this.startAutoSync();
+      await this.startAutoSync();
     } else {
-      this.stopAutoSync();
+      await this.stopAutoSync();
     }
 
     return updated;
@@ -86,6 +212,9 @@ class SyncService {
       lastSyncTime: null,
       error: null,
       pendingChanges: 0,
+      conflicts: 0,
+      nextSyncTime: null,
+      failedAttempts: 0,
     };
   }
 
@@ -107,36 +236,108 @@ class SyncService {
   }
 
   /**
-   * Start auto-sync timer
+   * Start auto-sync, one interval from now
    */
-  private startAutoSync() {
-    this.stopAutoSync();
-
-    const settings = this.getSettings();
-    settings.then((s) => {
-      if (s.enabled && s.autoSync) {
-        const intervalMs = s.syncInterval * 60 * 1000;
-        this.syncTimer = window.setInterval(() => {
-          this.sync();
-        }, intervalMs);
-      }
-    });
+  private async startAutoSync() {
+    await this.scheduleNextSync(0);
+  }
+
+  /**
+   * Stop auto-sync
+   */
+  private async stopAutoSync() {
+    await chrome.alarms.clear(SYNC_ALARM);
+    await this.updateStatus({ nextSyncTime: null });
+  }
+
+  /**
+   * Schedule the next automatic sync: one interval after a success, or a
+   * jittered retry delay that grows with every failure
+   */
+  private async scheduleNextSync(failedAttempts: number) {
+    const settings = await this.getSettings();
+    if (!settings.enabled || !settings.autoSync) {
+      await this.stopAutoSync();
+      return;
+    }
+
+    const intervalMs = settings.syncInterval * 60 * 1000;
+    let delayMs = intervalMs;
+
+    if (failedAttempts > 0) {
+      const backoffMs = Math.min(SYNC_RETRY_BASE_MS * 2 ** (failedAttempts - 1), intervalMs);
+      delayMs = backoffMs * (1 + SYNC_RETRY_JITTER * (Math.random() * 2 - 1));
+    }
+
+    await this.scheduleSync(Date.now() + delayMs);
+  }
+
+  /**
+   * Set the sync alarm and show its time in the popup
+   */
+  private async scheduleSync(when: number) {
+    await chrome.alarms.create(SYNC_ALARM, { when });
+    await this.updateStatus({ nextSyncTime: when });
+    console.log(`[SyncService] Next sync at ${new Date(when).toLocaleTimeString()}`);
   }
 
   /**
-   * Stop auto-sync timer
+   * Run an automatic sync when the sync alarm fires
    */
-  private stopAutoSync() {
-    if (this.syncTimer) {
-      clearInterval(this.syncTimer);
-      this.syncTimer = null;
+  async handleAlarm(alarm: chrome.alarms.Alarm) {
+    if (alarm.name !== SYNC_ALARM) {
+      return;
+    }
+
+    const settings = await this.getSettings();
+    if (!settings.enabled || !settings.autoSync) {
+      return;
+    }
+
+    const skipReason = this.getNetworkSkipReason(settings);
+    if (skipReason) {
+      console.log(`[SyncService] Skipping automatic sync: ${skipReason}`);
+      await this.scheduleNextSync(0);
+      return;
+    }
+
+    try {
+      await this.sync('auto');
+    } catch {
+      // Already recorded in the sync status, and a retry is scheduled
+    }
+  }
+
+  /**
+   * Why automatic sync should not run on the current connection, if at all.
+   * With wifiOnly, cellular and other metered connections and data saver mode
+   * are skipped; when the browser doesn't report the connection, sync runs.
+   */
+  private getNetworkSkipReason(settings: SyncSettings): string | null {
+    if (!settings.wifiOnly) {
+      return null;
+    }
+
+    const connection = (navigator as Navigator & { connection?: ConnectionInfo }).connection;
+    if (!connection) {
+      return null;
+    }
+
+    if (connection.saveData) {
+      return 'data saver is on';
+    }
+
+    if (connection.type && !UNMETERED_CONNECTION_TYPES.includes(connection.type)) {
+      return `connection is ${connection.type}, sync is set to Wi-Fi only`;
     }
+
+    return null;
   }
 
   /**
    * Perform full sync (push + pull)
    */
-  async sync(): Promise<void> {
+  async sync(trigger: SyncTrigger = 'manual'): Promise<void> {
     console.log('[SyncService] Starting sync...');
     const settings = await this.getSettings();
 
@@ -151,7 +352,9 @@ class SyncService {
     }
 
     this.syncInProgress = true;
+    this.run = createSyncRun(trigger);
     await this.updateStatus({ isSyncing: true, error: null });
+    let failedAttempts = 0;
 
     try {
       // Check if online
@@ -167,22 +370,29 @@ class SyncService {
         throw new Error('Not authenticated - please sign in first');
       }
 
+      await this.loadEncryption();
+
       // Pull remote changes from cloud FIRST to avoid duplicates
       console.log('[SyncService] Pulling remote changes...');
-      await this.pullChanges();
+      const outcome = await this.pullChanges(await this.getCursor());
 
       // Then push local changes to cloud
       console.log('[SyncService] Pushing local changes...');
-      await this.pushChanges();
+      await this.pushChanges(outcome);
+
+      const conflicts = await api.sync.conflicts.list() as unknown[];
 
       // Update sync status
       await this.updateStatus({
         isSyncing: false,
         lastSyncTime: Date.now(),
         error: null,
-        pendingChanges: 0,
+        pendingChanges: await getOutboxCount(),
+        conflicts: conflicts.length,
+        failedAttempts: 0,
       });
 
+      this.run.status = 'success';
       console.log('[SyncService] Sync completed successfully');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Sync failed';
@@ -191,172 +401,491 @@ class SyncService {
       const isAuthError = errorMessage.includes('Invalid or expired token') ||
                          errorMessage.includes('Not authenticated');
 
+      failedAttempts = ((await this.getStatus()).failedAttempts || 0) + 1;
+
       await this.updateStatus({
         isSyncing: false,
         error: isAuthError ? null : errorMessage,
+        pendingChanges: await getOutboxCount().catch(() => 0),
+        failedAttempts,
       });
 
+      if (this.run) {
+        this.run.status = 'error';
+        this.run.error = errorMessage;
+      }
+
       console.error('[SyncService] Sync error:', error);
       throw error;
     } finally {
+      await this.finishRun();
       this.syncInProgress = false;
+
+      // Manual syncs restart the interval too
+      await this.scheduleNextSync(failedAttempts).catch((error) => {
+        console.error('[SyncService] Failed to schedule next sync:', error);
+      });
+
+      if (this.pullRequested) {
+        this.pullNow().catch((error) => {
+          console.error('[SyncService] Failed to pull changes:', error);
+        });
+      }
     }
   }
 
   /**
-   * Push local changes to cloud (only push items not already on server)
+   * Pull cloud changes right away, when the cloud announces one.
+   * Local changes wait for the next sync. If a sync is already running,
+   * the pull runs again after it so changes made meanwhile aren't missed.
    */
-  private async pushChanges(): Promise<void> {
-    // Get all local pins and collections
-    const [localPins, localCollections] = await Promise.all([
-      listPins(),
-      listCollections(),
-    ]);
-
-    // Get all remote pins and collections to compare
-    const [remotePins, remoteCollections] = await Promise.all([
-      api.pins.list() as Promise<any[]>,
-      api.collections.list() as Promise<any[]>,
-    ]);
-
-    const remoteCollectionIds = new Set(remoteCollections.map(c => c.id));
-    const remotePinIds = new Set(remotePins.map(p => p.id));
-
-    console.log(`[SyncService] Push: ${localCollections.length} local collections (${remoteCollections.length} remote), ${localPins.length} local pins (${remotePins.length} remote)`);
-
-    // Push only NEW collections (not on server)
-    let pushedCollections = 0;
-    for (const collection of localCollections) {
-      // Skip if already exists on server
-      if (remoteCollectionIds.has(collection.id)) {
-        console.log(`[SyncService] Skipping collection already on server: ${collection.id}`);
-        continue;
-      }
+  async pullNow(): Promise<void> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return;
+    }
 
-      try {
-        const apiCollection = {
-          id: collection.id,
-          name: collection.name,
-          description: collection.goal,
-          color: collection.color,
-        };
-        console.log(`[SyncService] Pushing NEW collection to cloud: ${collection.id} - ${collection.name}`);
-        await api.collections.create(apiCollection as any);
-        pushedCollections++;
-      } catch (error) {
-        console.error(`[SyncService] Failed to push collection ${collection.id}:`, error);
+    if (this.syncInProgress) {
+      this.pullRequested = true;
+      return;
+    }
+
+    this.syncInProgress = true;
+    this.pullRequested = false;
+    this.run = createSyncRun('realtime');
+
+    try {
+      await this.loadEncryption();
+      await this.pullChanges(await this.getCursor());
+      await this.updateStatus({
+        lastSyncTime: Date.now(),
+        pendingChanges: await getOutboxCount(),
+      });
+      this.run.status = 'success';
+    } catch (error) {
+      this.run.status = 'error';
+      this.run.error = error instanceof Error ? error.message : 'Pull failed';
+      throw error;
+    } finally {
+      await this.finishRun();
+      this.syncInProgress = false;
+    }
+
+    if (this.pullRequested) {
+      await this.pullNow();
+    }
+  }
+
+  /**
+   * Load the encryption settings and key for this run.
+   * Without the key, pulled ciphertext couldn't be read and pushes would
+   * upload plaintext, so a locked device doesn't sync at all.
+   */
+  private async loadEncryption() {
+    this.encryption = await encryptionService.getState();
+    if (this.encryption.config.enabled && !this.encryption.key) {
+      throw new Error('Encryption is locked - unlock it in Settings to sync');
+    }
+  }
+
+  /**
+   * Encrypt the private fields of an outgoing record, if encryption is on
+   */
+  private async encryptOutgoing<T extends ApiCollectionInput | ApiPinInput>(entity: SyncEntity, data: T): Promise<T> {
+    const fields = this.getEncryptedFields(entity);
+    if (!fields.length || !this.encryption?.key) {
+      return data;
+    }
+    return encryptFields(data, fields, this.encryption.key);
+  }
+
+  /**
+   * Decrypt the private fields of an incoming record, if encryption is on
+   */
+  private async decryptIncoming(entity: SyncEntity, remote: any): Promise<any> {
+    const fields = this.getEncryptedFields(entity);
+    if (!fields.length || !this.encryption?.key) {
+      return remote;
+    }
+    return decryptFields(remote, fields, this.encryption.key);
+  }
+
+  private getEncryptedFields(entity: SyncEntity): readonly string[] {
+    const config = this.encryption?.config;
+    if (!config?.enabled) {
+      return [];
+    }
+    if (entity === 'pin') {
+      return ENCRYPTED_PIN_FIELDS;
+    }
+    return config.encryptCollections ? ENCRYPTED_COLLECTION_FIELDS : [];
+  }
+
+  /**
+   * Store the recorded run in the sync log
+   */
+  private async finishRun() {
+    if (!this.run) {
+      return;
+    }
+
+    const run = this.run;
+    this.run = null;
+    run.finishedAt = Date.now();
+
+    await saveSyncRun(run).catch((error) => {
+      console.error('[SyncService] Failed to save sync log:', error);
+    });
+  }
+
+  /**
+   * Count a record in the current run
+   */
+  private countInRun(counter: keyof Pick<SyncRun, 'pulled' | 'removed' | 'pushed' | 'conflicts'>, entity: SyncEntity) {
+    if (this.run) {
+      (this.run[counter] as SyncEntityCounts)[entity]++;
+    }
+  }
+
+  /**
+   * Note a skipped or failed record in the current run
+   */
+  private noteInRun(list: 'skipped' | 'errors', issue: SyncRunIssue) {
+    if (this.run) {
+      addRunIssue(this.run[list], issue);
+    }
+  }
+
+  /**
+   * Get this device's position in the sync feeds
+   */
+  private async getCursor(): Promise<SyncCursor> {
+    const result = await chrome.storage.local.get([SYNC_CURSOR_KEY]);
+    return result[SYNC_CURSOR_KEY] || {};
+  }
+
+  /**
+   * Update this device's position in the sync feeds
+   */
+  private async saveCursor(cursor: SyncCursor) {
+    await chrome.storage.local.set({ [SYNC_CURSOR_KEY]: cursor });
+  }
+
+  /**
+   * Describe the local state of a record, including local deletions
+   */
+  private async getLocalVersion(
+    entity: SyncEntity,
+    id: string
+  ): Promise<{ local?: Collection | Pin; version?: RecordVersion }> {
+    const local =
+      entity === 'collection'
+        ? (await getCollection(id)) ?? (await getTrashedCollection(id))
+        : (await getPin(id)) ?? (await getTrashedPin(id));
+    if (local) {
+      return { local, version: { changedAt: local.updatedAt, deleted: false } };
+    }
+
+    const tombstone = await getTombstone(id);
+    if (tombstone) {
+      return { version: { changedAt: tombstone.deletedAt, deleted: true } };
+    }
+
+    return {};
+  }
+
+  /**
+   * Reconcile one remote record with its local state and apply it if remote wins
+   */
+  private async applyRemote(
+    entity: SyncEntity,
+    remote: any,
+    outcome: PullOutcome
+  ): Promise<SyncDecision> {
+    const { local, version } = await this.getLocalVersion(entity, remote.id);
+
+    // Both sides were edited since they last agreed; keep the local edit so
+    // the push reports a conflict instead of one side silently winning
+    const queued = await getOutboxEntry(remote.id);
+    if (
+      local &&
+      !remote.deletedAt &&
+      queued?.op === 'upsert' &&
+      queued.baseVersion &&
+      Date.parse(remote.updatedAt) !== Date.parse(queued.baseVersion) &&
+      Date.parse(remote.updatedAt) !== Date.parse(local.updatedAt)
+    ) {
+      console.log(`[SyncService] ${entity} ${remote.id} changed on both sides, leaving it for conflict resolution`);
+      return 'push';
+    }
+
+    const decision = reconcile(version, {
+      changedAt: remote.deletedAt || remote.updatedAt,
+      deleted: !!remote.deletedAt,
+    });
+
+    if (decision === 'pull') {
+      console.log(`[SyncService] Pulling ${entity} from cloud: ${remote.id}`);
+      const decrypted = await this.decryptIncoming(entity, remote);
+      if (entity === 'collection') {
+        await saveCollection(fromApiCollection(decrypted));
+      } else {
+        await savePin(fromApiPin(decrypted));
+      }
+    } else if (decision === 'pull-delete') {
+      console.log(`[SyncService] Removing ${entity} deleted in cloud: ${remote.id}`);
+      if (entity === 'collection') {
+        await purgeCollection(remote.id);
+      } else {
+        await purgePin(remote.id);
       }
+    } else if (decision === 'push' || decision === 'push-delete') {
+      // Local wins; make sure it is queued even if the cloud lost an earlier push
+      if (!(await getOutboxEntry(remote.id))) {
+        await enqueueChange(entity, remote.id, decision === 'push' ? 'upsert' : 'delete');
+      }
+      return decision;
     }
-    console.log(`[SyncService] Pushed ${pushedCollections} new collections to cloud`);
 
-    // Push only NEW pins (not on server)
-    let pushedPins = 0;
-    for (const pin of localPins) {
-      // Skip if already exists on server
-      if (remotePinIds.has(pin.id)) {
-        console.log(`[SyncService] Skipping pin already on server: ${pin.id}`);
-        continue;
+    // Both sides agree now, so any queued local change is settled
+    await removeTombstone(remote.id);
+    await removeOutboxEntry(remote.id);
+    outcome.pulled.add(remote.id);
+    return decision;
+  }
+
+  /**
+   * Pull changes made in the cloud since the last sync (edits and deletions)
+   */
+  private async pullChanges(cursor: SyncCursor): Promise<PullOutcome> {
+    const outcome: PullOutcome = { pulled: new Set() };
+    let since = cursor.remote;
+    let hasMore = true;
+    let pulled = 0;
+    let removed = 0;
+    let failed = false;
+
+    while (hasMore) {
+      const page = await api.sync.changes({ since }) as {
+        collections: any[];
+        pins: any[];
+        cursor: string;
+        hasMore: boolean;
+      };
+
+      // Collections first so pulled pins can reference them
+      const changes: [SyncEntity, any][] = [
+        ...page.collections.map((remote): [SyncEntity, any] => ['collection', remote]),
+        ...page.pins.map((remote): [SyncEntity, any] => ['pin', remote]),
+      ];
+
+      for (const [entity, remote] of changes) {
+        try {
+          const decision = await this.applyRemote(entity, remote, outcome);
+          if (decision === 'pull') {
+            pulled++;
+            this.countInRun('pulled', entity);
+          }
+          if (decision === 'pull-delete') {
+            removed++;
+            this.countInRun('removed', entity);
+          }
+        } catch (error) {
+          failed = true;
+          console.error(`[SyncService] Failed to pull ${entity} ${remote.id}:`, error);
+          this.noteInRun('errors', {
+            entity,
+            id: remote.id,
+            phase: 'pull',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
       }
 
-      // Skip invalid pins
-      if (!pin.collectionId || !pin.page?.url) {
-        console.log(`[SyncService] Skipping invalid pin ${pin.id}`);
+      // Only move past changes that were all applied, so failures are retried next time
+      if (!failed) {
+        await this.saveCursor({ remote: page.cursor });
+      }
+
+      since = page.cursor;
+      hasMore = page.hasMore;
+    }
+
+    console.log(`[SyncService] Pulled ${pulled} records, removed ${removed} records deleted in cloud`);
+    return outcome;
+  }
+
+  /**
+   * Push queued local changes (edits and deletions) in batches
+   */
+  private async pushChanges(outcome: PullOutcome): Promise<void> {
+    // Changes still backing off after a failure wait for a later run
+    const entries = await listOutbox(new Date().toISOString());
+    const mutations: Record<SyncEntity, SyncMutation[]> = { collection: [], pin: [] };
+
+    for (const entry of entries) {
+      // Records the pull phase just settled already match the cloud
+      if (outcome.pulled.has(entry.id)) {
         continue;
       }
 
-      try {
-        const apiPin = {
-          id: pin.id,
-          url: pin.page.url,
-          title: pin.page.title || '',
-          description: pin.summary?.text || pin.note,
-          imageUrl: pin.page.ogImageUrl || undefined,
-          tags: [],
-          collectionId: pin.collectionId,
-        };
-        console.log(`[SyncService] Pushing NEW pin to cloud: ${pin.id}`);
-        console.log(`[SyncService] Pin data:`, {
-          id: pin.id,
-          title: pin.page.title,
-          ogImageUrl: pin.page.ogImageUrl,
-          hasOgImage: !!pin.page.ogImageUrl,
-        });
-        console.log(`[SyncService] API pin data:`, apiPin);
-        await api.pins.create(apiPin as any);
-        pushedPins++;
-      } catch (error) {
-        console.error(`[SyncService] Failed to push pin ${pin.id}:`, error);
+      const mutation = await this.toMutation(entry);
+      if (mutation) {
+        mutations[entry.entity].push(mutation);
       }
     }
-    console.log(`[SyncService] Pushed ${pushedPins} new pins to cloud`);
+
+    // Collections first so pushed pins can reference them
+    const pushedCollections = await this.pushBatches('collection', mutations.collection);
+    const pushedPins = await this.pushBatches('pin', mutations.pin);
+
+    console.log(`[SyncService] Pushed ${pushedCollections} collection and ${pushedPins} pin changes to cloud`);
   }
 
   /**
-   * Pull remote changes from cloud (only new items not in local)
+   * Build the mutation for a queued change from the current local state
    */
-  private async pullChanges(): Promise<void> {
-    // Fetch all data from API
-    const [remotePins, remoteCollections] = await Promise.all([
-      api.pins.list() as Promise<any[]>,
-      api.collections.list() as Promise<any[]>,
-    ]);
-
-    // Get local data to compare
-    const [localPins, localCollections] = await Promise.all([
-      listPins(),
-      listCollections(),
-    ]);
-
-    const localCollectionIds = new Set(localCollections.map(c => c.id));
-    const localPinIds = new Set(localPins.map(p => p.id));
-
-    console.log(`[SyncService] Pull: ${remoteCollections.length} remote collections, ${localCollections.length} local collections`);
-    console.log(`[SyncService] Pull: ${remotePins.length} remote pins, ${localPins.length} local pins`);
-
-    // Add only NEW collections from cloud (not in local)
-    let pulledCollections = 0;
-    for (const remoteCollection of remoteCollections) {
-      if (!localCollectionIds.has(remoteCollection.id)) {
-        const localCollection = {
-          id: remoteCollection.id,
-          name: remoteCollection.name,
-          goal: remoteCollection.description || '',
-          color: remoteCollection.color || '#6366f1',
-          createdAt: remoteCollection.createdAt || new Date().toISOString(),
-        };
-        console.log(`[SyncService] Pulling new collection from cloud: ${remoteCollection.id}`);
-        await addCollection(localCollection);
-        pulledCollections++;
+  private async toMutation(entry: OutboxEntry): Promise<SyncMutation | null> {
+    if (entry.op === 'delete') {
+      const tombstone = await getTombstone(entry.id);
+      return {
+        op: 'delete',
+        id: entry.id,
+        timestamp: tombstone?.deletedAt || entry.queuedAt,
+        entry,
+      };
+    }
+
+    if (entry.entity === 'collection') {
+      const collection = (await getCollection(entry.id)) ?? (await getTrashedCollection(entry.id));
+      if (!collection) {
+        // Removed since it was queued (e.g. by a pulled deletion)
+        await removeOutboxEntry(entry.id, entry.queuedAt);
+        return null;
       }
+
+      return {
+        op: 'upsert',
+        id: collection.id,
+        timestamp: collection.updatedAt,
+        baseVersion: entry.baseVersion,
+        data: await this.encryptOutgoing('collection', {
+          ...toApiCollection(collection),
+          trashedAt: collection.trashedAt ?? null,
+        }),
+        entry,
+      };
+    }
+
+    const pin = (await getPin(entry.id)) ?? (await getTrashedPin(entry.id));
+    if (!pin) {
+      await removeOutboxEntry(entry.id, entry.queuedAt);
+      return null;
     }
-    console.log(`[SyncService] Pulled ${pulledCollections} new collections from cloud`);
-
-    // Add only NEW pins from cloud (not in local)
-    let pulledPins = 0;
-    for (const remotePin of remotePins) {
-      if (!localPinIds.has(remotePin.id)) {
-        const localPin = {
-          id: remotePin.id,
-          collectionId: remotePin.collectionId || '',
-          page: {
-            url: remotePin.url,
-            title: remotePin.title,
-            ogImageUrl: remotePin.imageUrl,
-            siteName: undefined,
-          },
-          summary: remotePin.description ? {
-            text: remotePin.description,
-            createdAt: remotePin.createdAt || new Date().toISOString(),
-          } : undefined,
-          note: remotePin.description || '',
-          createdAt: remotePin.createdAt || new Date().toISOString(),
-        };
-        console.log(`[SyncService] Pulling new pin from cloud: ${remotePin.id}`);
-        await addPin(localPin);
-        pulledPins++;
+
+    // Keep invalid pins queued until they are fixed
+    if (!pin.collectionId || !pin.page?.url) {
+      console.log(`[SyncService] Skipping invalid pin ${pin.id}`);
+      this.noteInRun('skipped', {
+        entity: 'pin',
+        id: pin.id,
+        phase: 'push',
+        message: 'Pin has no collection or URL',
+      });
+      await this.deferChange(entry, 'Pin has no collection or URL');
+      return null;
+    }
+
+    return {
+      op: 'upsert',
+      id: pin.id,
+      timestamp: pin.updatedAt,
+      baseVersion: entry.baseVersion,
+      data: await this.encryptOutgoing('pin', { ...toApiPin(pin), trashedAt: pin.trashedAt ?? null }),
+      entry,
+    };
+  }
+
+  /**
+   * Send mutations in batches and apply the server's answer to each one.
+   * Changes that fail stay in the outbox and are retried with backoff.
+   */
+  private async pushBatches(entity: SyncEntity, mutations: SyncMutation[]): Promise<number> {
+    const key = entity === 'collection' ? 'collections' : 'pins';
+    let applied = 0;
+
+    for (let i = 0; i < mutations.length; i += PUSH_BATCH_SIZE) {
+      const batch = mutations.slice(i, i + PUSH_BATCH_SIZE);
+      const entries = new Map(batch.map((m) => [m.id, m.entry]));
+      let response: Record<string, PushResult[]>;
+
+      try {
+        response = await api.sync.push({
+          [key]: batch.map(({ entry, ...mutation }) => mutation),
+        }) as Record<string, PushResult[]>;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Push failed';
+        for (const mutation of batch) {
+          await this.deferChange(mutation.entry, message);
+        }
+        throw error;
+      }
+
+      for (const result of response[key] || []) {
+        const entry = entries.get(result.id)!;
+
+        try {
+          if (result.status === 'applied') {
+            await removeOutboxEntry(result.id, entry.queuedAt);
+            if (entry.op === 'delete') {
+              await removeTombstone(result.id);
+            }
+            applied++;
+            this.countInRun('pushed', entity);
+          } else if (result.status === 'conflict') {
+            // The cloud keeps both versions until the user picks one
+            console.log(`[SyncService] Conflict on ${entity} ${result.id}, waiting for resolution`);
+            this.countInRun('conflicts', entity);
+            await removeOutboxEntry(result.id, entry.queuedAt);
+          } else if (result.status === 'stale') {
+            // The cloud changed it more recently, so take its version
+            console.log(`[SyncService] Cloud has a newer ${entity} ${result.id}, pulling it`);
+            await this.applyRemote(entity, result.record, { pulled: new Set() });
+          } else {
+            console.error(`[SyncService] Cloud rejected ${entity} ${result.id}:`, result.error);
+            this.noteInRun('errors', {
+              entity,
+              id: result.id,
+              phase: 'push',
+              message: result.error || 'Rejected by server',
+            });
+            await this.deferChange(entry, result.error || 'Rejected by server');
+          }
+        } catch (error) {
+          console.error(`[SyncService] Failed to settle ${entity} ${result.id}:`, error);
+          this.noteInRun('errors', {
+            entity,
+            id: result.id,
+            phase: 'push',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
       }
     }
-    console.log(`[SyncService] Pulled ${pulledPins} new pins from cloud`);
+
+    return applied;
+  }
+
+  /**
+   * Keep a change queued and retry it later, backing off exponentially
+   */
+  private async deferChange(entry: OutboxEntry, error: string) {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** entry.attempts, RETRY_MAX_DELAY_MS);
+    await deferOutboxEntry(
+      entry.id,
+      new Date(Date.now() + delay).toISOString(),
+      error
+    );
   }
 
   /**
@@ -372,7 +901,6 @@ class SyncService {
    */
   async disable(): Promise<void> {
     await this.updateSettings({ enabled: false });
-    this.stopAutoSync();
   }
 }
 
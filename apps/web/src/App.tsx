@@ -4,6 +4,8 @@ import { DashboardLayout } from './components/layouts/DashboardLayout';
 import { CollectionsPage } from './pages/CollectionsPage';
 import { PinsPage } from './pages/PinsPage';
 import { SettingsPage } from './pages/SettingsPage';
+import { TrashPage } from './pages/TrashPage';
+import { PublicCollectionPage } from './pages/PublicCollectionPage';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isLoaded, isSignedIn } = useAuth();
@@ -59,6 +61,9 @@ function App() {
           }
         />
 
+        {/* Shared collections, open without signing in */}
+        <Route path="/s/:slug" element={<PublicCollectionPage />} />
+
         {/* Protected Routes */}
         <Route
           path="/"
@@ -70,6 +75,7 @@ function App() {
         >
           <Route index element={<PinsPage />} />
           <Route path="collections" element={<CollectionsPage />} />
+          <Route path="trash" element={<TrashPage />} />
           <Route path="settings" element={<SettingsPage />} />
         </Route>
 
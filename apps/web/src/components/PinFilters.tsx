@@ -0,0 +1,182 @@
+import {
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Switch,
+} from '@wiserpin/ui';
+import type { PinListFilters } from '../lib/api';
+
+/**
+ * Values of the filter sidebar, as entered
+ */
+export interface PinFilterValues {
+  sort: keyof typeof SORT_OPTIONS;
+  tags: string;
+  tagMatch: 'any' | 'all';
+  domain: string;
+  /** Days (YYYY-MM-DD) in the browser's time zone, both included */
+  createdFrom: string;
+  createdTo: string;
+  summary: 'any' | 'with' | 'without';
+  uncategorized: boolean;
+}
+
+const SORT_OPTIONS = {
+  newest: { label: 'Newest first', sortBy: 'createdAt', sortOrder: 'desc' },
+  oldest: { label: 'Oldest first', sortBy: 'createdAt', sortOrder: 'asc' },
+  updated: { label: 'Recently updated', sortBy: 'updatedAt', sortOrder: 'desc' },
+  title: { label: 'Title (A-Z)', sortBy: 'title', sortOrder: 'asc' },
+  domain: { label: 'Domain (A-Z)', sortBy: 'domain', sortOrder: 'asc' },
+} as const;
+
+export const DEFAULT_PIN_FILTERS: PinFilterValues = {
+  sort: 'newest',
+  tags: '',
+  tagMatch: 'any',
+  domain: '',
+  createdFrom: '',
+  createdTo: '',
+  summary: 'any',
+  uncategorized: false,
+};
+
+/**
+ * Start of a day in the browser's time zone, as an ISO timestamp
+ */
+function startOfDay(day: string, offsetDays = 0): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date + offsetDays).toISOString();
+}
+
+/**
+ * API list filters for the sidebar values. The default sort is left out, so
+ * searches keep their relevance order.
+ */
+export function toPinListFilters(values: PinFilterValues): PinListFilters {
+  const tags = values.tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+  const sort = SORT_OPTIONS[values.sort];
+
+  return {
+    ...(values.sort !== 'newest' && { sortBy: sort.sortBy, sortOrder: sort.sortOrder }),
+    ...(tags.length > 0 && { tags, tagMatch: values.tagMatch }),
+    ...(values.domain.trim() && { domain: values.domain.trim() }),
+    ...(values.createdFrom && { createdAfter: startOfDay(values.createdFrom) }),
+    ...(values.createdTo && { createdBefore: startOfDay(values.createdTo, 1) }),
+    ...(values.summary !== 'any' && { hasSummary: values.summary === 'with' }),
+    ...(values.uncategorized && { uncategorized: true }),
+  };
+}
+
+interface PinFiltersProps {
+  values: PinFilterValues;
+  onChange: (values: PinFilterValues) => void;
+}
+
+export function PinFilters({ values, onChange }: PinFiltersProps) {
+  const set = <K extends keyof PinFilterValues>(key: K, value: PinFilterValues[K]) =>
+    onChange({ ...values, [key]: value });
+
+  const isDefault = JSON.stringify(values) === JSON.stringify(DEFAULT_PIN_FILTERS);
+
+  return (
+    <aside className="w-60 shrink-0 space-y-5">
+      <div className="space-y-2">
+        <Label>Sort by</Label>
+        <Select value={values.sort} onValueChange={(value) => set('sort', value as PinFilterValues['sort'])}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <SelectItem key={key} value={key}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="filter-tags">Tags</Label>
+        <Input
+          id="filter-tags"
+          placeholder="rust, async"
+          value={values.tags}
+          onChange={(e) => set('tags', e.target.value)}
+        />
+        <Select value={values.tagMatch} onValueChange={(value) => set('tagMatch', value as 'any' | 'all')}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any of these tags</SelectItem>
+            <SelectItem value="all">All of these tags</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="filter-domain">Domain</Label>
+        <Input
+          id="filter-domain"
+          placeholder="github.com"
+          value={values.domain}
+          onChange={(e) => set('domain', e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Saved between</Label>
+        <Input
+          type="date"
+          aria-label="Saved from"
+          value={values.createdFrom}
+          onChange={(e) => set('createdFrom', e.target.value)}
+        />
+        <Input
+          type="date"
+          aria-label="Saved until"
+          value={values.createdTo}
+          onChange={(e) => set('createdTo', e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Summary</Label>
+        <Select
+          value={values.summary}
+          onValueChange={(value) => set('summary', value as PinFilterValues['summary'])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any</SelectItem>
+            <SelectItem value="with">With a summary</SelectItem>
+            <SelectItem value="without">Without a summary</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="filter-uncategorized">Uncategorized only</Label>
+        <Switch
+          id="filter-uncategorized"
+          checked={values.uncategorized}
+          onCheckedChange={(checked) => set('uncategorized', checked)}
+        />
+      </div>
+
+      {!isDefault && (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => onChange(DEFAULT_PIN_FILTERS)}>
+          Clear filters
+        </Button>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Button, Dialog, DialogContent, DialogHeader, DialogTitle } from '@wiserpin/ui';
+import { Loader2 } from 'lucide-react';
+import {
+  isEncrypted,
+  PIN_REVISION_FIELDS,
+  type Pin,
+  type PinRevision,
+  type PinRevisionField,
+  type RevisionSource,
+} from '@wiserpin/core';
+import { api } from '../lib/api';
+
+const FIELD_LABELS: Record<PinRevisionField, string> = {
+  title: 'Title',
+  note: 'Note',
+  tags: 'Tags',
+  summaryText: 'Summary',
+};
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  extension: 'Extension',
+  web: 'Web',
+  sync: 'Sync',
+};
+
+/**
+ * Fields an older value can be restored for
+ */
+const RESTORABLE_FIELDS: PinRevisionField[] = ['note', 'summaryText'];
+
+interface PinHistoryDialogProps {
+  pin: Pin | null;
+  onClose: () => void;
+  onRestored: (pin: Pin) => void;
+}
+
+export function PinHistoryDialog({ pin, onClose, onRestored }: PinHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<PinRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (pin) {
+      loadRevisions(pin.id);
+    }
+  }, [pin?.id]);
+
+  const loadRevisions = async (id: string) => {
+    setLoading(true);
+    try {
+      setRevisions(await api.getPinRevisions(id));
+    } catch (err) {
+      console.error('Failed to load pin history:', err);
+      setRevisions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Restoring is a normal edit, so it shows up as the newest revision
+  const handleRestore = async (revision: PinRevision, field: PinRevisionField) => {
+    if (!pin) return;
+
+    const value = revision.changes[field]?.from as string | null | undefined;
+    const restoreKey = `${revision.id}:${field}`;
+    setRestoring(restoreKey);
+    try {
+      const draft = field === 'note'
+        ? { ...pin, note: value || undefined }
+        : {
+            ...pin,
+            summary: value ? { text: value, createdAt: new Date().toISOString() } : undefined,
+          };
+      const updated = await api.updatePin(pin.id, draft);
+      onRestored(updated);
+      await loadRevisions(pin.id);
+    } catch (err) {
+      console.error('Failed to restore pin revision:', err);
+      alert(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (Array.isArray(value)) {
+      return value.length ? value.join(', ') : '—';
+    }
+    if (isEncrypted(value)) {
+      return 'Encrypted - unlock in Settings to view';
+    }
+    return String(value);
+  };
+
+  return (
+    <Dialog open={!!pin} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History of {pin?.page.title || pin?.page.url}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            No edits yet. Changes to the title, note, tags, or summary will appear here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="rounded-lg border border-border p-4">
+                <p className="text-xs text-muted-foreground mb-3">
+                  {new Date(revision.createdAt).toLocaleString()} · {SOURCE_LABELS[revision.source] || revision.source}
+                </p>
+
+                <div className="space-y-3">
+                  {PIN_REVISION_FIELDS.filter((field) => revision.changes[field]).map((field) => {
+                    const change = revision.changes[field]!;
+                    const restoreKey = `${revision.id}:${field}`;
+                    const canRestore =
+                      RESTORABLE_FIELDS.includes(field) && !change.redacted && !isEncrypted(change.from);
+
+                    return (
+                      <div key={field} className="text-sm">
+                        <div className="flex items-center justify-between mb-1">
+                          <p className="font-medium text-muted-foreground">{FIELD_LABELS[field]}</p>
+                          {canRestore && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={restoring !== null}
+                              onClick={() => handleRestore(revision, field)}
+                            >
+                              {restoring === restoreKey && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Restore previous
+                            </Button>
+                          )}
+                        </div>
+                        {change.redacted ? (
+                          <p className="text-muted-foreground">
+                            Encrypted when end-to-end encryption was turned on; the values aren't kept
+                          </p>
+                        ) : (
+                          <div className="grid grid-cols-2 gap-2">
+                            {(['from', 'to'] as const).map((side) => (
+                              <div key={side} className="p-2 rounded-md border border-border break-words whitespace-pre-wrap">
+                                <span className="block text-xs uppercase text-muted-foreground">
+                                  {side === 'from' ? 'Before' : 'After'}
+                                </span>
+                                {formatValue(change[side])}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
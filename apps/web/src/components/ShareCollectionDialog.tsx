@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Switch,
+} from '@wiserpin/ui';
+import { Check, Copy, Loader2 } from 'lucide-react';
+import type { ApiCollectionShare, ApiCollectionShareInput } from '@wiserpin/core';
+import { api } from '../lib/api';
+
+interface SharedCollection {
+  id: string;
+  name: string;
+}
+
+interface CollectionPin {
+  id: string;
+  title: string;
+  url: string;
+}
+
+interface ShareCollectionDialogProps {
+  collection: SharedCollection | null;
+  onClose: () => void;
+}
+
+/**
+ * Public URL of a share link
+ */
+export function shareUrl(slug: string) {
+  return `${window.location.origin}/s/${slug}`;
+}
+
+/**
+ * Last day (YYYY-MM-DD, local time) a link expiring at a time still works
+ */
+function lastDay(expiresAt: string) {
+  const day = new Date(new Date(expiresAt).getTime() - 1);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
+
+/**
+ * Expiry of a link that works through a day (YYYY-MM-DD, local time)
+ */
+function endOfDay(day: string) {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date + 1).toISOString();
+}
+
+export function ShareCollectionDialog({ collection, onClose }: ShareCollectionDialogProps) {
+  const [share, setShare] = useState<ApiCollectionShare | null>(null);
+  const [pins, setPins] = useState<CollectionPin[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [expiryDay, setExpiryDay] = useState('');
+  const [password, setPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+  const [hiddenPinIds, setHiddenPinIds] = useState<string[]>([]);
+
+  const activeShare = share && !share.revokedAt ? share : null;
+
+  useEffect(() => {
+    if (collection) {
+      loadShare(collection.id);
+    }
+  }, [collection?.id]);
+
+  const resetForm = (current: ApiCollectionShare | null) => {
+    const live = current && !current.revokedAt ? current : null;
+    setExpiryDay(live?.expiresAt ? lastDay(live.expiresAt) : '');
+    setPassword('');
+    setRemovePassword(false);
+    setHiddenPinIds(current?.hiddenPinIds ?? []);
+  };
+
+  const loadShare = async (id: string) => {
+    setLoading(true);
+    try {
+      const [current, details] = await Promise.all([
+        api.getCollectionShare(id),
+        api.getCollection(id),
+      ]);
+      setShare(current);
+      setPins(details.pins || []);
+      resetForm(current);
+    } catch (err) {
+      console.error('Failed to load share link:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load share link');
+      onClose();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!collection) return;
+
+    const data: ApiCollectionShareInput = {
+      expiresAt: expiryDay ? endOfDay(expiryDay) : null,
+      hiddenPinIds,
+      ...(password ? { password } : removePassword && { password: null }),
+    };
+
+    setSaving(true);
+    try {
+      const updated = await api.publishCollection(collection.id, data);
+      setShare(updated);
+      resetForm(updated);
+    } catch (err) {
+      console.error('Failed to publish collection:', err);
+      alert(err instanceof Error ? err.message : 'Failed to publish');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!collection) return;
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const revoked = await api.revokeCollectionShare(collection.id);
+      setShare(revoked);
+      resetForm(revoked);
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      alert(err instanceof Error ? err.message : 'Failed to revoke');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!activeShare) return;
+    await navigator.clipboard.writeText(shareUrl(activeShare.slug));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const togglePin = (id: string, visible: boolean) => {
+    setHiddenPinIds((ids) => (visible ? ids.filter((hidden) => hidden !== id) : [...ids, id]));
+  };
+
+  return (
+    <Dialog open={!!collection} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share {collection?.name}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            <p className="text-sm text-muted-foreground">
+              Anyone with the link can see the visible pins of this collection without signing in.
+              Notes are never shared, and end-to-end encrypted summaries and descriptions are left out.
+            </p>
+
+            {activeShare && (
+              <div className="flex gap-2">
+                <Input readOnly value={shareUrl(activeShare.slug)} onFocus={(e) => e.target.select()} />
+                <Button type="button" variant="outline" onClick={handleCopy}>
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Works until (optional)</Label>
+              <Input
+                id="share-expiry"
+                type="date"
+                value={expiryDay}
+                onChange={(e) => setExpiryDay(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder={activeShare?.hasPassword && !removePassword ? 'Unchanged' : 'No password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {activeShare?.hasPassword && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="share-remove-password"
+                    checked={removePassword}
+                    onCheckedChange={setRemovePassword}
+                  />
+                  <Label htmlFor="share-remove-password">Remove the password</Label>
+                </div>
+              )}
+            </div>
+
+            {pins.length > 0 && (
+              <div className="space-y-2">
+                <Label>Visible pins</Label>
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {pins.map((pin) => (
+                    <div key={pin.id} className="flex items-center justify-between gap-3 p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{pin.title || pin.url}</p>
+                        <p className="text-xs text-muted-foreground truncate">{pin.url}</p>
+                      </div>
+                      <Switch
+                        checked={!hiddenPinIds.includes(pin.id)}
+                        onCheckedChange={(visible) => togglePin(pin.id, visible)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {activeShare && (
+            <Button type="button" variant="outline" disabled={saving} onClick={handleRevoke}>
+              Revoke link
+            </Button>
+          )}
+          <Button type="button" disabled={loading || saving} onClick={handleSave}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {activeShare ? 'Save changes' : 'Publish link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
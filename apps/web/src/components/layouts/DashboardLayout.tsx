@@ -1,6 +1,6 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { UserButton, useUser } from '@clerk/clerk-react';
-import { FolderOpen, Pin, Settings, type LucideIcon } from 'lucide-react';
+import { FolderOpen, Pin, Settings, Trash2, type LucideIcon } from 'lucide-react';
 import { ThemeToggle } from '../theme-toggle';
 
 interface NavigationItem {
@@ -12,6 +12,7 @@ interface NavigationItem {
 const navigation: NavigationItem[] = [
   { name: 'Pins', href: '/', icon: Pin },
   { name: 'Collections', href: '/collections', icon: FolderOpen },
+  { name: 'Trash', href: '/trash', icon: Trash2 },
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
@@ -2,12 +2,79 @@
  * API Client for WiserPin
  */
 
+import {
+  decryptFields,
+  deriveEncryptionKey,
+  encryptFields,
+  exportEncryptionKey,
+  fromApiPin,
+  importEncryptionKey,
+  isEncrypted,
+  parseEventStream,
+  toApiPin,
+  verifyKeyCheck,
+  CLIENT_HEADER,
+  SHARE_PASSWORD_HEADER,
+  ENCRYPTED_COLLECTION_FIELDS,
+  ENCRYPTED_PIN_FIELDS,
+  type ApiBatchResult,
+  type ApiCollectionShare,
+  type ApiCollectionShareInput,
+  type ApiPublicCollection,
+  type ApiPin,
+  type ApiPinInput,
+  type ApiTrash,
+  type EncryptionConfig,
+  type Pin,
+  type PinDraft,
+  type PinRevision,
+  type ResponseMeta,
+  type ResolveConflictRequest,
+  type SyncChangeEvent,
+  type SyncConflict,
+} from '@wiserpin/core';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+// Delay before reconnecting to change events, doubled on each failed attempt
+const EVENTS_RECONNECT_BASE_MS = 2 * 1000;
+const EVENTS_RECONNECT_MAX_MS = 60 * 1000;
+
+// This browser's end-to-end encryption key, kept until the user locks it
+const ENCRYPTION_KEY_STORAGE = 'wiserpin_encryption_key';
+
 type TokenGetter = () => Promise<string | null>;
 
+/**
+ * A shared collection needs a password, the one given is wrong, or too many
+ * wrong ones were tried lately
+ */
+export class SharePasswordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharePasswordError';
+  }
+}
+
+/**
+ * Filters and sorting of the pins list (see GET /pins)
+ */
+export interface PinListFilters {
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  domain?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  hasSummary?: boolean;
+  uncategorized?: boolean;
+  sortBy?: 'createdAt' | 'updatedAt' | 'title' | 'domain';
+  sortOrder?: 'asc' | 'desc';
+}
+
 class ApiClient {
   private tokenGetter: TokenGetter | null = null;
+  private encryptionConfig: EncryptionConfig | null = null;
+  private encryptionKey: CryptoKey | null = null;
 
   setTokenGetter(getter: TokenGetter) {
     this.tokenGetter = getter;
@@ -23,6 +90,7 @@ class ApiClient {
 
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
+      [CLIENT_HEADER]: 'web',
       ...options.headers,
     };
 
@@ -46,50 +114,92 @@ class ApiClient {
       throw new Error(error.message || `HTTP ${response.status}`);
     }
 
-    return response.json();
+    // Endpoints that return null send an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
   }
 
   // Pins
-  async getPins(params?: {
-    collectionId?: string;
-    search?: string;
-    page?: number;
-    limit?: number;
-  }) {
+  async getPins(
+    params?: {
+      collectionId?: string;
+      search?: string;
+      page?: number;
+      limit?: number;
+    } & PinListFilters
+  ) {
     const queryParams = new URLSearchParams();
-    if (params?.collectionId) queryParams.append('collectionId', params.collectionId);
-    if (params?.search) queryParams.append('search', params.search);
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    for (const [key, value] of Object.entries(params ?? {})) {
+      if (value === undefined || value === '') continue;
+      queryParams.append(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
 
     const query = queryParams.toString() ? `?${queryParams.toString()}` : '';
-    return this.request<{
-      data: any[];
-      meta: {
+    const result = await this.request<{
+      data: ApiPin[];
+      meta: ResponseMeta & {
         total: number;
         page: number;
         limit: number;
         totalPages: number;
+        /** Set when searching with encryption on; encrypted notes and summaries aren't searched */
+        encryptedFieldsSkipped?: boolean;
+        /** Set when searching: matching text of each pin by ID, matches wrapped in <mark> tags */
+        snippets?: Record<string, string>;
       };
     }>(`/pins${query}`);
+    const pins = await Promise.all(result.data.map((pin) => this.decrypt(pin, ENCRYPTED_PIN_FIELDS)));
+    return { ...result, data: pins.map(fromApiPin) };
   }
 
-  async getPin(id: string) {
-    return this.request<any>(`/pins/${id}`);
+  async getPin(id: string): Promise<Pin> {
+    const pin = await this.request<ApiPin>(`/pins/${id}`);
+    return fromApiPin(await this.decrypt(pin, ENCRYPTED_PIN_FIELDS));
   }
 
-  async createPin(data: any) {
-    return this.request<any>('/pins', {
+  async createPin(pin: PinDraft): Promise<Pin> {
+    const data = await this.encrypt(toApiPin(pin), ENCRYPTED_PIN_FIELDS);
+    const created = await this.request<ApiPin>('/pins', {
       method: 'POST',
       body: JSON.stringify(data),
     });
+    return fromApiPin(await this.decrypt(created, ENCRYPTED_PIN_FIELDS));
   }
 
-  async updatePin(id: string, data: any) {
-    return this.request<any>(`/pins/${id}`, {
+  async updatePin(id: string, pin: PinDraft): Promise<Pin> {
+    const data = await this.encrypt(toApiPin(pin), ENCRYPTED_PIN_FIELDS);
+    const updated = await this.request<ApiPin>(`/pins/${id}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
     });
+    return fromApiPin(await this.decrypt(updated, ENCRYPTED_PIN_FIELDS));
+  }
+
+  /**
+   * Revision history of a pin, newest first, with encrypted values decrypted.
+   * Changes that only re-encrypted the same text are left out.
+   */
+  async getPinRevisions(id: string): Promise<PinRevision[]> {
+    const revisions = await this.request<PinRevision[]>(`/pins/${id}/revisions`);
+    const decrypted = await Promise.all(
+      revisions.map(async (revision) => {
+        const changes = { ...revision.changes };
+        for (const field of ENCRYPTED_PIN_FIELDS) {
+          const change = changes[field];
+          if (!change || change.redacted) continue;
+
+          const from = await this.decrypt({ value: change.from }, ['value']);
+          const to = await this.decrypt({ value: change.to }, ['value']);
+          if (from.value === to.value) {
+            delete changes[field];
+          } else {
+            changes[field] = { from: from.value, to: to.value };
+          }
+        }
+        return { ...revision, changes };
+      })
+    );
+    return decrypted.filter((revision) => Object.keys(revision.changes).length > 0);
   }
 
   async deletePin(id: string) {
@@ -98,27 +208,63 @@ class ApiClient {
     });
   }
 
+  /**
+   * Update many pins in one request, e.g. to move them to another collection
+   */
+  async updatePins(items: ({ id: string } & Partial<ApiPinInput>)[]) {
+    const data = await Promise.all(items.map((item) => this.encrypt(item, ENCRYPTED_PIN_FIELDS)));
+    const { results } = await this.request<{ results: ApiBatchResult<ApiPin>[] }>('/pins/batch', {
+      method: 'PATCH',
+      body: JSON.stringify({ items: data }),
+    });
+    return results;
+  }
+
+  async deletePins(ids: string[]) {
+    const { results } = await this.request<{ results: ApiBatchResult<ApiPin>[] }>('/pins/batch', {
+      method: 'DELETE',
+      body: JSON.stringify({ ids }),
+    });
+    return results;
+  }
+
   // Collections
   async getCollections() {
-    return this.request<any[]>('/collections');
+    // Collections come a page at a time; follow the cursors to get them all
+    const collections: any[] = [];
+    let cursor: string | null = null;
+    do {
+      const query = cursor ? `?limit=100&cursor=${encodeURIComponent(cursor)}` : '?limit=100';
+      const page: { data: any[]; meta: ResponseMeta } = await this.request(`/collections${query}`);
+      collections.push(...page.data);
+      cursor = page.meta.hasMore ? page.meta.nextCursor ?? null : null;
+    } while (cursor);
+
+    const fields = await this.getCollectionFields();
+    return Promise.all(collections.map((collection) => this.decrypt(collection, fields)));
   }
 
   async getCollection(id: string) {
-    return this.request<any>(`/collections/${id}`);
+    const collection = await this.request<any>(`/collections/${id}`);
+    return this.decrypt(collection, await this.getCollectionFields());
   }
 
   async createCollection(data: any) {
-    return this.request<any>('/collections', {
+    const fields = await this.getCollectionFields();
+    const created = await this.request<any>('/collections', {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify(await this.encrypt(data, fields)),
     });
+    return this.decrypt(created, fields);
   }
 
   async updateCollection(id: string, data: any) {
-    return this.request<any>(`/collections/${id}`, {
+    const fields = await this.getCollectionFields();
+    const updated = await this.request<any>(`/collections/${id}`, {
       method: 'PATCH',
-      body: JSON.stringify(data),
+      body: JSON.stringify(await this.encrypt(data, fields)),
     });
+    return this.decrypt(updated, fields);
   }
 
   async deleteCollection(id: string) {
@@ -127,6 +273,248 @@ class ApiClient {
     });
   }
 
+  // Trash
+  async getTrash() {
+    const trash = await this.request<ApiTrash>('/trash');
+    const collectionFields = await this.getCollectionFields();
+    return {
+      collections: await Promise.all(trash.collections.map((collection) => this.decrypt(collection, collectionFields))),
+      pins: (await Promise.all(trash.pins.map((pin) => this.decrypt(pin, ENCRYPTED_PIN_FIELDS)))).map(fromApiPin),
+      retentionDays: trash.retentionDays,
+    };
+  }
+
+  async restorePin(id: string) {
+    return this.request<ApiPin>(`/pins/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async restoreCollection(id: string) {
+    return this.request<any>(`/collections/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  // Share links
+
+  /**
+   * Share link of a collection, or null when it was never published
+   */
+  async getCollectionShare(id: string) {
+    return this.request<ApiCollectionShare | null>(`/collections/${id}/share`);
+  }
+
+  /**
+   * Publish a collection, or change its share link
+   */
+  async publishCollection(id: string, data: ApiCollectionShareInput = {}) {
+    return this.request<ApiCollectionShare>(`/collections/${id}/share`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeCollectionShare(id: string) {
+    return this.request<ApiCollectionShare>(`/collections/${id}/share`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Public page of a shared collection, fetched without signing in
+   */
+  async getPublicCollection(
+    slug: string,
+    options: { password?: string; cursor?: string } = {}
+  ): Promise<ApiPublicCollection> {
+    const query = options.cursor ? `?cursor=${encodeURIComponent(options.cursor)}` : '';
+    const response = await fetch(
+      `${API_BASE_URL}/public/collections/${encodeURIComponent(slug)}${query}`,
+      { headers: options.password ? { [SHARE_PASSWORD_HEADER]: options.password } : {} }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Request failed' }));
+      if (response.status === 401 || response.status === 429) {
+        throw new SharePasswordError(error.message);
+      }
+      throw new Error(error.message || `HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Delete a trashed pin or collection for good
+   */
+  async deleteForever(entity: 'pin' | 'collection', id: string) {
+    return this.request<{ deleted: number }>(`/trash/${entity}s/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async emptyTrash() {
+    return this.request<{ deleted: number }>('/trash', {
+      method: 'DELETE',
+    });
+  }
+
+  // Sync conflicts
+  async getSyncConflicts() {
+    return this.request<SyncConflict[]>('/sync/conflicts');
+  }
+
+  async resolveSyncConflict(id: string, data: ResolveConflictRequest) {
+    return this.request<any>(`/sync/conflicts/${id}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // End-to-end encryption
+  /**
+   * Get the encryption settings, fetched once per page load
+   */
+  async getEncryption(): Promise<EncryptionConfig> {
+    if (!this.encryptionConfig) {
+      this.encryptionConfig = await this.request<EncryptionConfig>('/sync/encryption');
+    }
+    return this.encryptionConfig;
+  }
+
+  /**
+   * Whether this browser holds the key for encrypted fields
+   */
+  async isEncryptionUnlocked(): Promise<boolean> {
+    return !!(await this.getEncryptionKey());
+  }
+
+  /**
+   * Derive the key from the user's passphrase and keep it in this browser
+   */
+  async unlockEncryption(passphrase: string): Promise<void> {
+    const config = await this.getEncryption();
+    if (!config.enabled || !config.salt || !config.keyCheck) {
+      throw new Error('Encryption is not set up');
+    }
+
+    const key = await deriveEncryptionKey(passphrase, config.salt);
+    if (!(await verifyKeyCheck(config.keyCheck, key))) {
+      throw new Error('Wrong passphrase');
+    }
+
+    localStorage.setItem(ENCRYPTION_KEY_STORAGE, await exportEncryptionKey(key));
+    this.encryptionKey = key;
+  }
+
+  /**
+   * Forget the key in this browser
+   */
+  lockEncryption() {
+    localStorage.removeItem(ENCRYPTION_KEY_STORAGE);
+    this.encryptionKey = null;
+  }
+
+  /**
+   * Decrypt fields of a record with this browser's key.
+   * Without the key, encrypted fields are left as they are (see isEncrypted).
+   */
+  async decrypt<T extends object>(record: T, fields: readonly string[]): Promise<T> {
+    const key = fields.length ? await this.getEncryptionKey() : null;
+    return key ? decryptFields(record, fields, key) : record;
+  }
+
+  private async encrypt<T extends object>(record: T, fields: readonly string[]): Promise<T> {
+    const config = fields.length ? await this.getEncryption() : null;
+    if (!config?.enabled) {
+      return record;
+    }
+
+    const key = await this.getEncryptionKey();
+    if (!key) {
+      // Saving would either upload plaintext or overwrite the ciphertext
+      const values = record as Record<string, unknown>;
+      if (fields.some((field) => values[field] && !isEncrypted(values[field]))) {
+        throw new Error('Encryption is locked - unlock it in Settings to save notes');
+      }
+      return record;
+    }
+    return encryptFields(record, fields, key);
+  }
+
+  private async getCollectionFields(): Promise<readonly string[]> {
+    const config = await this.getEncryption();
+    return config.enabled && config.encryptCollections ? ENCRYPTED_COLLECTION_FIELDS : [];
+  }
+
+  private async getEncryptionKey(): Promise<CryptoKey | null> {
+    if (!this.encryptionKey) {
+      const raw = localStorage.getItem(ENCRYPTION_KEY_STORAGE);
+      this.encryptionKey = raw ? await importEncryptionKey(raw) : null;
+    }
+    return this.encryptionKey;
+  }
+
+  // Realtime changes
+  /**
+   * Call listener for every collection and pin change made by this user on
+   * any device, reconnecting when the stream drops. Returns an unsubscribe function.
+   */
+  subscribeToChanges(listener: (event: SyncChangeEvent) => void) {
+    const controller = new AbortController();
+
+    const run = async () => {
+      let attempts = 0;
+
+      while (!controller.signal.aborted) {
+        try {
+          // Uses fetch since EventSource can't send the Authorization header
+          const token = this.tokenGetter ? await this.tokenGetter() : null;
+          const response = await fetch(`${API_BASE_URL}/events`, {
+            headers: {
+              Accept: 'text/event-stream',
+              ...(token && { Authorization: `Bearer ${token}` }),
+            },
+            signal: controller.signal,
+          });
+
+          if (!response.ok || !response.body) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+
+          while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            const { events, rest } = parseEventStream(buffer + value);
+            buffer = rest;
+            attempts = 0;
+
+            for (const event of events) {
+              if (event.type === 'change') {
+                listener(JSON.parse(event.data));
+              }
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('[API] Change events stream failed:', error);
+        }
+
+        const delay = Math.min(EVENTS_RECONNECT_BASE_MS * 2 ** attempts, EVENTS_RECONNECT_MAX_MS);
+        attempts++;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  }
+
   // AI / Summarization
   async summarizeContent(data: { content: string; title?: string }) {
     return this.request<{ summary: string; category?: string }>('/ai/summarize', {
@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, Input, Label } from '@wiserpin/ui';
-import { FolderOpen, Trash2, Loader2, Plus, Edit } from 'lucide-react';
+import { FolderOpen, Trash2, Loader2, Plus, Edit, Share2 } from 'lucide-react';
 import { api } from '../lib/api';
+import { ShareCollectionDialog } from '../components/ShareCollectionDialog';
 import { useAuth } from '@clerk/clerk-react';
+import { isEncrypted } from '@wiserpin/core';
 
 const COLORS = [
   { name: 'Blue', value: '#3b82f6' },
@@ -32,6 +34,7 @@ export function CollectionsPage() {
   const [error, setError] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCollection, setEditingCollection] = useState<CollectionData | null>(null);
+  const [sharingCollection, setSharingCollection] = useState<CollectionData | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -54,9 +57,15 @@ export function CollectionsPage() {
     }
   }, [isSignedIn, getToken]);
 
-  const loadCollections = async () => {
+  // Refresh when collections or their pins change in the extension or another tab
+  useEffect(() => {
+    if (!isSignedIn) return;
+    return api.subscribeToChanges(() => loadCollections({ silent: true }));
+  }, [isSignedIn]);
+
+  const loadCollections = async ({ silent = false } = {}) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError(null);
       const data = await api.getCollections();
       setCollections(data);
@@ -69,7 +78,7 @@ export function CollectionsPage() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this collection? This will not delete the pins inside.')) {
+    if (!window.confirm('Move this collection and its pins to the trash? You can restore them from the Trash page.')) {
       return;
     }
 
@@ -77,12 +86,18 @@ export function CollectionsPage() {
       await api.deleteCollection(id);
       setCollections(collections.filter(c => c.id !== id));
     } catch (err) {
-      console.error('Failed to delete collection:', err);
-      alert('Failed to delete collection');
+      console.error('Failed to move collection to trash:', err);
+      alert('Failed to move collection to trash');
     }
   };
 
   const handleOpenDialog = (collection?: CollectionData) => {
+    // Saving without the key would overwrite the encrypted description
+    if (collection && isEncrypted(collection.description)) {
+      alert('This collection has an encrypted description. Unlock encryption in Settings to edit it.');
+      return;
+    }
+
     if (collection) {
       setEditingCollection(collection);
       setFormData({
@@ -168,7 +183,7 @@ export function CollectionsPage() {
             <CardDescription>{error}</CardDescription>
           </CardHeader>
           <CardContent>
-            <Button onClick={loadCollections}>Retry</Button>
+            <Button onClick={() => loadCollections()}>Retry</Button>
           </CardContent>
         </Card>
       </div>
@@ -234,6 +249,14 @@ export function CollectionsPage() {
                       </div>
                     </div>
                     <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Share"
+                        onClick={() => setSharingCollection(collection)}
+                      >
+                        <Share2 className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -254,7 +277,9 @@ export function CollectionsPage() {
                 {collection.description && (
                   <CardContent>
                     <p className="text-sm text-muted-foreground line-clamp-2">
-                      {collection.description}
+                      {isEncrypted(collection.description)
+                        ? 'Encrypted - unlock in Settings to read'
+                        : collection.description}
                     </p>
                   </CardContent>
                 )}
@@ -264,6 +289,11 @@ export function CollectionsPage() {
         )}
       </div>
 
+      <ShareCollectionDialog
+        collection={sharingCollection}
+        onClose={() => setSharingCollection(null)}
+      />
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
           <DialogHeader>
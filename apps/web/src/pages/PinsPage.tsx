@@ -1,24 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, Input, Label, Textarea, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Tabs, TabsList, TabsTrigger, TabsContent, Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationPrevious, PaginationNext, PaginationEllipsis } from '@wiserpin/ui';
-import { Pin, ExternalLink, Trash2, Loader2, Plus, Edit, Sparkles, Search, Image } from 'lucide-react';
+import { Pin, ExternalLink, Trash2, Loader2, Plus, Edit, Sparkles, Search, Image, History } from 'lucide-react';
 import { api } from '../lib/api';
+import { PinHistoryDialog } from '../components/PinHistoryDialog';
+import { PinFilters, DEFAULT_PIN_FILTERS, toPinListFilters, type PinFilterValues } from '../components/PinFilters';
 import { useAuth } from '@clerk/clerk-react';
 import { summarizerService } from '../lib/summarizer';
-
-interface PinData {
-  id: string;
-  url: string;
-  title: string;
-  description?: string;
-  imageUrl?: string;
-  tags: string[];
-  createdAt: string;
-  collection?: {
-    id: string;
-    name: string;
-    color?: string;
-  };
-}
+import { isEncrypted, parsePinQuery, PinQuerySyntaxError, type Pin as PinData } from '@wiserpin/core';
 
 interface CollectionData {
   id: string;
@@ -36,15 +24,23 @@ export function PinsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [selectedCollection, setSelectedCollection] = useState<string>('all');
+  const [filters, setFilters] = useState<PinFilterValues>(DEFAULT_PIN_FILTERS);
+  const [debouncedFilters, setDebouncedFilters] = useState<PinFilterValues>(DEFAULT_PIN_FILTERS);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalPins, setTotalPins] = useState(0);
+  const [encryptedFieldsSkipped, setEncryptedFieldsSkipped] = useState(false);
+  const [snippets, setSnippets] = useState<Record<string, string>>({});
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkWorking, setBulkWorking] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPin, setEditingPin] = useState<PinData | null>(null);
+  const [historyPin, setHistoryPin] = useState<PinData | null>(null);
   const [formData, setFormData] = useState({
     url: '',
     title: '',
-    description: '',
+    summary: '',
     imageUrl: '',
     collectionId: '',
   });
@@ -78,25 +74,53 @@ export function PinsPage() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Debounce filters, as tags and domain are typed
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedFilters(filters);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [filters]);
+
   useEffect(() => {
     if (isSignedIn) {
       loadPins();
     }
-  }, [isSignedIn, selectedCollection, debouncedSearchQuery, currentPage]);
+  }, [isSignedIn, selectedCollection, debouncedSearchQuery, debouncedFilters, currentPage]);
+
+  const hasFilters = Object.keys(toPinListFilters(debouncedFilters)).length > 0;
 
-  const loadPins = async () => {
+  const loadPins = async ({ silent = false } = {}) => {
+    // Check the query first, so a half-typed filter keeps the current pins on screen
     try {
-      setLoading(true);
+      parsePinQuery(debouncedSearchQuery);
+      setQueryError(null);
+    } catch (err) {
+      if (err instanceof PinQuerySyntaxError) {
+        setQueryError(err.message);
+        return;
+      }
+      throw err;
+    }
+
+    try {
+      if (!silent) setLoading(true);
       setError(null);
       const result = await api.getPins({
         collectionId: selectedCollection === 'all' ? undefined : selectedCollection,
         search: debouncedSearchQuery || undefined,
+        ...toPinListFilters(debouncedFilters),
         page: currentPage,
         limit: 12,
       });
       setPins(result.data);
+      // Keep the selection of pins that are still shown
+      setSelectedIds((ids) => ids.filter((id) => result.data.some((pin) => pin.id === id)));
       setTotalPages(result.meta.totalPages);
       setTotalPins(result.meta.total);
+      setEncryptedFieldsSkipped(!!result.meta.encryptedFieldsSkipped);
+      setSnippets(result.meta.snippets || {});
     } catch (err) {
       console.error('Failed to load pins:', err);
       setError(err instanceof Error ? err.message : 'Failed to load pins');
@@ -105,6 +129,21 @@ export function PinsPage() {
     }
   };
 
+  // Refresh when pins or collections change in the extension or another tab.
+  // The ref keeps the current filters without reconnecting when they change.
+  const loadPinsRef = useRef(loadPins);
+  loadPinsRef.current = loadPins;
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    return api.subscribeToChanges((event) => {
+      loadPinsRef.current({ silent: true });
+      if (event.entity === 'collection') {
+        loadCollections();
+      }
+    });
+  }, [isSignedIn]);
+
   const loadCollections = async () => {
     try {
       const data = await api.getCollections();
@@ -114,8 +153,24 @@ export function PinsPage() {
     }
   };
 
+  const previewText = (pin: PinData) => {
+    const text = pin.summary?.text || pin.note || pin.page.description;
+    return isEncrypted(text) ? 'Encrypted - unlock in Settings to read' : text;
+  };
+
+  // Search snippets come as plain text with <mark> tags around matches; render them
+  // as elements rather than HTML, since the text is the user's own content
+  const renderSnippet = (snippet: string) =>
+    snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{part}</mark>
+      ) : (
+        part
+      )
+    );
+
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this pin?')) {
+    if (!window.confirm('Move this pin to the trash?')) {
       return;
     }
 
@@ -123,27 +178,70 @@ export function PinsPage() {
       await api.deletePin(id);
       setPins(pins.filter(p => p.id !== id));
     } catch (err) {
-      console.error('Failed to delete pin:', err);
-      alert('Failed to delete pin');
+      console.error('Failed to move pin to trash:', err);
+      alert('Failed to move pin to trash');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]);
+  };
+
+  const runBulkAction = async (action: () => Promise<{ status: string }[]>, failureMessage: string) => {
+    setBulkWorking(true);
+    try {
+      const results = await action();
+      const failed = results.filter((result) => result.status === 'invalid').length;
+      if (failed > 0) {
+        alert(`${failed} of ${results.length} ${failureMessage}`);
+      }
+      setSelectedIds([]);
+      await loadPins({ silent: true });
+    } catch (err) {
+      console.error('Bulk action failed:', err);
+      alert(err instanceof Error ? err.message : 'Bulk action failed');
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const handleBulkMove = (collectionId: string) => {
+    runBulkAction(
+      () => api.updatePins(selectedIds.map((id) => ({ id, collectionId }))),
+      'pins could not be moved',
+    );
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedIds.length;
+    if (!window.confirm(`Move ${count} ${count === 1 ? 'pin' : 'pins'} to the trash?`)) {
+      return;
     }
+    runBulkAction(() => api.deletePins(selectedIds), 'pins could not be moved to the trash');
   };
 
   const handleOpenDialog = (pin?: PinData) => {
+    // Saving without the key would overwrite the encrypted note and summary
+    if (pin && (isEncrypted(pin.note) || isEncrypted(pin.summary?.text))) {
+      alert('This pin has encrypted notes. Unlock encryption in Settings to edit it.');
+      return;
+    }
+
     if (pin) {
       setEditingPin(pin);
       setFormData({
-        url: pin.url,
-        title: pin.title,
-        description: pin.description || '',
-        imageUrl: pin.imageUrl || '',
-        collectionId: pin.collection?.id || '',
+        url: pin.page.url,
+        title: pin.page.title || '',
+        summary: pin.summary?.text || '',
+        imageUrl: pin.page.ogImageUrl || '',
+        collectionId: pin.collectionId,
       });
     } else {
       setEditingPin(null);
       setFormData({
         url: '',
         title: '',
-        description: '',
+        summary: '',
         imageUrl: '',
         collectionId: '',
       });
@@ -157,7 +255,7 @@ export function PinsPage() {
     setFormData({
       url: '',
       title: '',
-      description: '',
+      summary: '',
       imageUrl: '',
       collectionId: '',
     });
@@ -270,7 +368,7 @@ export function PinsPage() {
 
       setFormData(prev => ({
         ...prev,
-        description: result.summary,
+        summary: result.summary,
       }));
 
       // Show user which AI was used
@@ -300,7 +398,7 @@ export function PinsPage() {
       const suggestedId = await summarizerService.suggestCollection({
         title: formData.title,
         url: formData.url,
-        summary: formData.description,
+        summary: formData.summary,
         collections: collections,
       });
 
@@ -344,13 +442,24 @@ export function PinsPage() {
     }
 
     try {
+      const summaryText = formData.summary.trim();
       const pinData = {
-        url: formData.url,
-        title: title,
-        description: formData.description || undefined,
-        imageUrl: formData.imageUrl || undefined,
+        ...editingPin,
         collectionId: formData.collectionId,
-        tags: [],
+        page: {
+          ...editingPin?.page,
+          url: formData.url,
+          title: title,
+          ogImageUrl: formData.imageUrl || undefined,
+        },
+        summary: summaryText ? {
+          text: summaryText,
+          // Keep the original timestamp unless the summary changed
+          createdAt: editingPin?.summary?.text === summaryText
+            ? editingPin.summary.createdAt
+            : new Date().toISOString(),
+        } : undefined,
+        tags: editingPin?.tags || [],
       };
 
       if (editingPin) {
@@ -369,6 +478,8 @@ export function PinsPage() {
     }
   };
 
+  const collectionsById = Object.fromEntries(collections.map((c) => [c.id, c]));
+
   if (!isSignedIn) {
     return (
       <div className="p-8">
@@ -403,7 +514,7 @@ export function PinsPage() {
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Search pins by title, description, or URL..."
+            placeholder="Search pins, or filter with site: tag: collection: before: after: is:"
             value={searchQuery}
             onChange={(e) => {
               setSearchQuery(e.target.value);
@@ -411,11 +522,21 @@ export function PinsPage() {
             }}
             className="pl-10"
           />
+          {queryError && (
+            <p className="text-xs text-destructive mt-2">{queryError}</p>
+          )}
+          {encryptedFieldsSkipped && debouncedSearchQuery && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Notes and summaries are end-to-end encrypted, so search only covers titles, descriptions and URLs.
+            </p>
+          )}
         </div>
 
         {/* Collection Tabs */}
         <Tabs value={selectedCollection} onValueChange={(value) => {
           setSelectedCollection(value);
+          // A collection and "uncategorized only" can't be combined
+          if (value !== 'all') setFilters((current) => ({ ...current, uncategorized: false }));
           setCurrentPage(1); // Reset to page 1 on filter change
         }}>
           <TabsList className="mb-6">
@@ -432,163 +553,240 @@ export function PinsPage() {
           </TabsList>
         </Tabs>
 
-        {/* Loading State */}
-        {loading ? (
-          <div className="flex items-center justify-center py-12">
-            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
-          </div>
-        ) : error ? (
-          <Card>
-            <CardHeader>
-              <CardTitle>Error Loading Pins</CardTitle>
-              <CardDescription>{error}</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Button onClick={loadPins}>Retry</Button>
-            </CardContent>
-          </Card>
-        ) : pins.length === 0 ? (
-          <Card>
-            <CardHeader>
-              <CardTitle>No Pins Yet</CardTitle>
-              <CardDescription>
-                Start saving pins with the WiserPin browser extension or create one manually
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-col items-center justify-center py-12">
-                <div className="flex items-center justify-center w-20 h-20 rounded-full bg-muted mb-4">
-                  <Pin className="w-10 h-10 text-muted-foreground" />
-                </div>
-                <p className="text-muted-foreground text-center mb-4">
-                  Install the WiserPin browser extension to start saving and organizing your pins, or click "New Pin" to create one manually.
-                </p>
-                <p className="text-sm text-muted-foreground text-center">
-                  Your pins will appear here once you start saving them.
-                </p>
+        <div className="flex gap-6">
+          <PinFilters
+            values={filters}
+            onChange={(values) => {
+              setFilters(values);
+              if (values.uncategorized) setSelectedCollection('all');
+              setCurrentPage(1); // Reset to page 1 on filter change
+            }}
+          />
+
+          <div className="flex-1 min-w-0">
+            {/* Loading State */}
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
               </div>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {pins.map((pin) => (
-              <Card key={pin.id} className="flex flex-col">
-                <div className="aspect-video w-full overflow-hidden rounded-t-lg border-b">
-                  {pin.imageUrl ? (
-                    <img
-                      src={pin.imageUrl}
-                      alt={pin.title}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full bg-muted flex items-center justify-center">
-                      <Image className="w-12 h-12 text-muted-foreground/30" />
-                    </div>
-                  )}
-                </div>
+            ) : error ? (
+              <Card>
                 <CardHeader>
-                  <CardTitle className="line-clamp-2">{pin.title}</CardTitle>
-                  {pin.collection && (
-                    <div className="flex items-center gap-2 mt-2">
-                      <span
-                        className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: pin.collection.color || '#6366f1' }}
-                      />
-                      <span className="text-xs text-muted-foreground">
-                        {pin.collection.name}
-                      </span>
-                    </div>
-                  )}
+                  <CardTitle>Error Loading Pins</CardTitle>
+                  <CardDescription>{error}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button onClick={() => loadPins()}>Retry</Button>
+                </CardContent>
+              </Card>
+            ) : pins.length === 0 && (debouncedSearchQuery || hasFilters) ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>No pins match these filters</CardTitle>
+                  <CardDescription>
+                    Try a different search, or clear some of the filters
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            ) : pins.length === 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>No Pins Yet</CardTitle>
+                  <CardDescription>
+                    Start saving pins with the WiserPin browser extension or create one manually
+                  </CardDescription>
                 </CardHeader>
-                <CardContent className="flex-1">
-                  {pin.description && (
-                    <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
-                      {pin.description}
+                <CardContent>
+                  <div className="flex flex-col items-center justify-center py-12">
+                    <div className="flex items-center justify-center w-20 h-20 rounded-full bg-muted mb-4">
+                      <Pin className="w-10 h-10 text-muted-foreground" />
+                    </div>
+                    <p className="text-muted-foreground text-center mb-4">
+                      Install the WiserPin browser extension to start saving and organizing your pins, or click "New Pin" to create one manually.
+                    </p>
+                    <p className="text-sm text-muted-foreground text-center">
+                      Your pins will appear here once you start saving them.
                     </p>
-                  )}
-                  <div className="flex items-center gap-2 mt-auto">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      className="flex-1"
-                      onClick={() => window.open(pin.url, '_blank')}
-                    >
-                      <ExternalLink className="w-4 h-4 mr-2" />
-                      Open
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleOpenDialog(pin)}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => handleDelete(pin.id)}
-                    >
-                      <Trash2 className="w-4 h-4 text-destructive" />
-                    </Button>
                   </div>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
-
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="mt-8">
-            <Pagination>
-              <PaginationContent>
-                <PaginationItem>
-                  <PaginationPrevious
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    className={currentPage === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
-                  />
-                </PaginationItem>
-
-                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
-                  // Show first page, last page, current page, and pages around current
-                  if (
-                    page === 1 ||
-                    page === totalPages ||
-                    (page >= currentPage - 1 && page <= currentPage + 1)
-                  ) {
-                    return (
-                      <PaginationItem key={page}>
-                        <PaginationLink
-                          onClick={() => setCurrentPage(page)}
-                          isActive={currentPage === page}
-                          className="cursor-pointer"
-                        >
-                          {page}
-                        </PaginationLink>
-                      </PaginationItem>
-                    );
-                  } else if (page === currentPage - 2 || page === currentPage + 2) {
-                    return (
-                      <PaginationItem key={page}>
-                        <PaginationEllipsis />
-                      </PaginationItem>
-                    );
-                  }
-                  return null;
-                })}
-
-                <PaginationItem>
-                  <PaginationNext
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    className={currentPage === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
-                  />
-                </PaginationItem>
-              </PaginationContent>
-            </Pagination>
+            ) : (
+              <>
+                {selectedIds.length > 0 && (
+                  <div className="mb-6 flex items-center gap-3 rounded-lg border p-3">
+                    <span className="text-sm font-medium text-foreground">
+                      {selectedIds.length} selected
+                    </span>
+                    <Select value="" onValueChange={handleBulkMove} disabled={bulkWorking}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Move to collection" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {collections.map((collection) => (
+                          <SelectItem key={collection.id} value={collection.id}>
+                            {collection.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="outline" disabled={bulkWorking} onClick={handleBulkDelete}>
+                      {bulkWorking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                      Move to trash
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={bulkWorking} onClick={() => setSelectedIds([])}>
+                      Clear selection
+                    </Button>
+                  </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {pins.map((pin) => (
+                    <Card key={pin.id} className="flex flex-col">
+                      <div className="relative aspect-video w-full overflow-hidden rounded-t-lg border-b">
+                        <input
+                          type="checkbox"
+                          aria-label="Select pin"
+                          checked={selectedIds.includes(pin.id)}
+                          onChange={() => toggleSelected(pin.id)}
+                          className="absolute top-3 left-3 z-10 w-4 h-4 cursor-pointer"
+                        />
+                        {pin.page.ogImageUrl ? (
+                          <img
+                            src={pin.page.ogImageUrl}
+                            alt={pin.page.title}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className="w-full h-full bg-muted flex items-center justify-center">
+                            <Image className="w-12 h-12 text-muted-foreground/30" />
+                          </div>
+                        )}
+                      </div>
+                      <CardHeader>
+                        <CardTitle className="line-clamp-2">{pin.page.title || pin.page.url}</CardTitle>
+                        {collectionsById[pin.collectionId] && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <span
+                              className="w-3 h-3 rounded-full"
+                              style={{ backgroundColor: collectionsById[pin.collectionId].color || '#6366f1' }}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                              {collectionsById[pin.collectionId].name}
+                            </span>
+                          </div>
+                        )}
+                      </CardHeader>
+                      <CardContent className="flex-1">
+                        {snippets[pin.id] ? (
+                          <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
+                            {renderSnippet(snippets[pin.id])}
+                          </p>
+                        ) : (pin.summary?.text || pin.note || pin.page.description) && (
+                          <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
+                            {previewText(pin)}
+                          </p>
+                        )}
+                        <div className="flex items-center gap-2 mt-auto">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => window.open(pin.page.url, '_blank')}
+                          >
+                            <ExternalLink className="w-4 h-4 mr-2" />
+                            Open
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleOpenDialog(pin)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryPin(pin)}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(pin.id)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-8">
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                        className={currentPage === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+
+                    {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
+                      // Show first page, last page, current page, and pages around current
+                      if (
+                        page === 1 ||
+                        page === totalPages ||
+                        (page >= currentPage - 1 && page <= currentPage + 1)
+                      ) {
+                        return (
+                          <PaginationItem key={page}>
+                            <PaginationLink
+                              onClick={() => setCurrentPage(page)}
+                              isActive={currentPage === page}
+                              className="cursor-pointer"
+                            >
+                              {page}
+                            </PaginationLink>
+                          </PaginationItem>
+                        );
+                      } else if (page === currentPage - 2 || page === currentPage + 2) {
+                        return (
+                          <PaginationItem key={page}>
+                            <PaginationEllipsis />
+                          </PaginationItem>
+                        );
+                      }
+                      return null;
+                    })}
+
+                    <PaginationItem>
+                      <PaginationNext
+                        onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                        className={currentPage === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
 
+      <PinHistoryDialog
+        pin={historyPin}
+        onClose={() => setHistoryPin(null)}
+        onRestored={(updated) => {
+          setPins(pins.map(p => p.id === updated.id ? updated : p));
+          setHistoryPin(updated);
+        }}
+      />
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
@@ -653,7 +851,7 @@ export function PinsPage() {
 
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
-                  <Label htmlFor="description">Summary</Label>
+                  <Label htmlFor="summary">Summary</Label>
                   <Button
                     type="button"
                     variant="ghost"
@@ -675,10 +873,10 @@ export function PinsPage() {
                   </Button>
                 </div>
                 <Textarea
-                  id="description"
+                  id="summary"
                   placeholder="Write a summary or generate one with AI..."
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  value={formData.summary}
+                  onChange={(e) => setFormData({ ...formData, summary: e.target.value })}
                   rows={4}
                 />
               </div>
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Input, Label } from '@wiserpin/ui';
+import { ExternalLink, Loader2, Lock, Pin } from 'lucide-react';
+import type { ApiPublicCollection, ApiPublicPin } from '@wiserpin/core';
+import { api, SharePasswordError } from '../lib/api';
+
+/**
+ * Pins are shared by their owner, so only web links are made clickable
+ */
+function isWebUrl(url: string) {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Read-only page of a shared collection, for people without an account
+ */
+export function PublicCollectionPage() {
+  const { slug = '' } = useParams();
+  const [collection, setCollection] = useState<ApiPublicCollection['collection'] | null>(null);
+  const [pins, setPins] = useState<ApiPublicPin[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    loadCollection();
+  }, [slug]);
+
+  const loadCollection = async (withPassword?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await api.getPublicCollection(slug, { password: withPassword });
+      setCollection(result.collection);
+      setPins(result.data);
+      setNextCursor(result.meta.nextCursor ?? null);
+      setNeedsPassword(false);
+    } catch (err) {
+      if (err instanceof SharePasswordError) {
+        // No error on the first prompt, only once a password was tried
+        setNeedsPassword(true);
+        setPasswordError(withPassword ? err.message : null);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to load collection');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const result = await api.getPublicCollection(slug, {
+        password: password || undefined,
+        cursor: nextCursor,
+      });
+      setPins((current) => [...current, ...result.data]);
+      setNextCursor(result.meta.nextCursor ?? null);
+    } catch (err) {
+      console.error('Failed to load more pins:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load more pins');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadCollection(password);
+  };
+
+  if (loading && !needsPassword) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (needsPassword) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5" />
+              Password required
+            </CardTitle>
+            <CardDescription>This shared collection is protected with a password.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                {passwordError && <p className="text-xs text-destructive">{passwordError}</p>}
+              </div>
+              <Button type="submit" className="w-full" disabled={!password || loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Open collection
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle>Collection not available</CardTitle>
+            <CardDescription>
+              This link doesn't exist, has expired, or was revoked by its owner.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-10">
+        <div className="mb-8">
+          <div className="flex items-center gap-3">
+            <span
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: collection.color || '#6366f1' }}
+            />
+            <h1 className="text-3xl font-bold text-foreground">{collection.name}</h1>
+          </div>
+          {collection.description && (
+            <p className="text-muted-foreground mt-2">{collection.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground mt-4">Shared with WiserPin</p>
+        </div>
+
+        {pins.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <div className="flex items-center justify-center w-20 h-20 rounded-full bg-muted mb-4">
+              <Pin className="w-10 h-10 text-muted-foreground" />
+            </div>
+            <p className="text-muted-foreground">There are no pins in this collection yet.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {pins.map((pin) => (
+              <Card key={pin.id} className="flex flex-col overflow-hidden">
+                {pin.imageUrl && (
+                  <img src={pin.imageUrl} alt="" className="w-full h-40 object-cover" />
+                )}
+                <CardHeader>
+                  <CardTitle className="text-base line-clamp-2">
+                    {isWebUrl(pin.url) ? (
+                      <a
+                        href={pin.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline inline-flex items-start gap-1"
+                      >
+                        {pin.title || pin.url}
+                        <ExternalLink className="w-3 h-3 mt-1 shrink-0" />
+                      </a>
+                    ) : (
+                      pin.title || pin.url
+                    )}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-2 text-xs">
+                    {pin.favicon && <img src={pin.favicon} alt="" className="w-4 h-4" />}
+                    <span className="truncate">{pin.siteName || pin.url}</span>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 space-y-3">
+                  {(pin.summaryText || pin.description) && (
+                    <p className="text-sm text-muted-foreground line-clamp-4">
+                      {pin.summaryText || pin.description}
+                    </p>
+                  )}
+                  {pin.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {pin.tags.map((tag) => (
+                        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="flex justify-center mt-8">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
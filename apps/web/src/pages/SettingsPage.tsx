@@ -1,10 +1,41 @@
-import { useUser } from '@clerk/clerk-react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@wiserpin/ui';
+import { useAuth, useUser } from '@clerk/clerk-react';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input } from '@wiserpin/ui';
+import {
+  CONFLICT_MERGE_FIELDS,
+  isEncrypted,
+  type EncryptionConfig,
+  type ConflictResolution,
+  type ConflictSide,
+  type SyncConflict,
+} from '@wiserpin/core';
+import { AlertTriangle, Loader2, Lock } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  note: 'Note',
+  summaryText: 'Summary',
+  description: 'Description',
+  collectionId: 'Collection',
+  name: 'Name',
+  color: 'Color',
+};
 
 export function SettingsPage() {
   const { user } = useUser();
+  const { isSignedIn, getToken } = useAuth();
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [collectionNames, setCollectionNames] = useState<Record<string, string>>({});
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeFields, setMergeFields] = useState<Record<string, ConflictSide>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [encryption, setEncryption] = useState<EncryptionConfig | null>(null);
+  const [encryptionUnlocked, setEncryptionUnlocked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
 
   useEffect(() => {
     // Get last sync time from localStorage
@@ -12,6 +43,110 @@ export function SettingsPage() {
     setLastSyncTime(syncTime);
   }, []);
 
+  useEffect(() => {
+    // Set up token getter for API client
+    api.setTokenGetter(async () => {
+      try {
+        return await getToken();
+      } catch (error) {
+        console.error('Failed to get token:', error);
+        return null;
+      }
+    });
+
+    if (isSignedIn) {
+      loadEncryption();
+      loadConflicts();
+    }
+  }, [isSignedIn, getToken]);
+
+  const loadEncryption = async () => {
+    try {
+      setEncryption(await api.getEncryption());
+      setEncryptionUnlocked(await api.isEncryptionUnlocked());
+    } catch (err) {
+      console.error('Failed to load encryption settings:', err);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setEncryptionError(null);
+    try {
+      await api.unlockEncryption(passphrase);
+      setPassphrase('');
+      setEncryptionUnlocked(true);
+      loadConflicts();
+    } catch (err) {
+      setEncryptionError(err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleLock = () => {
+    api.lockEncryption();
+    setEncryptionUnlocked(false);
+    loadConflicts();
+  };
+
+  const loadConflicts = async () => {
+    try {
+      const [data, collections] = await Promise.all([
+        api.getSyncConflicts(),
+        api.getCollections(),
+      ]);
+
+      // Both versions are stored as pushed, so encrypted fields need the key to be shown
+      for (const conflict of data) {
+        const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+        conflict.localData = await api.decrypt(conflict.localData, fields);
+        conflict.remoteData = await api.decrypt(conflict.remoteData, fields);
+      }
+
+      setConflicts(data);
+      setCollectionNames(Object.fromEntries(collections.map((c) => [c.id, c.name])));
+    } catch (err) {
+      console.error('Failed to load sync conflicts:', err);
+    }
+  };
+
+  const handleStartMerge = (conflict: SyncConflict) => {
+    const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+    setMergingId(conflict.id);
+    setMergeFields(Object.fromEntries(fields.map((field) => [field, 'local' as ConflictSide])));
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    setResolvingId(conflict.id);
+    try {
+      await api.resolveSyncConflict(conflict.id, {
+        resolution,
+        fields: resolution === 'merge' ? mergeFields : undefined,
+      });
+      setConflicts(conflicts.filter((c) => c.id !== conflict.id));
+      setMergingId(null);
+    } catch (err) {
+      console.error('Failed to resolve sync conflict:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (isEncrypted(value)) {
+      return 'Encrypted - unlock below to view';
+    }
+    if (field === 'collectionId') {
+      return collectionNames[value as string] || 'Unknown collection';
+    }
+    return String(value);
+  };
+
   return (
     <div className="p-8">
       <div className="mb-8">
@@ -64,9 +199,138 @@ export function SettingsPage() {
                     : 'Never synced'}
                 </p>
               </div>
+
+              {conflicts.length > 0 && (
+                <div className="pt-4 space-y-4">
+                  <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <AlertTriangle className="h-4 w-4 text-orange-500" />
+                    {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'} to resolve
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    These items were edited in the extension and here before they could sync. Choose which version to keep.
+                  </p>
+
+                  {conflicts.map((conflict) => {
+                    const fields = CONFLICT_MERGE_FIELDS[conflict.entity];
+                    const isMerging = mergingId === conflict.id;
+                    const isResolving = resolvingId === conflict.id;
+                    const remote = conflict.remoteData as Record<string, unknown>;
+
+                    return (
+                      <div key={conflict.id} className="rounded-lg border border-border p-4">
+                        <p className="font-medium text-foreground truncate">
+                          {String(remote.title || remote.name || conflict.recordId)}
+                        </p>
+                        <p className="text-xs text-muted-foreground mb-3">
+                          {conflict.entity === 'pin' ? 'Pin' : 'Collection'} · {new Date(conflict.createdAt).toLocaleString()}
+                        </p>
+
+                        <div className="space-y-3 mb-4">
+                          {fields.map((field) => (
+                            <div key={field} className="text-sm">
+                              <p className="font-medium text-muted-foreground mb-1">{FIELD_LABELS[field] || field}</p>
+                              <div className="grid grid-cols-2 gap-2">
+                                {(['local', 'remote'] as const).map((side) => {
+                                  const data = side === 'local' ? conflict.localData : conflict.remoteData;
+                                  const selected = isMerging && mergeFields[field] === side;
+
+                                  return (
+                                    <button
+                                      key={side}
+                                      disabled={!isMerging}
+                                      onClick={() => setMergeFields({ ...mergeFields, [field]: side })}
+                                      className={`text-left p-2 rounded-md border break-words ${
+                                        selected ? 'border-primary bg-primary/10' : 'border-border'
+                                      }`}
+                                    >
+                                      <span className="block text-xs uppercase text-muted-foreground">
+                                        {side === 'local' ? 'Extension' : 'Cloud'}
+                                      </span>
+                                      {formatValue(field, data[field])}
+                                    </button>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="flex gap-2">
+                          {isMerging ? (
+                            <>
+                              <Button size="sm" disabled={isResolving} onClick={() => handleResolve(conflict, 'merge')}>
+                                {isResolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Save merge
+                              </Button>
+                              <Button size="sm" variant="outline" disabled={isResolving} onClick={() => setMergingId(null)}>
+                                Cancel
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button size="sm" variant="outline" disabled={isResolving} onClick={() => handleResolve(conflict, 'local')}>
+                                Keep extension version
+                              </Button>
+                              <Button size="sm" variant="outline" disabled={isResolving} onClick={() => handleResolve(conflict, 'remote')}>
+                                Keep cloud version
+                              </Button>
+                              <Button size="sm" variant="outline" disabled={isResolving} onClick={() => handleStartMerge(conflict)}>
+                                Merge
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
+
+        {encryption?.enabled && (
+          <Card>
+            <CardHeader>
+              <CardTitle>End-to-end Encryption</CardTitle>
+              <CardDescription>
+                Notes and summaries{encryption.encryptCollections && ' and collection goals'} are encrypted with your passphrase before they reach the cloud
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {encryptionUnlocked ? (
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-foreground">Unlocked in this browser</p>
+                  <Button size="sm" variant="outline" onClick={handleLock}>
+                    <Lock className="mr-2 h-4 w-4" />
+                    Lock
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Enter your passphrase to read and edit encrypted notes in this browser.
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      type="password"
+                      placeholder="Passphrase"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                    />
+                    <Button disabled={unlocking || !passphrase} onClick={handleUnlock}>
+                      {unlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Unlock
+                    </Button>
+                  </div>
+                  {encryptionError && (
+                    <p className="text-sm text-destructive">{encryptionError}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button } from '@wiserpin/ui';
+import { Trash2, Loader2, RotateCcw } from 'lucide-react';
+import { api } from '../lib/api';
+import { useAuth } from '@clerk/clerk-react';
+
+type TrashData = Awaited<ReturnType<typeof api.getTrash>>;
+
+export function TrashPage() {
+  const { isSignedIn, getToken } = useAuth();
+  const [trash, setTrash] = useState<TrashData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    // Set up token getter for API client
+    api.setTokenGetter(async () => {
+      try {
+        return await getToken();
+      } catch (error) {
+        console.error('Failed to get token:', error);
+        return null;
+      }
+    });
+
+    if (isSignedIn) {
+      loadTrash();
+    }
+  }, [isSignedIn, getToken]);
+
+  // Refresh when items are trashed or restored in the extension or another tab
+  useEffect(() => {
+    if (!isSignedIn) return;
+    return api.subscribeToChanges(() => loadTrash({ silent: true }));
+  }, [isSignedIn]);
+
+  const loadTrash = async ({ silent = false } = {}) => {
+    try {
+      if (!silent) setLoading(true);
+      setError(null);
+      setTrash(await api.getTrash());
+    } catch (err) {
+      console.error('Failed to load trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setWorking(true);
+    try {
+      await action();
+      await loadTrash({ silent: true });
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      alert(failureMessage);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDeleteForever = (entity: 'pin' | 'collection', id: string) => {
+    const message = entity === 'collection'
+      ? 'Delete this collection and its trashed pins forever? This cannot be undone.'
+      : 'Delete this pin forever? This cannot be undone.';
+    if (!window.confirm(message)) {
+      return;
+    }
+    runAction(() => api.deleteForever(entity, id), `Failed to delete ${entity}`);
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm('Delete everything in the trash forever? This cannot be undone.')) {
+      return;
+    }
+    runAction(() => api.emptyTrash(), 'Failed to empty trash');
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Sign In Required</CardTitle>
+            <CardDescription>Please sign in to view your trash</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !trash) {
+    return (
+      <div className="p-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Loading Trash</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => loadTrash()}>Retry</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const collectionNames = Object.fromEntries(trash.collections.map((c) => [c.id, c.name]));
+  const count = trash.collections.length + trash.pins.length;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+          <p className="text-muted-foreground mt-2">
+            Items are deleted forever {trash.retentionDays} days after they were moved to the trash
+          </p>
+        </div>
+        {count > 0 && (
+          <Button variant="outline" disabled={working} onClick={handleEmptyTrash}>
+            {working ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+            Empty trash
+          </Button>
+        )}
+      </div>
+
+      {count === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>The Trash Is Empty</CardTitle>
+            <CardDescription>
+              Deleted pins and collections stay here until you restore them or they expire
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-8">
+          {trash.collections.length > 0 && (
+            <div>
+              <h2 className="text-lg font-semibold text-foreground mb-4">Collections</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {trash.collections.map((collection) => (
+                  <Card key={collection.id}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div
+                            className="w-4 h-4 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: collection.color || '#3b82f6' }}
+                          />
+                          <div className="min-w-0">
+                            <CardTitle className="line-clamp-1">{collection.name}</CardTitle>
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Trashed {collection.trashedAt && new Date(collection.trashedAt).toLocaleString()}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Restore"
+                            disabled={working}
+                            onClick={() => runAction(() => api.restoreCollection(collection.id), 'Failed to restore collection')}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Delete forever"
+                            disabled={working}
+                            onClick={() => handleDeleteForever('collection', collection.id)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trash.pins.length > 0 && (
+            <div>
+              <h2 className="text-lg font-semibold text-foreground mb-4">Pins</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {trash.pins.map((pin) => (
+                  <Card key={pin.id}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <CardTitle className="line-clamp-1">{pin.page.title || pin.page.url}</CardTitle>
+                          <p className="text-sm text-muted-foreground mt-1 truncate">
+                            {collectionNames[pin.collectionId] ? `${collectionNames[pin.collectionId]} · ` : ''}
+                            Trashed {pin.trashedAt && new Date(pin.trashedAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Restore"
+                            disabled={working}
+                            onClick={() => runAction(() => api.restorePin(pin.id), 'Failed to restore pin')}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Delete forever"
+                            disabled={working}
+                            onClick={() => handleDeleteForever('pin', pin.id)}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
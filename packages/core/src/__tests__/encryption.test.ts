@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createKeyCheck,
+  decryptFields,
+  decryptText,
+  deriveEncryptionKey,
+  encryptFields,
+  encryptText,
+  exportEncryptionKey,
+  generateEncryptionSalt,
+  importEncryptionKey,
+  isEncrypted,
+  verifyKeyCheck,
+  ENCRYPTED_PIN_FIELDS,
+} from '../index';
+
+describe('@wiserpin/core encryption', () => {
+  const salt = generateEncryptionSalt();
+
+  it('should encrypt and decrypt text', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+    const encrypted = await encryptText('Sensitive note', key);
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('Sensitive');
+    expect(await decryptText(encrypted, key)).toBe('Sensitive note');
+  });
+
+  it('should use a fresh IV for every value', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+
+    expect(await encryptText('same', key)).not.toBe(await encryptText('same', key));
+  });
+
+  it('should derive the same key from the same passphrase and salt', async () => {
+    const first = await deriveEncryptionKey('correct horse', salt);
+    const second = await deriveEncryptionKey('correct horse', salt);
+
+    expect(await decryptText(await encryptText('text', first), second)).toBe('text');
+  });
+
+  it('should detect a wrong passphrase with the key check', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+    const wrongKey = await deriveEncryptionKey('battery staple', salt);
+    const keyCheck = await createKeyCheck(key);
+
+    expect(await verifyKeyCheck(keyCheck, key)).toBe(true);
+    expect(await verifyKeyCheck(keyCheck, wrongKey)).toBe(false);
+  });
+
+  it('should restore an exported key', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+    const restored = await importEncryptionKey(await exportEncryptionKey(key));
+
+    expect(await decryptText(await encryptText('text', key), restored)).toBe('text');
+  });
+
+  it('should pass through values that are not encrypted', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+
+    expect(await decryptText('plain text', key)).toBe('plain text');
+  });
+
+  it('should encrypt only the listed non-empty fields', async () => {
+    const key = await deriveEncryptionKey('correct horse', salt);
+    const record = { title: 'Title', note: 'Note', summaryText: null as string | null };
+
+    const encrypted = await encryptFields(record, ENCRYPTED_PIN_FIELDS, key);
+
+    expect(encrypted.title).toBe('Title');
+    expect(isEncrypted(encrypted.note)).toBe(true);
+    expect(encrypted.summaryText).toBeNull();
+    expect(await decryptFields(encrypted, ENCRYPTED_PIN_FIELDS, key)).toEqual(record);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseEventStream } from '../index';
+
+describe('@wiserpin/core parseEventStream', () => {
+  it('should parse named events with JSON data', () => {
+    const { events, rest } = parseEventStream(
+      'event: change\ndata: {"entity":"pin","id":"pin-1"}\n\n'
+    );
+
+    expect(events).toEqual([{ type: 'change', data: '{"entity":"pin","id":"pin-1"}' }]);
+    expect(rest).toBe('');
+  });
+
+  it('should default the type to message and keep the event ID', () => {
+    const { events } = parseEventStream('id: 7\ndata: hello\n\n');
+
+    expect(events).toEqual([{ type: 'message', data: 'hello', id: '7' }]);
+  });
+
+  it('should join multi-line data', () => {
+    const { events } = parseEventStream('data: first\ndata: second\n\n');
+
+    expect(events[0].data).toBe('first\nsecond');
+  });
+
+  it('should keep an incomplete event for the next chunk', () => {
+    const first = parseEventStream('event: change\ndata: one\n\nevent: change\nda');
+
+    expect(first.events).toHaveLength(1);
+    expect(first.rest).toBe('event: change\nda');
+
+    const second = parseEventStream(first.rest + 'ta: two\n\n');
+
+    expect(second.events).toEqual([{ type: 'change', data: 'two' }]);
+  });
+
+  it('should skip comments and events without data', () => {
+    const { events } = parseEventStream(': keep-alive\n\nevent: heartbeat\n\n\r\ndata: x\r\n\r\n');
+
+    expect(events).toEqual([{ type: 'message', data: 'x' }]);
+  });
+});
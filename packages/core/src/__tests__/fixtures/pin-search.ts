@@ -0,0 +1,72 @@
+/**
+ * Pins and text queries that local and API search have to agree on. The API's
+ * query is checked in pin-search.test.ts, and the local index runs the same
+ * cases in the search tests of @wiserpin/storage.
+ */
+
+export interface PinSearchFixturePin {
+  id: string;
+  title: string;
+  url: string;
+  tags: string[];
+  siteName?: string;
+  note?: string;
+  summaryText?: string;
+  description?: string;
+}
+
+export const PIN_SEARCH_PINS: PinSearchFixturePin[] = [
+  {
+    id: 'rust-book',
+    title: 'Rust async book',
+    url: 'https://rust-lang.github.io/async-book/',
+    tags: ['rust'],
+    summaryText: 'How async works in Rust',
+  },
+  {
+    id: 'tokio',
+    title: 'Tokio tutorial',
+    url: 'https://github.com/tokio-rs/tokio',
+    tags: ['rust', 'async'],
+    siteName: 'GitHub',
+  },
+  {
+    id: 'go-errors',
+    title: 'Error handling in Go',
+    url: 'https://go.dev/blog/error-handling',
+    tags: [],
+    note: 'Compare with the Rust way',
+    description: 'Errors are values',
+  },
+  {
+    id: 'creme-brulee',
+    title: 'Crème brûlée recipe',
+    url: 'https://cooking.example.com/creme-brulee',
+    tags: ['dessert'],
+    siteName: 'Cooking Café',
+  },
+];
+
+/**
+ * Queries with the IDs of the pins they find, in any order
+ */
+export const PIN_SEARCH_CASES: { query: string; ids: string[] }[] = [
+  { query: 'rust', ids: ['rust-book', 'tokio', 'go-errors'] },
+  { query: 'asy', ids: ['rust-book', 'tokio'] },
+  { query: 'tok tut', ids: ['tokio'] },
+  { query: 'BRÛLÉE', ids: ['creme-brulee'] },
+  { query: 'cafe', ids: ['creme-brulee'] },
+  { query: 'dessert', ids: ['creme-brulee'] },
+  { query: 'value', ids: ['go-errors'] },
+  { query: 'github', ids: ['rust-book', 'tokio'] },
+  { query: 'https', ids: [] },
+  { query: '"error handling"', ids: ['go-errors'] },
+  { query: '"in go"', ids: ['go-errors'] },
+  { query: '"handling error"', ids: [] },
+  { query: '"rust async"', ids: ['rust-book'] },
+  { query: '"book rust"', ids: [] },
+  { query: 'rust -tokio', ids: ['rust-book', 'go-errors'] },
+  { query: 'rust -"async book"', ids: ['tokio', 'go-errors'] },
+  { query: '-rust', ids: ['creme-brulee'] },
+  { query: '!!!', ids: [] },
+];
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import type { ApiPin, Collection, Pin } from '../index';
+import {
+  diffPinRevision,
+  redactPinRevisionChanges,
+  fromApiCollection,
+  fromApiPin,
+  toApiCollection,
+  toApiPin,
+  toPinRevisionValues,
+} from '../index';
+
+/**
+ * Simulate the cloud storing a pin and returning it
+ */
+function throughCloud(pin: Pin): ApiPin {
+  return JSON.parse(JSON.stringify({
+    ...toApiPin(pin),
+    id: pin.id,
+    userId: 'user_123',
+    updatedAt: pin.updatedAt,
+    deletedAt: null,
+  }));
+}
+
+describe('@wiserpin/core mappers', () => {
+  describe('Pin mapping', () => {
+    it('should return an identical pin after a round trip', () => {
+      const pin: Pin = {
+        id: 'pin-1',
+        collectionId: 'col-1',
+        page: {
+          url: 'https://example.com/article',
+          title: 'An article',
+          ogImageUrl: 'https://example.com/og.png',
+          siteName: 'Example',
+          description: 'Meta description',
+          faviconUrl: 'https://example.com/favicon.ico',
+        },
+        summary: {
+          text: 'A generated summary',
+          createdAt: '2025-01-02T10:00:00.000Z',
+        },
+        note: 'My own note',
+        tags: ['reading', 'web'],
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-03T08:30:00.000Z',
+      };
+
+      expect(fromApiPin(throughCloud(pin))).toEqual(pin);
+    });
+
+    it('should keep note and summary separate', () => {
+      const payload = toApiPin({
+        collectionId: 'col-1',
+        page: { url: 'https://example.com' },
+        summary: { text: 'Summary', createdAt: '2025-01-02T10:00:00.000Z' },
+        note: 'Note',
+      });
+
+      expect(payload.note).toBe('Note');
+      expect(payload.summaryText).toBe('Summary');
+      expect(payload.description).toBeNull();
+    });
+
+    it('should send missing fields as null so they are cleared in the cloud', () => {
+      const payload = toApiPin({
+        collectionId: 'col-1',
+        page: { url: 'https://example.com', title: 'Example' },
+      });
+
+      expect(payload.note).toBeNull();
+      expect(payload.summaryText).toBeNull();
+      expect(payload.summaryCreatedAt).toBeNull();
+      expect(payload.imageUrl).toBeNull();
+      expect(payload.tags).toEqual([]);
+    });
+
+    it('should round trip a pin without summary or note', () => {
+      const pin: Pin = {
+        id: 'pin-2',
+        collectionId: 'col-1',
+        page: { url: 'https://example.com', title: 'Example' },
+        tags: ['web'],
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-01T09:00:00.000Z',
+      };
+
+      expect(fromApiPin(throughCloud(pin))).toEqual(pin);
+    });
+
+    it('should round trip a sparse pin without adding empty fields', () => {
+      const pin: Pin = {
+        id: 'pin-4',
+        collectionId: '',
+        page: { url: 'https://example.com' },
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-01T09:00:00.000Z',
+      };
+
+      const restored = fromApiPin(throughCloud(pin));
+
+      expect(restored).toEqual(pin);
+      expect(restored.page.title).toBeUndefined();
+      expect(restored.tags).toBeUndefined();
+    });
+
+    it('should read empty tags from the cloud as no tags', () => {
+      const remote = throughCloud({
+        id: 'pin-5',
+        collectionId: 'col-1',
+        page: { url: 'https://example.com', title: 'Example' },
+        tags: [],
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-01T09:00:00.000Z',
+      });
+
+      expect(fromApiPin(remote).tags).toBeUndefined();
+      expect(toApiPin(fromApiPin(remote))).toEqual(toApiPin({ ...fromApiPin(remote), tags: [] }));
+    });
+
+    it('should fall back to updatedAt for summaries saved without a timestamp', () => {
+      const remote = throughCloud({
+        id: 'pin-3',
+        collectionId: 'col-1',
+        page: { url: 'https://example.com', title: 'Example' },
+        summary: { text: 'Summary', createdAt: '2025-01-02T10:00:00.000Z' },
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-03T08:30:00.000Z',
+      });
+
+      const pin = fromApiPin({ ...remote, summaryCreatedAt: null });
+
+      expect(pin.summary).toEqual({ text: 'Summary', createdAt: '2025-01-03T08:30:00.000Z' });
+    });
+  });
+
+  describe('Collection mapping', () => {
+    it('should return an identical collection after a round trip', () => {
+      const collection: Collection = {
+        id: 'col-1',
+        name: 'Reading',
+        goal: 'Articles to read',
+        color: '#ff0000',
+        createdAt: '2025-01-01T09:00:00.000Z',
+        updatedAt: '2025-01-03T08:30:00.000Z',
+      };
+
+      const remote = {
+        ...toApiCollection(collection),
+        id: collection.id,
+        color: collection.color ?? null,
+        createdAt: collection.createdAt,
+        updatedAt: collection.updatedAt,
+      };
+
+      expect(fromApiCollection(remote)).toEqual(collection);
+    });
+  });
+
+  describe('Pin revisions', () => {
+    const pin = {
+      page: { url: 'https://example.com', title: 'Title' },
+      note: 'First note',
+      tags: ['web'],
+    };
+
+    it('should record only the fields that changed', () => {
+      const before = toPinRevisionValues(pin);
+      const after = toPinRevisionValues({
+        ...pin,
+        note: 'Second note',
+        summary: { text: 'Summary', createdAt: '2025-01-02T10:00:00.000Z' },
+      });
+
+      expect(diffPinRevision(before, after)).toEqual({
+        note: { from: 'First note', to: 'Second note' },
+        summaryText: { from: null, to: 'Summary' },
+      });
+    });
+
+    it('should return undefined when nothing changed', () => {
+      const values = toPinRevisionValues(pin);
+
+      expect(diffPinRevision(values, toPinRevisionValues({ ...pin, tags: ['web'] }))).toBeUndefined();
+    });
+
+    it('should not keep plaintext when a field gets encrypted', () => {
+      const before = toPinRevisionValues({ ...pin, summary: { text: 'Summary', createdAt: '' } });
+      const after = toPinRevisionValues({
+        ...pin,
+        page: { ...pin.page, title: 'New title' },
+        note: 'enc:v1:aXY=:Y2lwaGVy',
+        summary: { text: 'enc:v1:aXY=:c3VtbWFyeQ==', createdAt: '' },
+      });
+
+      expect(redactPinRevisionChanges(diffPinRevision(before, after)!)).toEqual({
+        title: { from: 'Title', to: 'New title' },
+        note: { from: null, to: null, redacted: true },
+        summaryText: { from: null, to: null, redacted: true },
+      });
+    });
+
+    it('should keep changes between encrypted values', () => {
+      const changes = { note: { from: 'enc:v1:aXY=:YQ==', to: 'enc:v1:aXY=:Yg==' } };
+
+      expect(redactPinRevisionChanges(changes)).toEqual(changes);
+    });
+  });
+});
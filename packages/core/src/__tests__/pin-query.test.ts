@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parsePinQuery, PinQuerySyntaxError, siteUrlPatterns } from '../index';
+
+describe('@wiserpin/core parsePinQuery', () => {
+  it('should parse fields, quoted values and negations', () => {
+    const { terms } = parsePinQuery(
+      'site:GitHub.com tag:rust collection:"Reading list" before:2026-01-01 -is:summarized'
+    );
+
+    expect(terms).toEqual([
+      { type: 'site', value: 'github.com', negated: false },
+      { type: 'tag', value: 'rust', negated: false },
+      { type: 'collection', value: 'Reading list', negated: false },
+      { type: 'before', value: '2026-01-01', negated: false },
+      { type: 'is', value: 'summarized', negated: true },
+    ]);
+  });
+
+  it('should read words and quoted phrases as text', () => {
+    const { terms } = parsePinQuery('async "error handling" -tokio');
+
+    expect(terms).toEqual([
+      { type: 'text', value: 'async', phrase: false, negated: false },
+      { type: 'text', value: 'error handling', phrase: true, negated: false },
+      { type: 'text', value: 'tokio', phrase: false, negated: true },
+    ]);
+  });
+
+  it('should read unknown fields as text', () => {
+    const { terms } = parsePinQuery('https://example.com at:noon');
+
+    expect(terms.map((term) => term.value)).toEqual(['https://example.com', 'at:noon']);
+    expect(terms.every((term) => term.type === 'text')).toBe(true);
+  });
+
+  it('should skip fields without a value and unclosed quotes', () => {
+    expect(parsePinQuery('tag: collection:"').terms).toEqual([]);
+    expect(parsePinQuery('collection:"Read').terms).toEqual([
+      { type: 'collection', value: 'Read', negated: false },
+    ]);
+  });
+
+  it('should reject invalid dates and states', () => {
+    expect(() => parsePinQuery('before:yesterday')).toThrow(PinQuerySyntaxError);
+    expect(() => parsePinQuery('after:2026-02-30')).toThrow(PinQuerySyntaxError);
+    expect(() => parsePinQuery('is:starred')).toThrow(PinQuerySyntaxError);
+  });
+});
+
+describe('@wiserpin/core siteUrlPatterns', () => {
+  it('should match the host and its subdomains only', () => {
+    const { contains, endsWith } = siteUrlPatterns('github.com');
+    const matches = (url: string) =>
+      contains.some((pattern) => url.includes(pattern)) ||
+      endsWith.some((pattern) => url.endsWith(pattern));
+
+    expect(matches('https://github.com/rust-lang')).toBe(true);
+    expect(matches('https://docs.github.com/en')).toBe(true);
+    expect(matches('https://github.com')).toBe(true);
+    expect(matches('https://github.community/')).toBe(false);
+    expect(matches('https://notgithub.com/')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parsePinQuery, tokenizeSearchText, tokenizeSearchUrl, toPinTsQuery } from '../index';
+import { PIN_SEARCH_CASES, PIN_SEARCH_PINS, type PinSearchFixturePin } from './fixtures/pin-search';
+
+/**
+ * Words of each field and tag of a pin, as pin_search_vector in the API's
+ * prisma/search.sql indexes them: phrases can't run from one into the next
+ */
+function searchVector(pin: PinSearchFixturePin): string[][] {
+  const words = (text = '') =>
+    text
+      .normalize('NFKD')
+      .replace(/\p{M}+/gu, '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+  const noise = ['http', 'https', 'www', 'html', 'htm', 'php', 'index'];
+
+  return [
+    words(pin.title),
+    ...pin.tags.map((tag) => words(tag)),
+    words(pin.siteName),
+    words(pin.note),
+    words(pin.summaryText),
+    words(pin.description),
+    words(pin.url).filter((word) => !noise.includes(word)),
+  ];
+}
+
+/**
+ * Whether a pin matches a query of toPinTsQuery, the way Postgres evaluates it
+ */
+function matchesTsQuery(pin: PinSearchFixturePin, tsquery: string | null): boolean {
+  if (tsquery === null) {
+    return true;
+  }
+
+  const fields = searchVector(pin);
+  const parts = [...tsquery.matchAll(/(!?)\(([^()]*)\)/g)];
+
+  return (
+    parts.length > 0 &&
+    parts.every(([, negated, inner]) => {
+      const matched = inner.includes(' <-> ')
+        ? fields.some((field) => {
+            const phrase = inner.split(' <-> ');
+            return field.some((_, start) => phrase.every((word, i) => field[start + i] === word));
+          })
+        : inner
+            .split(' & ')
+            .map((word) => word.replace(/:\*$/, ''))
+            .every((prefix) => fields.some((field) => field.some((word) => word.startsWith(prefix))));
+      return matched !== !!negated;
+    })
+  );
+}
+
+describe('@wiserpin/core search tokens', () => {
+  it('should lowercase, fold diacritics and split on punctuation', () => {
+    expect(tokenizeSearchText('Crème Brûlée: a how-to')).toEqual(['creme', 'brulee', 'how', 'to']);
+    expect(tokenizeSearchText('a b', 1)).toEqual(['a', 'b']);
+  });
+
+  it('should leave URL boilerplate out', () => {
+    expect(tokenizeSearchUrl('https://www.example.com/docs/index.html')).toEqual([
+      'example',
+      'com',
+      'docs',
+    ]);
+  });
+});
+
+describe('@wiserpin/core toPinTsQuery', () => {
+  it('should match words by prefix and phrases word by word', () => {
+    expect(toPinTsQuery(parsePinQuery('Café-au-lait -tokio "Error handling" tag:rust'))).toBe(
+      '(cafe:* & au:* & lait:*) & !(tokio:*) & (error <-> handling)'
+    );
+  });
+
+  it('should be null without text, and match nothing for text without words', () => {
+    expect(toPinTsQuery(parsePinQuery('tag:rust is:noted'))).toBeNull();
+    expect(toPinTsQuery(parsePinQuery('-!!!'))).toBeNull();
+    expect(toPinTsQuery(parsePinQuery('!!! -rust'))).toBe('');
+  });
+
+  it('should find the same pins as local search', () => {
+    for (const { query, ids } of PIN_SEARCH_CASES) {
+      const tsquery = toPinTsQuery(parsePinQuery(query));
+      const found = PIN_SEARCH_PINS.filter((pin) => matchesTsQuery(pin, tsquery));
+
+      expect({ query, ids: found.map((pin) => pin.id).sort() }).toEqual({
+        query,
+        ids: [...ids].sort(),
+      });
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { reconcile, type RecordVersion } from '../index';
+
+const edited = (changedAt: string): RecordVersion => ({ changedAt, deleted: false });
+const deleted = (changedAt: string): RecordVersion => ({ changedAt, deleted: true });
+
+const EARLIER = '2026-01-01T10:00:00.000Z';
+const LATER = '2026-01-01T11:00:00.000Z';
+
+describe('@wiserpin/core reconcile', () => {
+  it('should copy a record that only one side has', () => {
+    expect(reconcile(edited(EARLIER), undefined)).toBe('push');
+    expect(reconcile(undefined, edited(EARLIER))).toBe('pull');
+    expect(reconcile(undefined, undefined)).toBe('none');
+  });
+
+  it('should not copy a deletion to a side that never had the record', () => {
+    expect(reconcile(deleted(EARLIER), undefined)).toBe('none');
+    expect(reconcile(undefined, deleted(EARLIER))).toBe('none');
+    expect(reconcile(deleted(EARLIER), deleted(LATER))).toBe('none');
+  });
+
+  it('should let the latest edit win', () => {
+    expect(reconcile(edited(LATER), edited(EARLIER))).toBe('push');
+    expect(reconcile(edited(EARLIER), edited(LATER))).toBe('pull');
+    expect(reconcile(edited(EARLIER), edited(EARLIER))).toBe('none');
+  });
+
+  it('should weigh deletions against edits by time', () => {
+    expect(reconcile(deleted(LATER), edited(EARLIER))).toBe('push-delete');
+    expect(reconcile(edited(EARLIER), deleted(LATER))).toBe('pull-delete');
+    expect(reconcile(edited(LATER), deleted(EARLIER))).toBe('push');
+    expect(reconcile(deleted(EARLIER), edited(LATER))).toBe('pull');
+  });
+
+  it('should let a deletion win a tie with an edit', () => {
+    expect(reconcile(deleted(EARLIER), edited(EARLIER))).toBe('push-delete');
+    expect(reconcile(edited(EARLIER), deleted(EARLIER))).toBe('pull-delete');
+  });
+
+  it('should compare instants, not timestamp strings', () => {
+    expect(reconcile(edited('2026-01-01T12:00:00+02:00'), edited(EARLIER))).toBe('none');
+  });
+
+  it('should push a record restored from a backup once it is stamped with the restore time', () => {
+    // The backup holds the version from before a later edit in the cloud
+    const restored = edited(EARLIER);
+    const cloud = edited(LATER);
+
+    expect(reconcile(restored, cloud)).toBe('pull');
+    expect(reconcile({ ...restored, changedAt: '2026-01-02T09:00:00.000Z' }, cloud)).toBe('push');
+  });
+});
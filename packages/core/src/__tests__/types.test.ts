@@ -49,6 +49,7 @@ describe('@wiserpin/core types', () => {
           title: 'Example',
         },
         createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
       };
 
       expect(pin.id).toBe('456');
@@ -66,6 +67,7 @@ describe('@wiserpin/core types', () => {
         },
         note: 'My personal note',
         createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
       };
 
       expect(pin.summary?.text).toBe('This is a summary');
@@ -0,0 +1,204 @@
+/**
+ * End-to-end encryption of pin and collection fields.
+ *
+ * The key is derived from the user's passphrase in the clients and never
+ * sent to the API, which stores encrypted fields as opaque strings.
+ */
+
+/**
+ * Prefix that marks an encrypted field value (format version 1)
+ */
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/**
+ * API pin fields encrypted when E2E encryption is on
+ */
+export const ENCRYPTED_PIN_FIELDS = ['note', 'summaryText'] as const;
+
+/**
+ * API collection fields encrypted when collection goals are encrypted too
+ */
+export const ENCRYPTED_COLLECTION_FIELDS = ['description'] as const;
+
+/**
+ * PBKDF2 iterations used to derive the key from a passphrase
+ */
+const KEY_DERIVATION_ITERATIONS = 310000;
+
+/**
+ * Known text encrypted with the key so a wrong passphrase can be detected
+ */
+const KEY_CHECK_TEXT = 'wiserpin-key-check';
+
+/**
+ * E2E encryption settings shared by a user's clients through the API.
+ * Only the salt and a key check are stored, never the key or passphrase.
+ */
+export interface EncryptionConfig {
+  enabled: boolean;
+  salt: string | null;
+  keyCheck: string | null;
+  encryptCollections: boolean;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Whether a field value is encrypted
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Random salt for a new passphrase
+ */
+export function generateEncryptionSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Derive the AES-GCM key from the user's passphrase
+ */
+export async function deriveEncryptionKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: KEY_DERIVATION_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Serialize a key so a client can keep it between sessions
+ */
+export async function exportEncryptionKey(key: CryptoKey): Promise<string> {
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+/**
+ * Restore a key saved with exportEncryptionKey
+ */
+export async function importEncryptionKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt a field value
+ */
+export async function encryptText(text: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a field value. Values that aren't encrypted (saved before
+ * encryption was turned on) are returned as they are.
+ */
+export async function decryptText(value: string, key: CryptoKey): Promise<string> {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Key check to store with the salt when encryption is set up
+ */
+export function createKeyCheck(key: CryptoKey): Promise<string> {
+  return encryptText(KEY_CHECK_TEXT, key);
+}
+
+/**
+ * Whether a key derived from a passphrase matches the stored key check
+ */
+export async function verifyKeyCheck(keyCheck: string, key: CryptoKey): Promise<boolean> {
+  try {
+    return (await decryptText(keyCheck, key)) === KEY_CHECK_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy of a record with the given string fields encrypted.
+ * Empty and missing values are left alone.
+ */
+export async function encryptFields<T extends object>(
+  record: T,
+  fields: readonly string[],
+  key: CryptoKey
+): Promise<T> {
+  const result = { ...record } as Record<string, unknown>;
+
+  for (const field of fields) {
+    const value = result[field];
+    if (typeof value === 'string' && value && !isEncrypted(value)) {
+      result[field] = await encryptText(value, key);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Copy of a record with the given encrypted fields decrypted
+ */
+export async function decryptFields<T extends object>(
+  record: T,
+  fields: readonly string[],
+  key: CryptoKey
+): Promise<T> {
+  const result = { ...record } as Record<string, unknown>;
+
+  for (const field of fields) {
+    const value = result[field];
+    if (isEncrypted(value)) {
+      result[field] = await decryptText(value, key);
+    }
+  }
+
+  return result as T;
+}
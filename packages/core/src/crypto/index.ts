@@ -0,0 +1,17 @@
+export {
+  ENCRYPTED_PREFIX,
+  ENCRYPTED_PIN_FIELDS,
+  ENCRYPTED_COLLECTION_FIELDS,
+  isEncrypted,
+  generateEncryptionSalt,
+  deriveEncryptionKey,
+  exportEncryptionKey,
+  importEncryptionKey,
+  encryptText,
+  decryptText,
+  createKeyCheck,
+  verifyKeyCheck,
+  encryptFields,
+  decryptFields,
+  type EncryptionConfig,
+} from './encryption';
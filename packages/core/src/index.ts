@@ -1,9 +1,24 @@
 /**
  * @wiserpin/core
  *
- * Shared TypeScript types and interfaces for the WiserPin monorepo.
- * This package contains no runtime code, only type definitions.
+ * Shared TypeScript types and interfaces for the WiserPin monorepo,
+ * plus the helpers its apps share to talk to the cloud API.
  */
 
 // Re-export all types
 export * from './types';
+
+// Local <-> API mappers
+export * from './mappers';
+
+// Realtime event stream parsing
+export * from './realtime';
+
+// End-to-end encryption
+export * from './crypto';
+
+// Pin search query language
+export * from './query';
+
+// Sync reconciliation
+export * from './sync';
@@ -0,0 +1,92 @@
+import type { Collection } from '../types/collection';
+import type { Pin } from '../types/pin';
+import type {
+  ApiCollection,
+  ApiCollectionInput,
+  ApiPin,
+  ApiPinInput,
+} from '../types/api';
+
+/**
+ * Pin fields needed to build an API payload; id and timestamps may not exist yet
+ */
+export type PinDraft = Omit<Pin, 'id' | 'userId' | 'createdAt' | 'updatedAt'> & {
+  createdAt?: string;
+};
+
+/**
+ * Map a local pin to the fields the API stores
+ */
+export function toApiPin(pin: PinDraft): ApiPinInput {
+  return {
+    url: pin.page.url,
+    title: pin.page.title ?? '',
+    description: pin.page.description ?? null,
+    imageUrl: pin.page.ogImageUrl ?? null,
+    favicon: pin.page.faviconUrl ?? null,
+    siteName: pin.page.siteName ?? null,
+    tags: pin.tags ?? [],
+    note: pin.note ?? null,
+    summaryText: pin.summary?.text ?? null,
+    summaryCreatedAt: pin.summary?.createdAt ?? null,
+    collectionId: pin.collectionId || null,
+    createdAt: pin.createdAt ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Map a pin returned by the API to the local shape, keeping its timestamps.
+ * Inverse of toApiPin, so a pin survives a round trip through the cloud
+ * unchanged: the empty title and tags toApiPin sends for missing ones come
+ * back missing.
+ */
+export function fromApiPin(remote: ApiPin): Pin {
+  return {
+    id: remote.id,
+    collectionId: remote.collectionId ?? '',
+    page: {
+      url: remote.url,
+      title: remote.title || undefined,
+      ogImageUrl: remote.imageUrl ?? undefined,
+      siteName: remote.siteName ?? undefined,
+      description: remote.description ?? undefined,
+      faviconUrl: remote.favicon ?? undefined,
+    },
+    summary: remote.summaryText != null ? {
+      text: remote.summaryText,
+      // Pins saved before summaries had their own timestamp
+      createdAt: remote.summaryCreatedAt ?? remote.updatedAt,
+    } : undefined,
+    note: remote.note ?? undefined,
+    tags: remote.tags.length > 0 ? remote.tags : undefined,
+    createdAt: remote.createdAt,
+    updatedAt: remote.updatedAt,
+    trashedAt: remote.trashedAt ?? undefined,
+  };
+}
+
+/**
+ * Map a local collection to the fields the API stores
+ */
+export function toApiCollection(collection: Collection): ApiCollectionInput {
+  return {
+    name: collection.name,
+    description: collection.goal,
+    color: collection.color,
+  };
+}
+
+/**
+ * Map a collection returned by the API to the local shape, keeping its timestamps
+ */
+export function fromApiCollection(remote: ApiCollection): Collection {
+  return {
+    id: remote.id,
+    name: remote.name,
+    goal: remote.description || '',
+    color: remote.color || '#6366f1',
+    createdAt: remote.createdAt,
+    updatedAt: remote.updatedAt,
+    trashedAt: remote.trashedAt ?? undefined,
+  };
+}
@@ -0,0 +1,8 @@
+export {
+  toApiPin,
+  fromApiPin,
+  toApiCollection,
+  fromApiCollection,
+  type PinDraft,
+} from './api';
+export { toPinRevisionValues, diffPinRevision, redactPinRevisionChanges } from './revision';
@@ -0,0 +1,57 @@
+import type { Pin } from '../types/pin';
+import { ENCRYPTED_PIN_FIELDS, isEncrypted } from '../crypto/encryption';
+import {
+  PIN_REVISION_FIELDS,
+  type PinRevisionChanges,
+  type PinRevisionValues,
+} from '../types/revision';
+
+/**
+ * Values of the revised fields of a local pin
+ */
+export function toPinRevisionValues(
+  pin: Pick<Pin, 'page' | 'note' | 'tags' | 'summary'>
+): PinRevisionValues {
+  return {
+    title: pin.page.title ?? null,
+    note: pin.note ?? null,
+    tags: pin.tags ?? [],
+    summaryText: pin.summary?.text ?? null,
+  };
+}
+
+/**
+ * Fields that differ between two versions of a pin, or undefined when none does
+ */
+export function diffPinRevision(
+  before: PinRevisionValues,
+  after: PinRevisionValues
+): PinRevisionChanges | undefined {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of PIN_REVISION_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? (changes as PinRevisionChanges) : undefined;
+}
+
+/**
+ * Changes as the cloud keeps them. A change between a plaintext and an
+ * encrypted value, such as the re-push of a pin when encryption is turned on,
+ * keeps neither value, so no plaintext is left next to its ciphertext.
+ */
+export function redactPinRevisionChanges(changes: PinRevisionChanges): PinRevisionChanges {
+  const redacted: PinRevisionChanges = { ...changes };
+
+  for (const field of ENCRYPTED_PIN_FIELDS) {
+    const change = changes[field];
+    if (change && isEncrypted(change.from) !== isEncrypted(change.to)) {
+      redacted[field] = { from: null, to: null, redacted: true };
+    }
+  }
+
+  return redacted;
+}
@@ -0,0 +1,14 @@
+export {
+  PinQuerySyntaxError,
+  parsePinQuery,
+  siteUrlPatterns,
+  pinQueryDate,
+} from './pin-query';
+export {
+  PIN_SEARCH_FIELDS,
+  MIN_INDEXED_TOKEN_LENGTH,
+  normalizeSearchText,
+  tokenizeSearchText,
+  tokenizeSearchUrl,
+  toPinTsQuery,
+} from './pin-search';
@@ -0,0 +1,158 @@
+/**
+ * Search query language for pins, shared by the web app and the extension,
+ * e.g. `site:github.com tag:rust collection:"Reading" before:2026-01-01 -is:summarized`.
+ *
+ * The API compiles a parsed query to a database filter and the extension to a
+ * predicate over local pins, so both return the same pins for the same query.
+ */
+
+import {
+  PIN_QUERY_FIELDS,
+  PIN_QUERY_STATES,
+  type PinQuery,
+  type PinQueryField,
+  type PinQueryState,
+  type PinQueryTerm,
+} from '../types/query';
+
+/**
+ * Thrown for a query with an invalid field value, e.g. `before:yesterday`
+ */
+export class PinQuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PinQuerySyntaxError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read a quoted value starting at the opening quote; an unclosed quote runs to the end
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  const end = close === -1 ? input.length : close + 1;
+  return { value: input.slice(start + 1, close === -1 ? input.length : close), end };
+}
+
+/**
+ * Read a bare value, up to the next whitespace
+ */
+function readBare(input: string, start: number): { value: string; end: number } {
+  const match = /\s/.exec(input.slice(start));
+  const end = match ? start + match.index : input.length;
+  return { value: input.slice(start, end), end };
+}
+
+function isDay(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Build the term for a `field:value` pair
+ */
+function fieldTerm(field: PinQueryField, value: string, negated: boolean): PinQueryTerm {
+  switch (field) {
+    case 'site':
+      return { type: 'site', value: value.toLowerCase(), negated };
+    case 'tag':
+      return { type: 'tag', value, negated };
+    case 'collection':
+      return { type: 'collection', value, negated };
+    case 'before':
+    case 'after':
+      if (!isDay(value)) {
+        throw new PinQuerySyntaxError(`${field}: expects a date like 2026-01-31, got '${value}'`);
+      }
+      return { type: field, value, negated };
+    case 'is': {
+      const state = value.toLowerCase() as PinQueryState;
+      if (!PIN_QUERY_STATES.includes(state)) {
+        throw new PinQuerySyntaxError(
+          `is: expects one of ${PIN_QUERY_STATES.join(', ')}, got '${value}'`
+        );
+      }
+      return { type: 'is', value: state, negated };
+    }
+  }
+}
+
+/**
+ * Parse a search query into terms
+ *
+ * Terms are separated by whitespace and all have to match. `field:value` terms
+ * filter by a field, with the value quoted when it has spaces; anything else is
+ * text, either single words or a quoted phrase. A leading `-` negates a term.
+ * Unknown fields are read as text, so URLs and times can still be searched for,
+ * and fields without a value are skipped, as the user may still be typing them.
+ *
+ * @throws PinQuerySyntaxError when a field has an invalid value
+ */
+export function parsePinQuery(input: string): PinQuery {
+  const terms: PinQueryTerm[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input.charAt(position))) {
+      position++;
+      continue;
+    }
+
+    const negated = input[position] === '-';
+    const start = negated ? position + 1 : position;
+
+    if (input[start] === '"') {
+      const { value, end } = readQuoted(input, start);
+      if (value.trim()) {
+        terms.push({ type: 'text', value: value.trim(), phrase: true, negated });
+      }
+      position = end;
+      continue;
+    }
+
+    const field = /^([a-z]+):/i.exec(input.slice(start));
+    const name = field?.[1]?.toLowerCase() as PinQueryField | undefined;
+
+    if (name && PIN_QUERY_FIELDS.includes(name)) {
+      const valueStart = start + field![0].length;
+      const { value, end } =
+        input[valueStart] === '"' ? readQuoted(input, valueStart) : readBare(input, valueStart);
+      if (value.trim()) {
+        terms.push(fieldTerm(name, value.trim(), negated));
+      }
+      position = end;
+      continue;
+    }
+
+    const { value, end } = readBare(input, start);
+    if (value) {
+      terms.push({ type: 'text', value, phrase: false, negated });
+    }
+    position = end;
+  }
+
+  return { terms };
+}
+
+/**
+ * Text a pin URL contains, or ends with, when its host is the site or one of
+ * its subdomains. Matching is done ignoring case.
+ */
+export function siteUrlPatterns(site: string): { contains: string[]; endsWith: string[] } {
+  return {
+    contains: [`://${site}/`, `.${site}/`],
+    endsWith: [`://${site}`, `.${site}`],
+  };
+}
+
+/**
+ * Start of the day of a `before:` or `after:` term, in UTC
+ */
+export function pinQueryDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
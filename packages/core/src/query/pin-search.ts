@@ -0,0 +1,96 @@
+/**
+ * Text search rules shared by the local search index (@wiserpin/storage) and
+ * the API's full-text search, so both find the same pins for the same words.
+ *
+ * Every word of a query has to start a word of the pin, ignoring case and
+ * diacritics, and a quoted phrase has to appear as whole words one after the
+ * other. Both look in the same fields, PIN_SEARCH_FIELDS.
+ */
+
+import type { PinQuery, PinQueryTerm } from '../types/query';
+
+type PinTextTerm = Extract<PinQueryTerm, { type: 'text' }>;
+
+/**
+ * Fields of a pin that text search looks in, by their API names
+ */
+export const PIN_SEARCH_FIELDS = [
+  'title',
+  'tags',
+  'siteName',
+  'note',
+  'summaryText',
+  'description',
+  'url',
+] as const;
+
+/**
+ * Shortest word kept in the local index; queries keep shorter words for prefix matching
+ */
+export const MIN_INDEXED_TOKEN_LENGTH = 2;
+
+/**
+ * Longest word kept, so pasted blobs (base64, hashes) don't bloat the index
+ */
+const MAX_TOKEN_LENGTH = 40;
+
+/**
+ * Parts of URLs that say nothing about the page
+ */
+const URL_NOISE = new Set(['http', 'https', 'www', 'html', 'htm', 'php', 'index']);
+
+/**
+ * Lowercase and fold diacritics, so "Café" and "cafe" match
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized words, in order and with repeats
+ */
+export function tokenizeSearchText(text: string, minLength = MIN_INDEXED_TOKEN_LENGTH): string[] {
+  return normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= minLength && token.length <= MAX_TOKEN_LENGTH);
+}
+
+/**
+ * Split a URL into words, leaving out schemes and other boilerplate
+ */
+export function tokenizeSearchUrl(url: string): string[] {
+  return tokenizeSearchText(url).filter((token) => !URL_NOISE.has(token));
+}
+
+/**
+ * Text terms of a search query as a `to_tsquery('simple', …)` query, for the
+ * API's search column (see prisma/search.sql in the API). Words match by
+ * prefix and phrases word by word.
+ *
+ * Returns null when the query has no text to search for, and an empty string,
+ * which matches nothing, when its text has no words to look for.
+ */
+export function toPinTsQuery(query: PinQuery): string | null {
+  const text = query.terms.filter((term): term is PinTextTerm => term.type === 'text');
+  const parts: string[] = [];
+  let included = 0;
+
+  for (const term of text) {
+    const words = tokenizeSearchText(term.value, 1);
+    if (words.length === 0) {
+      continue;
+    }
+
+    const match = term.phrase
+      ? words.join(' <-> ')
+      : words.map((word) => `${word}:*`).join(' & ');
+    parts.push(term.negated ? `!(${match})` : `(${match})`);
+    included += term.negated ? 0 : 1;
+  }
+
+  // Words to look for that are all punctuation find nothing, as they do locally
+  if (included === 0 && text.some((term) => !term.negated)) {
+    return '';
+  }
+  return parts.length > 0 ? parts.join(' & ') : null;
+}
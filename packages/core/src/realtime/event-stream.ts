@@ -0,0 +1,55 @@
+/**
+ * One event received from a server-sent events stream
+ */
+export interface ServerSentEvent {
+  /** Event name, "message" when the server didn't set one */
+  type: string;
+
+  /** Event payload, with multi-line data joined by newlines */
+  data: string;
+
+  /** Event ID, if the server set one */
+  id?: string;
+}
+
+/**
+ * Split buffered server-sent events text into complete events.
+ * Text after the last blank line belongs to an event that hasn't fully
+ * arrived yet and is returned as rest, to be prepended to the next chunk.
+ */
+export function parseEventStream(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const frames = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = frames.pop() ?? '';
+  const events: ServerSentEvent[] = [];
+
+  for (const frame of frames) {
+    const event: ServerSentEvent = { type: 'message', data: '' };
+    const data: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      // Lines starting with a colon are comments, used as keep-alives
+      if (!line || line.startsWith(':')) {
+        continue;
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        event.type = value;
+      } else if (field === 'data') {
+        data.push(value);
+      } else if (field === 'id') {
+        event.id = value;
+      }
+    }
+
+    if (data.length > 0) {
+      event.data = data.join('\n');
+      events.push(event);
+    }
+  }
+
+  return { events, rest };
+}
@@ -0,0 +1 @@
+export { parseEventStream, type ServerSentEvent } from './event-stream';
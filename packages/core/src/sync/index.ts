@@ -0,0 +1 @@
+export { reconcile } from './reconcile';
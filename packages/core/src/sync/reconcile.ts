@@ -0,0 +1,53 @@
+/**
+ * Sync reconciliation
+ *
+ * Decides which side wins for a single record during sync. Each side is
+ * described by the time it last changed and whether that change was a
+ * deletion (a tombstone), so edits and deletions compete on equal terms.
+ */
+
+import type { RecordVersion, SyncDecision } from '../types/sync';
+
+/**
+ * Decide the winner between the local and remote versions of a record.
+ *
+ * The most recent change wins. On a tie, a deletion beats an edit so
+ * deleted records never come back by accident; two equal edits are
+ * considered identical. The outcome only depends on the two versions,
+ * so every device reaches the same result.
+ */
+export function reconcile(
+  local: RecordVersion | undefined,
+  remote: RecordVersion | undefined
+): SyncDecision {
+  if (!local && !remote) {
+    return 'none';
+  }
+
+  if (!remote) {
+    return local!.deleted ? 'none' : 'push';
+  }
+
+  if (!local) {
+    return remote.deleted ? 'none' : 'pull';
+  }
+
+  if (local.deleted && remote.deleted) {
+    return 'none';
+  }
+
+  const localTime = Date.parse(local.changedAt);
+  const remoteTime = Date.parse(remote.changedAt);
+
+  if (localTime === remoteTime) {
+    if (local.deleted) return 'push-delete';
+    if (remote.deleted) return 'pull-delete';
+    return 'none';
+  }
+
+  if (localTime > remoteTime) {
+    return local.deleted ? 'push-delete' : 'push';
+  }
+
+  return remote.deleted ? 'pull-delete' : 'pull';
+}
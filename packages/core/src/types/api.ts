@@ -28,6 +28,8 @@ export interface ResponseMeta {
   page?: number;
   pageSize?: number;
   hasMore?: boolean;
+  /** Opaque cursor to pass back for the next page, null on the last page */
+  nextCursor?: string | null;
 }
 
 /**
@@ -70,3 +72,162 @@ export namespace PinApi {
     search?: string;
   }
 }
+
+/**
+ * Pin fields sent to the cloud API when creating or syncing a pin.
+ * Missing values are sent as null so clearing a field reaches the cloud.
+ */
+export interface ApiPinInput {
+  url: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  favicon: string | null;
+  siteName: string | null;
+  tags: string[];
+  note: string | null;
+  summaryText: string | null;
+  summaryCreatedAt: string | null;
+  collectionId: string | null;
+  createdAt: string;
+  /** When the pin was moved to the trash; only sent by sync clients */
+  trashedAt?: string | null;
+}
+
+/**
+ * Pin as returned by the cloud API
+ */
+export interface ApiPin extends ApiPinInput {
+  id: string;
+  userId?: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+/**
+ * Collection fields sent to the cloud API when creating or syncing a collection
+ */
+export interface ApiCollectionInput {
+  name: string;
+  description: string;
+  color?: string;
+  /** When the collection was moved to the trash; only sent by sync clients */
+  trashedAt?: string | null;
+}
+
+/**
+ * Collection as returned by the cloud API
+ */
+export interface ApiCollection {
+  id: string;
+  userId?: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  createdAt: string;
+  updatedAt: string;
+  trashedAt?: string | null;
+  deletedAt?: string | null;
+}
+
+/**
+ * Status of one item of a batch request to /pins/batch or /collections/batch
+ * - created / updated: the write was made
+ * - trashed: the record was moved to the trash (or already was)
+ * - deleted: the record was already deleted for good
+ * - existing: a record with the given ID already exists and is returned unchanged
+ * - conflict: a pin with the same URL is already saved, `id` is that pin
+ * - invalid: the item was skipped, see `error`
+ */
+export type ApiBatchStatus =
+  | 'created'
+  | 'updated'
+  | 'trashed'
+  | 'deleted'
+  | 'existing'
+  | 'conflict'
+  | 'invalid';
+
+/**
+ * Contents of the trash as returned by GET /trash, most recently trashed first
+ */
+export interface ApiTrash {
+  collections: ApiCollection[];
+  pins: ApiPin[];
+  /** Days items stay in the trash before they are deleted for good */
+  retentionDays: number;
+}
+
+/**
+ * Header visitors send the password of a protected share link in
+ */
+export const SHARE_PASSWORD_HEADER = 'X-WiserPin-Share-Password';
+
+/**
+ * Public share link of a collection, as returned to its owner by
+ * GET/PUT /collections/:id/share
+ */
+export interface ApiCollectionShare {
+  /** Public page of the collection is /s/:slug */
+  slug: string;
+  expiresAt: string | null;
+  /** Revoked links stop working; publishing again makes a new slug */
+  revokedAt: string | null;
+  hasPassword: boolean;
+  /** Pins of the collection left out of the public page */
+  hiddenPinIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Changes to a share link sent with PUT /collections/:id/share; missing
+ * fields are kept, null clears the expiry or the password
+ */
+export interface ApiCollectionShareInput {
+  expiresAt?: string | null;
+  password?: string | null;
+  hiddenPinIds?: string[];
+}
+
+/**
+ * Pin as shown on a public collection page: no notes, and summaries only
+ * when they aren't end-to-end encrypted
+ */
+export interface ApiPublicPin {
+  id: string;
+  url: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  favicon: string | null;
+  siteName: string | null;
+  tags: string[];
+  summaryText: string | null;
+  createdAt: string;
+}
+
+/**
+ * Shared collection as returned by GET /public/collections/:slug, a page of pins at a time
+ */
+export interface ApiPublicCollection {
+  collection: {
+    name: string;
+    /** Null when the description is end-to-end encrypted */
+    description: string | null;
+    color: string | null;
+  };
+  data: ApiPublicPin[];
+  meta: ResponseMeta & { limit: number };
+}
+
+/**
+ * Result of one item of a batch request, in the order of the request
+ */
+export interface ApiBatchResult<T> {
+  index: number;
+  id?: string;
+  status: ApiBatchStatus;
+  record?: T;
+  error?: string;
+}
@@ -22,14 +22,17 @@ export interface Collection {
 
   /** ISO timestamp of last update */
   updatedAt: string;
+
+  /** ISO timestamp of when the collection was moved to the trash, unset while it is live */
+  trashedAt?: string;
 }
 
 /**
  * Input type for creating a new collection
  */
-export type CreateCollectionInput = Omit<Collection, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+export type CreateCollectionInput = Omit<Collection, 'id' | 'createdAt' | 'updatedAt' | 'trashedAt'> & { id?: string };
 
 /**
  * Input type for updating a collection
  */
-export type UpdateCollectionInput = Partial<Omit<Collection, 'id' | 'userId' | 'createdAt'>>;
+export type UpdateCollectionInput = Partial<Omit<Collection, 'id' | 'userId' | 'createdAt' | 'trashedAt'>>;
@@ -11,9 +11,31 @@ export type { PagePreview, Summary } from './page';
 // Pin types
 export type { Pin, CreatePinInput, UpdatePinInput } from './pin';
 
+// Revision types
+export {
+  CLIENT_HEADER,
+  PIN_REVISION_FIELDS,
+  type RevisionSource,
+  type PinRevisionField,
+  type PinRevisionValues,
+  type FieldChange,
+  type PinRevisionChanges,
+  type PinRevision,
+} from './revision';
+
+// Search query types
+export {
+  PIN_QUERY_STATES,
+  PIN_QUERY_FIELDS,
+  type PinQueryState,
+  type PinQueryField,
+  type PinQueryTerm,
+  type PinQuery,
+} from './query';
+
 // Settings types
 export type { Settings } from './settings';
-export { DEFAULT_SETTINGS } from './settings';
+export { DEFAULT_SETTINGS, TRASH_RETENTION_OPTIONS } from './settings';
 
 // Messaging types
 export {
@@ -33,16 +55,48 @@ export {
   type StorageResult,
   type StorageSchema,
   type QueryOptions,
+  type PinSortField,
+  type CollectionSortField,
   type PinFilter,
   type StorageEvent,
+  type StorageEventData,
 } from './storage';
 
+// Sync types
+export {
+  CONFLICT_MERGE_FIELDS,
+  CLIENT_ID_HEADER,
+  type SyncEntity,
+  type SyncOperation,
+  type Tombstone,
+  type OutboxEntry,
+  type ConflictSide,
+  type ConflictResolution,
+  type SyncConflict,
+  type ResolveConflictRequest,
+  type SyncChangeEvent,
+  type RecordVersion,
+  type SyncDecision,
+} from './sync';
+
 // API types
 export {
   CollectionApi,
   PinApi,
+  SHARE_PASSWORD_HEADER,
   type ApiResponse,
   type ApiError,
   type ResponseMeta,
   type PaginationParams,
+  type ApiPin,
+  type ApiPinInput,
+  type ApiCollection,
+  type ApiCollectionInput,
+  type ApiTrash,
+  type ApiCollectionShare,
+  type ApiCollectionShareInput,
+  type ApiPublicPin,
+  type ApiPublicCollection,
+  type ApiBatchStatus,
+  type ApiBatchResult,
 } from './api';
@@ -13,6 +13,12 @@ export interface PagePreview {
 
   /** Site name from OG metadata */
   siteName?: string;
+
+  /** Page description from its metadata */
+  description?: string;
+
+  /** Favicon URL */
+  faviconUrl?: string;
 }
 
 /**
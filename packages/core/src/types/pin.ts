@@ -22,16 +22,25 @@ export interface Pin {
   /** User's personal note about this pin */
   note?: string;
 
+  /** Tags for filtering */
+  tags?: string[];
+
   /** ISO timestamp of creation */
   createdAt: string;
+
+  /** ISO timestamp of last update */
+  updatedAt: string;
+
+  /** ISO timestamp of when the pin was moved to the trash, unset while it is live */
+  trashedAt?: string;
 }
 
 /**
  * Input type for creating a new pin
  */
-export type CreatePinInput = Omit<Pin, 'id' | 'createdAt'> & { id?: string };
+export type CreatePinInput = Omit<Pin, 'id' | 'createdAt' | 'updatedAt' | 'trashedAt'> & { id?: string };
 
 /**
  * Input type for updating a pin
  */
-export type UpdatePinInput = Partial<Omit<Pin, 'id' | 'userId' | 'collectionId' | 'createdAt'>>;
+export type UpdatePinInput = Partial<Omit<Pin, 'id' | 'userId' | 'collectionId' | 'createdAt' | 'updatedAt' | 'trashedAt'>>;
@@ -0,0 +1,65 @@
+/**
+ * States a pin can be filtered by with `is:`
+ * - summarized: has an AI summary
+ * - noted: has a note
+ * - tagged: has at least one tag
+ */
+export const PIN_QUERY_STATES = ['summarized', 'noted', 'tagged'] as const;
+
+export type PinQueryState = (typeof PIN_QUERY_STATES)[number];
+
+/**
+ * Fields of a pin a query term can filter by, written as `field:value`
+ */
+export const PIN_QUERY_FIELDS = ['site', 'tag', 'collection', 'before', 'after', 'is'] as const;
+
+export type PinQueryField = (typeof PIN_QUERY_FIELDS)[number];
+
+/**
+ * One term of a pin search query. A negated term (written with a leading `-`)
+ * keeps the pins it doesn't match.
+ */
+export type PinQueryTerm = { negated: boolean } & (
+  | {
+      /** Words or a quoted phrase, matched by full-text search */
+      type: 'text';
+      value: string;
+      phrase: boolean;
+    }
+  | {
+      /** Host of the URL is this domain or one of its subdomains, lowercase */
+      type: 'site';
+      value: string;
+    }
+  | {
+      /** Pin has this tag, matched exactly */
+      type: 'tag';
+      value: string;
+    }
+  | {
+      /** Pin is in the collection with this name, ignoring case */
+      type: 'collection';
+      value: string;
+    }
+  | {
+      /** Pin was created before the start of this day (YYYY-MM-DD, UTC) */
+      type: 'before';
+      value: string;
+    }
+  | {
+      /** Pin was created on or after this day (YYYY-MM-DD, UTC) */
+      type: 'after';
+      value: string;
+    }
+  | {
+      type: 'is';
+      value: PinQueryState;
+    }
+);
+
+/**
+ * Parsed pin search query: a pin matches when it matches every term
+ */
+export interface PinQuery {
+  terms: PinQueryTerm[];
+}
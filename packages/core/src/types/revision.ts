@@ -0,0 +1,66 @@
+/**
+ * Where a pin was edited: in the extension, on the web, or on another
+ * device, the change arriving through sync
+ */
+export type RevisionSource = 'extension' | 'web' | 'sync';
+
+/**
+ * Header API clients send to say which client they are ('extension' or 'web'),
+ * so revisions record where an edit was made
+ */
+export const CLIENT_HEADER = 'X-WiserPin-Client';
+
+/**
+ * Pin fields kept in revisions, named as in the API
+ */
+export const PIN_REVISION_FIELDS = ['title', 'note', 'tags', 'summaryText'] as const;
+
+export type PinRevisionField = (typeof PIN_REVISION_FIELDS)[number];
+
+/**
+ * Values of the revised fields of a pin; missing values are null
+ */
+export interface PinRevisionValues {
+  title: string | null;
+  note: string | null;
+  tags: string[];
+  summaryText: string | null;
+}
+
+/**
+ * Change of one field: its value before and after the edit. Redacted changes
+ * only record that an end-to-end encrypted field changed, with null values.
+ */
+export interface FieldChange<T> {
+  from: T;
+  to: T;
+  redacted?: boolean;
+}
+
+/**
+ * Changed fields of a revision; unchanged fields are left out
+ */
+export type PinRevisionChanges = {
+  [Field in PinRevisionField]?: FieldChange<PinRevisionValues[Field]>;
+};
+
+/**
+ * Pin revision records one edit of a pin. Revisions are only ever appended;
+ * restoring an older value is a new edit with a revision of its own.
+ */
+export interface PinRevision {
+  /** Unique identifier */
+  id: string;
+
+  /** ID of the edited pin */
+  pinId: string;
+
+  /** Fields the edit changed */
+  changes: PinRevisionChanges;
+
+  /** Where the edit was made */
+  source: RevisionSource;
+
+  /** ISO timestamp of the edit */
+  createdAt: string;
+}
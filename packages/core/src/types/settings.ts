@@ -13,8 +13,16 @@ export interface Settings {
 
   /** Default collection ID (for future) */
   defaultCollectionId?: string;
+
+  /** Days trashed pins and collections are kept before they are deleted for good */
+  trashRetentionDays: number;
 }
 
+/**
+ * Retention periods offered for the trash, in days
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const;
+
 /**
  * Default settings values
  */
@@ -22,4 +30,5 @@ export const DEFAULT_SETTINGS: Settings = {
   autoGenerateSummary: false,
   autoSuggestCollection: false,
   theme: 'system',
+  trashRetentionDays: 30,
 };
@@ -20,18 +20,28 @@ export interface StorageSchema {
   settings: Settings;
 }
 
+/**
+ * Fields pins can be sorted by
+ */
+export type PinSortField = 'createdAt' | 'updatedAt' | 'title';
+
+/**
+ * Fields collections can be sorted by
+ */
+export type CollectionSortField = 'createdAt' | 'updatedAt' | 'name';
+
 /**
  * Storage query options
  */
-export interface QueryOptions {
+export interface QueryOptions<TSortField extends string = string> {
   /** Limit number of results */
   limit?: number;
 
   /** Offset for pagination */
   offset?: number;
 
-  /** Sort field */
-  sortBy?: string;
+  /** Sort field (key order when omitted) */
+  sortBy?: TSortField;
 
   /** Sort direction */
   sortOrder?: 'asc' | 'desc';
@@ -52,6 +62,9 @@ export interface PinFilter {
 
   /** Search in title or note */
   search?: string;
+
+  /** Search query with field filters, e.g. `site:github.com -is:summarized` (see parsePinQuery) */
+  query?: string;
 }
 
 /**
@@ -64,7 +77,32 @@ export enum StorageEventType {
   PIN_CREATED = 'PIN_CREATED',
   PIN_UPDATED = 'PIN_UPDATED',
   PIN_DELETED = 'PIN_DELETED',
+  COLLECTION_TRASHED = 'COLLECTION_TRASHED',
+  COLLECTION_RESTORED = 'COLLECTION_RESTORED',
+  PIN_TRASHED = 'PIN_TRASHED',
+  PIN_RESTORED = 'PIN_RESTORED',
   SETTINGS_UPDATED = 'SETTINGS_UPDATED',
+  DATA_CLEARED = 'DATA_CLEARED',
+}
+
+/**
+ * Data carried by each storage event type: the record as stored, or the ID
+ * of the deleted record
+ */
+export interface StorageEventData {
+  [StorageEventType.COLLECTION_CREATED]: Collection;
+  [StorageEventType.COLLECTION_UPDATED]: Collection;
+  [StorageEventType.COLLECTION_DELETED]: { id: string };
+  [StorageEventType.PIN_CREATED]: Pin;
+  [StorageEventType.PIN_UPDATED]: Pin;
+  [StorageEventType.PIN_DELETED]: { id: string };
+  [StorageEventType.COLLECTION_TRASHED]: Collection;
+  [StorageEventType.COLLECTION_RESTORED]: Collection;
+  [StorageEventType.PIN_TRASHED]: Pin;
+  [StorageEventType.PIN_RESTORED]: Pin;
+  [StorageEventType.SETTINGS_UPDATED]: Settings;
+  /** All collections, pins and their trash were deleted at once */
+  [StorageEventType.DATA_CLEARED]: Record<string, never>;
 }
 
 /**
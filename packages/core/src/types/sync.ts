@@ -0,0 +1,158 @@
+/**
+ * Kind of record that takes part in cloud sync
+ */
+export type SyncEntity = 'collection' | 'pin';
+
+/**
+ * Tombstone marks a record that was deleted locally,
+ * so the deletion can be propagated on the next sync
+ */
+export interface Tombstone {
+  /** ID of the deleted record */
+  id: string;
+
+  /** Kind of record that was deleted */
+  entity: SyncEntity;
+
+  /** ISO timestamp of deletion */
+  deletedAt: string;
+}
+
+/**
+ * Kind of change recorded for a record
+ */
+export type SyncOperation = 'upsert' | 'delete';
+
+/**
+ * Outbox entry marks a record with local changes that have not reached
+ * the cloud yet. Entries are keyed by record ID, so repeated edits of the
+ * same record collapse into one entry holding the latest operation.
+ */
+export interface OutboxEntry {
+  /** ID of the changed record */
+  id: string;
+
+  /** Kind of record that changed */
+  entity: SyncEntity;
+
+  /** Latest operation on the record */
+  op: SyncOperation;
+
+  /** ISO timestamp of the latest change */
+  queuedAt: string;
+
+  /** updatedAt of the synced version the local edits started from, if any */
+  baseVersion?: string;
+
+  /** Number of failed attempts to push this change */
+  attempts: number;
+
+  /** ISO timestamp before which the change should not be retried */
+  nextAttemptAt: string;
+
+  /** Error from the last failed attempt */
+  lastError?: string;
+}
+
+/**
+ * Side of a sync conflict
+ * - local: the version edited on a device
+ * - remote: the version edited in the cloud
+ */
+export type ConflictSide = 'local' | 'remote';
+
+/**
+ * How to resolve a sync conflict: keep one side, or merge field by field
+ */
+export type ConflictResolution = ConflictSide | 'merge';
+
+/**
+ * Fields that can be picked one by one when merging a conflict
+ */
+export const CONFLICT_MERGE_FIELDS: Record<SyncEntity, readonly string[]> = {
+  pin: ['title', 'note', 'summaryText', 'collectionId'],
+  collection: ['name', 'description', 'color'],
+};
+
+/**
+ * Sync conflict records a record that was edited both on a device and in
+ * the cloud since they last agreed. Both versions are kept, in API shape,
+ * until the user resolves it.
+ */
+export interface SyncConflict {
+  /** Conflict ID */
+  id: string;
+
+  /** Kind of record in conflict */
+  entity: SyncEntity;
+
+  /** ID of the record in conflict */
+  recordId: string;
+
+  /** Version pushed from the device */
+  localData: Record<string, unknown>;
+
+  /** Version held in the cloud when the conflict was detected */
+  remoteData: Record<string, unknown>;
+
+  /** ISO timestamp of detection */
+  createdAt: string;
+}
+
+/**
+ * Request to resolve a sync conflict
+ */
+export interface ResolveConflictRequest {
+  resolution: ConflictResolution;
+
+  /** Side to take for each merge field, required when merging */
+  fields?: Record<string, ConflictSide>;
+}
+
+/**
+ * Realtime event sent to a user's connected clients when one of their
+ * records changes in the cloud
+ */
+export interface SyncChangeEvent {
+  /** Kind of record that changed */
+  entity: SyncEntity;
+
+  /** ID of the changed record */
+  id: string;
+
+  /** Whether the record was written or deleted */
+  op: SyncOperation;
+
+  /** ISO timestamp of the change */
+  updatedAt: string;
+
+  /** CLIENT_ID_HEADER of the client whose sync made the change, if it sent one */
+  clientId?: string;
+}
+
+/**
+ * Header a client installation sends with its own random ID, so it can tell
+ * the change events of its own syncs from those of other devices
+ */
+export const CLIENT_ID_HEADER = 'X-WiserPin-Client-Id';
+
+/**
+ * State of a record on one side of the sync
+ */
+export interface RecordVersion {
+  /** ISO timestamp of the last edit, or of the deletion for tombstones */
+  changedAt: string;
+
+  /** Whether the last change deleted the record */
+  deleted: boolean;
+}
+
+/**
+ * What the sync engine should do with a record
+ * - push: send the local record to the cloud (create, update or revive)
+ * - pull: write the remote record locally (create, update or revive)
+ * - push-delete: delete the record in the cloud
+ * - pull-delete: delete the record locally
+ * - none: both sides already agree
+ */
+export type SyncDecision = 'push' | 'pull' | 'push-delete' | 'pull-delete' | 'none';
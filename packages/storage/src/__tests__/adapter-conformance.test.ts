@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DEFAULT_SETTINGS, type Pin } from '@wiserpin/core';
+import { IndexedDBAdapter } from '../adapters/indexeddb';
+import { MemoryAdapter } from '../adapters/memory';
+import { ChromeStorageAdapter, type ChromeStorageArea } from '../adapters/chrome-storage';
+import type { StorageAdapter } from '../adapters/types';
+import { setStorageAdapter, getDB, clearAllData } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { beforeRange, firstPartRange, firstPartPrefixRange } from '../db/key-range';
+import { runTransaction } from '../db/transaction';
+import {
+  addPin,
+  getPin,
+  listPins,
+  listPinsByCollection,
+  searchPins,
+  updatePin,
+  movePins,
+  checkPinExists,
+} from '../operations/pins';
+import {
+  addCollection,
+  getCollection,
+  listCollections,
+  deleteCollectionWithPins,
+} from '../operations/collections';
+import { trashCollection, restoreCollection, listTrash, purgeExpiredTrash } from '../operations/trash';
+import { listOutbox, removeOutboxEntry } from '../operations/outbox';
+import { getTombstone } from '../operations/tombstones';
+import { getSettings, updateSettings } from '../operations/settings';
+import { NotFoundError } from '../errors/storage-error';
+
+/**
+ * chrome.storage.local stand-in: keeps JSON copies, as Chrome does, and can
+ * be made to fail writes
+ */
+class FakeStorageArea implements ChromeStorageArea {
+  readonly items = new Map<string, string>();
+  failWrites = false;
+
+  async get(keys: string[]): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {};
+    for (const key of keys) {
+      const item = this.items.get(key);
+      if (item !== undefined) {
+        result[key] = JSON.parse(item);
+      }
+    }
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    if (this.failWrites) {
+      throw new Error('QUOTA_BYTES quota exceeded');
+    }
+    for (const [key, value] of Object.entries(items)) {
+      this.items.set(key, JSON.stringify(value));
+    }
+  }
+}
+
+const ADAPTERS: [string, () => StorageAdapter][] = [
+  ['IndexedDBAdapter', () => new IndexedDBAdapter()],
+  ['MemoryAdapter', () => new MemoryAdapter()],
+  ['ChromeStorageAdapter', () => new ChromeStorageAdapter(new FakeStorageArea())],
+];
+
+describe.each(ADAPTERS)('%s conformance', (_name, createAdapter) => {
+  let db: StorageAdapter;
+  let collectionId: string;
+
+  const pin = (id: string, fields: Partial<Pin> = {}): Pin => ({
+    id,
+    collectionId,
+    page: { url: `https://example.com/${id}`, title: `Title ${id}` },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    setStorageAdapter(createAdapter());
+    db = await getDB();
+    collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+  });
+
+  describe('records', () => {
+    it('should put, get, count and delete records', async () => {
+      await db.put(STORES.PINS, pin('a'));
+      await db.put(STORES.PINS, pin('b'));
+
+      expect((await db.get(STORES.PINS, 'a'))?.page.title).toBe('Title a');
+      expect(await db.count(STORES.PINS)).toBe(2);
+      expect(await db.getAllKeys(STORES.PINS)).toEqual(['a', 'b']);
+
+      await db.delete(STORES.PINS, 'a');
+      expect(await db.get(STORES.PINS, 'a')).toBeUndefined();
+      expect(await db.count(STORES.PINS)).toBe(1);
+    });
+
+    it('should hand out copies of records', async () => {
+      const record = pin('a');
+      await db.put(STORES.PINS, record);
+      record.page.title = 'Changed after put';
+
+      const read = await db.get(STORES.PINS, 'a');
+      read!.page.title = 'Changed after get';
+
+      expect((await db.get(STORES.PINS, 'a'))?.page.title).toBe('Title a');
+    });
+
+    it('should store records under keys given on put', async () => {
+      await db.put(STORES.SETTINGS, DEFAULT_SETTINGS, 'user-settings');
+
+      expect(await db.get(STORES.SETTINGS, 'user-settings')).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should order compound keys part by part', async () => {
+      const tx = db.transaction(STORES.SEARCH_INDEX, 'readwrite');
+      await Promise.all([
+        tx.store.put({ token: 'beta', pinId: 'a', weight: 1 }),
+        tx.store.put({ token: 'alpha', pinId: 'b', weight: 1 }),
+        tx.store.put({ token: 'alpha', pinId: 'a', weight: 1 }),
+        tx.store.put({ token: 'alphabet', pinId: 'a', weight: 1 }),
+        tx.done,
+      ]);
+
+      expect(await db.getAllKeys(STORES.SEARCH_INDEX)).toEqual([
+        ['alpha', 'a'],
+        ['alpha', 'b'],
+        ['alphabet', 'a'],
+        ['beta', 'a'],
+      ]);
+      expect(await db.count(STORES.SEARCH_INDEX, firstPartRange('alpha'))).toBe(2);
+      expect(await db.count(STORES.SEARCH_INDEX, firstPartPrefixRange('alpha'))).toBe(3);
+    });
+  });
+
+  describe('indexes', () => {
+    beforeEach(async () => {
+      await db.put(STORES.PINS, pin('a', { page: { url: 'https://a.com', title: 'Charlie' } }));
+      await db.put(STORES.PINS, pin('b', { page: { url: 'https://b.com' } }));
+      await db.put(STORES.PINS, pin('c', { page: { url: 'https://c.com', title: 'Alpha' } }));
+      await db.put(STORES.PINS, pin('d', { collectionId: 'other' }));
+    });
+
+    it('should find records by index key', async () => {
+      const keys = await db.getAllKeysFromIndex(STORES.PINS, 'collectionId', collectionId);
+
+      expect(keys).toEqual(['a', 'b', 'c']);
+      expect(await db.countFromIndex(STORES.PINS, 'collectionId', 'other')).toBe(1);
+    });
+
+    it('should order by index key and leave out records without one', async () => {
+      const titles = (await db.getAllFromIndex(STORES.PINS, 'title')).map((p) => p.page.title);
+
+      expect(titles).toEqual(['Alpha', 'Charlie', 'Title d']);
+    });
+
+    it('should match key ranges on compound indexes', async () => {
+      const keys = await db.getAllKeysFromIndex(
+        STORES.PINS,
+        'collectionId_title',
+        firstPartRange(collectionId)
+      );
+
+      expect(keys).toEqual(['c', 'a']);
+    });
+
+    it('should match open key ranges', async () => {
+      await db.put(STORES.TRASHED_PINS, pin('old', { trashedAt: '2024-01-01T00:00:00.000Z' }));
+      await db.put(STORES.TRASHED_PINS, pin('new', { trashedAt: '2024-02-01T00:00:00.000Z' }));
+
+      const keys = await db.getAllKeysFromIndex(
+        STORES.TRASHED_PINS,
+        'trashedAt',
+        beforeRange('2024-02-01T00:00:00.000Z')
+      );
+
+      expect(keys).toEqual(['old']);
+    });
+  });
+
+  describe('cursors', () => {
+    // Created in the reverse order of their IDs
+    beforeEach(async () => {
+      for (const [id, day] of [['a', 4], ['b', 3], ['c', 2], ['d', 1]] as const) {
+        await db.put(STORES.PINS, pin(id, { createdAt: `2024-01-0${day}T00:00:00.000Z` }));
+      }
+    });
+
+    const readAll = async (direction: 'next' | 'prev', skip = 0) => {
+      const ids: string[] = [];
+      const index = db.transaction(STORES.PINS).store.index('createdAt');
+      let cursor = await index.openCursor(null, direction);
+      if (cursor && skip > 0) {
+        cursor = await cursor.advance(skip);
+      }
+      while (cursor) {
+        ids.push(cursor.value.id);
+        cursor = await cursor.continue();
+      }
+      return ids;
+    };
+
+    it('should walk an index in both directions', async () => {
+      expect(await readAll('next')).toEqual(['d', 'c', 'b', 'a']);
+      expect(await readAll('prev')).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should skip records with advance', async () => {
+      expect(await readAll('next', 2)).toEqual(['b', 'a']);
+      expect(await readAll('next', 4)).toEqual([]);
+    });
+
+    it('should update and delete through a cursor', async () => {
+      const tx = db.transaction(STORES.PINS, 'readwrite');
+      let cursor = await tx.store.openCursor();
+      while (cursor) {
+        if (cursor.value.id === 'b') {
+          await cursor.delete();
+        } else {
+          await cursor.update({ ...cursor.value, note: 'seen' });
+        }
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+
+      const pins = await db.getAll(STORES.PINS);
+      expect(pins.map((p) => p.id)).toEqual(['a', 'c', 'd']);
+      expect(pins.every((p) => p.note === 'seen')).toBe(true);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should roll back every write of an aborted transaction', async () => {
+      await db.put(STORES.PINS, pin('a'));
+
+      const failure = new Error('boom');
+      await expect(
+        runTransaction([STORES.PINS, STORES.OUTBOX], async (tx) => {
+          await tx.objectStore(STORES.PINS).put(pin('a', { note: 'changed' }));
+          await tx.objectStore(STORES.PINS).delete('a');
+          await tx.objectStore(STORES.PINS).put(pin('b'));
+          throw failure;
+        })
+      ).rejects.toBe(failure);
+
+      expect((await db.get(STORES.PINS, 'a'))?.note).toBeUndefined();
+      expect(await db.get(STORES.PINS, 'b')).toBeUndefined();
+    });
+
+    it('should fail add on a taken key and roll back the transaction', async () => {
+      await db.put(STORES.PINS, pin('a'));
+
+      const tx = db.transaction(STORES.PINS, 'readwrite');
+      const done = tx.done.catch(() => 'aborted');
+      await tx.store.put(pin('b'));
+      await expect(tx.store.add(pin('a'))).rejects.toBeDefined();
+
+      expect(await done).toBe('aborted');
+      expect(await db.get(STORES.PINS, 'b')).toBeUndefined();
+    });
+
+    it('should run transactions over the same stores one after the other', async () => {
+      await db.put(STORES.SETTINGS, { ...DEFAULT_SETTINGS, trashRetentionDays: 0 }, 'counter');
+      const increment = () =>
+        runTransaction([STORES.SETTINGS], async (tx) => {
+          const settings = await tx.objectStore(STORES.SETTINGS).get('counter');
+          await tx.objectStore(STORES.SETTINGS).put(
+            { ...settings!, trashRetentionDays: settings!.trashRetentionDays + 1 },
+            'counter'
+          );
+        });
+
+      await Promise.all([increment(), increment(), increment()]);
+
+      expect((await db.get(STORES.SETTINGS, 'counter'))?.trashRetentionDays).toBe(3);
+    });
+
+    it('should reject writes in readonly transactions', async () => {
+      const tx = db.transaction(STORES.PINS);
+
+      await expect(Promise.resolve().then(() => tx.store.put(pin('a')))).rejects.toBeDefined();
+      expect(await db.get(STORES.PINS, 'a')).toBeUndefined();
+    });
+  });
+
+  describe('operations', () => {
+    it('should add, list, update and find pins', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://example.com/guide', title: 'Gardening guide' },
+        tags: ['plants'],
+      });
+      await addPin({ collectionId, page: { url: 'https://example.com/news', title: 'News' } });
+
+      expect((await getPin(id))?.page.title).toBe('Gardening guide');
+      expect(await checkPinExists('https://example.com/guide')).toBe(true);
+
+      await updatePin(id, { note: 'Spring planting' });
+      expect((await searchPins('spring')).map((p) => p.id)).toEqual([id]);
+      expect((await searchPins('plant')).map((p) => p.id)).toEqual([id]);
+      expect(
+        (await listPins({ sortBy: 'title', sortOrder: 'desc', limit: 1 })).map((p) => p.page.title)
+      ).toEqual(['News']);
+    });
+
+    it('should move pins and delete a collection with its pins', async () => {
+      const otherId = await addCollection({ name: 'Archive', goal: 'Testing' });
+      const id = await addPin({ collectionId, page: { url: 'https://example.com/a' } });
+
+      await expect(movePins([id, 'missing'], otherId)).rejects.toThrow(NotFoundError);
+      expect(await listPinsByCollection(collectionId)).toHaveLength(1);
+
+      expect(await movePins([id], otherId)).toBe(1);
+      expect(await deleteCollectionWithPins(otherId)).toBe(1);
+
+      expect(await getCollection(otherId)).toBeUndefined();
+      expect(await getPin(id)).toBeUndefined();
+      expect(await getTombstone(id)).toBeDefined();
+    });
+
+    it('should trash, restore and purge collections', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://example.com/a' } });
+
+      await trashCollection(collectionId);
+      expect(await listCollections()).toHaveLength(0);
+      expect((await listTrash()).pins.map((p) => p.id)).toEqual([id]);
+
+      await restoreCollection(collectionId);
+      expect(await getPin(id)).toBeDefined();
+
+      await trashCollection(collectionId);
+      const purged = await purgeExpiredTrash(30, new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+      expect(purged).toBe(2);
+      expect((await listTrash()).pins).toHaveLength(0);
+    });
+
+    it('should queue changes in the outbox', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://example.com/a' } });
+
+      const entries = await listOutbox();
+      expect(entries.map((entry) => entry.id).sort()).toEqual([collectionId, id].sort());
+
+      await removeOutboxEntry(id, entries.find((entry) => entry.id === id)!.queuedAt);
+      expect((await listOutbox()).map((entry) => entry.id)).toEqual([collectionId]);
+    });
+
+    it('should keep settings and clear all data', async () => {
+      expect(await getSettings()).toEqual(DEFAULT_SETTINGS);
+      await updateSettings({ trashRetentionDays: 7 });
+      await addPin({ collectionId, page: { url: 'https://example.com/a' } });
+
+      await clearAllData();
+
+      expect(await listPins()).toHaveLength(0);
+      expect(await listCollections()).toHaveLength(0);
+      expect((await getSettings()).trashRetentionDays).toBe(7);
+    });
+  });
+});
+
+describe('ChromeStorageAdapter', () => {
+  it('should load what an earlier adapter saved', async () => {
+    const area = new FakeStorageArea();
+    setStorageAdapter(new ChromeStorageAdapter(area));
+    const collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+    const id = await addPin({ collectionId, page: { url: 'https://example.com/a', title: 'Saved' } });
+
+    setStorageAdapter(new ChromeStorageAdapter(area));
+
+    expect((await getPin(id))?.page.title).toBe('Saved');
+    expect((await searchPins('saved')).map((p) => p.id)).toEqual([id]);
+  });
+
+  it('should roll back a transaction whose save fails', async () => {
+    const area = new FakeStorageArea();
+    setStorageAdapter(new ChromeStorageAdapter(area));
+    const collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+
+    area.failWrites = true;
+    await expect(
+      addPin({ collectionId, page: { url: 'https://example.com/a' } })
+    ).rejects.toBeDefined();
+    area.failWrites = false;
+
+    expect(await listPins()).toHaveLength(0);
+    expect(await getCollection(collectionId)).toBeDefined();
+  });
+});
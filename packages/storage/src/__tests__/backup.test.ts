@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addPin,
+  deletePin,
+  getPin,
+  listPins,
+  listPinsByCollection,
+  searchPins,
+} from '../operations/pins';
+import {
+  addCollection,
+  getCollection,
+  listCollections,
+  updateCollection,
+} from '../operations/collections';
+import { exportAll, importAll, BACKUP_FORMAT, BACKUP_VERSION } from '../operations/backup';
+import { getSettings, updateSettings } from '../operations/settings';
+import { getOutboxEntry } from '../operations/outbox';
+import { getTombstone } from '../operations/tombstones';
+import { InvalidBackupError } from '../errors/storage-error';
+import { clearAllData } from '../db/adapter';
+import { initDB, DB_VERSION } from '../db/schema';
+
+describe('Backup and Restore', () => {
+  let collectionId: string;
+  let pinId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+    pinId = await addPin({
+      collectionId,
+      page: { url: 'https://example.com', title: 'Typescript handbook' },
+    });
+  });
+
+  describe('exportAll', () => {
+    it('should export collections, pins and settings with a header', async () => {
+      await updateSettings({ trashRetentionDays: 7 });
+
+      const bundle = await exportAll();
+
+      expect(bundle.header.format).toBe(BACKUP_FORMAT);
+      expect(bundle.header.version).toBe(BACKUP_VERSION);
+      expect(bundle.header.schemaVersion).toBe(DB_VERSION);
+      expect(bundle.header.checksums.pins).toMatch(/^[0-9a-f]{64}$/);
+      expect(bundle.collections.map((c) => c.id)).toEqual([collectionId]);
+      expect(bundle.pins.map((p) => p.id)).toEqual([pinId]);
+      expect(bundle.settings.trashRetentionDays).toBe(7);
+    });
+  });
+
+  describe('importAll', () => {
+    it('should restore an export into an empty library', async () => {
+      const bundle = await exportAll();
+      await clearAllData();
+
+      const result = await importAll(bundle, { mode: 'replace' });
+
+      expect(result).toEqual({ collections: 1, pins: 1, skipped: 0, remapped: 0, deleted: 0 });
+      expect(await getPin(pinId)).toEqual({ ...bundle.pins[0], updatedAt: expect.any(String) });
+      expect(await getCollection(collectionId)).toEqual({
+        ...bundle.collections[0],
+        updatedAt: expect.any(String),
+      });
+      expect((await searchPins('handbook')).map((p) => p.id)).toEqual([pinId]);
+      expect((await getOutboxEntry(pinId))?.op).toBe('upsert');
+    });
+
+    it('should stamp restored records as updated now, so sync pushes them', async () => {
+      const bundle = await exportAll();
+      await updateCollection(collectionId, { name: 'Edited after the backup' });
+      const edited = (await getCollection(collectionId))!;
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await importAll(bundle, { mode: 'replace' });
+
+      const collection = (await getCollection(collectionId))!;
+      const pin = (await getPin(pinId))!;
+      expect(collection.name).toBe('Reading');
+      expect(collection.updatedAt > edited.updatedAt).toBe(true);
+      expect(pin.updatedAt > bundle.pins[0].updatedAt).toBe(true);
+      expect(pin.createdAt).toBe(bundle.pins[0].createdAt);
+      expect((await getOutboxEntry(collectionId))?.op).toBe('upsert');
+    });
+
+    it('should accept the bundle as JSON', async () => {
+      const json = JSON.stringify(await exportAll());
+      await clearAllData();
+
+      await importAll(json);
+
+      expect(await getPin(pinId)).toBeDefined();
+    });
+
+    it('should skip records already here when merging', async () => {
+      const bundle = await exportAll();
+
+      const result = await importAll(bundle);
+
+      expect(result).toMatchObject({ collections: 0, pins: 0, skipped: 2, remapped: 0 });
+      expect(await listPins()).toHaveLength(1);
+    });
+
+    it('should remap colliding IDs when merging, moving pins with their collection', async () => {
+      const bundle = await exportAll();
+      await updateCollection(collectionId, { name: 'Renamed' });
+
+      const result = await importAll(bundle);
+
+      expect(result).toMatchObject({ collections: 1, pins: 1, remapped: 2 });
+      const collections = await listCollections();
+      expect(collections).toHaveLength(2);
+      const imported = collections.find((c) => c.id !== collectionId)!;
+      expect(imported.name).toBe('Reading');
+      expect(await getCollection(collectionId)).toMatchObject({ name: 'Renamed' });
+      expect(await listPinsByCollection(collectionId)).toHaveLength(1);
+      expect(await listPinsByCollection(imported.id)).toHaveLength(1);
+    });
+
+    it('should remap IDs of deleted records', async () => {
+      const bundle = await exportAll();
+      await deletePin(pinId);
+
+      const result = await importAll(bundle, { mode: 'replace' });
+
+      expect(result.remapped).toBe(1);
+      expect(await getPin(pinId)).toBeUndefined();
+      const [restored] = await listPinsByCollection(collectionId);
+      expect(restored?.page.url).toBe('https://example.com');
+    });
+
+    it('should delete what the bundle lacks and take its settings when replacing', async () => {
+      const bundle = await exportAll();
+      const localId = await addCollection({ name: 'Local', goal: 'Testing' });
+      const localPin = await addPin({ collectionId: localId, page: { url: 'https://local.com' } });
+      await updateSettings({ trashRetentionDays: 90 });
+
+      const result = await importAll(bundle, { mode: 'replace' });
+
+      expect(result.deleted).toBe(2);
+      expect(await getCollection(localId)).toBeUndefined();
+      expect(await getPin(localPin)).toBeUndefined();
+      expect(await getTombstone(localPin)).toBeDefined();
+      expect((await getOutboxEntry(localId))?.op).toBe('delete');
+      expect(await getPin(pinId)).toBeDefined();
+      expect((await getSettings()).trashRetentionDays).toBe(30);
+    });
+
+    it('should keep local settings when merging', async () => {
+      const bundle = await exportAll();
+      await updateSettings({ trashRetentionDays: 90 });
+
+      await importAll(bundle);
+
+      expect((await getSettings()).trashRetentionDays).toBe(90);
+    });
+
+    it('should reject a bundle whose content does not match its checksum', async () => {
+      const bundle = await exportAll();
+      bundle.pins[0]!.note = 'Tampered';
+      await clearAllData();
+
+      await expect(importAll(bundle)).rejects.toThrow(InvalidBackupError);
+      expect(await listPins()).toHaveLength(0);
+    });
+
+    it('should reject a bundle from a newer schema', async () => {
+      const bundle = await exportAll();
+      bundle.header.schemaVersion = DB_VERSION + 1;
+
+      await expect(importAll(bundle)).rejects.toThrow(InvalidBackupError);
+    });
+
+    it('should reject data that is not a backup', async () => {
+      await expect(importAll('not json')).rejects.toThrow(InvalidBackupError);
+      await expect(importAll({ collections: [] })).rejects.toThrow(InvalidBackupError);
+    });
+  });
+});
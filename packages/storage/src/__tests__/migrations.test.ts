@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import { openDB, type IDBPDatabase } from 'idb';
+import { DEFAULT_SETTINGS } from '@wiserpin/core';
+import { initDB, DB_NAME, DB_VERSION, STORES, STORE_LAYOUT } from '../db/schema';
+import { MIGRATIONS } from '../db/migrations';
+import { searchPins } from '../operations/pins';
+
+/**
+ * Build the schema a historical version shipped with, written out by hand
+ * so the tests don't depend on the migrations they check
+ */
+function createSchema(db: IDBPDatabase, version: number) {
+  const collections = db.createObjectStore('collections', { keyPath: 'id' });
+  collections.createIndex('userId', 'userId', { unique: false });
+  collections.createIndex('updatedAt', 'updatedAt', { unique: false });
+
+  const pins = db.createObjectStore('pins', { keyPath: 'id' });
+  pins.createIndex('collectionId', 'collectionId', { unique: false });
+  // v1 allowed each page only once
+  pins.createIndex('url', 'page.url', { unique: version < 2 });
+  pins.createIndex('userId', 'userId', { unique: false });
+
+  db.createObjectStore('settings');
+
+  if (version >= 3) {
+    const tombstones = db.createObjectStore('tombstones', { keyPath: 'id' });
+    tombstones.createIndex('entity', 'entity', { unique: false });
+  }
+
+  if (version >= 4) {
+    const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+    outbox.createIndex('entity', 'entity', { unique: false });
+  }
+
+  if (version >= 5) {
+    db.createObjectStore('search_index', { keyPath: ['token', 'pinId'] })
+      .createIndex('pinId', 'pinId', { unique: false });
+  }
+
+  if (version >= 6) {
+    collections.createIndex('createdAt', 'createdAt', { unique: false });
+    collections.createIndex('name', 'name', { unique: false });
+    pins.createIndex('createdAt', 'createdAt', { unique: false });
+    pins.createIndex('updatedAt', 'updatedAt', { unique: false });
+    pins.createIndex('title', 'page.title', { unique: false });
+    pins.createIndex('collectionId_createdAt', ['collectionId', 'createdAt'], { unique: false });
+    pins.createIndex('collectionId_updatedAt', ['collectionId', 'updatedAt'], { unique: false });
+    pins.createIndex('collectionId_title', ['collectionId', 'page.title'], { unique: false });
+  }
+
+  if (version >= 7) {
+    db.createObjectStore('trashed_collections', { keyPath: 'id' })
+      .createIndex('trashedAt', 'trashedAt', { unique: false });
+    const trashedPins = db.createObjectStore('trashed_pins', { keyPath: 'id' });
+    trashedPins.createIndex('trashedAt', 'trashedAt', { unique: false });
+    trashedPins.createIndex('collectionId', 'collectionId', { unique: false });
+  }
+}
+
+const COLLECTION = {
+  id: 'collection-1',
+  name: 'Reading list',
+  goal: 'Articles to read',
+  color: '#6366f1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+};
+
+const PINS = [
+  {
+    id: 'pin-1',
+    collectionId: 'collection-1',
+    page: { url: 'https://example.com/a', title: 'A' },
+    note: 'First',
+    createdAt: '2024-01-03T00:00:00.000Z',
+  },
+  {
+    id: 'pin-2',
+    collectionId: 'collection-1',
+    page: { url: 'https://example.com/b', title: 'B' },
+    summary: { text: 'Summary of B', createdAt: '2024-01-04T00:00:00.000Z' },
+    tags: ['docs'],
+    createdAt: '2024-01-04T00:00:00.000Z',
+  },
+];
+
+const SETTINGS = { ...DEFAULT_SETTINGS, theme: 'dark' };
+
+const OUTBOX_ENTRY = {
+  id: 'pin-2',
+  entity: 'pin',
+  op: 'upsert',
+  queuedAt: '2024-01-06T00:00:00.000Z',
+  attempts: 2,
+  nextAttemptAt: '2024-01-06T00:05:00.000Z',
+};
+
+/**
+ * Create a database as a historical version left it, with data of that era
+ */
+async function seedVersion(version: number) {
+  const db = await openDB(DB_NAME, version, {
+    upgrade(db) {
+      createSchema(db, version);
+    },
+  });
+
+  await db.put('collections', COLLECTION);
+  for (const pin of PINS) {
+    // Pins only have updatedAt since v3
+    await db.put('pins', version >= 3 ? { ...pin, updatedAt: pin.createdAt } : pin);
+  }
+  await db.put('settings', SETTINGS, 'user-settings');
+
+  if (version >= 3) {
+    await db.put('tombstones', {
+      id: 'pin-deleted',
+      entity: 'pin',
+      deletedAt: '2024-01-05T00:00:00.000Z',
+    });
+  }
+
+  if (version >= 4) {
+    // Only the last change is still waiting for sync
+    await db.put('outbox', OUTBOX_ENTRY);
+  }
+
+  db.close();
+}
+
+const HISTORICAL_VERSIONS = Array.from({ length: DB_VERSION - 1 }, (_, i) => i + 1);
+
+describe('Database migrations', () => {
+  it('should have one step per version up to DB_VERSION', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      Array.from({ length: DB_VERSION }, (_, i) => i + 1)
+    );
+  });
+
+  it('should create the latest schema with default settings on a fresh install', async () => {
+    const db = await initDB();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(Object.values(STORES).sort());
+    expect(await db.get(STORES.SETTINGS, 'user-settings')).toEqual(DEFAULT_SETTINGS);
+    expect(await db.count(STORES.OUTBOX)).toBe(0);
+
+    db.close();
+  });
+
+  it('should build the stores and indexes of STORE_LAYOUT', async () => {
+    const db = await initDB();
+    const tx = db.transaction([...db.objectStoreNames]);
+
+    for (const [name, layout] of Object.entries(STORE_LAYOUT)) {
+      const store = tx.objectStore(name as keyof typeof STORE_LAYOUT);
+      expect(store.keyPath ?? undefined).toEqual(layout.keyPath);
+
+      const indexes = Object.fromEntries(
+        [...store.indexNames].map((index) => [index, store.index(index).keyPath])
+      );
+      expect(indexes).toEqual(layout.indexes);
+    }
+
+    db.close();
+  });
+
+  describe.each(HISTORICAL_VERSIONS)('upgrading from v%i', (version) => {
+    it('should keep collections, pins and settings', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      expect(db.version).toBe(DB_VERSION);
+      expect(await db.get(STORES.COLLECTIONS, COLLECTION.id)).toEqual(COLLECTION);
+      expect(await db.get(STORES.SETTINGS, 'user-settings')).toEqual(SETTINGS);
+
+      const pins = await db.getAll(STORES.PINS);
+      expect(pins).toHaveLength(PINS.length);
+      for (const pin of PINS) {
+        expect(await db.get(STORES.PINS, pin.id)).toMatchObject(pin);
+      }
+
+      db.close();
+    });
+
+    it('should give every pin an updatedAt', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      for (const pin of PINS) {
+        expect((await db.get(STORES.PINS, pin.id))?.updatedAt).toBe(pin.createdAt);
+      }
+
+      db.close();
+    });
+
+    it('should allow the same URL in several collections', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      await db.put(STORES.PINS, {
+        ...PINS[0]!,
+        id: 'pin-copy',
+        collectionId: 'collection-2',
+        updatedAt: PINS[0]!.createdAt,
+      } as never);
+
+      expect(await db.getAllFromIndex(STORES.PINS, 'url', PINS[0]!.page.url)).toHaveLength(2);
+
+      db.close();
+    });
+
+    it.runIf(version < 4)('should queue existing data for the next sync', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      const outbox = await db.getAll(STORES.OUTBOX);
+      const queued = outbox.map((entry) => `${entry.entity}:${entry.op}:${entry.id}`).sort();
+
+      const expected = [
+        `collection:upsert:${COLLECTION.id}`,
+        ...PINS.map((pin) => `pin:upsert:${pin.id}`),
+        ...(version >= 3 ? ['pin:delete:pin-deleted'] : []),
+      ].sort();
+
+      expect(queued).toEqual(expected);
+      expect(outbox.every((entry) => entry.attempts === 0)).toBe(true);
+
+      db.close();
+    });
+
+    it.runIf(version >= 4)('should keep the outbox', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      expect(await db.getAll(STORES.OUTBOX)).toEqual([OUTBOX_ENTRY]);
+
+      db.close();
+    });
+
+    it.runIf(version < 5)('should index existing pins for search', async () => {
+      await seedVersion(version);
+      (await initDB()).close();
+
+      expect((await searchPins('summary')).map((pin) => pin.id)).toEqual(['pin-2']);
+      expect((await searchPins('docs')).map((pin) => pin.id)).toEqual(['pin-2']);
+    });
+
+    it('should keep tombstones', async () => {
+      await seedVersion(version);
+      const db = await initDB();
+
+      const tombstones = await db.getAll(STORES.TOMBSTONES);
+      expect(tombstones.map((t) => t.id)).toEqual(version >= 3 ? ['pin-deleted'] : []);
+
+      db.close();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addPin,
+  getPin,
+  updatePin,
+  deletePin,
+  savePin,
+  purgePin,
+} from '../operations/pins';
+import { addCollection, deleteCollection } from '../operations/collections';
+import {
+  enqueueChange,
+  listOutbox,
+  getOutboxEntry,
+  getOutboxCount,
+  removeOutboxEntry,
+  deferOutboxEntry,
+} from '../operations/outbox';
+import { initDB } from '../db/schema';
+
+describe('Outbox Operations', () => {
+  let collectionId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({
+      name: 'Test Collection',
+      goal: 'Testing',
+    });
+  });
+
+  describe('queueing', () => {
+    it('should queue new collections and pins', async () => {
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+
+      const entries = await listOutbox();
+      expect(entries.map((e) => [e.entity, e.id, e.op])).toEqual(
+        expect.arrayContaining([
+          ['collection', collectionId, 'upsert'],
+          ['pin', pinId, 'upsert'],
+        ])
+      );
+      expect(await getOutboxCount()).toBe(2);
+    });
+
+    it('should collapse repeated edits into one entry', async () => {
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+
+      await updatePin(pinId, { note: 'First' });
+      await updatePin(pinId, { note: 'Second' });
+
+      const entries = (await listOutbox()).filter((e) => e.id === pinId);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]?.op).toBe('upsert');
+    });
+
+    it('should remember the synced version edits started from', async () => {
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+      const synced = await getPin(pinId);
+      await removeOutboxEntry(pinId);
+
+      await updatePin(pinId, { note: 'First' });
+      await updatePin(pinId, { note: 'Second' });
+
+      const entry = await getOutboxEntry(pinId);
+      expect(entry?.baseVersion).toBe(synced?.updatedAt);
+    });
+
+    it('should not set a base version for unsynced records', async () => {
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+
+      await updatePin(pinId, { note: 'Changed' });
+
+      const entry = await getOutboxEntry(pinId);
+      expect(entry?.baseVersion).toBeUndefined();
+    });
+
+    it('should queue deletions', async () => {
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+
+      await deletePin(pinId);
+      await deleteCollection(collectionId);
+
+      const entries = await listOutbox();
+      expect(entries.map((e) => e.op)).toEqual(['delete', 'delete']);
+    });
+
+    it('should not queue changes applied from the cloud', async () => {
+      const timestamp = '2025-01-01T00:00:00.000Z';
+      await removeOutboxEntry(collectionId);
+
+      await savePin({
+        id: 'remote-pin',
+        collectionId,
+        page: { url: 'https://remote.com' },
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      await purgePin('remote-pin');
+
+      expect(await getOutboxCount()).toBe(0);
+    });
+
+    it('should queue changes explicitly', async () => {
+      await enqueueChange('pin', 'some-pin', 'delete');
+
+      const entry = await getOutboxEntry('some-pin');
+      expect(entry?.op).toBe('delete');
+    });
+  });
+
+  describe('removeOutboxEntry', () => {
+    it('should remove a synced change', async () => {
+      await removeOutboxEntry(collectionId);
+      expect(await getOutboxCount()).toBe(0);
+    });
+
+    it('should keep the entry if the record changed again', async () => {
+      await removeOutboxEntry(collectionId, '2000-01-01T00:00:00.000Z');
+      expect(await getOutboxCount()).toBe(1);
+    });
+  });
+
+  describe('deferOutboxEntry', () => {
+    it('should count attempts and postpone the retry', async () => {
+      const retryAt = new Date(Date.now() + 60_000).toISOString();
+
+      await deferOutboxEntry(collectionId, retryAt, 'Network error');
+
+      const [entry] = await listOutbox();
+      expect(entry?.attempts).toBe(1);
+      expect(entry?.lastError).toBe('Network error');
+      expect(await listOutbox(new Date().toISOString())).toEqual([]);
+      expect(await listOutbox(retryAt)).toHaveLength(1);
+    });
+
+    it('should reset attempts when the record changes again', async () => {
+      const retryAt = new Date(Date.now() + 60_000).toISOString();
+      const pinId = await addPin({
+        collectionId,
+        page: { url: 'https://example.com' },
+      });
+
+      await deferOutboxEntry(pinId, retryAt, 'Network error');
+      await updatePin(pinId, { note: 'Changed' });
+
+      const entry = await getOutboxEntry(pinId);
+      expect(entry?.attempts).toBe(0);
+    });
+
+    it('should ignore settled changes', async () => {
+      await expect(
+        deferOutboxEntry('missing', new Date().toISOString(), 'Error')
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Pin } from '@wiserpin/core';
+import { addPin, queryPins } from '../operations/pins';
+import { addCollection } from '../operations/collections';
+import { InvalidQueryError } from '../errors/storage-error';
+import { initDB } from '../db/schema';
+import {
+  PIN_SEARCH_CASES,
+  PIN_SEARCH_PINS,
+} from '../../../core/src/__tests__/fixtures/pin-search';
+
+describe('Search queries', () => {
+  let readingId: string;
+  let archiveId: string;
+
+  const titles = (pins: Pin[]) => pins.map((pin) => pin.page.title);
+
+  beforeEach(async () => {
+    await initDB();
+    readingId = await addCollection({ name: 'Reading list', goal: 'Testing' });
+    archiveId = await addCollection({ name: 'Archive', goal: 'Testing' });
+
+    const pins = [
+      {
+        title: 'Rust async book',
+        url: 'https://rust-lang.github.io/async-book/',
+        tags: ['rust'],
+        summary: 'How async works in Rust',
+        collectionId: readingId,
+      },
+      {
+        title: 'Tokio tutorial',
+        url: 'https://github.com/tokio-rs/tokio',
+        tags: ['rust', 'async'],
+        collectionId: readingId,
+      },
+      {
+        title: 'Error handling in Go',
+        url: 'https://go.dev/blog/error-handling',
+        tags: [],
+        collectionId: archiveId,
+      },
+    ];
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (const [i, pin] of pins.entries()) {
+      vi.setSystemTime(new Date(Date.UTC(2025, 11, 30 + i)));
+      await addPin({
+        collectionId: pin.collectionId,
+        page: { url: pin.url, title: pin.title },
+        tags: pin.tags,
+        summary: pin.summary
+          ? { text: pin.summary, createdAt: new Date().toISOString() }
+          : undefined,
+      });
+    }
+    vi.useRealTimers();
+  });
+
+  it('should filter by site, including subdomains', async () => {
+    expect(titles(await queryPins({ query: 'site:github.com' }))).toEqual(['Tokio tutorial']);
+    expect(titles(await queryPins({ query: 'site:github.io' }))).toEqual(['Rust async book']);
+  });
+
+  it('should combine tags, collections, dates and states', async () => {
+    const pins = await queryPins({
+      query: 'tag:rust collection:"reading list" before:2026-01-01 -is:summarized',
+    });
+
+    expect(titles(pins)).toEqual(['Tokio tutorial']);
+  });
+
+  it('should filter by creation day', async () => {
+    expect(titles(await queryPins({ query: 'after:2026-01-01' }))).toEqual([
+      'Error handling in Go',
+    ]);
+  });
+
+  it('should match text and exclude negated text', async () => {
+    expect(titles(await queryPins({ query: 'async -tokio' }))).toEqual(['Rust async book']);
+    expect(titles(await queryPins({ query: '"error handling"' }))).toEqual([
+      'Error handling in Go',
+    ]);
+    expect(await queryPins({ query: '"handling error"' })).toEqual([]);
+  });
+
+  it('should reject invalid field values', async () => {
+    await expect(queryPins({ query: 'is:starred' })).rejects.toBeInstanceOf(InvalidQueryError);
+  });
+});
+
+describe('Search queries shared with the API', () => {
+  it('should find the pins the API search finds', async () => {
+    await initDB();
+    const collectionId = await addCollection({ name: 'Fixtures', goal: 'Testing' });
+
+    const fixtureIds = new Map<string, string>();
+    for (const fixture of PIN_SEARCH_PINS) {
+      const id = await addPin({
+        collectionId,
+        page: {
+          url: fixture.url,
+          title: fixture.title,
+          siteName: fixture.siteName,
+          description: fixture.description,
+        },
+        tags: fixture.tags,
+        note: fixture.note,
+        summary: fixture.summaryText
+          ? { text: fixture.summaryText, createdAt: new Date().toISOString() }
+          : undefined,
+      });
+      fixtureIds.set(id, fixture.id);
+    }
+
+    for (const { query, ids } of PIN_SEARCH_CASES) {
+      const found = (await queryPins({ query })).map((pin) => fixtureIds.get(pin.id)!);
+
+      expect({ query, ids: found.sort() }).toEqual({ query, ids: [...ids].sort() });
+    }
+  });
+});
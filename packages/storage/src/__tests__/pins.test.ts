@@ -99,6 +99,21 @@ describe('Pin Operations', () => {
       expect(updated?.note).toBe('Updated note');
     });
 
+    it('should bump updatedAt', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://test.com' },
+      });
+      const original = await getPin(id);
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await updatePin(id, { note: 'Updated note' });
+
+      const updated = await getPin(id);
+      expect(updated?.updatedAt).not.toBe(original?.updatedAt);
+      expect(updated?.createdAt).toBe(original?.createdAt);
+    });
+
     it('should throw NotFoundError', async () => {
       await expect(
         updatePin('non-existent', { note: 'Test' })
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Pin } from '@wiserpin/core';
+import { addPin, listPins, listPinsByCollection, queryPins } from '../operations/pins';
+import { addCollection, listCollections, updateCollection } from '../operations/collections';
+import { InvalidQueryError } from '../errors/storage-error';
+import { initDB } from '../db/schema';
+
+describe('Query options', () => {
+  let collectionId: string;
+  let otherCollectionId: string;
+
+  const titles = (pins: Pin[]) => pins.map((pin) => pin.page.title ?? '(untitled)');
+
+  // Pins created a minute apart, so createdAt follows creation order
+  const addPins = async (pins: { title?: string; collectionId?: string; note?: string }[]) => {
+    for (const [i, pin] of pins.entries()) {
+      vi.setSystemTime(new Date(Date.UTC(2024, 0, 1, 0, i)));
+      await addPin({
+        collectionId: pin.collectionId ?? collectionId,
+        page: { url: `https://example.com/${i}`, title: pin.title },
+        note: pin.note,
+      });
+    }
+    vi.useRealTimers();
+  };
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+    otherCollectionId = await addCollection({ name: 'Archive', goal: 'Testing' });
+  });
+
+  describe('listPins', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await addPins([{ title: 'Charlie' }, { title: 'Alpha' }, {}, { title: 'Bravo' }]);
+    });
+
+    it('should sort by createdAt in both directions', async () => {
+      expect(titles(await listPins({ sortBy: 'createdAt' }))).toEqual([
+        'Charlie',
+        'Alpha',
+        '(untitled)',
+        'Bravo',
+      ]);
+      expect(titles(await listPins({ sortBy: 'createdAt', sortOrder: 'desc' }))).toEqual([
+        'Bravo',
+        '(untitled)',
+        'Alpha',
+        'Charlie',
+      ]);
+    });
+
+    it('should sort by title, untitled pins last', async () => {
+      expect(titles(await listPins({ sortBy: 'title' }))).toEqual([
+        'Alpha',
+        'Bravo',
+        'Charlie',
+        '(untitled)',
+      ]);
+      expect(titles(await listPins({ sortBy: 'title', sortOrder: 'desc' }))).toEqual([
+        '(untitled)',
+        'Charlie',
+        'Bravo',
+        'Alpha',
+      ]);
+    });
+
+    it('should page with limit and offset', async () => {
+      expect(titles(await listPins({ sortBy: 'title', limit: 2 }))).toEqual(['Alpha', 'Bravo']);
+      expect(titles(await listPins({ sortBy: 'title', offset: 2, limit: 2 }))).toEqual([
+        'Charlie',
+        '(untitled)',
+      ]);
+      expect(titles(await listPins({ sortBy: 'title', offset: 3 }))).toEqual(['(untitled)']);
+      expect(await listPins({ sortBy: 'title', offset: 10 })).toEqual([]);
+      expect(await listPins({ limit: 0 })).toEqual([]);
+    });
+
+    it('should page in key order without a sort field', async () => {
+      const all = await listPins();
+      expect(await listPins({ offset: 1, limit: 2 })).toEqual(all.slice(1, 3));
+    });
+  });
+
+  describe('listPinsByCollection', () => {
+    it('should only sort and page pins of the collection', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await addPins([
+        { title: 'Delta' },
+        { title: 'Alpha', collectionId: otherCollectionId },
+        { title: 'Bravo' },
+        {},
+      ]);
+
+      expect(titles(await listPinsByCollection(collectionId, { sortBy: 'title' }))).toEqual([
+        'Bravo',
+        'Delta',
+        '(untitled)',
+      ]);
+      expect(
+        titles(await listPinsByCollection(collectionId, { sortBy: 'createdAt', offset: 1 }))
+      ).toEqual(['Bravo', '(untitled)']);
+      expect(
+        titles(
+          await listPinsByCollection(otherCollectionId, { sortBy: 'updatedAt', sortOrder: 'desc' })
+        )
+      ).toEqual(['Alpha']);
+    });
+  });
+
+  describe('queryPins', () => {
+    it('should sort and page filtered pins', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await addPins([
+        { title: 'Gamma', note: 'kubernetes' },
+        { title: 'Alpha', note: 'kubernetes' },
+        { title: 'Beta' },
+        { title: 'Omega', note: 'kubernetes' },
+      ]);
+
+      expect(titles(await queryPins({ search: 'kubernetes' }, { sortBy: 'title' }))).toEqual([
+        'Alpha',
+        'Gamma',
+        'Omega',
+      ]);
+      expect(
+        titles(
+          await queryPins(
+            { search: 'kubernetes' },
+            { sortBy: 'createdAt', sortOrder: 'desc', limit: 2 }
+          )
+        )
+      ).toEqual(['Omega', 'Alpha']);
+      expect(
+        titles(await queryPins({ collectionId }, { sortBy: 'title', offset: 1, limit: 2 }))
+      ).toEqual(['Beta', 'Gamma']);
+    });
+  });
+
+  describe('listCollections', () => {
+    it('should sort by name and updatedAt', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(Date.UTC(2030, 0, 1)));
+      await updateCollection(collectionId, { goal: 'Updated last' });
+      vi.useRealTimers();
+
+      expect((await listCollections({ sortBy: 'name' })).map((c) => c.name)).toEqual([
+        'Archive',
+        'Reading',
+      ]);
+      expect(
+        (await listCollections({ sortBy: 'updatedAt', sortOrder: 'desc', limit: 1 }))[0]?.id
+      ).toBe(collectionId);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject unknown sort fields and negative paging', async () => {
+      await expect(listPins({ sortBy: 'url' as never })).rejects.toThrow(InvalidQueryError);
+      await expect(listCollections({ limit: -1 })).rejects.toThrow(InvalidQueryError);
+      await expect(queryPins({}, { offset: 1.5 })).rejects.toThrow(InvalidQueryError);
+    });
+  });
+});
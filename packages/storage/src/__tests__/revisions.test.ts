@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { addPin, deletePin, getPin, savePin, updatePin } from '../operations/pins';
+import { addCollection } from '../operations/collections';
+import { listPinRevisions } from '../operations/revisions';
+import { initDB } from '../db/schema';
+
+describe('Pin Revisions', () => {
+  let pinId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    const collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+    pinId = await addPin({
+      collectionId,
+      page: { url: 'https://example.com', title: 'Example' },
+      note: 'First note',
+    });
+  });
+
+  it('should record the fields an edit changed', async () => {
+    await updatePin(pinId, { note: 'Second note', tags: ['web'] });
+
+    const [revision] = await listPinRevisions(pinId);
+
+    expect(revision).toMatchObject({
+      pinId,
+      source: 'extension',
+      changes: {
+        note: { from: 'First note', to: 'Second note' },
+        tags: { from: [], to: ['web'] },
+      },
+    });
+    expect(revision?.createdAt).toBe((await getPin(pinId))?.updatedAt);
+  });
+
+  it('should not record edits of fields without history', async () => {
+    const pin = await getPin(pinId);
+    await updatePin(pinId, { page: { ...pin!.page, description: 'A description' } });
+
+    expect(await listPinRevisions(pinId)).toHaveLength(0);
+  });
+
+  it('should record changes pulled from other devices as sync', async () => {
+    const pin = await getPin(pinId);
+    await savePin({
+      ...pin!,
+      summary: { text: 'A summary', createdAt: '2025-01-02T10:00:00.000Z' },
+      updatedAt: '2025-01-02T10:00:00.000Z',
+    });
+
+    const [revision] = await listPinRevisions(pinId);
+
+    expect(revision?.source).toBe('sync');
+    expect(revision?.changes).toEqual({ summaryText: { from: null, to: 'A summary' } });
+  });
+
+  it('should list revisions newest first', async () => {
+    const pin = await getPin(pinId);
+    await savePin({ ...pin!, note: 'Second note', updatedAt: '2025-01-02T10:00:00.000Z' });
+    await savePin({ ...pin!, note: 'Third note', updatedAt: '2025-01-03T10:00:00.000Z' });
+
+    const revisions = await listPinRevisions(pinId);
+
+    expect(revisions.map((r) => r.changes.note?.to)).toEqual(['Third note', 'Second note']);
+  });
+
+  it('should delete the history with the pin', async () => {
+    await updatePin(pinId, { note: 'Second note' });
+
+    await deletePin(pinId);
+
+    expect(await listPinRevisions(pinId)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { CreatePinInput } from '@wiserpin/core';
+import {
+  addPin,
+  updatePin,
+  deletePin,
+  queryPins,
+  searchPins,
+  rebuildSearchIndex,
+} from '../operations/pins';
+import { addCollection } from '../operations/collections';
+import { initDB, STORES } from '../db/schema';
+import { getDB } from '../db/adapter';
+import { tokenize, tokenizeUrl } from '../search/tokenize';
+
+describe('Search', () => {
+  let collectionId: string;
+
+  const pin = (page: CreatePinInput['page'], extra: Partial<CreatePinInput> = {}) =>
+    addPin({ collectionId, page, ...extra });
+
+  const ids = (pins: { id: string }[]) => pins.map((p) => p.id);
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({
+      name: 'Test Collection',
+      goal: 'Testing',
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase, fold diacritics and split on punctuation', () => {
+      expect(tokenize('Crème Brûlée: a how-to')).toEqual(['creme', 'brulee', 'how', 'to']);
+    });
+
+    it('should leave URL boilerplate out', () => {
+      expect(tokenizeUrl('https://www.example.com/docs/index.html')).toEqual([
+        'example',
+        'com',
+        'docs',
+      ]);
+    });
+  });
+
+  describe('searchPins', () => {
+    it('should match words by prefix', async () => {
+      const id = await pin({ url: 'https://a.com', title: 'JavaScript closures explained' });
+
+      expect(ids(await searchPins('java'))).toEqual([id]);
+      expect(ids(await searchPins('clos expl'))).toEqual([id]);
+    });
+
+    it('should ignore case and diacritics', async () => {
+      const id = await pin({ url: 'https://a.com', title: 'Café culture in Zürich' });
+
+      expect(ids(await searchPins('cafe zurich'))).toEqual([id]);
+      expect(ids(await searchPins('CAFÉ'))).toEqual([id]);
+    });
+
+    it('should require every word to match', async () => {
+      await pin({ url: 'https://a.com', title: 'React hooks' });
+      const id = await pin({ url: 'https://b.com', title: 'React server components' });
+
+      expect(ids(await searchPins('react server'))).toEqual([id]);
+      expect(await searchPins('react vue')).toEqual([]);
+    });
+
+    it('should search notes, summaries, tags, site names and URLs', async () => {
+      const note = await pin({ url: 'https://a.com' }, { note: 'Read before the offsite' });
+      const summary = await pin(
+        { url: 'https://b.com' },
+        { summary: { text: 'Explains vector clocks', createdAt: '2024-01-01T00:00:00.000Z' } }
+      );
+      const tag = await pin({ url: 'https://c.com' }, { tags: ['typescript'] });
+      const site = await pin({ url: 'https://d.com', siteName: 'Smashing Magazine' });
+      const url = await pin({ url: 'https://e.com/guides/kubernetes' });
+
+      expect(ids(await searchPins('offsite'))).toEqual([note]);
+      expect(ids(await searchPins('vector'))).toEqual([summary]);
+      expect(ids(await searchPins('typescript'))).toEqual([tag]);
+      expect(ids(await searchPins('smashing'))).toEqual([site]);
+      expect(ids(await searchPins('kubernetes'))).toEqual([url]);
+    });
+
+    it('should rank title matches above matches in other fields', async () => {
+      const inNote = await pin({ url: 'https://a.com', title: 'Misc' }, { note: 'about rust' });
+      const inTitle = await pin({ url: 'https://b.com', title: 'Learning Rust' });
+      const inUrl = await pin({ url: 'https://c.com/rust', title: 'Other' });
+
+      expect(ids(await searchPins('rust'))).toEqual([inTitle, inNote, inUrl]);
+    });
+
+    it('should rank whole words above prefixes', async () => {
+      const prefix = await pin({ url: 'https://a.com', title: 'Testing library' });
+      const whole = await pin({ url: 'https://b.com', title: 'Test pyramid' });
+
+      expect(ids(await searchPins('test'))).toEqual([whole, prefix]);
+    });
+
+    it('should filter by collection and limit results', async () => {
+      const otherCollection = await addCollection({ name: 'Other', goal: 'Testing' });
+      const first = await pin({ url: 'https://a.com', title: 'Design systems' });
+      await pin({ url: 'https://b.com', title: 'Design tokens' });
+      await addPin({
+        collectionId: otherCollection,
+        page: { url: 'https://c.com', title: 'Design reviews' },
+      });
+
+      expect(await searchPins('design', { collectionId })).toHaveLength(2);
+      expect(await searchPins('design', { limit: 1 })).toHaveLength(1);
+      expect(ids(await searchPins('design systems', { collectionId }))).toEqual([first]);
+    });
+
+    it('should return nothing for an empty query', async () => {
+      await pin({ url: 'https://a.com', title: 'Anything' });
+
+      expect(await searchPins('  ')).toEqual([]);
+    });
+  });
+
+  describe('index upkeep', () => {
+    it('should reindex updated pins', async () => {
+      const id = await pin({ url: 'https://a.com', title: 'Old title' });
+      await updatePin(id, { page: { url: 'https://a.com', title: 'New heading' } });
+
+      expect(await searchPins('old')).toEqual([]);
+      expect(ids(await searchPins('heading'))).toEqual([id]);
+    });
+
+    it('should remove deleted pins from the index', async () => {
+      const id = await pin({ url: 'https://a.com', title: 'Temporary' });
+      await deletePin(id);
+
+      expect(await searchPins('temporary')).toEqual([]);
+      const db = await getDB();
+      expect(await db.countFromIndex(STORES.SEARCH_INDEX, 'pinId', id)).toBe(0);
+    });
+
+    it('should rebuild the index from stored pins', async () => {
+      const id = await pin({ url: 'https://a.com', title: 'Rebuilt' });
+      const db = await getDB();
+      await db.clear(STORES.SEARCH_INDEX);
+
+      expect(await searchPins('rebuilt')).toEqual([]);
+      await rebuildSearchIndex();
+      expect(ids(await searchPins('rebuilt'))).toEqual([id]);
+    });
+  });
+
+  describe('queryPins', () => {
+    it('should use the search index, most relevant first', async () => {
+      const inNote = await pin({ url: 'https://a.com', title: 'Misc' }, { note: 'Naïve Bayes' });
+      const inTitle = await pin({ url: 'https://b.com', title: 'Naive Bayes classifiers' });
+
+      expect(ids(await queryPins({ search: 'naive' }))).toEqual([inTitle, inNote]);
+      expect(ids(await queryPins({ search: 'naive', collectionId: 'other' }))).toEqual([]);
+    });
+  });
+});
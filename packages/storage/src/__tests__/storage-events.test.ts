@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_SETTINGS, StorageEventType, type StorageEvent } from '@wiserpin/core';
+import { addPin, updatePin, deletePin, savePin, getPin } from '../operations/pins';
+import { addCollection, updateCollection, deleteCollection } from '../operations/collections';
+import { updateSettings, resetSettings } from '../operations/settings';
+import { subscribe, STORAGE_EVENTS_CHANNEL } from '../events/storage-events';
+import { initDB } from '../db/schema';
+import { clearAllData } from '../db/adapter';
+
+/**
+ * Collect events of the given types
+ */
+function record(types: StorageEventType[]) {
+  const events: StorageEvent[] = [];
+  subscribe(types, (event) => events.push(event));
+  return events;
+}
+
+/**
+ * Wait for messages posted on BroadcastChannels to be delivered
+ */
+const nextMessage = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('Storage events', () => {
+  let collectionId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({ name: 'Test Collection', goal: 'Testing' });
+  });
+
+  it('should emit collection events with the stored record', async () => {
+    const events = record([
+      StorageEventType.COLLECTION_CREATED,
+      StorageEventType.COLLECTION_UPDATED,
+      StorageEventType.COLLECTION_DELETED,
+    ]);
+
+    const id = await addCollection({ name: 'Reading', goal: 'Testing' });
+    await updateCollection(id, { name: 'Reading list' });
+    await deleteCollection(id);
+
+    expect(events.map((e) => e.type)).toEqual([
+      StorageEventType.COLLECTION_CREATED,
+      StorageEventType.COLLECTION_UPDATED,
+      StorageEventType.COLLECTION_DELETED,
+    ]);
+    expect(events[0]?.data).toMatchObject({ id, name: 'Reading' });
+    expect(events[1]?.data).toMatchObject({ id, name: 'Reading list' });
+    expect(events[2]?.data).toEqual({ id });
+    expect(events.every((e) => typeof e.timestamp === 'string')).toBe(true);
+  });
+
+  it('should emit pin events, including writes pulled from the cloud', async () => {
+    const events = record([
+      StorageEventType.PIN_CREATED,
+      StorageEventType.PIN_UPDATED,
+      StorageEventType.PIN_DELETED,
+    ]);
+
+    const id = await addPin({ collectionId, page: { url: 'https://example.com' } });
+    await updatePin(id, { note: 'Read later' });
+    await savePin({ ...(await getPin(id))!, note: 'From another device' });
+    await deletePin(id);
+
+    expect(events.map((e) => [e.type, (e.data as { id: string }).id])).toEqual([
+      [StorageEventType.PIN_CREATED, id],
+      [StorageEventType.PIN_UPDATED, id],
+      [StorageEventType.PIN_UPDATED, id],
+      [StorageEventType.PIN_DELETED, id],
+    ]);
+    expect(events[2]?.data).toMatchObject({ note: 'From another device' });
+  });
+
+  it('should emit settings events', async () => {
+    const events = record([StorageEventType.SETTINGS_UPDATED]);
+
+    await updateSettings({ theme: 'dark' });
+    await resetSettings();
+
+    expect(events.map((e) => e.data)).toEqual([
+      expect.objectContaining({ theme: 'dark' }),
+      DEFAULT_SETTINGS,
+    ]);
+  });
+
+  it('should emit a single event when all data is cleared', async () => {
+    const events = record([
+      StorageEventType.DATA_CLEARED,
+      StorageEventType.COLLECTION_DELETED,
+      StorageEventType.PIN_DELETED,
+    ]);
+    await addPin({ collectionId, page: { url: 'https://example.com' } });
+
+    await clearAllData();
+
+    expect(events.map((e) => [e.type, e.data])).toEqual([[StorageEventType.DATA_CLEARED, {}]]);
+  });
+
+  it('should only call handlers of the subscribed types', async () => {
+    const handler = vi.fn();
+    subscribe(StorageEventType.PIN_DELETED, handler);
+
+    await addPin({ collectionId, page: { url: 'https://example.com' } });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop calling a handler once unsubscribed', async () => {
+    const handler = vi.fn();
+    const unsubscribe = subscribe(StorageEventType.COLLECTION_CREATED, handler);
+
+    await addCollection({ name: 'First', goal: 'Testing' });
+    unsubscribe();
+    await addCollection({ name: 'Second', goal: 'Testing' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep calling handlers when one throws', async () => {
+    const handler = vi.fn();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    subscribe(StorageEventType.COLLECTION_CREATED, () => {
+      throw new Error('Broken view');
+    });
+    subscribe(StorageEventType.COLLECTION_CREATED, handler);
+
+    await expect(addCollection({ name: 'Reading', goal: 'Testing' })).resolves.toBeTypeOf('string');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  describe('across contexts', () => {
+    it('should broadcast events to other contexts', async () => {
+      const otherContext = new BroadcastChannel(STORAGE_EVENTS_CHANNEL);
+      const received: StorageEvent[] = [];
+      otherContext.onmessage = ({ data }) => received.push(data);
+
+      const id = await addPin({ collectionId, page: { url: 'https://example.com' } });
+      await nextMessage();
+      otherContext.close();
+
+      expect(received).toEqual([
+        expect.objectContaining({
+          type: StorageEventType.PIN_CREATED,
+          data: expect.objectContaining({ id }),
+        }),
+      ]);
+    });
+
+    it('should deliver events from other contexts to subscribers', async () => {
+      const handler = vi.fn();
+      subscribe(StorageEventType.PIN_DELETED, handler);
+
+      const otherContext = new BroadcastChannel(STORAGE_EVENTS_CHANNEL);
+      const event = {
+        type: StorageEventType.PIN_DELETED,
+        data: { id: 'pin-1' },
+        timestamp: new Date().toISOString(),
+      };
+      otherContext.postMessage(event);
+      otherContext.postMessage({ type: 'SOMETHING_ELSE' });
+      await nextMessage();
+      otherContext.close();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(event);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addPin,
+  getPin,
+  deletePin,
+  deletePinsByCollection,
+  savePin,
+  purgePin,
+} from '../operations/pins';
+import {
+  addCollection,
+  deleteCollection,
+  purgeCollection,
+} from '../operations/collections';
+import {
+  listTombstones,
+  getTombstone,
+  removeTombstone,
+} from '../operations/tombstones';
+import { initDB } from '../db/schema';
+
+describe('Tombstone Operations', () => {
+  let collectionId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({
+      name: 'Test Collection',
+      goal: 'Testing',
+    });
+  });
+
+  describe('listTombstones', () => {
+    it('should record a tombstone when a pin is deleted', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://deleted.com' },
+      });
+
+      await deletePin(id);
+
+      const tombstones = await listTombstones('pin');
+      expect(tombstones).toHaveLength(1);
+      expect(tombstones[0]?.id).toBe(id);
+      expect(tombstones[0]?.deletedAt).toBeDefined();
+    });
+
+    it('should record a tombstone when a collection is deleted', async () => {
+      await deleteCollection(collectionId);
+
+      const tombstones = await listTombstones('collection');
+      expect(tombstones.map((t) => t.id)).toEqual([collectionId]);
+    });
+
+    it('should record tombstones for pins deleted by collection', async () => {
+      await addPin({ collectionId, page: { url: 'https://pin1.com' } });
+      await addPin({ collectionId, page: { url: 'https://pin2.com' } });
+
+      await deletePinsByCollection(collectionId);
+
+      const tombstones = await listTombstones('pin');
+      expect(tombstones).toHaveLength(2);
+    });
+  });
+
+  describe('getTombstone', () => {
+    it('should get the tombstone of a deleted record', async () => {
+      await deleteCollection(collectionId);
+
+      const tombstone = await getTombstone(collectionId);
+      expect(tombstone?.entity).toBe('collection');
+    });
+
+    it('should return undefined for live records', async () => {
+      expect(await getTombstone(collectionId)).toBeUndefined();
+    });
+  });
+
+  describe('removeTombstone', () => {
+    it('should remove a reconciled tombstone', async () => {
+      await deleteCollection(collectionId);
+      await removeTombstone(collectionId);
+
+      const tombstones = await listTombstones();
+      expect(tombstones).toEqual([]);
+    });
+  });
+
+  describe('purge', () => {
+    it('should not leave tombstones when purging', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://purged.com' },
+      });
+
+      await purgePin(id);
+      await purgeCollection(collectionId);
+
+      expect(await getPin(id)).toBeUndefined();
+      expect(await listTombstones()).toEqual([]);
+    });
+  });
+
+  describe('savePin', () => {
+    it('should keep the given timestamps', async () => {
+      const timestamp = '2025-01-01T00:00:00.000Z';
+
+      await savePin({
+        id: 'remote-pin',
+        collectionId,
+        page: { url: 'https://remote.com' },
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+
+      const pin = await getPin('remote-pin');
+      expect(pin?.createdAt).toBe(timestamp);
+      expect(pin?.updatedAt).toBe(timestamp);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { addPin, getPin, listPinsByCollection, movePins, deletePinsByCollection } from '../operations/pins';
+import { addCollection, getCollection, deleteCollectionWithPins } from '../operations/collections';
+import { trashPin, getTrashedPin } from '../operations/trash';
+import { getOutboxEntry, getOutboxCount } from '../operations/outbox';
+import { getTombstone } from '../operations/tombstones';
+import { NotFoundError, TransactionError } from '../errors/storage-error';
+import { runTransaction } from '../db/transaction';
+import { initDB, STORES } from '../db/schema';
+import { getDB } from '../db/adapter';
+
+declare const IDBObjectStore: { prototype: { put: (...args: unknown[]) => unknown } };
+
+/** Make `put` fail on `storeName` after `allowed` successful calls to it */
+function failPutsTo(storeName: string, allowed = 0) {
+  const put = IDBObjectStore.prototype.put;
+  let calls = 0;
+  vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (
+    this: { name: string },
+    ...args: unknown[]
+  ) {
+    if (this.name === storeName && calls++ >= allowed) {
+      throw new Error(`Simulated failure writing to ${storeName}`);
+    }
+    return put.apply(this, args);
+  });
+}
+
+describe('Transactional Operations', () => {
+  let sourceId: string;
+  let targetId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    sourceId = await addCollection({ name: 'Source', goal: 'Testing' });
+    targetId = await addCollection({ name: 'Target', goal: 'Testing' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runTransaction', () => {
+    it('should commit all writes when the work succeeds', async () => {
+      await runTransaction([STORES.TOMBSTONES], async (tx) => {
+        await tx.objectStore(STORES.TOMBSTONES).put({
+          id: 'a',
+          entity: 'pin',
+          deletedAt: new Date().toISOString(),
+        });
+      });
+
+      expect(await getTombstone('a')).toBeDefined();
+    });
+
+    it('should roll back earlier writes when the work throws', async () => {
+      const failure = new Error('boom');
+
+      await expect(
+        runTransaction([STORES.TOMBSTONES], async (tx) => {
+          await tx.objectStore(STORES.TOMBSTONES).put({
+            id: 'a',
+            entity: 'pin',
+            deletedAt: new Date().toISOString(),
+          });
+          throw failure;
+        })
+      ).rejects.toBe(failure);
+
+      expect(await getTombstone('a')).toBeUndefined();
+    });
+  });
+
+  describe('movePins', () => {
+    it('should move pins to another collection and queue them for sync', async () => {
+      const first = await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+      const second = await addPin({ collectionId: sourceId, page: { url: 'https://two.com' } });
+
+      const moved = await movePins([first, second], targetId);
+
+      expect(moved).toBe(2);
+      expect(await listPinsByCollection(sourceId)).toHaveLength(0);
+      expect(await listPinsByCollection(targetId)).toHaveLength(2);
+      expect((await getOutboxEntry(first))?.op).toBe('upsert');
+    });
+
+    it('should move no pin when one of them is missing', async () => {
+      const first = await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+
+      await expect(movePins([first, 'missing'], targetId)).rejects.toThrow(NotFoundError);
+
+      expect((await getPin(first))?.collectionId).toBe(sourceId);
+    });
+
+    it('should throw NotFoundError for a missing collection', async () => {
+      const first = await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+
+      await expect(movePins([first], 'missing')).rejects.toThrow(NotFoundError);
+
+      expect((await getPin(first))?.collectionId).toBe(sourceId);
+    });
+
+    it('should move no pin when a write fails partway', async () => {
+      const first = await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+      const second = await addPin({ collectionId: sourceId, page: { url: 'https://two.com' } });
+      failPutsTo(STORES.PINS, 1);
+
+      await expect(movePins([first, second], targetId)).rejects.toThrow(TransactionError);
+
+      vi.restoreAllMocks();
+      expect(await listPinsByCollection(sourceId)).toHaveLength(2);
+      expect(await listPinsByCollection(targetId)).toHaveLength(0);
+    });
+  });
+
+  describe('deletePinsByCollection', () => {
+    it('should keep every pin when a write fails partway', async () => {
+      await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+      await addPin({ collectionId: sourceId, page: { url: 'https://two.com' } });
+      failPutsTo(STORES.TOMBSTONES, 1);
+
+      await expect(deletePinsByCollection(sourceId)).rejects.toThrow(TransactionError);
+
+      vi.restoreAllMocks();
+      expect(await listPinsByCollection(sourceId)).toHaveLength(2);
+    });
+  });
+
+  describe('deleteCollectionWithPins', () => {
+    it('should delete the collection with its live and trashed pins', async () => {
+      const live = await addPin({ collectionId: sourceId, page: { url: 'https://live.com' } });
+      const trashed = await addPin({ collectionId: sourceId, page: { url: 'https://trashed.com' } });
+      const other = await addPin({ collectionId: targetId, page: { url: 'https://other.com' } });
+      await trashPin(trashed);
+
+      const deleted = await deleteCollectionWithPins(sourceId);
+
+      expect(deleted).toBe(2);
+      expect(await getCollection(sourceId)).toBeUndefined();
+      expect(await getPin(live)).toBeUndefined();
+      expect(await getTrashedPin(trashed)).toBeUndefined();
+      expect(await getPin(other)).toBeDefined();
+      expect(await getTombstone(sourceId)).toBeDefined();
+      expect(await getTombstone(live)).toBeDefined();
+      expect((await getOutboxEntry(sourceId))?.op).toBe('delete');
+      expect((await getOutboxEntry(live))?.op).toBe('delete');
+    });
+
+    it('should throw NotFoundError for a missing collection', async () => {
+      await expect(deleteCollectionWithPins('missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should leave everything in place when a write fails partway', async () => {
+      const first = await addPin({ collectionId: sourceId, page: { url: 'https://one.com' } });
+      const second = await addPin({ collectionId: sourceId, page: { url: 'https://two.com' } });
+      const outboxBefore = await getOutboxCount();
+      failPutsTo(STORES.TOMBSTONES, 1);
+
+      await expect(deleteCollectionWithPins(sourceId)).rejects.toThrow(TransactionError);
+
+      vi.restoreAllMocks();
+      expect(await getCollection(sourceId)).toBeDefined();
+      expect(await getPin(first)).toBeDefined();
+      expect(await getPin(second)).toBeDefined();
+      expect(await getTombstone(first)).toBeUndefined();
+      expect(await getOutboxCount()).toBe(outboxBefore);
+      expect(await (await getDB()).count(STORES.SEARCH_INDEX)).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { addPin, getPin, listPins, searchPins, savePin } from '../operations/pins';
+import { addCollection, getCollection, listCollections } from '../operations/collections';
+import {
+  trashPin,
+  trashCollection,
+  restorePin,
+  restoreCollection,
+  listTrash,
+  getTrashCount,
+  getTrashedPin,
+  deleteTrashedPin,
+  deleteTrashedCollection,
+  emptyTrash,
+  purgeExpiredTrash,
+} from '../operations/trash';
+import { getOutboxEntry } from '../operations/outbox';
+import { getTombstone } from '../operations/tombstones';
+import { NotFoundError } from '../errors/storage-error';
+import { initDB } from '../db/schema';
+
+describe('Trash Operations', () => {
+  let collectionId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({
+      name: 'Test Collection',
+      goal: 'Testing',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('trashPin', () => {
+    it('should move a pin out of lists and search into the trash', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://trashed.com', title: 'Trashed article' },
+      });
+
+      await trashPin(id);
+
+      expect(await getPin(id)).toBeUndefined();
+      expect(await listPins()).toHaveLength(0);
+      expect(await searchPins('trashed')).toHaveLength(0);
+
+      const trashed = await getTrashedPin(id);
+      expect(trashed?.trashedAt).toBeDefined();
+      expect((await listTrash()).pins.map((pin) => pin.id)).toEqual([id]);
+    });
+
+    it('should queue the move for sync', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://sync.com' } });
+
+      await trashPin(id);
+
+      const entry = await getOutboxEntry(id);
+      expect(entry?.op).toBe('upsert');
+    });
+
+    it('should throw NotFoundError for a missing pin', async () => {
+      await expect(trashPin('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('trashCollection', () => {
+    it('should move a collection and its pins to the trash', async () => {
+      const pinId = await addPin({ collectionId, page: { url: 'https://pin.com' } });
+
+      await trashCollection(collectionId);
+
+      expect(await getCollection(collectionId)).toBeUndefined();
+      expect(await listCollections()).toHaveLength(0);
+
+      const trash = await listTrash();
+      expect(trash.collections.map((c) => c.id)).toEqual([collectionId]);
+      expect(trash.pins.map((p) => p.id)).toEqual([pinId]);
+      expect(trash.pins[0]?.trashedAt).toBe(trash.collections[0]?.trashedAt);
+      expect(await getTrashCount()).toBe(2);
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a pin and make it searchable again', async () => {
+      const id = await addPin({
+        collectionId,
+        page: { url: 'https://back.com', title: 'Coming back' },
+      });
+      await trashPin(id);
+
+      await restorePin(id);
+
+      const pin = await getPin(id);
+      expect(pin).toBeDefined();
+      expect(pin?.trashedAt).toBeUndefined();
+      expect(await searchPins('coming')).toHaveLength(1);
+      expect(await getTrashCount()).toBe(0);
+    });
+
+    it('should restore the trashed collection of a restored pin', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://pin.com' } });
+      await trashCollection(collectionId);
+
+      await restorePin(id);
+
+      expect(await getCollection(collectionId)).toBeDefined();
+      expect(await getPin(id)).toBeDefined();
+    });
+
+    it('should restore only the pins trashed with a collection', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+      const earlier = await addPin({ collectionId, page: { url: 'https://earlier.com' } });
+      await trashPin(earlier);
+
+      vi.setSystemTime(new Date('2026-01-02T00:00:00.000Z'));
+      const withCollection = await addPin({ collectionId, page: { url: 'https://with.com' } });
+      await trashCollection(collectionId);
+
+      await restoreCollection(collectionId);
+
+      expect(await getPin(withCollection)).toBeDefined();
+      expect(await getPin(earlier)).toBeUndefined();
+      expect(await getTrashedPin(earlier)).toBeDefined();
+    });
+
+    it('should throw NotFoundError for a pin not in the trash', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://live.com' } });
+      await expect(restorePin(id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('permanent deletion', () => {
+    it('should delete a trashed pin with a tombstone', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://gone.com' } });
+      await trashPin(id);
+
+      await deleteTrashedPin(id);
+
+      expect(await getTrashedPin(id)).toBeUndefined();
+      expect(await getTombstone(id)).toBeDefined();
+      expect((await getOutboxEntry(id))?.op).toBe('delete');
+    });
+
+    it('should delete the trashed pins of a deleted collection', async () => {
+      const pinId = await addPin({ collectionId, page: { url: 'https://pin.com' } });
+      await trashCollection(collectionId);
+
+      await deleteTrashedCollection(collectionId);
+
+      expect(await getTrashCount()).toBe(0);
+      expect(await getTombstone(pinId)).toBeDefined();
+    });
+
+    it('should empty the trash', async () => {
+      await addPin({ collectionId, page: { url: 'https://a.com' } });
+      await addPin({ collectionId, page: { url: 'https://b.com' } });
+      await trashCollection(collectionId);
+
+      expect(await emptyTrash()).toBe(3);
+      expect(await getTrashCount()).toBe(0);
+    });
+
+    it('should purge only what is past the retention period', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+      const old = await addPin({ collectionId, page: { url: 'https://old.com' } });
+      await trashPin(old);
+
+      vi.setSystemTime(new Date('2026-01-25T00:00:00.000Z'));
+      const recent = await addPin({ collectionId, page: { url: 'https://recent.com' } });
+      await trashPin(recent);
+
+      const purged = await purgeExpiredTrash(30, new Date('2026-02-05T00:00:00.000Z'));
+
+      expect(purged).toBe(1);
+      expect(await getTrashedPin(old)).toBeUndefined();
+      expect(await getTrashedPin(recent)).toBeDefined();
+    });
+  });
+
+  describe('savePin', () => {
+    it('should route pulled pins by their trash state', async () => {
+      const id = await addPin({ collectionId, page: { url: 'https://remote.com' } });
+      const pin = (await getPin(id))!;
+
+      await savePin({ ...pin, trashedAt: new Date().toISOString() });
+      expect(await getPin(id)).toBeUndefined();
+      expect(await getTrashedPin(id)).toBeDefined();
+
+      await savePin(pin);
+      expect(await getPin(id)).toBeDefined();
+      expect(await getTrashedPin(id)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { addPin, getPin, searchPins } from '../operations/pins';
+import { addCollection } from '../operations/collections';
+import { getStorageUsage, clearSummaries, clearPageContent } from '../operations/usage';
+import { getOutboxEntry, removeOutboxEntry } from '../operations/outbox';
+import { updateSettings } from '../operations/settings';
+import { ChromeStorageAdapter } from '../adapters/chrome-storage';
+import { setStorageAdapter } from '../db/adapter';
+import { initDB, STORES } from '../db/schema';
+import {
+  QuotaExceededError,
+  TransactionError,
+  isQuotaError,
+  writeError,
+} from '../errors/storage-error';
+
+declare const IDBObjectStore: { prototype: { put: (...args: unknown[]) => unknown } };
+
+const quotaError = () =>
+  Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+
+describe('Storage usage', () => {
+  let collectionId: string;
+
+  beforeEach(async () => {
+    await initDB();
+    collectionId = await addCollection({ name: 'Reading', goal: 'Testing' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('getStorageUsage', () => {
+    it('should count the records of each store', async () => {
+      await addPin({ collectionId, page: { url: 'https://example.com', title: 'Example' } });
+
+      const { stores } = await getStorageUsage();
+
+      expect(stores[STORES.PINS].records).toBe(1);
+      expect(stores[STORES.COLLECTIONS].records).toBe(1);
+      expect(stores[STORES.SEARCH_INDEX].records).toBeGreaterThan(0);
+      expect(stores[STORES.PINS].bytes).toBeGreaterThan(0);
+      expect(stores[STORES.TRASHED_PINS]).toEqual({ records: 0, bytes: 2 });
+    });
+
+    it('should report the browser estimate when available', async () => {
+      vi.stubGlobal('navigator', {
+        storage: { estimate: async () => ({ usage: 1024, quota: 4096 }) },
+      });
+
+      const usage = await getStorageUsage();
+
+      expect(usage.usage).toBe(1024);
+      expect(usage.quota).toBe(4096);
+    });
+  });
+
+  describe('clearSummaries', () => {
+    it('should remove summaries created before the cutoff only', async () => {
+      const oldId = await addPin({
+        collectionId,
+        page: { url: 'https://old.com' },
+        summary: { text: 'Photosynthesis explained', createdAt: '2024-01-01T00:00:00.000Z' },
+      });
+      const newId = await addPin({
+        collectionId,
+        page: { url: 'https://new.com' },
+        summary: { text: 'Recent summary', createdAt: '2024-06-01T00:00:00.000Z' },
+      });
+      await removeOutboxEntry(oldId);
+
+      const cleared = await clearSummaries(new Date('2024-03-01T00:00:00.000Z'));
+
+      expect(cleared).toBe(1);
+      expect((await getPin(oldId))?.summary).toBeUndefined();
+      expect((await getPin(newId))?.summary?.text).toBe('Recent summary');
+      expect(await searchPins('photosynthesis')).toHaveLength(0);
+      expect((await getOutboxEntry(oldId))?.op).toBe('upsert');
+    });
+  });
+
+  describe('clearPageContent', () => {
+    it('should remove descriptions and preview images, keeping titles', async () => {
+      const id = await addPin({
+        collectionId,
+        page: {
+          url: 'https://example.com',
+          title: 'Example',
+          description: 'A long description',
+          ogImageUrl: 'https://example.com/preview.png',
+        },
+      });
+      await addPin({ collectionId, page: { url: 'https://bare.com' } });
+
+      expect(await clearPageContent()).toBe(1);
+
+      const pin = await getPin(id);
+      expect(pin?.page).toEqual({ url: 'https://example.com', title: 'Example' });
+    });
+  });
+
+  describe('quota errors', () => {
+    it('should recognize quota errors and their causes', () => {
+      expect(isQuotaError(quotaError())).toBe(true);
+      expect(isQuotaError(new TransactionError('Failed', quotaError()))).toBe(true);
+      expect(isQuotaError(new Error('QUOTA_BYTES quota exceeded'))).toBe(true);
+      expect(isQuotaError(new Error('Something else'))).toBe(false);
+      expect(writeError('Failed to add pin', quotaError())).toBeInstanceOf(QuotaExceededError);
+      expect(writeError('Failed to add pin', new Error('boom'))).toBeInstanceOf(TransactionError);
+    });
+
+    it('should throw QuotaExceededError when IndexedDB is full', async () => {
+      vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+        throw quotaError();
+      });
+
+      await expect(updateSettings({ autoGenerateSummary: true })).rejects.toThrow(QuotaExceededError);
+    });
+
+    it('should throw QuotaExceededError when chrome.storage is full', async () => {
+      const area = {
+        get: async () => ({}),
+        set: async () => {
+          throw new Error('QUOTA_BYTES quota exceeded');
+        },
+      };
+      setStorageAdapter(new ChromeStorageAdapter(area));
+
+      await expect(addCollection({ name: 'Full', goal: 'Testing' })).rejects.toThrow(
+        QuotaExceededError
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type {
+  AdapterTransaction,
+  KeyQuery,
+  StorageAdapter,
+  StoreIndexKey,
+  StoreIndexName,
+  StoreName,
+  StorePrimaryKey,
+  StoreRecord,
+  TransactionMode,
+} from './types';
+
+/**
+ * Adapter whose one-request helpers run in a transaction of their own, like idb's
+ */
+export abstract class BaseStorageAdapter implements StorageAdapter {
+  abstract open(): Promise<void>;
+
+  abstract close(): void;
+
+  abstract transaction<Names extends StoreName>(
+    stores: Names | Names[],
+    mode?: TransactionMode
+  ): AdapterTransaction<Names>;
+
+  get<Name extends StoreName>(
+    store: Name,
+    query: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<StoreRecord<Name> | undefined> {
+    return this.transaction(store).store.get(query);
+  }
+
+  getAll<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    count?: number
+  ): Promise<StoreRecord<Name>[]> {
+    return this.transaction(store).store.getAll(query, count);
+  }
+
+  getAllKeys<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]> {
+    return this.transaction(store).store.getAllKeys(query, count);
+  }
+
+  getAllFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    count?: number
+  ): Promise<StoreRecord<Name>[]> {
+    return this.transaction(store).store.index(index).getAll(query, count);
+  }
+
+  getAllKeysFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]> {
+    return this.transaction(store).store.index(index).getAllKeys(query, count);
+  }
+
+  count<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<number> {
+    return this.transaction(store).store.count(query);
+  }
+
+  countFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>
+  ): Promise<number> {
+    return this.transaction(store).store.index(index).count(query);
+  }
+
+  // Writes resolve once committed
+  async put<Name extends StoreName>(
+    store: Name,
+    value: StoreRecord<Name>,
+    key?: StorePrimaryKey<Name>
+  ): Promise<StorePrimaryKey<Name>> {
+    const tx = this.transaction(store, 'readwrite');
+    const [result] = await Promise.all([tx.store.put(value, key), tx.done]);
+    return result;
+  }
+
+  async delete<Name extends StoreName>(
+    store: Name,
+    query: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<void> {
+    const tx = this.transaction(store, 'readwrite');
+    await Promise.all([tx.store.delete(query), tx.done]);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    const tx = this.transaction(store, 'readwrite');
+    await Promise.all([tx.store.clear(), tx.done]);
+  }
+}
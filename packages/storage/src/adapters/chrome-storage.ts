@@ -0,0 +1,65 @@
+import { STORE_LAYOUT } from '../db/schema';
+import { DatabaseInitError } from '../errors/storage-error';
+import { MemoryAdapter, type StoreDump } from './memory';
+import type { StoreName } from './types';
+
+/**
+ * The part of chrome.storage.StorageArea the adapter uses
+ */
+export interface ChromeStorageArea {
+  get(keys: string[]): Promise<Record<string, unknown>>;
+  set(items: Record<string, unknown>): Promise<void>;
+}
+
+/**
+ * Prefix of the chrome.storage keys stores are saved under, one key per store
+ */
+export const CHROME_STORAGE_PREFIX = 'wiserpin-db:';
+
+/**
+ * Storage in chrome.storage.local, for extension contexts without IndexedDB
+ *
+ * Records are held in memory like the memory adapter, loaded on `open()`.
+ * Each commit saves the stores it wrote, in one `set` call, before it
+ * completes; a failed save rolls the transaction back. Every commit rewrites
+ * whole stores, so this suits libraries of a few thousand pins.
+ */
+export class ChromeStorageAdapter extends MemoryAdapter {
+  private readonly area: ChromeStorageArea | undefined;
+
+  constructor(area?: ChromeStorageArea) {
+    super();
+    this.area = area ?? (typeof chrome !== 'undefined' ? chrome.storage?.local : undefined);
+  }
+
+  async open(): Promise<void> {
+    const area = this.storageArea();
+    try {
+      const names = Object.keys(STORE_LAYOUT) as StoreName[];
+      const saved = await area.get(names.map((name) => CHROME_STORAGE_PREFIX + name));
+      for (const name of names) {
+        const dump = saved[CHROME_STORAGE_PREFIX + name];
+        if (Array.isArray(dump)) {
+          this.loadStore(name, dump as StoreDump);
+        }
+      }
+    } catch (error) {
+      throw new DatabaseInitError('Failed to load data from chrome.storage', error);
+    }
+  }
+
+  protected async persist(names: StoreName[]): Promise<void> {
+    const items: Record<string, unknown> = {};
+    for (const name of names) {
+      items[CHROME_STORAGE_PREFIX + name] = this.dumpStore(name);
+    }
+    await this.storageArea().set(items);
+  }
+
+  private storageArea(): ChromeStorageArea {
+    if (!this.area) {
+      throw new DatabaseInitError('chrome.storage.local is not available');
+    }
+    return this.area;
+  }
+}
@@ -0,0 +1,160 @@
+import type { IDBPDatabase } from 'idb';
+import { initDB, type WiserPinDB } from '../db/schema';
+import { DatabaseInitError } from '../errors/storage-error';
+import { BaseStorageAdapter } from './base';
+import { isKeyRange } from './keys';
+import type {
+  AdapterCursor,
+  AdapterIndex,
+  AdapterStore,
+  AdapterTransaction,
+  CursorDirection,
+  KeyQuery,
+  StoreIndexName,
+  StoreName,
+  StorePrimaryKey,
+  StoreRecord,
+  TransactionMode,
+} from './types';
+
+/**
+ * The parts of idb's stores, indexes and cursors the adapter forwards to,
+ * with queries already converted
+ */
+interface IDBCursorLike {
+  key: unknown;
+  primaryKey: unknown;
+  value: unknown;
+  continue(): Promise<IDBCursorLike | null>;
+  advance(count: number): Promise<IDBCursorLike | null>;
+  update(value: unknown): Promise<unknown>;
+  delete(): Promise<void>;
+}
+
+interface IDBSourceLike {
+  get(query: unknown): Promise<unknown>;
+  getAll(query?: unknown, count?: number): Promise<unknown[]>;
+  getAllKeys(query?: unknown, count?: number): Promise<unknown[]>;
+  count(query?: unknown): Promise<number>;
+  openCursor(query?: unknown, direction?: CursorDirection): Promise<IDBCursorLike | null>;
+}
+
+interface IDBStoreLike extends IDBSourceLike {
+  add(value: unknown, key?: unknown): Promise<unknown>;
+  put(value: unknown, key?: unknown): Promise<unknown>;
+  delete(query: unknown): Promise<void>;
+  clear(): Promise<void>;
+  index(name: string): IDBSourceLike;
+}
+
+interface IDBTransactionLike {
+  mode: string;
+  done: Promise<void>;
+  objectStore(name: string): IDBStoreLike;
+  abort(): void;
+}
+
+function toIDBQuery(query: KeyQuery<unknown>): unknown {
+  if (!isKeyRange(query)) {
+    return query ?? undefined;
+  }
+  if (query.lower !== undefined && query.upper !== undefined) {
+    return IDBKeyRange.bound(query.lower, query.upper, query.lowerOpen, query.upperOpen);
+  }
+  if (query.lower !== undefined) {
+    return IDBKeyRange.lowerBound(query.lower, query.lowerOpen);
+  }
+  if (query.upper !== undefined) {
+    return IDBKeyRange.upperBound(query.upper, query.upperOpen);
+  }
+  return undefined;
+}
+
+function wrapCursor(cursor: IDBCursorLike | null): AdapterCursor<StoreName> | null {
+  if (!cursor) {
+    return null;
+  }
+  return {
+    key: cursor.key,
+    primaryKey: cursor.primaryKey as StorePrimaryKey<StoreName>,
+    value: cursor.value as StoreRecord<StoreName>,
+    continue: () => cursor.continue().then(wrapCursor),
+    advance: (count) => cursor.advance(count).then(wrapCursor),
+    update: async (value) => {
+      await cursor.update(value);
+    },
+    delete: () => cursor.delete(),
+  };
+}
+
+/**
+ * Methods of a store or index; wrapStore gives them the types of the store
+ */
+function wrapSource(source: IDBSourceLike) {
+  return {
+    get: (query: KeyQuery<unknown>) => source.get(toIDBQuery(query)),
+    getAll: (query?: KeyQuery<unknown>, count?: number) =>
+      source.getAll(toIDBQuery(query), count),
+    getAllKeys: (query?: KeyQuery<unknown>, count?: number) =>
+      source.getAllKeys(toIDBQuery(query), count),
+    count: (query?: KeyQuery<unknown>) => source.count(toIDBQuery(query)),
+    openCursor: (query?: KeyQuery<unknown>, direction?: CursorDirection) =>
+      source.openCursor(toIDBQuery(query), direction).then(wrapCursor),
+  };
+}
+
+function wrapStore<Name extends StoreName>(store: IDBStoreLike): AdapterStore<Name> {
+  const wrapped = {
+    ...wrapSource(store),
+    add: (value: unknown, key?: unknown) => store.add(value, key),
+    put: (value: unknown, key?: unknown) => store.put(value, key),
+    delete: (query: KeyQuery<unknown>) => store.delete(toIDBQuery(query)),
+    clear: () => store.clear(),
+    index: <Index extends StoreIndexName<Name>>(name: Index) =>
+      wrapSource(store.index(name as string)) as unknown as AdapterIndex<Name, Index>,
+  };
+  return wrapped as unknown as AdapterStore<Name>;
+}
+
+/**
+ * Storage in the browser's IndexedDB, through idb; the database is opened,
+ * and migrated, on `open()`
+ */
+export class IndexedDBAdapter extends BaseStorageAdapter {
+  private db: IDBPDatabase<WiserPinDB> | null = null;
+
+  async open(): Promise<void> {
+    if (!this.db) {
+      this.db = await initDB();
+    }
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  transaction<Names extends StoreName>(
+    stores: Names | Names[],
+    mode: TransactionMode = 'readonly'
+  ): AdapterTransaction<Names> {
+    if (!this.db) {
+      throw new DatabaseInitError('IndexedDB adapter is not open');
+    }
+
+    const names = Array.isArray(stores) ? stores : [stores];
+    const tx = this.db.transaction(names, mode) as unknown as IDBTransactionLike;
+    const [first] = names;
+    return {
+      mode,
+      done: tx.done,
+      get store() {
+        return wrapStore<Names>(tx.objectStore(first as string));
+      },
+      objectStore: <Name extends Names>(name: Name) => wrapStore<Name>(tx.objectStore(name)),
+      abort: () => tx.abort(),
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import type { KeyQuery, KeyRange } from './types';
+
+/**
+ * Key types in IndexedDB order: numbers sort before dates, before strings,
+ * before arrays
+ */
+function keyTypeRank(key: unknown): number {
+  if (typeof key === 'number') return 0;
+  if (key instanceof Date) return 1;
+  if (typeof key === 'string') return 2;
+  return 3;
+}
+
+/**
+ * Whether a value can be a key: a number, valid date, string, or array of keys
+ */
+export function isValidKey(key: unknown): boolean {
+  if (typeof key === 'number') return !Number.isNaN(key);
+  if (typeof key === 'string') return true;
+  if (key instanceof Date) return !Number.isNaN(key.getTime());
+  return Array.isArray(key) && key.every(isValidKey);
+}
+
+/**
+ * Compare two valid keys the way IndexedDB orders them
+ */
+export function compareKeys(a: unknown, b: unknown): number {
+  const rankA = keyTypeRank(a);
+  const rankB = keyTypeRank(b);
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const order = compareKeys(a[i], b[i]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return a.length - b.length;
+  }
+
+  const valueA = a instanceof Date ? a.getTime() : (a as string | number);
+  const valueB = b instanceof Date ? b.getTime() : (b as string | number);
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+}
+
+/**
+ * Build a key range; a bound left undefined is unbounded
+ */
+export function keyRange(
+  lower: unknown,
+  upper: unknown,
+  lowerOpen = false,
+  upperOpen = false
+): KeyRange {
+  return { lower, upper, lowerOpen, upperOpen };
+}
+
+export function isKeyRange(query: unknown): query is KeyRange {
+  return (
+    typeof query === 'object' &&
+    query !== null &&
+    !Array.isArray(query) &&
+    !(query instanceof Date) &&
+    'lowerOpen' in query
+  );
+}
+
+/**
+ * Whether a key matches a query: equals the key, lies in the range, or any
+ * key when there is no query
+ */
+export function matchesQuery(key: unknown, query: KeyQuery<unknown>): boolean {
+  if (query === null || query === undefined) {
+    return true;
+  }
+  if (!isKeyRange(query)) {
+    return compareKeys(key, query) === 0;
+  }
+
+  if (query.lower !== undefined) {
+    const order = compareKeys(key, query.lower);
+    if (order < 0 || (order === 0 && query.lowerOpen)) {
+      return false;
+    }
+  }
+  if (query.upper !== undefined) {
+    const order = compareKeys(key, query.upper);
+    if (order > 0 || (order === 0 && query.upperOpen)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Read the key at a key path ('page.url', or an array of paths for a
+ * compound key), or undefined when the record has no valid key there
+ */
+export function extractKey(value: unknown, keyPath: string | string[]): unknown {
+  if (Array.isArray(keyPath)) {
+    const parts = keyPath.map((path) => extractKey(value, path));
+    return parts.every((part) => part !== undefined) ? parts : undefined;
+  }
+
+  let current = value;
+  for (const segment of keyPath.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return isValidKey(current) ? current : undefined;
+}
@@ -0,0 +1,537 @@
+import { STORE_LAYOUT, type KeyPath, type StoreLayout } from '../db/schema';
+import { TransactionError } from '../errors/storage-error';
+import { BaseStorageAdapter } from './base';
+import { compareKeys, extractKey, isKeyRange, isValidKey, matchesQuery } from './keys';
+import type {
+  AdapterStore,
+  AdapterTransaction,
+  CursorDirection,
+  KeyQuery,
+  StoreName,
+  TransactionMode,
+} from './types';
+
+// Kept before tests can swap in fake timers, which would stop transactions from committing
+const scheduleTask = (task: () => void) => setTimeout(task, 0);
+
+/**
+ * A record, or a record seen through an index (`key` is then the index key)
+ */
+interface Entry {
+  key: unknown;
+  primaryKey: unknown;
+  value: unknown;
+}
+
+/**
+ * Stored records of a store, saved as [key, record] pairs
+ */
+export type StoreDump = [unknown, unknown][];
+
+function compareEntries(a: Entry, b: Entry): number {
+  return compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey);
+}
+
+/**
+ * Records of one store, sorted by key, with its indexes computed on demand
+ */
+class MemoryStore {
+  private entries: Entry[] = [];
+  // Bumped on every write, to know when cached index orders are stale
+  private version = 0;
+  private indexCache = new Map<string, { version: number; entries: Entry[] }>();
+
+  constructor(readonly layout: StoreLayout) {}
+
+  /** Position of `key`, or where it would be inserted */
+  private locate(key: unknown): { position: number; found: boolean } {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const order = compareKeys(this.entries[middle]!.key, key);
+      if (order === 0) {
+        return { position: middle, found: true };
+      }
+      if (order < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return { position: low, found: false };
+  }
+
+  get(key: unknown): Entry | undefined {
+    const { position, found } = this.locate(key);
+    return found ? this.entries[position] : undefined;
+  }
+
+  /** Write or remove the record at `key`, returning the one it replaces */
+  set(key: unknown, value: unknown | undefined): Entry | undefined {
+    const { position, found } = this.locate(key);
+    const previous = found ? this.entries[position] : undefined;
+    const entry = { key, primaryKey: key, value };
+
+    if (value === undefined) {
+      if (found) {
+        this.entries.splice(position, 1);
+      }
+    } else if (found) {
+      this.entries[position] = entry;
+    } else {
+      this.entries.splice(position, 0, entry);
+    }
+    this.version++;
+    return previous;
+  }
+
+  /** Records in key order, or those of an index in index key order */
+  ordered(index?: string): Entry[] {
+    if (index === undefined) {
+      return this.entries;
+    }
+
+    const cached = this.indexCache.get(index);
+    if (cached && cached.version === this.version) {
+      return cached.entries;
+    }
+
+    const keyPath = this.layout.indexes[index] as KeyPath;
+    const entries = this.entries
+      .map((entry) => ({ ...entry, key: extractKey(entry.value, keyPath) }))
+      .filter((entry) => entry.key !== undefined)
+      .sort(compareEntries);
+    this.indexCache.set(index, { version: this.version, entries });
+    return entries;
+  }
+
+  load(dump: StoreDump): void {
+    this.entries = dump
+      .map(([key, value]) => ({ key, primaryKey: key, value }))
+      .sort(compareEntries);
+    this.version++;
+  }
+
+  dump(): StoreDump {
+    return this.entries.map((entry) => [entry.key, entry.value]);
+  }
+}
+
+/**
+ * What transactions of a memory adapter read and write
+ */
+interface MemoryBackend {
+  store(name: StoreName): MemoryStore;
+  /** Save the stores a transaction wrote before it commits; rejecting rolls it back */
+  persist(names: StoreName[]): Promise<void>;
+}
+
+/**
+ * Next entry after `from` in `direction` matching the query, or the first one
+ * when there is no position yet
+ */
+function seek(
+  entries: Entry[],
+  query: KeyQuery<unknown>,
+  direction: CursorDirection,
+  from?: Entry
+): Entry | undefined {
+  const step = direction === 'next' ? 1 : -1;
+  let low = 0;
+  let high = entries.length;
+  if (from) {
+    // First entry past `from` in ascending order
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const order = compareEntries(entries[middle]!, from);
+      if (order < 0 || (order === 0 && direction === 'next')) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+  }
+
+  let position = direction === 'next' ? (from ? low : 0) : (from ? low : entries.length) - 1;
+  for (; position >= 0 && position < entries.length; position += step) {
+    const entry = entries[position]!;
+    if (matchesQuery(entry.key, query)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Transaction over the stores of a memory adapter, rolled back from an undo log
+ */
+class MemoryTransaction<Names extends StoreName> implements AdapterTransaction<Names> {
+  readonly done: Promise<void>;
+  /** Settles when the transaction commits or aborts, whichever it is */
+  readonly finished: Promise<void>;
+  private state: 'active' | 'committing' | 'finished' = 'active';
+  private pending = 0;
+  private requests = 0;
+  private undo: (() => void)[] = [];
+  private written = new Set<StoreName>();
+  private resolveDone!: () => void;
+  private rejectDone!: (error: unknown) => void;
+
+  constructor(
+    readonly backend: MemoryBackend,
+    readonly names: Names[],
+    readonly mode: TransactionMode,
+    private readonly started: Promise<void>
+  ) {
+    this.done = new Promise<void>((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    this.finished = this.done.catch(() => {});
+    this.started.then(() => this.scheduleCommit());
+  }
+
+  get store(): AdapterStore<Names> {
+    return this.objectStore(this.names[0]!);
+  }
+
+  objectStore<Name extends Names>(name: Name): AdapterStore<Name> {
+    if (!this.names.includes(name)) {
+      throw new TransactionError(`Store '${name}' is not in the transaction`);
+    }
+    const tx = this as unknown as MemoryTransaction<StoreName>;
+    return new MemoryStoreHandle<Name>(tx, name) as unknown as AdapterStore<Name>;
+  }
+
+  abort(): void {
+    if (this.state !== 'active') {
+      throw new TransactionError('Transaction has already finished');
+    }
+    this.fail(new TransactionError('Transaction was aborted'));
+  }
+
+  /**
+   * Run a request once the transaction has started, in the order requests were made
+   */
+  request<T>(run: () => T): Promise<T> {
+    if (this.state !== 'active') {
+      return Promise.reject(new TransactionError('Transaction is no longer active'));
+    }
+
+    this.pending++;
+    this.requests++;
+    return this.started
+      .then(() => {
+        if (this.state !== 'active') {
+          throw new TransactionError('Transaction was aborted');
+        }
+        try {
+          return run();
+        } catch (error) {
+          this.fail(error);
+          throw error;
+        }
+      })
+      .finally(() => {
+        this.pending--;
+        this.scheduleCommit();
+      });
+  }
+
+  /** Write a record, or remove it with `value` undefined, keeping the undo step */
+  write(name: StoreName, key: unknown, value: unknown | undefined): void {
+    const store = this.backend.store(name);
+    const previous = store.set(key, value === undefined ? undefined : structuredClone(value));
+    this.undo.push(() => store.set(key, previous?.value));
+    this.written.add(name);
+  }
+
+  /**
+   * Commit once no request is in flight and none was made during a whole task,
+   * as IndexedDB does
+   */
+  private scheduleCommit(): void {
+    const requests = this.requests;
+    scheduleTask(() => {
+      if (this.state === 'active' && this.pending === 0 && this.requests === requests) {
+        void this.commit();
+      }
+    });
+  }
+
+  private async commit(): Promise<void> {
+    this.state = 'committing';
+    try {
+      if (this.written.size > 0) {
+        await this.backend.persist([...this.written]);
+      }
+    } catch (error) {
+      this.rollBack();
+      this.state = 'finished';
+      this.rejectDone(error);
+      return;
+    }
+    this.state = 'finished';
+    this.resolveDone();
+  }
+
+  private fail(error: unknown): void {
+    this.rollBack();
+    this.state = 'finished';
+    this.rejectDone(error);
+  }
+
+  private rollBack(): void {
+    for (const step of this.undo.reverse()) {
+      step();
+    }
+    this.undo = [];
+  }
+}
+
+/**
+ * Cursor over the records of a store or index, following later writes
+ */
+class MemoryCursor<Name extends StoreName> {
+  constructor(
+    private readonly handle: MemoryStoreHandle<Name>,
+    private readonly index: string | undefined,
+    private readonly query: KeyQuery<unknown>,
+    private readonly direction: CursorDirection,
+    private entry: Entry
+  ) {}
+
+  get key(): unknown {
+    return structuredClone(this.entry.key);
+  }
+
+  get primaryKey(): unknown {
+    return structuredClone(this.entry.primaryKey);
+  }
+
+  get value(): unknown {
+    return structuredClone(this.entry.value);
+  }
+
+  continue(): Promise<MemoryCursor<Name> | null> {
+    return this.advance(1);
+  }
+
+  advance(count: number): Promise<MemoryCursor<Name> | null> {
+    return this.handle.tx.request(() => {
+      const entries = this.handle.memoryStore().ordered(this.index);
+      for (let i = 0; i < count; i++) {
+        const next = seek(entries, this.query, this.direction, this.entry);
+        if (!next) {
+          return null;
+        }
+        this.entry = next;
+      }
+      return this;
+    });
+  }
+
+  update(value: unknown): Promise<void> {
+    return this.handle.put(value as never).then(() => undefined);
+  }
+
+  delete(): Promise<void> {
+    return this.handle.delete(this.entry.primaryKey as never);
+  }
+}
+
+/**
+ * Store or index of a memory transaction
+ */
+class MemoryStoreHandle<Name extends StoreName> {
+  constructor(
+    readonly tx: MemoryTransaction<StoreName>,
+    private readonly name: Name,
+    private readonly indexName?: string
+  ) {}
+
+  memoryStore(): MemoryStore {
+    return this.tx.backend.store(this.name);
+  }
+
+  private checkWritable(): Promise<never> | undefined {
+    return this.tx.mode === 'readwrite'
+      ? undefined
+      : Promise.reject(new TransactionError('Transaction is readonly'));
+  }
+
+  private matching(query: KeyQuery<unknown>, count?: number): Entry[] {
+    // A primary key is looked up rather than scanned for
+    const single = query !== null && query !== undefined && !isKeyRange(query);
+    if (this.indexName === undefined && single) {
+      const entry = this.memoryStore().get(query);
+      return entry ? [entry] : [];
+    }
+
+    const entries = this.memoryStore().ordered(this.indexName);
+    const matches: Entry[] = [];
+    for (const entry of entries) {
+      if (count !== undefined && count > 0 && matches.length >= count) {
+        break;
+      }
+      if (matchesQuery(entry.key, query)) {
+        matches.push(entry);
+      }
+    }
+    return matches;
+  }
+
+  get(query: KeyQuery<unknown>): Promise<unknown> {
+    return this.tx.request(() => {
+      const [entry] = this.matching(query, 1);
+      return entry ? structuredClone(entry.value) : undefined;
+    });
+  }
+
+  getAll(query?: KeyQuery<unknown>, count?: number): Promise<unknown[]> {
+    return this.tx.request(() => this.matching(query, count).map((entry) => structuredClone(entry.value)));
+  }
+
+  getAllKeys(query?: KeyQuery<unknown>, count?: number): Promise<unknown[]> {
+    return this.tx.request(() =>
+      this.matching(query, count).map((entry) => structuredClone(entry.primaryKey))
+    );
+  }
+
+  count(query?: KeyQuery<unknown>): Promise<number> {
+    return this.tx.request(() => this.matching(query).length);
+  }
+
+  openCursor(
+    query?: KeyQuery<unknown>,
+    direction: CursorDirection = 'next'
+  ): Promise<MemoryCursor<Name> | null> {
+    return this.tx.request(() => {
+      const entry = seek(this.memoryStore().ordered(this.indexName), query, direction);
+      return entry ? new MemoryCursor(this, this.indexName, query, direction, entry) : null;
+    });
+  }
+
+  add(value: unknown, key?: unknown): Promise<unknown> {
+    return this.write(value, key, false);
+  }
+
+  put(value: unknown, key?: unknown): Promise<unknown> {
+    return this.write(value, key, true);
+  }
+
+  private write(value: unknown, key: unknown, overwrite: boolean): Promise<unknown> {
+    return this.checkWritable() ?? this.tx.request(() => {
+      const store = this.memoryStore();
+      const { layout } = store;
+      const primaryKey = layout.keyPath === undefined ? key : extractKey(value, layout.keyPath);
+      if (!isValidKey(primaryKey)) {
+        throw new TransactionError(`Record of '${this.name}' has no valid key`);
+      }
+      if (!overwrite && store.get(primaryKey)) {
+        throw new TransactionError(`Key already exists in '${this.name}'`);
+      }
+      this.tx.write(this.name, primaryKey, value);
+      return structuredClone(primaryKey);
+    });
+  }
+
+  delete(query: KeyQuery<unknown>): Promise<void> {
+    return this.checkWritable() ?? this.tx.request(() => {
+      const keys = isKeyRange(query)
+        ? this.matching(query).map((entry) => entry.primaryKey)
+        : [query];
+      for (const key of keys) {
+        this.tx.write(this.name, key, undefined);
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.delete({ lowerOpen: false, upperOpen: false });
+  }
+
+  index(name: string): MemoryStoreHandle<Name> {
+    if (!(name in this.memoryStore().layout.indexes)) {
+      throw new TransactionError(`Store '${this.name}' has no index '${name}'`);
+    }
+    return new MemoryStoreHandle(this.tx, this.name, name);
+  }
+}
+
+/**
+ * Storage in memory, for Node scripts, tests and contexts without IndexedDB
+ *
+ * Records are copied in and out like IndexedDB's structured clones, so
+ * callers never share objects with the store. Nothing outlives the adapter.
+ */
+export class MemoryAdapter extends BaseStorageAdapter {
+  private readonly stores = new Map<StoreName, MemoryStore>();
+  private readonly live = new Set<MemoryTransaction<StoreName>>();
+  private readonly backend: MemoryBackend = {
+    store: (name) => this.memoryStore(name),
+    persist: (names) => this.persist(names),
+  };
+
+  constructor() {
+    super();
+    for (const [name, layout] of Object.entries(STORE_LAYOUT)) {
+      this.stores.set(name as StoreName, new MemoryStore(layout));
+    }
+  }
+
+  async open(): Promise<void> {}
+
+  close(): void {}
+
+  transaction<Names extends StoreName>(
+    stores: Names | Names[],
+    mode: TransactionMode = 'readonly'
+  ): AdapterTransaction<Names> {
+    const names: StoreName[] = Array.isArray(stores) ? stores : [stores];
+    for (const name of names) {
+      this.memoryStore(name);
+    }
+
+    // Wait for earlier transactions over the same stores, unless both only read
+    const blockers = [...this.live].filter(
+      (tx) =>
+        (mode === 'readwrite' || tx.mode === 'readwrite') &&
+        tx.names.some((name) => names.includes(name))
+    );
+    const tx = new MemoryTransaction(
+      this.backend,
+      names,
+      mode,
+      Promise.all(blockers.map((blocker) => blocker.finished)).then(() => {})
+    );
+    this.live.add(tx);
+    tx.finished.then(() => this.live.delete(tx));
+    return tx as unknown as AdapterTransaction<Names>;
+  }
+
+  /**
+   * Save the stores a transaction wrote, before it commits; the transaction is
+   * rolled back if this rejects
+   */
+  protected async persist(_names: StoreName[]): Promise<void> {}
+
+  /** Replace the records of a store */
+  protected loadStore(name: StoreName, dump: StoreDump): void {
+    this.memoryStore(name).load(dump);
+  }
+
+  /** The records of a store */
+  protected dumpStore(name: StoreName): StoreDump {
+    return this.memoryStore(name).dump();
+  }
+
+  private memoryStore(name: StoreName): MemoryStore {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw new TransactionError(`No store named '${name}'`);
+    }
+    return store;
+  }
+}
@@ -0,0 +1,184 @@
+import type { IndexKey, IndexNames, StoreKey, StoreNames, StoreValue } from 'idb';
+import type { WiserPinDB } from '../db/schema';
+
+/**
+ * Name of an object store
+ */
+export type StoreName = StoreNames<WiserPinDB>;
+
+/**
+ * Record of a store
+ */
+export type StoreRecord<Name extends StoreName> = StoreValue<WiserPinDB, Name>;
+
+/**
+ * Primary key of a store
+ */
+export type StorePrimaryKey<Name extends StoreName> = StoreKey<WiserPinDB, Name>;
+
+/**
+ * Name of an index of a store
+ */
+export type StoreIndexName<Name extends StoreName> = IndexNames<WiserPinDB, Name>;
+
+/**
+ * Key of an index of a store
+ */
+export type StoreIndexKey<
+  Name extends StoreName,
+  Index extends StoreIndexName<Name>,
+> = IndexKey<WiserPinDB, Name, Index>;
+
+/**
+ * Range of keys, with the meaning of an IDBKeyRange: a missing bound is
+ * unbounded, an open bound excludes its key
+ */
+export interface KeyRange {
+  lower?: unknown;
+  upper?: unknown;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+/**
+ * Records a read matches: those with the key, those in the range, or all of them
+ */
+export type KeyQuery<Key> = Key | KeyRange | null | undefined;
+
+export type TransactionMode = 'readonly' | 'readwrite';
+
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * Position in a store or index, moving over the records in key order
+ */
+export interface AdapterCursor<Name extends StoreName> {
+  readonly key: unknown;
+  readonly primaryKey: StorePrimaryKey<Name>;
+  readonly value: StoreRecord<Name>;
+  continue(): Promise<AdapterCursor<Name> | null>;
+  advance(count: number): Promise<AdapterCursor<Name> | null>;
+  update(value: StoreRecord<Name>): Promise<void>;
+  delete(): Promise<void>;
+}
+
+/**
+ * Index of a store in a transaction, its records ordered by index key, then
+ * primary key. Records without a valid index key are left out.
+ */
+export interface AdapterIndex<Name extends StoreName, Index extends StoreIndexName<Name>> {
+  get(query: KeyQuery<StoreIndexKey<Name, Index>>): Promise<StoreRecord<Name> | undefined>;
+  getAll(query?: KeyQuery<StoreIndexKey<Name, Index>>, count?: number): Promise<StoreRecord<Name>[]>;
+  getAllKeys(
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]>;
+  count(query?: KeyQuery<StoreIndexKey<Name, Index>>): Promise<number>;
+  openCursor(
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    direction?: CursorDirection
+  ): Promise<AdapterCursor<Name> | null>;
+}
+
+/**
+ * Object store in a transaction, its records ordered by primary key
+ */
+export interface AdapterStore<Name extends StoreName> {
+  get(query: KeyQuery<StorePrimaryKey<Name>>): Promise<StoreRecord<Name> | undefined>;
+  getAll(query?: KeyQuery<StorePrimaryKey<Name>>, count?: number): Promise<StoreRecord<Name>[]>;
+  getAllKeys(
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]>;
+  count(query?: KeyQuery<StorePrimaryKey<Name>>): Promise<number>;
+  /** Like put, but fails, aborting the transaction, when the key is taken */
+  add(value: StoreRecord<Name>, key?: StorePrimaryKey<Name>): Promise<StorePrimaryKey<Name>>;
+  put(value: StoreRecord<Name>, key?: StorePrimaryKey<Name>): Promise<StorePrimaryKey<Name>>;
+  delete(query: KeyQuery<StorePrimaryKey<Name>>): Promise<void>;
+  clear(): Promise<void>;
+  index<Index extends StoreIndexName<Name>>(name: Index): AdapterIndex<Name, Index>;
+  openCursor(
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    direction?: CursorDirection
+  ): Promise<AdapterCursor<Name> | null>;
+}
+
+/**
+ * Transaction over some stores, with the semantics of an IndexedDB one
+ *
+ * Requests run in order. The transaction commits once its last request has
+ * completed and no new one was made in that task, so `work` must only await
+ * requests of the transaction. A failed request or `abort()` rolls back every
+ * write and rejects `done`. Transactions whose stores overlap run one after
+ * the other, in the order they were created, unless both are readonly.
+ */
+export interface AdapterTransaction<Names extends StoreName> {
+  readonly mode: TransactionMode;
+  /** The store of a transaction over a single store */
+  readonly store: AdapterStore<Names>;
+  readonly done: Promise<void>;
+  objectStore<Name extends Names>(name: Name): AdapterStore<Name>;
+  abort(): void;
+}
+
+/**
+ * Backend storage operations read and write through
+ *
+ * Adapters have the stores and indexes of STORE_LAYOUT and behave the same,
+ * which the adapter conformance suite checks; the one-request helpers run in
+ * a transaction of their own.
+ */
+export interface StorageAdapter {
+  /** Open the backend; called before the adapter is handed out */
+  open(): Promise<void>;
+  close(): void;
+  transaction<Names extends StoreName>(
+    stores: Names | Names[],
+    mode?: TransactionMode
+  ): AdapterTransaction<Names>;
+  get<Name extends StoreName>(
+    store: Name,
+    query: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<StoreRecord<Name> | undefined>;
+  getAll<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    count?: number
+  ): Promise<StoreRecord<Name>[]>;
+  getAllKeys<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]>;
+  getAllFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    count?: number
+  ): Promise<StoreRecord<Name>[]>;
+  getAllKeysFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>,
+    count?: number
+  ): Promise<StorePrimaryKey<Name>[]>;
+  count<Name extends StoreName>(
+    store: Name,
+    query?: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<number>;
+  countFromIndex<Name extends StoreName, Index extends StoreIndexName<Name>>(
+    store: Name,
+    index: Index,
+    query?: KeyQuery<StoreIndexKey<Name, Index>>
+  ): Promise<number>;
+  put<Name extends StoreName>(
+    store: Name,
+    value: StoreRecord<Name>,
+    key?: StorePrimaryKey<Name>
+  ): Promise<StorePrimaryKey<Name>>;
+  delete<Name extends StoreName>(
+    store: Name,
+    query: KeyQuery<StorePrimaryKey<Name>>
+  ): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+}
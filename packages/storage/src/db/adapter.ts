@@ -0,0 +1,85 @@
+import { StorageEventType } from '@wiserpin/core';
+import { IndexedDBAdapter } from '../adapters/indexeddb';
+import type { StorageAdapter } from '../adapters/types';
+import { STORES } from './schema';
+import { emitStorageEvent } from '../events/storage-events';
+
+/**
+ * Adapter storage operations go through (singleton pattern)
+ */
+let adapter: StorageAdapter | null = null;
+let opened: Promise<void> | null = null;
+
+/**
+ * Make storage operations use `adapter` from now on, e.g. a MemoryAdapter in
+ * Node scripts; without an adapter set, IndexedDB is used
+ */
+export function setStorageAdapter(next: StorageAdapter): void {
+  closeDB();
+  adapter = next;
+}
+
+/**
+ * Get the storage adapter, opened
+ */
+export async function getDB(): Promise<StorageAdapter> {
+  if (!adapter) {
+    adapter = new IndexedDBAdapter();
+  }
+  if (!opened) {
+    opened = adapter.open().catch((error) => {
+      opened = null;
+      throw error;
+    });
+  }
+  await opened;
+  return adapter;
+}
+
+/**
+ * Close database connection; the next operation opens IndexedDB again, or
+ * the adapter set after this
+ */
+export function closeDB(): void {
+  if (adapter) {
+    adapter.close();
+    adapter = null;
+  }
+  opened = null;
+}
+
+/**
+ * Clear all data from the database, then tell open views with a single
+ * DATA_CLEARED event rather than one deletion event per record
+ */
+export async function clearAllData(): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(
+    [
+      STORES.COLLECTIONS,
+      STORES.PINS,
+      STORES.TOMBSTONES,
+      STORES.OUTBOX,
+      STORES.SEARCH_INDEX,
+      STORES.TRASHED_COLLECTIONS,
+      STORES.TRASHED_PINS,
+      STORES.PIN_REVISIONS,
+    ],
+    'readwrite'
+  );
+
+  await Promise.all([
+    tx.objectStore(STORES.COLLECTIONS).clear(),
+    tx.objectStore(STORES.PINS).clear(),
+    tx.objectStore(STORES.TOMBSTONES).clear(),
+    tx.objectStore(STORES.OUTBOX).clear(),
+    tx.objectStore(STORES.SEARCH_INDEX).clear(),
+    tx.objectStore(STORES.TRASHED_COLLECTIONS).clear(),
+    tx.objectStore(STORES.TRASHED_PINS).clear(),
+    tx.objectStore(STORES.PIN_REVISIONS).clear(),
+    tx.done,
+  ]);
+
+  emitStorageEvent(StorageEventType.DATA_CLEARED, {});
+  console.log('[WiserPin DB] All data cleared');
+}
@@ -0,0 +1,24 @@
+import { keyRange } from '../adapters/keys';
+import type { KeyRange } from '../adapters/types';
+
+/**
+ * Range of the keys strictly before `key`
+ */
+export function beforeRange(key: string): KeyRange {
+  return keyRange(undefined, key, false, true);
+}
+
+/**
+ * Range of the compound keys whose first part is `first`, whatever the rest
+ */
+export function firstPartRange(first: string): KeyRange {
+  // Arrays sort after every other key type, so [first, []] is past all [first, *]
+  return keyRange([first], [first, []]);
+}
+
+/**
+ * Range of the compound keys whose first part starts with `prefix`
+ */
+export function firstPartPrefixRange(prefix: string): KeyRange {
+  return keyRange([prefix], [prefix + '\uffff']);
+}
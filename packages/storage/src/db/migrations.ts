@@ -0,0 +1,181 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { SyncEntity, SyncOperation } from '@wiserpin/core';
+import { DEFAULT_SETTINGS } from '@wiserpin/core';
+import { STORES, type WiserPinDB } from './schema';
+import { indexPin } from '../search/search-index';
+
+type UpgradeTransaction = IDBPTransaction<WiserPinDB, StoreNames<WiserPinDB>[], 'versionchange'>;
+
+/**
+ * One step of the database schema history
+ *
+ * Steps run in order inside the upgrade transaction, each one bringing the
+ * database from `version - 1` to `version`. A step must carry existing data
+ * over (transform records, rebuild indexes) rather than drop stores, and may
+ * only await IndexedDB requests, or the upgrade transaction commits early.
+ * To change the schema, append a step and bump DB_VERSION.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(db: IDBPDatabase<WiserPinDB>, transaction: UpgradeTransaction): Promise<void>;
+}
+
+/**
+ * Schema history, oldest first
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Collections, pins and settings stores',
+    async migrate(db) {
+      const collectionsStore = db.createObjectStore(STORES.COLLECTIONS, { keyPath: 'id' });
+      collectionsStore.createIndex('userId', 'userId', { unique: false });
+      collectionsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+
+      const pinsStore = db.createObjectStore(STORES.PINS, { keyPath: 'id' });
+      pinsStore.createIndex('collectionId', 'collectionId', { unique: false });
+      pinsStore.createIndex('url', 'page.url', { unique: true });
+      pinsStore.createIndex('userId', 'userId', { unique: false });
+
+      const settingsStore = db.createObjectStore(STORES.SETTINGS);
+      await settingsStore.put(DEFAULT_SETTINGS, 'user-settings');
+    },
+  },
+  {
+    version: 2,
+    description: 'Allow the same page in several collections (URL index no longer unique)',
+    async migrate(_db, transaction) {
+      const pinsStore = transaction.objectStore(STORES.PINS);
+      pinsStore.deleteIndex('url');
+      pinsStore.createIndex('url', 'page.url', { unique: false });
+    },
+  },
+  {
+    version: 3,
+    description: 'Tombstones store and pin updatedAt, to propagate changes in sync',
+    async migrate(db, transaction) {
+      const tombstonesStore = db.createObjectStore(STORES.TOMBSTONES, { keyPath: 'id' });
+      tombstonesStore.createIndex('entity', 'entity', { unique: false });
+
+      const pinsStore = transaction.objectStore(STORES.PINS);
+      let cursor = await pinsStore.openCursor();
+      while (cursor) {
+        if (!cursor.value.updatedAt) {
+          await cursor.update({ ...cursor.value, updatedAt: cursor.value.createdAt });
+        }
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Outbox store queueing local changes until they are synced',
+    async migrate(db, transaction) {
+      const outboxStore = db.createObjectStore(STORES.OUTBOX, { keyPath: 'id' });
+      outboxStore.createIndex('entity', 'entity', { unique: false });
+
+      // Changes made before the outbox were never tracked, so queue all existing data once
+      const now = new Date().toISOString();
+      const queue = (entity: SyncEntity, op: SyncOperation, id: string) =>
+        outboxStore.put({
+          id,
+          entity,
+          op,
+          queuedAt: now,
+          attempts: 0,
+          nextAttemptAt: now,
+        });
+
+      for (const id of await transaction.objectStore(STORES.COLLECTIONS).getAllKeys()) {
+        await queue('collection', 'upsert', id);
+      }
+      for (const id of await transaction.objectStore(STORES.PINS).getAllKeys()) {
+        await queue('pin', 'upsert', id);
+      }
+      for (const tombstone of await transaction.objectStore(STORES.TOMBSTONES).getAll()) {
+        await queue(tombstone.entity, 'delete', tombstone.id);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Full-text search index of pins',
+    async migrate(db, transaction) {
+      db.createObjectStore(STORES.SEARCH_INDEX, { keyPath: ['token', 'pinId'] })
+        .createIndex('pinId', 'pinId', { unique: false });
+
+      const searchStore = transaction.objectStore(STORES.SEARCH_INDEX);
+      for (const pin of await transaction.objectStore(STORES.PINS).getAll()) {
+        await indexPin(searchStore, pin);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Sort indexes for paged pin and collection lists',
+    async migrate(_db, transaction) {
+      const collectionsStore = transaction.objectStore(STORES.COLLECTIONS);
+      collectionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+      collectionsStore.createIndex('name', 'name', { unique: false });
+
+      // Pins without a title are left out of the title indexes
+      const pinsStore = transaction.objectStore(STORES.PINS);
+      pinsStore.createIndex('createdAt', 'createdAt', { unique: false });
+      pinsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      pinsStore.createIndex('title', 'page.title', { unique: false });
+      pinsStore.createIndex('collectionId_createdAt', ['collectionId', 'createdAt'], {
+        unique: false,
+      });
+      pinsStore.createIndex('collectionId_updatedAt', ['collectionId', 'updatedAt'], {
+        unique: false,
+      });
+      pinsStore.createIndex('collectionId_title', ['collectionId', 'page.title'], {
+        unique: false,
+      });
+    },
+  },
+  {
+    version: 7,
+    description: 'Trash stores, keeping deleted pins and collections restorable',
+    async migrate(db) {
+      // Trashed records live apart so lists, indexes and search only see live ones
+      const trashedCollectionsStore = db.createObjectStore(STORES.TRASHED_COLLECTIONS, {
+        keyPath: 'id',
+      });
+      trashedCollectionsStore.createIndex('trashedAt', 'trashedAt', { unique: false });
+
+      const trashedPinsStore = db.createObjectStore(STORES.TRASHED_PINS, { keyPath: 'id' });
+      trashedPinsStore.createIndex('trashedAt', 'trashedAt', { unique: false });
+      trashedPinsStore.createIndex('collectionId', 'collectionId', { unique: false });
+    },
+  },
+  {
+    version: 8,
+    description: 'Revision history of pin edits',
+    async migrate(db) {
+      // Existing pins start without history; their next edit is the first revision
+      const revisionsStore = db.createObjectStore(STORES.PIN_REVISIONS, { keyPath: 'id' });
+      revisionsStore.createIndex('pinId', 'pinId', { unique: false });
+      revisionsStore.createIndex('pinId_createdAt', ['pinId', 'createdAt'], { unique: false });
+    },
+  },
+];
+
+/**
+ * Run the steps between two versions, in order
+ */
+export async function runMigrations(
+  db: IDBPDatabase<WiserPinDB>,
+  transaction: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> {
+  for (const migration of migrations) {
+    if (migration.version > oldVersion && migration.version <= newVersion) {
+      console.debug(`[WiserPin DB] Migrating to v${migration.version}: ${migration.description}`);
+      await migration.migrate(db, transaction);
+    }
+  }
+}
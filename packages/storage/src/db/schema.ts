@@ -1,7 +1,14 @@
-import { openDB, type IDBPDatabase } from 'idb';
-import type { Collection, Pin, Settings } from '@wiserpin/core';
-import { DEFAULT_SETTINGS } from '@wiserpin/core';
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type {
+  Collection,
+  OutboxEntry,
+  Pin,
+  PinRevision,
+  Settings,
+  Tombstone,
+} from '@wiserpin/core';
 import { DatabaseInitError } from '../errors/storage-error';
+import { runMigrations } from './migrations';
 
 /**
  * Database name
@@ -9,10 +16,10 @@ import { DatabaseInitError } from '../errors/storage-error';
 export const DB_NAME = 'wiserpin-db';
 
 /**
- * Current database version
- * v2: Removed unique constraint on URL to allow same page in multiple collections
+ * Current database version, the version of the last step in MIGRATIONS
+ * (see migrations.ts for the history)
  */
-export const DB_VERSION = 2;
+export const DB_VERSION = 8;
 
 /**
  * Object store names
@@ -21,117 +28,152 @@ export const STORES = {
   COLLECTIONS: 'collections',
   PINS: 'pins',
   SETTINGS: 'settings',
+  TOMBSTONES: 'tombstones',
+  OUTBOX: 'outbox',
+  SEARCH_INDEX: 'search_index',
+  TRASHED_COLLECTIONS: 'trashed_collections',
+  TRASHED_PINS: 'trashed_pins',
+  PIN_REVISIONS: 'pin_revisions',
 } as const;
 
+/**
+ * Entry of the pin full-text search index: a token found in a pin, weighted
+ * by the fields it was found in
+ */
+export interface SearchIndexEntry {
+  token: string;
+  pinId: string;
+  weight: number;
+}
+
 /**
  * Database interface
  */
-export interface WiserPinDB {
+export interface WiserPinDB extends DBSchema {
   collections: {
     key: string;
     value: Collection;
-    indexes: { userId: string; updatedAt: string };
+    indexes: { userId: string; updatedAt: string; createdAt: string; name: string };
   };
   pins: {
     key: string;
     value: Pin;
-    indexes: { collectionId: string; url: string; userId: string };
+    indexes: {
+      collectionId: string;
+      url: string;
+      userId: string;
+      createdAt: string;
+      updatedAt: string;
+      title: string;
+      collectionId_createdAt: [string, string];
+      collectionId_updatedAt: [string, string];
+      collectionId_title: [string, string];
+    };
   };
   settings: {
     key: string;
     value: Settings;
   };
+  tombstones: {
+    key: string;
+    value: Tombstone;
+    indexes: { entity: string };
+  };
+  outbox: {
+    key: string;
+    value: OutboxEntry;
+    indexes: { entity: string };
+  };
+  search_index: {
+    key: [string, string];
+    value: SearchIndexEntry;
+    indexes: { pinId: string };
+  };
+  trashed_collections: {
+    key: string;
+    value: Collection;
+    indexes: { trashedAt: string };
+  };
+  trashed_pins: {
+    key: string;
+    value: Pin;
+    indexes: { trashedAt: string; collectionId: string };
+  };
+  pin_revisions: {
+    key: string;
+    value: PinRevision;
+    indexes: { pinId: string; pinId_createdAt: [string, string] };
+  };
 }
 
 /**
- * Initialize the IndexedDB database
+ * Key path of a store or index: a property path ('page.url'), or several for
+ * a compound key
  */
-export async function initDB(): Promise<IDBPDatabase<WiserPinDB>> {
-  try {
-    const db = await openDB<WiserPinDB>(DB_NAME, DB_VERSION, {
-      upgrade(db, oldVersion, newVersion, _transaction) {
-        console.debug(`[WiserPin DB] Upgrading from v${oldVersion} to v${newVersion}`);
-
-        // Collections store
-        if (!db.objectStoreNames.contains(STORES.COLLECTIONS)) {
-          const collectionsStore = db.createObjectStore(STORES.COLLECTIONS, {
-            keyPath: 'id',
-          });
-          collectionsStore.createIndex('userId', 'userId', { unique: false });
-          collectionsStore.createIndex('updatedAt', 'updatedAt', {
-            unique: false,
-          });
-        }
-
-        // Pins store - recreate if upgrading from v1 to remove unique constraint
-        if (oldVersion < 2) {
-          if (db.objectStoreNames.contains(STORES.PINS)) {
-            console.debug('[WiserPin DB] Recreating pins store to remove URL unique constraint');
-            db.deleteObjectStore(STORES.PINS);
-          }
-        }
-
-        if (!db.objectStoreNames.contains(STORES.PINS)) {
-          const pinsStore = db.createObjectStore(STORES.PINS, {
-            keyPath: 'id',
-          });
-          pinsStore.createIndex('collectionId', 'collectionId', {
-            unique: false,
-          });
-          pinsStore.createIndex('url', 'page.url', { unique: false });
-          pinsStore.createIndex('userId', 'userId', { unique: false });
-        }
-
-        // Settings store
-        if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-          const settingsStore = db.createObjectStore(STORES.SETTINGS);
-
-          // Initialize default settings
-          settingsStore.put(DEFAULT_SETTINGS, 'user-settings');
-        }
-      },
-    });
-
-    return db;
-  } catch (error) {
-    throw new DatabaseInitError('Failed to initialize database', error);
-  }
-}
+export type KeyPath = string | string[];
 
 /**
- * Get database instance (singleton pattern)
+ * Key and indexes of a store; stores without a key path take keys on put
  */
-let dbInstance: IDBPDatabase<WiserPinDB> | null = null;
-
-export async function getDB(): Promise<IDBPDatabase<WiserPinDB>> {
-  if (!dbInstance) {
-    dbInstance = await initDB();
-  }
-  return dbInstance;
+export interface StoreLayout {
+  keyPath?: KeyPath;
+  indexes: Record<string, KeyPath>;
 }
 
 /**
- * Close database connection
+ * Stores and indexes the migrations build, for backends other than IndexedDB
  */
-export function closeDB(): void {
-  if (dbInstance) {
-    dbInstance.close();
-    dbInstance = null;
-  }
-}
+export const STORE_LAYOUT: { [Name in keyof WiserPinDB]: StoreLayout } = {
+  collections: {
+    keyPath: 'id',
+    indexes: { userId: 'userId', updatedAt: 'updatedAt', createdAt: 'createdAt', name: 'name' },
+  },
+  pins: {
+    keyPath: 'id',
+    indexes: {
+      collectionId: 'collectionId',
+      url: 'page.url',
+      userId: 'userId',
+      createdAt: 'createdAt',
+      updatedAt: 'updatedAt',
+      title: 'page.title',
+      collectionId_createdAt: ['collectionId', 'createdAt'],
+      collectionId_updatedAt: ['collectionId', 'updatedAt'],
+      collectionId_title: ['collectionId', 'page.title'],
+    },
+  },
+  settings: { indexes: {} },
+  tombstones: { keyPath: 'id', indexes: { entity: 'entity' } },
+  outbox: { keyPath: 'id', indexes: { entity: 'entity' } },
+  search_index: { keyPath: ['token', 'pinId'], indexes: { pinId: 'pinId' } },
+  trashed_collections: { keyPath: 'id', indexes: { trashedAt: 'trashedAt' } },
+  trashed_pins: { keyPath: 'id', indexes: { trashedAt: 'trashedAt', collectionId: 'collectionId' } },
+  pin_revisions: {
+    keyPath: 'id',
+    indexes: { pinId: 'pinId', pinId_createdAt: ['pinId', 'createdAt'] },
+  },
+};
 
 /**
- * Clear all data from the database
+ * Initialize the IndexedDB database
  */
-export async function clearAllData(): Promise<void> {
-  const db = await getDB();
-  const tx = db.transaction([STORES.COLLECTIONS, STORES.PINS], 'readwrite');
-
-  await Promise.all([
-    tx.objectStore(STORES.COLLECTIONS).clear(),
-    tx.objectStore(STORES.PINS).clear(),
-    tx.done,
-  ]);
+export async function initDB(): Promise<IDBPDatabase<WiserPinDB>> {
+  try {
+    const db = await openDB<WiserPinDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        const targetVersion = newVersion ?? DB_VERSION;
+        console.debug(`[WiserPin DB] Upgrading from v${oldVersion} to v${targetVersion}`);
+
+        // A failed step aborts the upgrade, leaving the database at its old version
+        runMigrations(db, transaction, oldVersion, targetVersion).catch((error) => {
+          console.error('[WiserPin DB] Migration failed:', error);
+          transaction.abort();
+        });
+      },
+    });
 
-  console.log('[WiserPin DB] All data cleared');
+    return db;
+  } catch (error) {
+    throw new DatabaseInitError('Failed to initialize database', error);
+  }
 }
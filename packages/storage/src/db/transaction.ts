@@ -0,0 +1,40 @@
+import type { AdapterTransaction, StoreName } from '../adapters/types';
+import { getDB } from './adapter';
+
+/**
+ * A readwrite transaction over the given stores
+ */
+export type WriteTransaction<S extends StoreName[]> = AdapterTransaction<S[number]>;
+
+/**
+ * Run `work` in one readwrite transaction over `stores`
+ *
+ * Every write made by `work` commits together, or none does: when `work`
+ * throws, the transaction is aborted and the error rethrown. `work` must only
+ * await requests of the transaction, or it commits early.
+ */
+export async function runTransaction<S extends StoreName[], T>(
+  stores: S,
+  work: (tx: WriteTransaction<S>) => Promise<T>
+): Promise<T> {
+  const db = await getDB();
+  const tx = db.transaction(stores, 'readwrite');
+  // Rejects when the transaction aborts; the caller gets the error that caused it
+  const done = tx.done;
+  done.catch(() => {});
+
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // Already aborted by the failed request
+    }
+    throw error;
+  }
+
+  await done;
+  return result;
+}
@@ -36,8 +36,8 @@ export class NotFoundError extends StorageError {
  * Error thrown when storage quota is exceeded
  */
 export class QuotaExceededError extends StorageError {
-  constructor(message: string = 'Storage quota exceeded') {
-    super(message, 'QUOTA_EXCEEDED');
+  constructor(message: string = 'Storage quota exceeded', cause?: unknown) {
+    super(message, 'QUOTA_EXCEEDED', cause);
     this.name = 'QuotaExceededError';
   }
 }
@@ -64,3 +64,62 @@ export class TransactionError extends StorageError {
     this.name = 'TransactionError';
   }
 }
+
+/**
+ * Error thrown when query options are invalid (unknown sort field, negative limit)
+ */
+export class InvalidQueryError extends StorageError {
+  constructor(message: string) {
+    super(message, 'INVALID_QUERY');
+    this.name = 'InvalidQueryError';
+  }
+}
+
+/**
+ * Error thrown when a backup can't be imported: not a backup, made by a newer
+ * version, or corrupted
+ */
+export class InvalidBackupError extends StorageError {
+  constructor(message: string) {
+    super(message, 'INVALID_BACKUP');
+    this.name = 'InvalidBackupError';
+  }
+}
+
+/**
+ * Whether an error, or one that caused it, is the backend running out of
+ * space: IndexedDB's QuotaExceededError DOMException, or chrome.storage's
+ * QUOTA_BYTES error
+ */
+export function isQuotaError(error: unknown): boolean {
+  const seen = new Set<unknown>();
+  for (let current = error; typeof current === 'object' && current !== null; ) {
+    if (seen.has(current)) {
+      break;
+    }
+    seen.add(current);
+
+    const { name, message, cause } = current as {
+      name?: unknown;
+      message?: unknown;
+      cause?: unknown;
+    };
+    const quotaMessage = typeof message === 'string' && message.includes('QUOTA_BYTES');
+    if (name === 'QuotaExceededError' || quotaMessage) {
+      return true;
+    }
+    current = cause;
+  }
+  return false;
+}
+
+/**
+ * Error for a failed write: QuotaExceededError when storage is full,
+ * TransactionError otherwise
+ */
+export function writeError(message: string, cause: unknown): StorageError {
+  if (isQuotaError(cause)) {
+    return new QuotaExceededError(`${message}: storage quota exceeded`, cause);
+  }
+  return new TransactionError(message, cause);
+}
@@ -0,0 +1,121 @@
+import {
+  StorageEventType,
+  type StorageEvent,
+  type StorageEventData,
+} from '@wiserpin/core';
+
+/**
+ * BroadcastChannel storage events travel on between the contexts of an
+ * origin (extension popup, options page, background worker)
+ */
+export const STORAGE_EVENTS_CHANNEL = 'wiserpin-storage-events';
+
+/**
+ * Storage event of one type, with its data
+ */
+export type TypedStorageEvent<T extends StorageEventType> = StorageEvent<StorageEventData[T]> & {
+  type: T;
+};
+
+/**
+ * Handler of storage events
+ */
+export type StorageEventHandler<T extends StorageEventType = StorageEventType> = (
+  event: TypedStorageEvent<T>
+) => void;
+
+const handlers = new Map<StorageEventType, Set<StorageEventHandler<any>>>();
+
+let channel: BroadcastChannel | null = null;
+
+const EVENT_TYPES = new Set<string>(Object.values(StorageEventType));
+
+function isStorageEvent(value: unknown): value is StorageEvent {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    EVENT_TYPES.has((value as StorageEvent).type) &&
+    typeof (value as StorageEvent).timestamp === 'string'
+  );
+}
+
+/**
+ * Open the channel on first use; without BroadcastChannel events stay in this context
+ */
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(STORAGE_EVENTS_CHANNEL);
+    // A channel doesn't receive its own messages, so events of this context are only dispatched once
+    channel.onmessage = ({ data }) => {
+      if (isStorageEvent(data)) {
+        dispatch(data);
+      }
+    };
+  }
+  return channel;
+}
+
+function dispatch(event: StorageEvent): void {
+  for (const handler of handlers.get(event.type) ?? []) {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`[WiserPin Storage] ${event.type} handler failed:`, error);
+    }
+  }
+}
+
+/**
+ * Announce a change to subscribers in this and every other context
+ *
+ * Called by the storage operations once their transaction has committed; a
+ * failure to announce never fails the write.
+ */
+export function emitStorageEvent<T extends StorageEventType>(
+  type: T,
+  data: StorageEventData[T]
+): void {
+  const event: TypedStorageEvent<T> = { type, data, timestamp: new Date().toISOString() };
+  dispatch(event);
+
+  try {
+    getChannel()?.postMessage(event);
+  } catch (error) {
+    console.error(`[WiserPin Storage] Failed to broadcast ${type}:`, error);
+  }
+}
+
+/**
+ * Subscribe to storage events of one or more types, from any context
+ *
+ * @returns A function that removes the subscription
+ */
+export function subscribe<T extends StorageEventType>(
+  type: T | T[],
+  handler: StorageEventHandler<T>
+): () => void {
+  const types = Array.isArray(type) ? type : [type];
+  getChannel();
+
+  for (const eventType of types) {
+    if (!handlers.has(eventType)) {
+      handlers.set(eventType, new Set());
+    }
+    handlers.get(eventType)!.add(handler);
+  }
+
+  return () => {
+    for (const eventType of types) {
+      handlers.get(eventType)?.delete(handler);
+    }
+  };
+}
+
+/**
+ * Drop all subscriptions and close the channel
+ */
+export function closeStorageEvents(): void {
+  handlers.clear();
+  channel?.close();
+  channel = null;
+}
@@ -5,7 +5,23 @@
  */
 
 // Database initialization
-export { initDB, getDB, closeDB, clearAllData, DB_NAME, DB_VERSION } from './db/schema';
+export { initDB, DB_NAME, DB_VERSION, STORE_LAYOUT } from './db/schema';
+export { getDB, setStorageAdapter, closeDB, clearAllData } from './db/adapter';
+
+// Storage backends
+export { IndexedDBAdapter } from './adapters/indexeddb';
+export { MemoryAdapter } from './adapters/memory';
+export { ChromeStorageAdapter, type ChromeStorageArea } from './adapters/chrome-storage';
+export type {
+  StorageAdapter,
+  AdapterTransaction,
+  AdapterStore,
+  AdapterIndex,
+  AdapterCursor,
+  KeyRange,
+  StoreName,
+  TransactionMode,
+} from './adapters/types';
 
 // Collection operations
 export {
@@ -15,6 +31,9 @@ export {
   listCollectionsByUser,
   updateCollection,
   deleteCollection,
+  deleteCollectionWithPins,
+  saveCollection,
+  purgeCollection,
   getCollectionCount,
 } from './operations/collections';
 
@@ -26,14 +45,66 @@ export {
   listPinsByCollection,
   listPinsByUser,
   queryPins,
+  searchPins,
+  rebuildSearchIndex,
   updatePin,
   deletePin,
   deletePinsByCollection,
+  movePins,
+  savePin,
+  purgePin,
   getPinCount,
   getPinCountByCollection,
   checkPinExists,
+  type PinSearchOptions,
 } from './operations/pins';
 
+// Pin revision history
+export { listPinRevisions } from './operations/revisions';
+
+// Trash operations
+export {
+  trashPin,
+  trashCollection,
+  restorePin,
+  restoreCollection,
+  listTrash,
+  getTrashCount,
+  getTrashedPin,
+  getTrashedCollection,
+  deleteTrashedPin,
+  deleteTrashedCollection,
+  emptyTrash,
+  purgeExpiredTrash,
+  type TrashContents,
+} from './operations/trash';
+
+// Search helpers
+export { normalizeText, tokenize } from './search/tokenize';
+
+// Storage events, shared between extension contexts
+export {
+  subscribe,
+  emitStorageEvent,
+  closeStorageEvents,
+  STORAGE_EVENTS_CHANNEL,
+  type StorageEventHandler,
+  type TypedStorageEvent,
+} from './events/storage-events';
+
+// Tombstone operations
+export { listTombstones, getTombstone, removeTombstone } from './operations/tombstones';
+
+// Outbox operations
+export {
+  enqueueChange,
+  listOutbox,
+  getOutboxEntry,
+  getOutboxCount,
+  removeOutboxEntry,
+  deferOutboxEntry,
+} from './operations/outbox';
+
 // Settings operations
 export {
   getSettings,
@@ -41,6 +112,30 @@ export {
   resetSettings,
 } from './operations/settings';
 
+// Storage usage and cleanup
+export {
+  getStorageUsage,
+  clearSummaries,
+  clearPageContent,
+  type StorageUsage,
+  type StoreUsage,
+} from './operations/usage';
+
+// Backup and restore
+export {
+  exportAll,
+  importAll,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BACKUP_FILE_EXTENSION,
+  type BackupBundle,
+  type BackupHeader,
+  type BackupSection,
+  type ImportMode,
+  type ImportOptions,
+  type ImportResult,
+} from './operations/backup';
+
 // Error types
 export {
   StorageError,
@@ -49,4 +144,7 @@ export {
   QuotaExceededError,
   DuplicateError,
   TransactionError,
+  InvalidQueryError,
+  InvalidBackupError,
+  isQuotaError,
 } from './errors/storage-error';
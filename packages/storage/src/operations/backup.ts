@@ -0,0 +1,414 @@
+import {
+  DEFAULT_SETTINGS,
+  StorageEventType,
+  type Collection,
+  type Pin,
+  type Settings,
+} from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { DB_VERSION, STORES } from '../db/schema';
+import { runTransaction } from '../db/transaction';
+import { InvalidBackupError, TransactionError, writeError } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
+import { indexPin } from '../search/search-index';
+import { createOutboxEntry } from './outbox';
+import { deletePinInTransaction } from './pins';
+import { SETTINGS_KEY } from './settings';
+
+/**
+ * Marks a file as a WiserPin backup
+ */
+export const BACKUP_FORMAT = 'wiserpin-backup';
+
+/**
+ * Version of the bundle layout written by exportAll
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Extension of backup files
+ */
+export const BACKUP_FILE_EXTENSION = '.wiserpin';
+
+/**
+ * Sections of a bundle, each with its own checksum
+ */
+export type BackupSection = 'collections' | 'pins' | 'settings';
+
+/**
+ * Header of a backup bundle
+ */
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+
+  /** Version of the bundle layout */
+  version: number;
+
+  /** Database schema version (DB_VERSION) the records were read with */
+  schemaVersion: number;
+
+  /** ISO timestamp of the export */
+  exportedAt: string;
+
+  /** SHA-256 of each section's JSON, in hex */
+  checksums: Record<BackupSection, string>;
+}
+
+/**
+ * Portable copy of the library: live collections and pins, and settings
+ */
+export interface BackupBundle {
+  header: BackupHeader;
+  collections: Collection[];
+  pins: Pin[];
+  settings: Settings;
+}
+
+/**
+ * How an import combines the bundle with local data
+ * - merge: add the bundle's records to the library, keeping local settings
+ * - replace: make the library the bundle's, deleting local records it lacks
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Options for importing a backup
+ */
+export interface ImportOptions {
+  /** Defaults to merge */
+  mode?: ImportMode;
+}
+
+/**
+ * What an import changed
+ */
+export interface ImportResult {
+  /** Collections written */
+  collections: number;
+
+  /** Pins written */
+  pins: number;
+
+  /** Records already here unchanged, left as they are (merge only) */
+  skipped: number;
+
+  /** Records written under a new ID because theirs was taken */
+  remapped: number;
+
+  /** Local records deleted because the bundle lacks them (replace only) */
+  deleted: number;
+}
+
+/**
+ * Stores an import writes to
+ */
+const IMPORT_STORES = [
+  STORES.COLLECTIONS,
+  STORES.TRASHED_COLLECTIONS,
+  STORES.PINS,
+  STORES.TRASHED_PINS,
+  STORES.TOMBSTONES,
+  STORES.OUTBOX,
+  STORES.SEARCH_INDEX,
+  STORES.PIN_REVISIONS,
+  STORES.SETTINGS,
+];
+
+/**
+ * SHA-256 of a value's JSON, in hex
+ */
+async function checksum(value: unknown): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(value));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function checksumSections(
+  sections: Omit<BackupBundle, 'header'>
+): Promise<Record<BackupSection, string>> {
+  const [collections, pins, settings] = await Promise.all([
+    checksum(sections.collections),
+    checksum(sections.pins),
+    checksum(sections.settings),
+  ]);
+  return { collections, pins, settings };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Export the library as a backup bundle, read in one transaction
+ */
+export async function exportAll(): Promise<BackupBundle> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([STORES.COLLECTIONS, STORES.PINS, STORES.SETTINGS]);
+    const [collections, pins, settings] = await Promise.all([
+      tx.objectStore(STORES.COLLECTIONS).getAll(),
+      tx.objectStore(STORES.PINS).getAll(),
+      tx.objectStore(STORES.SETTINGS).get(SETTINGS_KEY),
+    ]);
+
+    const sections = { collections, pins, settings: { ...DEFAULT_SETTINGS, ...settings } };
+    return {
+      header: {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: DB_VERSION,
+        exportedAt: new Date().toISOString(),
+        checksums: await checksumSections(sections),
+      },
+      ...sections,
+    };
+  } catch (error) {
+    throw new TransactionError('Failed to export data', error);
+  }
+}
+
+/**
+ * Check that `data` is a bundle this version can import, intact
+ */
+async function parseBundle(data: unknown): Promise<BackupBundle> {
+  let bundle = data;
+  if (typeof data === 'string') {
+    try {
+      bundle = JSON.parse(data);
+    } catch {
+      throw new InvalidBackupError('Backup is not valid JSON');
+    }
+  }
+
+  if (!isObject(bundle) || !isObject(bundle.header) || bundle.header.format !== BACKUP_FORMAT) {
+    throw new InvalidBackupError('Not a WiserPin backup');
+  }
+
+  const { header } = bundle;
+  if (typeof header.version !== 'number' || header.version > BACKUP_VERSION) {
+    throw new InvalidBackupError(`Backup format version ${header.version} is not supported`);
+  }
+  if (typeof header.schemaVersion !== 'number' || header.schemaVersion > DB_VERSION) {
+    throw new InvalidBackupError('Backup was made by a newer version of WiserPin');
+  }
+  if (
+    !isObject(header.checksums) ||
+    !Array.isArray(bundle.collections) ||
+    !Array.isArray(bundle.pins) ||
+    !isObject(bundle.settings)
+  ) {
+    throw new InvalidBackupError('Backup is incomplete');
+  }
+
+  const checksums = await checksumSections({
+    collections: bundle.collections,
+    pins: bundle.pins,
+    settings: bundle.settings as unknown as Settings,
+  });
+  for (const section of Object.keys(checksums) as BackupSection[]) {
+    if (header.checksums[section] !== checksums[section]) {
+      throw new InvalidBackupError(`The ${section} of the backup do not match their checksum`);
+    }
+  }
+
+  const collectionIds = new Set<unknown>();
+  for (const collection of bundle.collections) {
+    if (!isObject(collection) || typeof collection.id !== 'string' || !collection.id) {
+      throw new InvalidBackupError('Backup has a collection without an ID');
+    }
+    collectionIds.add(collection.id);
+  }
+  for (const pin of bundle.pins) {
+    if (!isObject(pin) || typeof pin.id !== 'string' || !pin.id || !isObject(pin.page)) {
+      throw new InvalidBackupError('Backup has a malformed pin');
+    }
+    if (!collectionIds.has(pin.collectionId)) {
+      throw new InvalidBackupError(
+        `Pin '${pin.id}' belongs to a collection missing from the backup`
+      );
+    }
+  }
+
+  return bundle as unknown as BackupBundle;
+}
+
+/**
+ * Import a backup bundle, in one transaction: either all of it is imported or
+ * nothing is
+ *
+ * Imported records are stamped as updated now and queued for sync, so sync
+ * sends them as the latest edit instead of pulling the cloud's copy over
+ * them; they keep their creation time. A record
+ * whose ID is taken, by a different local record or a deleted one, is written
+ * under a new ID, and its pins follow it; in merge mode, a record already
+ * here with the same updatedAt is skipped. Replace mode also deletes local
+ * pins and collections, live or trashed, that the bundle lacks, and takes the
+ * bundle's settings.
+ *
+ * @param data A bundle from exportAll, or its JSON
+ */
+export async function importAll(
+  data: unknown,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const mode = options.mode ?? 'merge';
+
+  try {
+    const bundle = await parseBundle(data);
+    const now = new Date().toISOString();
+
+    const changes = await runTransaction(IMPORT_STORES, async (tx) => {
+      const collections = tx.objectStore(STORES.COLLECTIONS);
+      const trashedCollections = tx.objectStore(STORES.TRASHED_COLLECTIONS);
+      const pins = tx.objectStore(STORES.PINS);
+      const trashedPins = tx.objectStore(STORES.TRASHED_PINS);
+      const tombstones = tx.objectStore(STORES.TOMBSTONES);
+      const outbox = tx.objectStore(STORES.OUTBOX);
+
+      const changes = {
+        collections: [] as { record: Collection; existed: boolean }[],
+        pins: [] as { record: Pin; existed: boolean }[],
+        deletedCollections: [] as string[],
+        deletedPins: [] as string[],
+        settings: undefined as Settings | undefined,
+        skipped: 0,
+        remapped: 0,
+      };
+
+      // IDs an imported record can't be written under: deleted records' in
+      // both modes, and every local record's when merging
+      const taken = new Set<string>(await tombstones.getAllKeys());
+      if (mode === 'merge') {
+        for (const store of [collections, trashedCollections, pins, trashedPins]) {
+          for (const id of await store.getAllKeys()) {
+            taken.add(id);
+          }
+        }
+      } else {
+        const kept = new Set([...bundle.collections, ...bundle.pins].map((record) => record.id));
+        for (const id of [...(await pins.getAllKeys()), ...(await trashedPins.getAllKeys())]) {
+          if (!kept.has(id)) {
+            await deletePinInTransaction(tx, id, now);
+            changes.deletedPins.push(id);
+          }
+        }
+        for (const store of [collections, trashedCollections]) {
+          for (const id of await store.getAllKeys()) {
+            if (!kept.has(id)) {
+              await store.delete(id);
+              await tombstones.put({ id, entity: 'collection', deletedAt: now });
+              await outbox.put(createOutboxEntry('collection', id, 'delete', now));
+              changes.deletedCollections.push(id);
+            }
+          }
+        }
+      }
+
+      // ID to write an imported record under
+      const reserve = (id: string): string => {
+        const next = taken.has(id) ? crypto.randomUUID() : id;
+        if (next !== id) {
+          changes.remapped++;
+        }
+        taken.add(next);
+        return next;
+      };
+
+      const collectionIds = new Map<string, string>();
+      for (const imported of bundle.collections) {
+        const live = await collections.get(imported.id);
+        if (mode === 'merge' && live?.updatedAt === imported.updatedAt) {
+          collectionIds.set(imported.id, imported.id);
+          changes.skipped++;
+          continue;
+        }
+
+        const id = reserve(imported.id);
+        const existing =
+          id === imported.id ? live ?? (await trashedCollections.get(id)) : undefined;
+        const { trashedAt: _trashedAt, ...rest } = imported;
+        const collection: Collection = { ...rest, id, updatedAt: now };
+        const queued = await outbox.get(id);
+
+        await trashedCollections.delete(id);
+        await collections.put(collection);
+        const baseVersion = queued ? queued.baseVersion : existing?.updatedAt;
+        await outbox.put(createOutboxEntry('collection', id, 'upsert', now, baseVersion));
+        collectionIds.set(imported.id, id);
+        changes.collections.push({ record: collection, existed: id === imported.id && !!live });
+      }
+
+      for (const imported of bundle.pins) {
+        const collectionId = collectionIds.get(imported.collectionId) ?? imported.collectionId;
+        const live = await pins.get(imported.id);
+        if (
+          mode === 'merge' &&
+          live?.updatedAt === imported.updatedAt &&
+          live.collectionId === collectionId
+        ) {
+          changes.skipped++;
+          continue;
+        }
+
+        const id = reserve(imported.id);
+        const existing = id === imported.id ? live ?? (await trashedPins.get(id)) : undefined;
+        const { trashedAt: _trashedAt, ...rest } = imported;
+        const pin: Pin = { ...rest, id, collectionId, updatedAt: now };
+        const queued = await outbox.get(id);
+
+        await trashedPins.delete(id);
+        await pins.put(pin);
+        await indexPin(tx.objectStore(STORES.SEARCH_INDEX), pin);
+        const baseVersion = queued ? queued.baseVersion : existing?.updatedAt;
+        await outbox.put(createOutboxEntry('pin', id, 'upsert', now, baseVersion));
+        changes.pins.push({ record: pin, existed: id === imported.id && !!live });
+      }
+
+      if (mode === 'replace') {
+        const settings: Settings = { ...DEFAULT_SETTINGS, ...bundle.settings };
+        if (settings.defaultCollectionId) {
+          settings.defaultCollectionId = collectionIds.get(settings.defaultCollectionId);
+        }
+        await tx.objectStore(STORES.SETTINGS).put(settings, SETTINGS_KEY);
+        changes.settings = settings;
+      }
+
+      return changes;
+    });
+
+    for (const id of changes.deletedPins) {
+      emitStorageEvent(StorageEventType.PIN_DELETED, { id });
+    }
+    for (const id of changes.deletedCollections) {
+      emitStorageEvent(StorageEventType.COLLECTION_DELETED, { id });
+    }
+    for (const { record, existed } of changes.collections) {
+      emitStorageEvent(
+        existed ? StorageEventType.COLLECTION_UPDATED : StorageEventType.COLLECTION_CREATED,
+        record
+      );
+    }
+    for (const { record, existed } of changes.pins) {
+      emitStorageEvent(
+        existed ? StorageEventType.PIN_UPDATED : StorageEventType.PIN_CREATED,
+        record
+      );
+    }
+    if (changes.settings) {
+      emitStorageEvent(StorageEventType.SETTINGS_UPDATED, changes.settings);
+    }
+
+    return {
+      collections: changes.collections.length,
+      pins: changes.pins.length,
+      skipped: changes.skipped,
+      remapped: changes.remapped,
+      deleted: changes.deletedCollections.length + changes.deletedPins.length,
+    };
+  } catch (error) {
+    if (error instanceof InvalidBackupError) {
+      throw error;
+    }
+    throw writeError('Failed to import data', error);
+  }
+}
@@ -1,6 +1,20 @@
-import type { Collection, CreateCollectionInput } from '@wiserpin/core';
-import { getDB, STORES } from '../db/schema';
-import { NotFoundError, TransactionError } from '../errors/storage-error';
+import {
+  StorageEventType,
+  type Collection,
+  type CollectionSortField,
+  type CreateCollectionInput,
+  type QueryOptions,
+} from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { runTransaction } from '../db/transaction';
+import { NotFoundError, TransactionError, writeError } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
+import { createOutboxEntry } from './outbox';
+import { deletePinInTransaction } from './pins';
+import { hasQueryOptions, readPage, validateQueryOptions } from './query';
+
+const COLLECTION_SORT_FIELDS: CollectionSortField[] = ['createdAt', 'updatedAt', 'name'];
 
 /**
  * Generate a unique ID for a collection (UUID v4)
@@ -26,10 +40,18 @@ export async function addCollection(
       updatedAt: now,
     };
 
-    await db.add(STORES.COLLECTIONS, collection);
+    const tx = db.transaction([STORES.COLLECTIONS, STORES.OUTBOX], 'readwrite');
+    await Promise.all([
+      tx.objectStore(STORES.COLLECTIONS).add(collection),
+      tx.objectStore(STORES.OUTBOX).put(
+        createOutboxEntry('collection', collection.id, 'upsert', now)
+      ),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.COLLECTION_CREATED, collection);
     return collection.id;
   } catch (error) {
-    throw new TransactionError('Failed to add collection', error);
+    throw writeError('Failed to add collection', error);
   }
 }
 
@@ -49,11 +71,34 @@ export async function getCollection(
 
 /**
  * List all collections
+ *
+ * Without options collections come in key order; sorting and paging read
+ * only the requested page from the indexes.
  */
-export async function listCollections(): Promise<Collection[]> {
+export async function listCollections(
+  options: QueryOptions<CollectionSortField> = {}
+): Promise<Collection[]> {
+  validateQueryOptions(options, COLLECTION_SORT_FIELDS);
   try {
     const db = await getDB();
-    return await db.getAll(STORES.COLLECTIONS);
+    if (!hasQueryOptions(options)) {
+      return await db.getAll(STORES.COLLECTIONS);
+    }
+
+    const { sortBy } = options;
+    const source = () =>
+      sortBy
+        ? db.transaction(STORES.COLLECTIONS).store.index(sortBy)
+        : db.transaction(STORES.COLLECTIONS).store;
+    return await readPage(
+      [
+        {
+          open: (direction) => source().openCursor(null, direction),
+          count: () => source().count(),
+        },
+      ],
+      options
+    );
   } catch (error) {
     throw new TransactionError('Failed to list collections', error);
   }
@@ -96,12 +141,25 @@ export async function updateCollection(
       updatedAt: new Date().toISOString(),
     };
 
-    await db.put(STORES.COLLECTIONS, updated);
+    const tx = db.transaction([STORES.COLLECTIONS, STORES.OUTBOX], 'readwrite');
+    const outbox = tx.objectStore(STORES.OUTBOX);
+    // Keep the version the first unsynced edit started from, for conflict detection
+    const queued = await outbox.get(id);
+    const baseVersion = queued ? queued.baseVersion : existing.updatedAt;
+
+    await Promise.all([
+      tx.objectStore(STORES.COLLECTIONS).put(updated),
+      outbox.put(
+        createOutboxEntry('collection', id, 'upsert', updated.updatedAt, baseVersion)
+      ),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.COLLECTION_UPDATED, updated);
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
     }
-    throw new TransactionError('Failed to update collection', error);
+    throw writeError('Failed to update collection', error);
   }
 }
 
@@ -117,12 +175,143 @@ export async function deleteCollection(id: string): Promise<void> {
       throw new NotFoundError('Collection', id);
     }
 
-    await db.delete(STORES.COLLECTIONS, id);
+    const deletedAt = new Date().toISOString();
+    const tx = db.transaction(
+      [STORES.COLLECTIONS, STORES.TOMBSTONES, STORES.OUTBOX],
+      'readwrite'
+    );
+
+    await Promise.all([
+      tx.objectStore(STORES.COLLECTIONS).delete(id),
+      tx.objectStore(STORES.TOMBSTONES).put({
+        id,
+        entity: 'collection',
+        deletedAt,
+      }),
+      tx.objectStore(STORES.OUTBOX).put(
+        createOutboxEntry('collection', id, 'delete', deletedAt)
+      ),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.COLLECTION_DELETED, { id });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to delete collection', error);
+  }
+}
+
+/**
+ * Delete a collection with all its pins, live and trashed, in one
+ * transaction: either everything is deleted or nothing is, so no pin is left
+ * pointing at a missing collection
+ *
+ * @returns Number of pins deleted
+ */
+export async function deleteCollectionWithPins(id: string): Promise<number> {
+  try {
+    const deletedAt = new Date().toISOString();
+    const pinIds = await runTransaction(
+      [
+        STORES.COLLECTIONS,
+        STORES.TRASHED_COLLECTIONS,
+        STORES.PINS,
+        STORES.TRASHED_PINS,
+        STORES.TOMBSTONES,
+        STORES.OUTBOX,
+        STORES.SEARCH_INDEX,
+        STORES.PIN_REVISIONS,
+      ],
+      async (tx) => {
+        const collections = tx.objectStore(STORES.COLLECTIONS);
+        if (!(await collections.get(id))) {
+          throw new NotFoundError('Collection', id);
+        }
+
+        const pinIds = [
+          ...(await tx.objectStore(STORES.PINS).index('collectionId').getAllKeys(id)),
+          ...(await tx.objectStore(STORES.TRASHED_PINS).index('collectionId').getAllKeys(id)),
+        ];
+        for (const pinId of pinIds) {
+          await deletePinInTransaction(tx, pinId, deletedAt);
+        }
+
+        await collections.delete(id);
+        await tx.objectStore(STORES.TOMBSTONES).put({ id, entity: 'collection', deletedAt });
+        await tx.objectStore(STORES.OUTBOX).put(
+          createOutboxEntry('collection', id, 'delete', deletedAt)
+        );
+        return pinIds;
+      }
+    );
+
+    for (const pinId of pinIds) {
+      emitStorageEvent(StorageEventType.PIN_DELETED, { id: pinId });
+    }
+    emitStorageEvent(StorageEventType.COLLECTION_DELETED, { id });
+    return pinIds.length;
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
     }
-    throw new TransactionError('Failed to delete collection', error);
+    throw writeError('Failed to delete collection with pins', error);
+  }
+}
+
+/**
+ * Save a collection exactly as given, keeping its timestamps
+ * Used when applying changes pulled from the cloud; a collection with
+ * trashedAt goes to the trash, one without it leaves the trash
+ */
+export async function saveCollection(collection: Collection): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(
+      [STORES.COLLECTIONS, STORES.TRASHED_COLLECTIONS],
+      'readwrite'
+    );
+
+    if (collection.trashedAt) {
+      await Promise.all([
+        tx.objectStore(STORES.COLLECTIONS).delete(collection.id),
+        tx.objectStore(STORES.TRASHED_COLLECTIONS).put(collection),
+        tx.done,
+      ]);
+      emitStorageEvent(StorageEventType.COLLECTION_TRASHED, collection);
+      return;
+    }
+
+    await Promise.all([
+      tx.objectStore(STORES.TRASHED_COLLECTIONS).delete(collection.id),
+      tx.objectStore(STORES.COLLECTIONS).put(collection),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.COLLECTION_UPDATED, collection);
+  } catch (error) {
+    throw writeError('Failed to save collection', error);
+  }
+}
+
+/**
+ * Remove a collection without leaving a tombstone
+ * Used when applying deletions pulled from the cloud
+ */
+export async function purgeCollection(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(
+      [STORES.COLLECTIONS, STORES.TRASHED_COLLECTIONS],
+      'readwrite'
+    );
+    await Promise.all([
+      tx.objectStore(STORES.COLLECTIONS).delete(id),
+      tx.objectStore(STORES.TRASHED_COLLECTIONS).delete(id),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.COLLECTION_DELETED, { id });
+  } catch (error) {
+    throw new TransactionError('Failed to purge collection', error);
   }
 }
 
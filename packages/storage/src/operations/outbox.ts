@@ -0,0 +1,134 @@
+import type { OutboxEntry, SyncEntity, SyncOperation } from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { TransactionError, writeError } from '../errors/storage-error';
+
+/**
+ * Build a fresh outbox entry for a change made now
+ * Used by the pin and collection operations inside their own transactions
+ */
+export function createOutboxEntry(
+  entity: SyncEntity,
+  id: string,
+  op: SyncOperation,
+  queuedAt: string = new Date().toISOString(),
+  baseVersion?: string
+): OutboxEntry {
+  return {
+    id,
+    entity,
+    op,
+    queuedAt,
+    baseVersion,
+    attempts: 0,
+    nextAttemptAt: queuedAt,
+  };
+}
+
+/**
+ * Queue a change for the next sync, replacing any earlier change to the record
+ */
+export async function enqueueChange(
+  entity: SyncEntity,
+  id: string,
+  op: SyncOperation
+): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(STORES.OUTBOX, createOutboxEntry(entity, id, op));
+  } catch (error) {
+    throw writeError('Failed to enqueue change', error);
+  }
+}
+
+/**
+ * List queued changes, optionally only those due for an attempt by the given time
+ */
+export async function listOutbox(dueBy?: string): Promise<OutboxEntry[]> {
+  try {
+    const db = await getDB();
+    const entries = await db.getAll(STORES.OUTBOX);
+    if (dueBy) {
+      return entries.filter((entry) => entry.nextAttemptAt <= dueBy);
+    }
+    return entries;
+  } catch (error) {
+    throw new TransactionError('Failed to list outbox', error);
+  }
+}
+
+/**
+ * Get the queued change of a record, if any
+ */
+export async function getOutboxEntry(
+  id: string
+): Promise<OutboxEntry | undefined> {
+  try {
+    const db = await getDB();
+    return await db.get(STORES.OUTBOX, id);
+  } catch (error) {
+    throw new TransactionError('Failed to get outbox entry', error);
+  }
+}
+
+/**
+ * Get the number of changes waiting to be synced
+ */
+export async function getOutboxCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    return await db.count(STORES.OUTBOX);
+  } catch (error) {
+    throw new TransactionError('Failed to get outbox count', error);
+  }
+}
+
+/**
+ * Remove a change once it has reached the cloud.
+ * When `queuedAt` is given, the entry is kept if the record changed again since.
+ */
+export async function removeOutboxEntry(
+  id: string,
+  queuedAt?: string
+): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+    const existing = await tx.store.get(id);
+
+    if (existing && (!queuedAt || existing.queuedAt === queuedAt)) {
+      await tx.store.delete(id);
+    }
+    await tx.done;
+  } catch (error) {
+    throw new TransactionError('Failed to remove outbox entry', error);
+  }
+}
+
+/**
+ * Record a failed attempt and postpone the next one
+ * Does nothing if the change was settled in the meantime
+ */
+export async function deferOutboxEntry(
+  id: string,
+  nextAttemptAt: string,
+  lastError: string
+): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+    const existing = await tx.store.get(id);
+
+    if (existing) {
+      await tx.store.put({
+        ...existing,
+        attempts: existing.attempts + 1,
+        nextAttemptAt,
+        lastError,
+      });
+    }
+    await tx.done;
+  } catch (error) {
+    throw writeError('Failed to defer outbox entry', error);
+  }
+}
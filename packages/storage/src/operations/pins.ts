@@ -1,9 +1,74 @@
-import type { Pin, CreatePinInput, PinFilter } from '@wiserpin/core';
-import { getDB, STORES } from '../db/schema';
 import {
+  parsePinQuery,
+  PinQuerySyntaxError,
+  StorageEventType,
+  type Pin,
+  type PinQuery,
+  type CreatePinInput,
+  type PinFilter,
+  type PinSortField,
+  type QueryOptions,
+} from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import type { StoreName } from '../adapters/types';
+import { firstPartPrefixRange, firstPartRange } from '../db/key-range';
+import { runTransaction, type WriteTransaction } from '../db/transaction';
+import {
+  InvalidQueryError,
   NotFoundError,
   TransactionError,
+  writeError,
 } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
+import { indexPin, unindexPin } from '../search/search-index';
+import { compilePinQuery, pinContainsPhrase, type PinFieldTerm } from '../search/pin-query';
+import { tokenize } from '../search/tokenize';
+import { createOutboxEntry } from './outbox';
+import { deleteRevisions, recordRevision } from './revisions';
+import {
+  hasQueryOptions,
+  readPage,
+  sortAndPage,
+  validateQueryOptions,
+  type PageSource,
+} from './query';
+
+/**
+ * Share of a field's weight given to a token that only starts with the query word
+ */
+const PREFIX_MATCH_FACTOR = 0.5;
+
+/**
+ * Options for searching pins
+ */
+export interface PinSearchOptions {
+  /** Only search pins of this collection */
+  collectionId?: string;
+
+  /** Maximum number of pins returned */
+  limit?: number;
+}
+
+/**
+ * Indexes each sort field is read from: over all pins, and within a collection
+ */
+const PIN_SORT_INDEXES = {
+  createdAt: ['createdAt', 'collectionId_createdAt'],
+  updatedAt: ['updatedAt', 'collectionId_updatedAt'],
+  title: ['title', 'collectionId_title'],
+} as const;
+
+const PIN_SORT_FIELDS = Object.keys(PIN_SORT_INDEXES) as PinSortField[];
+
+/**
+ * Sort values of pins, for sorting filtered pins in memory
+ */
+const PIN_SORT_VALUES: Record<PinSortField, (pin: Pin) => string | undefined> = {
+  createdAt: (pin) => pin.createdAt,
+  updatedAt: (pin) => pin.updatedAt,
+  title: (pin) => pin.page.title,
+};
 
 /**
  * Generate a unique ID for a pin (UUID v4)
@@ -38,12 +103,20 @@ export async function addPin(input: CreatePinInput): Promise<string> {
       ...input,
       id: input.id || generateId(), // Use provided ID or generate new one
       createdAt: now,
+      updatedAt: now,
     };
 
-    await db.add(STORES.PINS, pin);
+    const tx = db.transaction([STORES.PINS, STORES.OUTBOX, STORES.SEARCH_INDEX], 'readwrite');
+    await Promise.all([
+      tx.objectStore(STORES.PINS).add(pin),
+      tx.objectStore(STORES.OUTBOX).put(createOutboxEntry('pin', pin.id, 'upsert', now)),
+      indexPin(tx.objectStore(STORES.SEARCH_INDEX), pin),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.PIN_CREATED, pin);
     return pin.id;
   } catch (error) {
-    throw new TransactionError('Failed to add pin', error);
+    throw writeError('Failed to add pin', error);
   }
 }
 
@@ -59,11 +132,73 @@ export async function getPin(id: string): Promise<Pin | undefined> {
   }
 }
 
+/**
+ * Read a page of pins, of one collection or all, straight from the indexes
+ */
+async function readPinPage(
+  options: QueryOptions<PinSortField>,
+  collectionId?: string
+): Promise<Pin[]> {
+  const db = await getDB();
+  const store = () => db.transaction(STORES.PINS).store;
+
+  // Every pin in key order
+  const all: PageSource<Pin> =
+    collectionId === undefined
+      ? {
+          open: (direction) => store().openCursor(null, direction),
+          count: () => store().count(),
+        }
+      : {
+          open: (direction) => store().index('collectionId').openCursor(collectionId, direction),
+          count: () => store().index('collectionId').count(collectionId),
+        };
+
+  if (!options.sortBy) {
+    return readPage([all], options);
+  }
+
+  const [indexName, collectionIndexName] = PIN_SORT_INDEXES[options.sortBy];
+  const sorted: PageSource<Pin> =
+    collectionId === undefined
+      ? {
+          open: (direction) => store().index(indexName).openCursor(null, direction),
+          count: () => store().index(indexName).count(),
+        }
+      : {
+          open: (direction) =>
+            store()
+              .index(collectionIndexName)
+              .openCursor(firstPartRange(collectionId), direction),
+          count: () => store().index(collectionIndexName).count(firstPartRange(collectionId)),
+        };
+
+  if (options.sortBy !== 'title') {
+    return readPage([sorted], options);
+  }
+
+  // Pins without a title are left out of the title indexes, list them after the others
+  return readPage(
+    [sorted, { open: all.open, accept: (pin) => typeof pin.page.title !== 'string' }],
+    options
+  );
+}
+
 /**
  * List all pins
+ *
+ * Without options pins come in key order; sorting and paging read only the
+ * requested page from the indexes.
  */
-export async function listPins(): Promise<Pin[]> {
+export async function listPins(
+  options: QueryOptions<PinSortField> = {}
+): Promise<Pin[]> {
+  validateQueryOptions(options, PIN_SORT_FIELDS);
   try {
+    if (hasQueryOptions(options)) {
+      return await readPinPage(options);
+    }
+
     const db = await getDB();
     return await db.getAll(STORES.PINS);
   } catch (error) {
@@ -75,9 +210,15 @@ export async function listPins(): Promise<Pin[]> {
  * List pins by collection ID
  */
 export async function listPinsByCollection(
-  collectionId: string
+  collectionId: string,
+  options: QueryOptions<PinSortField> = {}
 ): Promise<Pin[]> {
+  validateQueryOptions(options, PIN_SORT_FIELDS);
   try {
+    if (hasQueryOptions(options)) {
+      return await readPinPage(options, collectionId);
+    }
+
     const db = await getDB();
     return await db.getAllFromIndex(
       STORES.PINS,
@@ -101,11 +242,84 @@ export async function listPinsByUser(userId: string): Promise<Pin[]> {
   }
 }
 
+/**
+ * Parse the query of a filter, reporting syntax errors as invalid queries
+ */
+function parseFilterQuery(filter: PinFilter): PinQuery | undefined {
+  if (filter.query === undefined) {
+    return undefined;
+  }
+  try {
+    return parsePinQuery(filter.query);
+  } catch (error) {
+    if (error instanceof PinQuerySyntaxError) {
+      throw new InvalidQueryError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Keep the pins matching a search query, in the order the API returns them:
+ * by relevance when the query has text, newest first otherwise
+ */
+async function applyPinQuery(pins: Pin[], query: PinQuery): Promise<Pin[]> {
+  const text = query.terms.filter((term) => term.type === 'text');
+  const fields = query.terms.filter((term): term is PinFieldTerm => term.type !== 'text');
+
+  const collections = fields.some((term) => term.type === 'collection')
+    ? await (await getDB()).getAll(STORES.COLLECTIONS)
+    : [];
+  const matchesFields = compilePinQuery(fields, collections);
+  let matches = pins.filter(matchesFields);
+
+  const included = text.filter((term) => !term.negated);
+  if (included.length > 0) {
+    const found = await searchPins(included.map((term) => term.value).join(' '));
+    const kept = new Set(matches.map((pin) => pin.id));
+    matches = found.filter(
+      (pin) =>
+        kept.has(pin.id) &&
+        included.every((term) => !term.phrase || pinContainsPhrase(pin, term.value))
+    );
+  } else {
+    matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  for (const term of text.filter((term) => term.negated)) {
+    const found = await searchPins(term.value);
+    const excluded = new Set(
+      found
+        .filter((pin) => !term.phrase || pinContainsPhrase(pin, term.value))
+        .map((pin) => pin.id)
+    );
+    matches = matches.filter((pin) => !excluded.has(pin.id));
+  }
+
+  return matches;
+}
+
 /**
  * Query pins with filters
+ *
+ * Search results keep their relevance order unless a sort field is given.
+ *
+ * @throws InvalidQueryError when the search query has an invalid field value
  */
-export async function queryPins(filter: PinFilter): Promise<Pin[]> {
+export async function queryPins(
+  filter: PinFilter,
+  options: QueryOptions<PinSortField> = {}
+): Promise<Pin[]> {
+  validateQueryOptions(options, PIN_SORT_FIELDS);
+  const query = parseFilterQuery(filter);
   try {
+    // A collection, or all pins, can be paged straight from the indexes
+    if (!filter.search && !query && (filter.collectionId || (!filter.userId && !filter.url))) {
+      return filter.collectionId
+        ? await listPinsByCollection(filter.collectionId, options)
+        : await listPins(options);
+    }
+
     let pins: Pin[];
 
     if (filter.collectionId) {
@@ -119,28 +333,116 @@ export async function queryPins(filter: PinFilter): Promise<Pin[]> {
       pins = await listPins();
     }
 
-    // Apply search filter if provided
+    // Apply search filter if provided, most relevant first
     if (filter.search) {
-      const searchLower = filter.search.toLowerCase();
-      pins = pins.filter(
-        (pin) =>
-          pin.page.title?.toLowerCase().includes(searchLower) ||
-          pin.note?.toLowerCase().includes(searchLower)
-      );
+      const matches = await searchPins(filter.search);
+      const filtered = new Set(pins.map((pin) => pin.id));
+      pins = matches.filter((pin) => filtered.has(pin.id));
     }
 
-    return pins;
+    if (query) {
+      pins = await applyPinQuery(pins, query);
+    }
+
+    if (!hasQueryOptions(options)) {
+      return pins;
+    }
+    return sortAndPage(pins, options, options.sortBy && PIN_SORT_VALUES[options.sortBy]);
   } catch (error) {
     throw new TransactionError('Failed to query pins', error);
   }
 }
 
+/**
+ * Full-text search over pin titles, tags, site names, notes, summaries,
+ * descriptions and URLs, using the search index
+ *
+ * Every word of the query must match a word of the pin, in full or as its
+ * start, ignoring case and diacritics. Pins are ordered by relevance: matches
+ * in titles and tags count most, and full words count more than prefixes.
+ */
+export async function searchPins(
+  query: string,
+  options: PinSearchOptions = {}
+): Promise<Pin[]> {
+  try {
+    const words = [...new Set(tokenize(query, 1))];
+    if (words.length === 0) {
+      return [];
+    }
+
+    const db = await getDB();
+    const tx = db.transaction([STORES.SEARCH_INDEX, STORES.PINS], 'readonly');
+    const searchStore = tx.objectStore(STORES.SEARCH_INDEX);
+
+    let scores: Map<string, number> | null = null;
+    for (const word of words) {
+      // All tokens starting with the word, e.g. "java" finds "java" and "javascript"
+      const entries = await searchStore.getAll(firstPartPrefixRange(word));
+
+      const wordScores = new Map<string, number>();
+      for (const entry of entries) {
+        const score = entry.token === word ? entry.weight : entry.weight * PREFIX_MATCH_FACTOR;
+        wordScores.set(entry.pinId, Math.max(wordScores.get(entry.pinId) || 0, score));
+      }
+
+      // Keep pins that matched every word so far
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      for (const [pinId, score] of wordScores) {
+        if (!previous || previous.has(pinId)) {
+          scores.set(pinId, (previous?.get(pinId) || 0) + score);
+        }
+      }
+
+      if (scores.size === 0) {
+        break;
+      }
+    }
+
+    const pinsStore = tx.objectStore(STORES.PINS);
+    const pins = (await Promise.all([...scores!.keys()].map((id) => pinsStore.get(id))))
+      .filter((pin): pin is Pin => !!pin)
+      .filter((pin) => !options.collectionId || pin.collectionId === options.collectionId);
+    await tx.done;
+
+    pins.sort(
+      (a, b) =>
+        scores!.get(b.id)! - scores!.get(a.id)! ||
+        b.updatedAt.localeCompare(a.updatedAt)
+    );
+
+    return options.limit ? pins.slice(0, options.limit) : pins;
+  } catch (error) {
+    throw new TransactionError('Failed to search pins', error);
+  }
+}
+
+/**
+ * Rebuild the search index from the stored pins, e.g. after a bulk import
+ */
+export async function rebuildSearchIndex(): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([STORES.PINS, STORES.SEARCH_INDEX], 'readwrite');
+    const searchStore = tx.objectStore(STORES.SEARCH_INDEX);
+
+    await searchStore.clear();
+    for (const pin of await tx.objectStore(STORES.PINS).getAll()) {
+      await indexPin(searchStore, pin);
+    }
+    await tx.done;
+  } catch (error) {
+    throw writeError('Failed to rebuild search index', error);
+  }
+}
+
 /**
  * Update a pin
  */
 export async function updatePin(
   id: string,
-  updates: Partial<Omit<Pin, 'id' | 'collectionId' | 'createdAt'>>
+  updates: Partial<Omit<Pin, 'id' | 'collectionId' | 'createdAt' | 'updatedAt'>>
 ): Promise<void> {
   try {
     const db = await getDB();
@@ -156,17 +458,128 @@ export async function updatePin(
       id: existing.id,
       collectionId: existing.collectionId,
       createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
     };
 
-    await db.put(STORES.PINS, updated);
+    const tx = db.transaction(
+      [STORES.PINS, STORES.OUTBOX, STORES.SEARCH_INDEX, STORES.PIN_REVISIONS],
+      'readwrite'
+    );
+    const outbox = tx.objectStore(STORES.OUTBOX);
+    // Keep the version the first unsynced edit started from, for conflict detection
+    const queued = await outbox.get(id);
+    const baseVersion = queued ? queued.baseVersion : existing.updatedAt;
+
+    await Promise.all([
+      tx.objectStore(STORES.PINS).put(updated),
+      outbox.put(
+        createOutboxEntry('pin', id, 'upsert', updated.updatedAt, baseVersion)
+      ),
+      indexPin(tx.objectStore(STORES.SEARCH_INDEX), updated),
+      recordRevision(tx.objectStore(STORES.PIN_REVISIONS), existing, updated, 'extension'),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.PIN_UPDATED, updated);
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
     }
-    throw new TransactionError('Failed to update pin', error);
+    throw writeError('Failed to update pin', error);
   }
 }
 
+/**
+ * Save a pin exactly as given, keeping its timestamps
+ * Used when applying changes pulled from the cloud; a pin with trashedAt
+ * goes to the trash, one without it leaves the trash
+ */
+export async function savePin(pin: Pin): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(
+      [STORES.PINS, STORES.TRASHED_PINS, STORES.SEARCH_INDEX, STORES.PIN_REVISIONS],
+      'readwrite'
+    );
+    const searchStore = tx.objectStore(STORES.SEARCH_INDEX);
+
+    // Edits made on other devices join the pin's history
+    const existing =
+      (await tx.objectStore(STORES.PINS).get(pin.id)) ??
+      (await tx.objectStore(STORES.TRASHED_PINS).get(pin.id));
+    if (existing) {
+      await recordRevision(tx.objectStore(STORES.PIN_REVISIONS), existing, pin, 'sync');
+    }
+
+    if (pin.trashedAt) {
+      await Promise.all([
+        tx.objectStore(STORES.PINS).delete(pin.id),
+        tx.objectStore(STORES.TRASHED_PINS).put(pin),
+        unindexPin(searchStore, pin.id),
+        tx.done,
+      ]);
+      emitStorageEvent(StorageEventType.PIN_TRASHED, pin);
+      return;
+    }
+
+    await Promise.all([
+      tx.objectStore(STORES.TRASHED_PINS).delete(pin.id),
+      tx.objectStore(STORES.PINS).put(pin),
+      indexPin(searchStore, pin),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.PIN_UPDATED, pin);
+  } catch (error) {
+    throw writeError('Failed to save pin', error);
+  }
+}
+
+/**
+ * Stores written when a pin is deleted
+ */
+type PinDeleteStores =
+  | typeof STORES.PINS
+  | typeof STORES.TRASHED_PINS
+  | typeof STORES.TOMBSTONES
+  | typeof STORES.OUTBOX
+  | typeof STORES.SEARCH_INDEX
+  | typeof STORES.PIN_REVISIONS;
+
+/**
+ * Delete a pin, live or trashed, inside a transaction: leave a tombstone and
+ * queue the deletion for the cloud
+ */
+export async function deletePinInTransaction<Other extends StoreName = never>(
+  tx: WriteTransaction<(PinDeleteStores | Other)[]>,
+  id: string,
+  deletedAt: string
+): Promise<void> {
+  await tx.objectStore(STORES.PINS).delete(id);
+  await tx.objectStore(STORES.TRASHED_PINS).delete(id);
+  await unindexPin(tx.objectStore(STORES.SEARCH_INDEX), id);
+  await deleteRevisions(tx.objectStore(STORES.PIN_REVISIONS), id);
+  await tx.objectStore(STORES.TOMBSTONES).put({ id, entity: 'pin', deletedAt });
+  await tx.objectStore(STORES.OUTBOX).put(createOutboxEntry('pin', id, 'delete', deletedAt));
+}
+
+/**
+ * Delete a pin, leave a tombstone and queue the deletion for the cloud
+ */
+async function deletePinWithTombstone(id: string): Promise<void> {
+  const deletedAt = new Date().toISOString();
+  await runTransaction(
+    [
+      STORES.PINS,
+      STORES.TRASHED_PINS,
+      STORES.TOMBSTONES,
+      STORES.OUTBOX,
+      STORES.SEARCH_INDEX,
+      STORES.PIN_REVISIONS,
+    ],
+    (tx) => deletePinInTransaction(tx, id, deletedAt)
+  );
+  emitStorageEvent(StorageEventType.PIN_DELETED, { id });
+}
+
 /**
  * Delete a pin
  */
@@ -179,32 +592,123 @@ export async function deletePin(id: string): Promise<void> {
       throw new NotFoundError('Pin', id);
     }
 
-    await db.delete(STORES.PINS, id);
+    await deletePinWithTombstone(id);
   } catch (error) {
     if (error instanceof NotFoundError) {
       throw error;
     }
-    throw new TransactionError('Failed to delete pin', error);
+    throw writeError('Failed to delete pin', error);
   }
 }
 
 /**
- * Delete all pins in a collection
+ * Delete all pins in a collection, in one transaction
  */
 export async function deletePinsByCollection(
   collectionId: string
 ): Promise<number> {
   try {
-    const pins = await listPinsByCollection(collectionId);
-    const db = await getDB();
+    const deletedAt = new Date().toISOString();
+    const ids = await runTransaction(
+      [
+        STORES.PINS,
+        STORES.TRASHED_PINS,
+        STORES.TOMBSTONES,
+        STORES.OUTBOX,
+        STORES.SEARCH_INDEX,
+        STORES.PIN_REVISIONS,
+      ],
+      async (tx) => {
+        const ids = await tx.objectStore(STORES.PINS).index('collectionId').getAllKeys(collectionId);
+        for (const id of ids) {
+          await deletePinInTransaction(tx, id, deletedAt);
+        }
+        return ids;
+      }
+    );
 
-    for (const pin of pins) {
-      await db.delete(STORES.PINS, pin.id);
+    for (const id of ids) {
+      emitStorageEvent(StorageEventType.PIN_DELETED, { id });
     }
+    return ids.length;
+  } catch (error) {
+    throw writeError('Failed to delete pins by collection', error);
+  }
+}
+
+/**
+ * Move pins to another collection, in one transaction: if a pin or the
+ * collection is missing, no pin is moved
+ *
+ * @returns Number of pins moved
+ */
+export async function movePins(ids: string[], collectionId: string): Promise<number> {
+  try {
+    const now = new Date().toISOString();
+    const moved = await runTransaction(
+      [STORES.COLLECTIONS, STORES.PINS, STORES.OUTBOX],
+      async (tx) => {
+        if (!(await tx.objectStore(STORES.COLLECTIONS).get(collectionId))) {
+          throw new NotFoundError('Collection', collectionId);
+        }
 
-    return pins.length;
+        const pinsStore = tx.objectStore(STORES.PINS);
+        const outbox = tx.objectStore(STORES.OUTBOX);
+        const moved: Pin[] = [];
+
+        for (const id of ids) {
+          const pin = await pinsStore.get(id);
+          if (!pin) {
+            throw new NotFoundError('Pin', id);
+          }
+
+          const updated: Pin = { ...pin, collectionId, updatedAt: now };
+          // Keep the version the first unsynced edit started from, for conflict detection
+          const queued = await outbox.get(id);
+          await pinsStore.put(updated);
+          await outbox.put(
+            createOutboxEntry('pin', id, 'upsert', now, queued ? queued.baseVersion : pin.updatedAt)
+          );
+          moved.push(updated);
+        }
+
+        return moved;
+      }
+    );
+
+    for (const pin of moved) {
+      emitStorageEvent(StorageEventType.PIN_UPDATED, pin);
+    }
+    return moved.length;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to move pins', error);
+  }
+}
+
+/**
+ * Remove a pin without leaving a tombstone
+ * Used when applying deletions pulled from the cloud
+ */
+export async function purgePin(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(
+      [STORES.PINS, STORES.TRASHED_PINS, STORES.SEARCH_INDEX, STORES.PIN_REVISIONS],
+      'readwrite'
+    );
+    await Promise.all([
+      tx.objectStore(STORES.PINS).delete(id),
+      tx.objectStore(STORES.TRASHED_PINS).delete(id),
+      unindexPin(tx.objectStore(STORES.SEARCH_INDEX), id),
+      deleteRevisions(tx.objectStore(STORES.PIN_REVISIONS), id),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.PIN_DELETED, { id });
   } catch (error) {
-    throw new TransactionError('Failed to delete pins by collection', error);
+    throw new TransactionError('Failed to purge pin', error);
   }
 }
 
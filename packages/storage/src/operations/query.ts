@@ -0,0 +1,149 @@
+import type { QueryOptions } from '@wiserpin/core';
+import { InvalidQueryError } from '../errors/storage-error';
+
+type CursorDirection = 'next' | 'prev';
+
+/**
+ * The part of an idb cursor paging needs
+ */
+interface RecordCursor<T> {
+  value: T;
+  advance(count: number): Promise<RecordCursor<T> | null>;
+  continue(): Promise<RecordCursor<T> | null>;
+}
+
+/**
+ * Records a page is read from, in cursor order
+ *
+ * A source either keeps every record of its cursor and can count them, so
+ * skipped records are jumped over, or filters them with `accept`, in which
+ * case they are stepped through one by one.
+ */
+export type PageSource<T> =
+  | {
+      open(direction: CursorDirection): Promise<RecordCursor<T> | null>;
+      count(): Promise<number>;
+    }
+  | {
+      open(direction: CursorDirection): Promise<RecordCursor<T> | null>;
+      accept(record: T): boolean;
+    };
+
+/**
+ * Check paging options and the sort field against the fields a list supports
+ */
+export function validateQueryOptions(
+  options: QueryOptions,
+  sortFields: readonly string[]
+): void {
+  if (options.sortBy !== undefined && !sortFields.includes(options.sortBy)) {
+    throw new InvalidQueryError(
+      `Cannot sort by '${options.sortBy}', expected one of: ${sortFields.join(', ')}`
+    );
+  }
+  for (const key of ['limit', 'offset'] as const) {
+    const value = options[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new InvalidQueryError(`${key} must be a non-negative integer, got ${value}`);
+    }
+  }
+}
+
+/**
+ * Whether options ask for anything beyond all records in key order
+ */
+export function hasQueryOptions(options: QueryOptions): boolean {
+  return (
+    options.sortBy !== undefined ||
+    options.limit !== undefined ||
+    !!options.offset ||
+    options.sortOrder === 'desc'
+  );
+}
+
+/**
+ * Read one page from cursors, without loading the records before or after it
+ *
+ * Sources are read one after the other (in reverse for descending order),
+ * e.g. the records of a sort index followed by those the index leaves out.
+ */
+export async function readPage<T>(
+  sources: PageSource<T>[],
+  options: QueryOptions
+): Promise<T[]> {
+  const direction: CursorDirection = options.sortOrder === 'desc' ? 'prev' : 'next';
+  const ordered = direction === 'prev' ? [...sources].reverse() : sources;
+  const limit = options.limit ?? Infinity;
+  let skip = options.offset ?? 0;
+  const page: T[] = [];
+
+  for (const source of ordered) {
+    if (page.length >= limit) {
+      break;
+    }
+
+    if ('count' in source) {
+      if (skip > 0) {
+        const count = await source.count();
+        if (count <= skip) {
+          skip -= count;
+          continue;
+        }
+      }
+
+      let cursor = await source.open(direction);
+      if (cursor && skip > 0) {
+        cursor = await cursor.advance(skip);
+        skip = 0;
+      }
+      while (cursor && page.length < limit) {
+        page.push(cursor.value);
+        cursor = await cursor.continue();
+      }
+    } else {
+      let cursor = await source.open(direction);
+      while (cursor && page.length < limit) {
+        if (source.accept(cursor.value)) {
+          if (skip > 0) {
+            skip--;
+          } else {
+            page.push(cursor.value);
+          }
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  }
+
+  return page;
+}
+
+/**
+ * Sort and page records already in memory, in the order an index would give:
+ * by the sort value, records without one last, then by ID
+ */
+export function sortAndPage<T extends { id: string }>(
+  records: T[],
+  options: QueryOptions,
+  sortValue?: (record: T) => string | undefined
+): T[] {
+  const sign = options.sortOrder === 'desc' ? -1 : 1;
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  const sorted = sortValue
+    ? [...records].sort((a, b) => {
+        const valueA = sortValue(a);
+        const valueB = sortValue(b);
+        if (valueA === undefined || valueB === undefined) {
+          const missing = Number(valueA === undefined) - Number(valueB === undefined);
+          return sign * missing || sign * compare(a.id, b.id);
+        }
+        return sign * (compare(valueA, valueB) || compare(a.id, b.id));
+      })
+    : sign < 0
+      ? [...records].reverse()
+      : records;
+
+  const start = options.offset ?? 0;
+  return sorted.slice(start, options.limit === undefined ? undefined : start + options.limit);
+}
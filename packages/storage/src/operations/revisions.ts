@@ -0,0 +1,72 @@
+import {
+  diffPinRevision,
+  toPinRevisionValues,
+  type Pin,
+  type PinRevision,
+  type RevisionSource,
+} from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { firstPartRange } from '../db/key-range';
+import { STORES } from '../db/schema';
+import { TransactionError } from '../errors/storage-error';
+
+/**
+ * The revisions store of a readwrite transaction
+ */
+interface RevisionStore {
+  put(revision: PinRevision): Promise<unknown>;
+  delete(key: string): Promise<void>;
+  index(name: 'pinId'): { getAllKeys(pinId: string): Promise<string[]> };
+}
+
+/**
+ * Append a revision for an edit of a pin, when it changed a revised field
+ *
+ * @returns The revision, or undefined when the edit changed none of them
+ */
+export async function recordRevision(
+  store: RevisionStore,
+  before: Pin,
+  after: Pin,
+  source: RevisionSource
+): Promise<PinRevision | undefined> {
+  const changes = diffPinRevision(toPinRevisionValues(before), toPinRevisionValues(after));
+  if (!changes) {
+    return undefined;
+  }
+
+  const revision: PinRevision = {
+    id: crypto.randomUUID(),
+    pinId: after.id,
+    changes,
+    source,
+    createdAt: after.updatedAt,
+  };
+  await store.put(revision);
+  return revision;
+}
+
+/**
+ * Remove the history of a pin deleted for good
+ */
+export async function deleteRevisions(store: RevisionStore, pinId: string): Promise<void> {
+  const keys = await store.index('pinId').getAllKeys(pinId);
+  await Promise.all(keys.map((key) => store.delete(key)));
+}
+
+/**
+ * Revisions of a pin, newest first
+ */
+export async function listPinRevisions(pinId: string): Promise<PinRevision[]> {
+  try {
+    const db = await getDB();
+    const revisions = await db.getAllFromIndex(
+      STORES.PIN_REVISIONS,
+      'pinId_createdAt',
+      firstPartRange(pinId)
+    );
+    return revisions.reverse();
+  } catch (error) {
+    throw new TransactionError('Failed to list pin revisions', error);
+  }
+}
@@ -1,12 +1,14 @@
 import type { Settings } from '@wiserpin/core';
-import { DEFAULT_SETTINGS } from '@wiserpin/core';
-import { getDB, STORES } from '../db/schema';
-import { TransactionError } from '../errors/storage-error';
+import { DEFAULT_SETTINGS, StorageEventType } from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { writeError } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
 
 /**
  * Settings key in IndexedDB
  */
-const SETTINGS_KEY = 'user-settings';
+export const SETTINGS_KEY = 'user-settings';
 
 /**
  * Get user settings
@@ -22,9 +24,10 @@ export async function getSettings(): Promise<Settings> {
       return DEFAULT_SETTINGS;
     }
 
-    return settings;
+    // Settings saved before a field existed get its default
+    return { ...DEFAULT_SETTINGS, ...settings };
   } catch (error) {
-    throw new TransactionError('Failed to get settings', error);
+    throw writeError('Failed to get settings', error);
   }
 }
 
@@ -44,8 +47,9 @@ export async function updateSettings(
     };
 
     await db.put(STORES.SETTINGS, updated, SETTINGS_KEY);
+    emitStorageEvent(StorageEventType.SETTINGS_UPDATED, updated);
   } catch (error) {
-    throw new TransactionError('Failed to update settings', error);
+    throw writeError('Failed to update settings', error);
   }
 }
 
@@ -56,7 +60,8 @@ export async function resetSettings(): Promise<void> {
   try {
     const db = await getDB();
     await db.put(STORES.SETTINGS, DEFAULT_SETTINGS, SETTINGS_KEY);
+    emitStorageEvent(StorageEventType.SETTINGS_UPDATED, DEFAULT_SETTINGS);
   } catch (error) {
-    throw new TransactionError('Failed to reset settings', error);
+    throw writeError('Failed to reset settings', error);
   }
 }
@@ -0,0 +1,45 @@
+import type { SyncEntity, Tombstone } from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { TransactionError } from '../errors/storage-error';
+
+/**
+ * List tombstones of locally deleted records, optionally by entity
+ */
+export async function listTombstones(
+  entity?: SyncEntity
+): Promise<Tombstone[]> {
+  try {
+    const db = await getDB();
+    if (entity) {
+      return await db.getAllFromIndex(STORES.TOMBSTONES, 'entity', entity);
+    }
+    return await db.getAll(STORES.TOMBSTONES);
+  } catch (error) {
+    throw new TransactionError('Failed to list tombstones', error);
+  }
+}
+
+/**
+ * Get the tombstone of a locally deleted record, if any
+ */
+export async function getTombstone(id: string): Promise<Tombstone | undefined> {
+  try {
+    const db = await getDB();
+    return await db.get(STORES.TOMBSTONES, id);
+  } catch (error) {
+    throw new TransactionError('Failed to get tombstone', error);
+  }
+}
+
+/**
+ * Remove a tombstone once its deletion has been reconciled with the cloud
+ */
+export async function removeTombstone(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete(STORES.TOMBSTONES, id);
+  } catch (error) {
+    throw new TransactionError('Failed to remove tombstone', error);
+  }
+}
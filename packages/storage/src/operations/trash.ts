@@ -0,0 +1,474 @@
+import { StorageEventType, type Collection, type Pin } from '@wiserpin/core';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { beforeRange } from '../db/key-range';
+import { runTransaction } from '../db/transaction';
+import { NotFoundError, TransactionError, writeError } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
+import { indexPin, unindexPin } from '../search/search-index';
+import { createOutboxEntry } from './outbox';
+import { deletePinInTransaction } from './pins';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trashed pins and collections, most recently trashed first
+ */
+export interface TrashContents {
+  collections: Collection[];
+  pins: Pin[];
+}
+
+/**
+ * Drop the trash mark of a record being restored
+ */
+function untrash<T extends Pin | Collection>(record: T, restoredAt: string): T {
+  const { trashedAt: _trashedAt, ...rest } = record;
+  return { ...rest, updatedAt: restoredAt } as T;
+}
+
+/**
+ * Move a pin to the trash
+ *
+ * The pin leaves lists and search but can be restored until the trash is
+ * emptied or its retention period ends. The move is synced like an edit.
+ */
+export async function trashPin(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const existing = await db.get(STORES.PINS, id);
+
+    if (!existing) {
+      throw new NotFoundError('Pin', id);
+    }
+
+    const now = new Date().toISOString();
+    const trashed: Pin = { ...existing, trashedAt: now, updatedAt: now };
+
+    const tx = db.transaction(
+      [STORES.PINS, STORES.TRASHED_PINS, STORES.OUTBOX, STORES.SEARCH_INDEX],
+      'readwrite'
+    );
+    const outbox = tx.objectStore(STORES.OUTBOX);
+    // Keep the version the first unsynced edit started from, for conflict detection
+    const queued = await outbox.get(id);
+
+    await Promise.all([
+      tx.objectStore(STORES.PINS).delete(id),
+      tx.objectStore(STORES.TRASHED_PINS).put(trashed),
+      unindexPin(tx.objectStore(STORES.SEARCH_INDEX), id),
+      outbox.put(
+        createOutboxEntry('pin', id, 'upsert', now, queued ? queued.baseVersion : existing.updatedAt)
+      ),
+      tx.done,
+    ]);
+    emitStorageEvent(StorageEventType.PIN_TRASHED, trashed);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to trash pin', error);
+  }
+}
+
+/**
+ * Move a collection and all its pins to the trash
+ *
+ * The pins share the collection's trashedAt, so restoring the collection
+ * brings back exactly the pins trashed with it.
+ */
+export async function trashCollection(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const existing = await db.get(STORES.COLLECTIONS, id);
+
+    if (!existing) {
+      throw new NotFoundError('Collection', id);
+    }
+
+    const now = new Date().toISOString();
+    const collection: Collection = { ...existing, trashedAt: now, updatedAt: now };
+
+    const pins = await runTransaction(
+      [
+        STORES.COLLECTIONS,
+        STORES.TRASHED_COLLECTIONS,
+        STORES.PINS,
+        STORES.TRASHED_PINS,
+        STORES.OUTBOX,
+        STORES.SEARCH_INDEX,
+      ],
+      async (tx) => {
+        const outbox = tx.objectStore(STORES.OUTBOX);
+        const pinsStore = tx.objectStore(STORES.PINS);
+        const trashedPinsStore = tx.objectStore(STORES.TRASHED_PINS);
+        const searchStore = tx.objectStore(STORES.SEARCH_INDEX);
+
+        const queuedCollection = await outbox.get(id);
+        await tx.objectStore(STORES.COLLECTIONS).delete(id);
+        await tx.objectStore(STORES.TRASHED_COLLECTIONS).put(collection);
+        await outbox.put(
+          createOutboxEntry(
+            'collection',
+            id,
+            'upsert',
+            now,
+            queuedCollection ? queuedCollection.baseVersion : existing.updatedAt
+          )
+        );
+
+        const pins: Pin[] = [];
+        for (const pin of await pinsStore.index('collectionId').getAll(id)) {
+          const trashed: Pin = { ...pin, trashedAt: now, updatedAt: now };
+          const queued = await outbox.get(pin.id);
+          await pinsStore.delete(pin.id);
+          await trashedPinsStore.put(trashed);
+          await unindexPin(searchStore, pin.id);
+          await outbox.put(
+            createOutboxEntry('pin', pin.id, 'upsert', now, queued ? queued.baseVersion : pin.updatedAt)
+          );
+          pins.push(trashed);
+        }
+        return pins;
+      }
+    );
+
+    emitStorageEvent(StorageEventType.COLLECTION_TRASHED, collection);
+    for (const pin of pins) {
+      emitStorageEvent(StorageEventType.PIN_TRASHED, pin);
+    }
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to trash collection', error);
+  }
+}
+
+/**
+ * Bring a pin back from the trash, along with its collection if that was trashed too
+ */
+export async function restorePin(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const trashed = await db.get(STORES.TRASHED_PINS, id);
+
+    if (!trashed) {
+      throw new NotFoundError('Pin', id);
+    }
+
+    const now = new Date().toISOString();
+    const pin = untrash(trashed, now);
+    const trashedCollection = await db.get(STORES.TRASHED_COLLECTIONS, pin.collectionId);
+    const collection = trashedCollection && untrash(trashedCollection, now);
+
+    await runTransaction(
+      [
+        STORES.COLLECTIONS,
+        STORES.TRASHED_COLLECTIONS,
+        STORES.PINS,
+        STORES.TRASHED_PINS,
+        STORES.OUTBOX,
+        STORES.SEARCH_INDEX,
+      ],
+      async (tx) => {
+        const outbox = tx.objectStore(STORES.OUTBOX);
+
+        if (collection) {
+          const queuedCollection = await outbox.get(collection.id);
+          await tx.objectStore(STORES.TRASHED_COLLECTIONS).delete(collection.id);
+          await tx.objectStore(STORES.COLLECTIONS).put(collection);
+          await outbox.put(
+            createOutboxEntry(
+              'collection',
+              collection.id,
+              'upsert',
+              now,
+              queuedCollection ? queuedCollection.baseVersion : trashedCollection.updatedAt
+            )
+          );
+        }
+
+        const queued = await outbox.get(id);
+        await tx.objectStore(STORES.TRASHED_PINS).delete(id);
+        await tx.objectStore(STORES.PINS).put(pin);
+        await indexPin(tx.objectStore(STORES.SEARCH_INDEX), pin);
+        await outbox.put(
+          createOutboxEntry('pin', id, 'upsert', now, queued ? queued.baseVersion : trashed.updatedAt)
+        );
+      }
+    );
+
+    if (collection) {
+      emitStorageEvent(StorageEventType.COLLECTION_RESTORED, collection);
+    }
+    emitStorageEvent(StorageEventType.PIN_RESTORED, pin);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to restore pin', error);
+  }
+}
+
+/**
+ * Bring a collection back from the trash with the pins trashed along with it
+ *
+ * Pins trashed on their own before the collection stay in the trash.
+ */
+export async function restoreCollection(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const trashed = await db.get(STORES.TRASHED_COLLECTIONS, id);
+
+    if (!trashed) {
+      throw new NotFoundError('Collection', id);
+    }
+
+    const now = new Date().toISOString();
+    const collection = untrash(trashed, now);
+
+    const pins = await runTransaction(
+      [
+        STORES.COLLECTIONS,
+        STORES.TRASHED_COLLECTIONS,
+        STORES.PINS,
+        STORES.TRASHED_PINS,
+        STORES.OUTBOX,
+        STORES.SEARCH_INDEX,
+      ],
+      async (tx) => {
+        const outbox = tx.objectStore(STORES.OUTBOX);
+        const pinsStore = tx.objectStore(STORES.PINS);
+        const trashedPinsStore = tx.objectStore(STORES.TRASHED_PINS);
+        const searchStore = tx.objectStore(STORES.SEARCH_INDEX);
+
+        const queuedCollection = await outbox.get(id);
+        await tx.objectStore(STORES.TRASHED_COLLECTIONS).delete(id);
+        await tx.objectStore(STORES.COLLECTIONS).put(collection);
+        await outbox.put(
+          createOutboxEntry(
+            'collection',
+            id,
+            'upsert',
+            now,
+            queuedCollection ? queuedCollection.baseVersion : trashed.updatedAt
+          )
+        );
+
+        const pins: Pin[] = [];
+        for (const trashedPin of await trashedPinsStore.index('collectionId').getAll(id)) {
+          if (trashedPin.trashedAt !== trashed.trashedAt) {
+            continue;
+          }
+
+          const pin = untrash(trashedPin, now);
+          const queued = await outbox.get(pin.id);
+          await trashedPinsStore.delete(pin.id);
+          await pinsStore.put(pin);
+          await indexPin(searchStore, pin);
+          await outbox.put(
+            createOutboxEntry(
+              'pin',
+              pin.id,
+              'upsert',
+              now,
+              queued ? queued.baseVersion : trashedPin.updatedAt
+            )
+          );
+          pins.push(pin);
+        }
+        return pins;
+      }
+    );
+
+    emitStorageEvent(StorageEventType.COLLECTION_RESTORED, collection);
+    for (const pin of pins) {
+      emitStorageEvent(StorageEventType.PIN_RESTORED, pin);
+    }
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw writeError('Failed to restore collection', error);
+  }
+}
+
+/**
+ * List the trash, most recently trashed first
+ */
+export async function listTrash(): Promise<TrashContents> {
+  try {
+    const db = await getDB();
+    const [collections, pins] = await Promise.all([
+      db.getAllFromIndex(STORES.TRASHED_COLLECTIONS, 'trashedAt'),
+      db.getAllFromIndex(STORES.TRASHED_PINS, 'trashedAt'),
+    ]);
+    return { collections: collections.reverse(), pins: pins.reverse() };
+  } catch (error) {
+    throw new TransactionError('Failed to list trash', error);
+  }
+}
+
+/**
+ * Number of trashed pins and collections
+ */
+export async function getTrashCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    const [collections, pins] = await Promise.all([
+      db.count(STORES.TRASHED_COLLECTIONS),
+      db.count(STORES.TRASHED_PINS),
+    ]);
+    return collections + pins;
+  } catch (error) {
+    throw new TransactionError('Failed to count trash', error);
+  }
+}
+
+/**
+ * Get a trashed pin by ID
+ */
+export async function getTrashedPin(id: string): Promise<Pin | undefined> {
+  try {
+    const db = await getDB();
+    return await db.get(STORES.TRASHED_PINS, id);
+  } catch (error) {
+    throw new TransactionError('Failed to get trashed pin', error);
+  }
+}
+
+/**
+ * Get a trashed collection by ID
+ */
+export async function getTrashedCollection(id: string): Promise<Collection | undefined> {
+  try {
+    const db = await getDB();
+    return await db.get(STORES.TRASHED_COLLECTIONS, id);
+  } catch (error) {
+    throw new TransactionError('Failed to get trashed collection', error);
+  }
+}
+
+/**
+ * Delete trashed records for good, leaving tombstones and queueing the
+ * deletions for the cloud
+ */
+async function deleteTrashedForever(collectionIds: string[], pinIds: string[]): Promise<void> {
+  const deletedAt = new Date().toISOString();
+  await runTransaction(
+    [
+      STORES.TRASHED_COLLECTIONS,
+      STORES.PINS,
+      STORES.TRASHED_PINS,
+      STORES.TOMBSTONES,
+      STORES.OUTBOX,
+      STORES.SEARCH_INDEX,
+      STORES.PIN_REVISIONS,
+    ],
+    async (tx) => {
+      for (const id of collectionIds) {
+        await tx.objectStore(STORES.TRASHED_COLLECTIONS).delete(id);
+        await tx.objectStore(STORES.TOMBSTONES).put({ id, entity: 'collection', deletedAt });
+        await tx.objectStore(STORES.OUTBOX).put(
+          createOutboxEntry('collection', id, 'delete', deletedAt)
+        );
+      }
+      for (const id of pinIds) {
+        await deletePinInTransaction(tx, id, deletedAt);
+      }
+    }
+  );
+
+  for (const id of collectionIds) {
+    emitStorageEvent(StorageEventType.COLLECTION_DELETED, { id });
+  }
+  for (const id of pinIds) {
+    emitStorageEvent(StorageEventType.PIN_DELETED, { id });
+  }
+}
+
+/**
+ * Delete a trashed pin for good
+ */
+export async function deleteTrashedPin(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    if (!(await db.get(STORES.TRASHED_PINS, id))) {
+      throw new NotFoundError('Pin', id);
+    }
+
+    await deleteTrashedForever([], [id]);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new TransactionError('Failed to delete trashed pin', error);
+  }
+}
+
+/**
+ * Delete a trashed collection for good, with every trashed pin of it
+ */
+export async function deleteTrashedCollection(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    if (!(await db.get(STORES.TRASHED_COLLECTIONS, id))) {
+      throw new NotFoundError('Collection', id);
+    }
+
+    const pinIds = await db.getAllKeysFromIndex(STORES.TRASHED_PINS, 'collectionId', id);
+    await deleteTrashedForever([id], pinIds);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw error;
+    }
+    throw new TransactionError('Failed to delete trashed collection', error);
+  }
+}
+
+/**
+ * Delete everything in the trash for good
+ *
+ * @returns Number of pins and collections deleted
+ */
+export async function emptyTrash(): Promise<number> {
+  try {
+    const db = await getDB();
+    const [collectionIds, pinIds] = await Promise.all([
+      db.getAllKeys(STORES.TRASHED_COLLECTIONS),
+      db.getAllKeys(STORES.TRASHED_PINS),
+    ]);
+
+    await deleteTrashedForever(collectionIds, pinIds);
+    return collectionIds.length + pinIds.length;
+  } catch (error) {
+    throw new TransactionError('Failed to empty trash', error);
+  }
+}
+
+/**
+ * Delete for good what has been in the trash longer than the retention period
+ *
+ * @returns Number of pins and collections deleted
+ */
+export async function purgeExpiredTrash(
+  retentionDays: number,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const db = await getDB();
+    const cutoff = beforeRange(new Date(now.getTime() - retentionDays * DAY_MS).toISOString());
+    const [collectionIds, pinIds] = await Promise.all([
+      db.getAllKeysFromIndex(STORES.TRASHED_COLLECTIONS, 'trashedAt', cutoff),
+      db.getAllKeysFromIndex(STORES.TRASHED_PINS, 'trashedAt', cutoff),
+    ]);
+
+    if (collectionIds.length + pinIds.length > 0) {
+      await deleteTrashedForever(collectionIds, pinIds);
+    }
+    return collectionIds.length + pinIds.length;
+  } catch (error) {
+    throw new TransactionError('Failed to purge expired trash', error);
+  }
+}
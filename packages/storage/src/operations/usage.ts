@@ -0,0 +1,135 @@
+import { StorageEventType, type Pin } from '@wiserpin/core';
+import type { StoreName } from '../adapters/types';
+import { getDB } from '../db/adapter';
+import { STORES } from '../db/schema';
+import { runTransaction } from '../db/transaction';
+import { TransactionError, writeError } from '../errors/storage-error';
+import { emitStorageEvent } from '../events/storage-events';
+import { indexPin } from '../search/search-index';
+import { createOutboxEntry } from './outbox';
+
+/**
+ * Records of one store and roughly how much space they take
+ */
+export interface StoreUsage {
+  records: number;
+  /** Length of the records as JSON, an approximation of their size on disk */
+  bytes: number;
+}
+
+/**
+ * How much space local data takes
+ */
+export interface StorageUsage {
+  /** Bytes used by the origin, when the browser reports it */
+  usage?: number;
+  /** Bytes the origin may use, when the browser reports it */
+  quota?: number;
+  stores: Record<StoreName, StoreUsage>;
+}
+
+/**
+ * Estimate storage usage: the origin's usage and quota from
+ * navigator.storage.estimate(), and the size of each store
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  try {
+    const db = await getDB();
+    const names = Object.values(STORES);
+    const tx = db.transaction(names);
+    const records = await Promise.all(names.map((name) => tx.objectStore(name).getAll()));
+
+    const stores = {} as Record<StoreName, StoreUsage>;
+    names.forEach((name, i) => {
+      const all = records[i] ?? [];
+      stores[name] = { records: all.length, bytes: JSON.stringify(all).length };
+    });
+
+    const estimate =
+      typeof navigator !== 'undefined' && navigator.storage?.estimate
+        ? await navigator.storage.estimate()
+        : {};
+
+    return { usage: estimate.usage, quota: estimate.quota, stores };
+  } catch (error) {
+    throw new TransactionError('Failed to get storage usage', error);
+  }
+}
+
+/**
+ * Rewrite the pins `clean` changes, in one transaction; changes sync like edits
+ */
+async function cleanPins(clean: (pin: Pin) => Pin | undefined): Promise<number> {
+  const now = new Date().toISOString();
+  const cleaned = await runTransaction(
+    [STORES.PINS, STORES.OUTBOX, STORES.SEARCH_INDEX],
+    async (tx) => {
+      const pinsStore = tx.objectStore(STORES.PINS);
+      const outbox = tx.objectStore(STORES.OUTBOX);
+      const cleaned: Pin[] = [];
+
+      for (const pin of await pinsStore.getAll()) {
+        const next = clean(pin);
+        if (!next) {
+          continue;
+        }
+
+        const updated: Pin = { ...next, updatedAt: now };
+        const queued = await outbox.get(pin.id);
+        await pinsStore.put(updated);
+        await indexPin(tx.objectStore(STORES.SEARCH_INDEX), updated);
+        await outbox.put(
+          createOutboxEntry('pin', pin.id, 'upsert', now, queued ? queued.baseVersion : pin.updatedAt)
+        );
+        cleaned.push(updated);
+      }
+      return cleaned;
+    }
+  );
+
+  for (const pin of cleaned) {
+    emitStorageEvent(StorageEventType.PIN_UPDATED, pin);
+  }
+  return cleaned.length;
+}
+
+/**
+ * Remove AI summaries generated before `before`, to free space; they can be
+ * generated again from the page
+ *
+ * @returns Number of pins cleaned
+ */
+export async function clearSummaries(before: Date = new Date()): Promise<number> {
+  try {
+    const cutoff = before.toISOString();
+    return await cleanPins((pin) => {
+      if (!pin.summary || pin.summary.createdAt >= cutoff) {
+        return undefined;
+      }
+      const { summary: _summary, ...rest } = pin;
+      return rest;
+    });
+  } catch (error) {
+    throw writeError('Failed to clear summaries', error);
+  }
+}
+
+/**
+ * Remove the page content cached in pins (description and preview image),
+ * keeping what lists show: URL, title, site name and favicon
+ *
+ * @returns Number of pins cleaned
+ */
+export async function clearPageContent(): Promise<number> {
+  try {
+    return await cleanPins((pin) => {
+      if (pin.page.description === undefined && pin.page.ogImageUrl === undefined) {
+        return undefined;
+      }
+      const { description: _description, ogImageUrl: _ogImageUrl, ...page } = pin.page;
+      return { ...pin, page };
+    });
+  } catch (error) {
+    throw writeError('Failed to clear page content', error);
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  pinQueryDate,
+  siteUrlPatterns,
+  type Collection,
+  type Pin,
+  type PinQueryState,
+  type PinQueryTerm,
+} from '@wiserpin/core';
+import { tokenize } from './tokenize';
+
+/**
+ * Query terms that filter by a field rather than by text
+ */
+export type PinFieldTerm = Exclude<PinQueryTerm, { type: 'text' }>;
+
+const PIN_STATES: Record<PinQueryState, (pin: Pin) => boolean> = {
+  summarized: (pin) => !!pin.summary?.text,
+  noted: (pin) => !!pin.note,
+  tagged: (pin) => (pin.tags?.length ?? 0) > 0,
+};
+
+function matchesTerm(pin: Pin, term: PinFieldTerm, collections: Collection[]): boolean {
+  switch (term.type) {
+    case 'site': {
+      const url = pin.page.url.toLowerCase();
+      const { contains, endsWith } = siteUrlPatterns(term.value);
+      return (
+        contains.some((pattern) => url.includes(pattern)) ||
+        endsWith.some((pattern) => url.endsWith(pattern))
+      );
+    }
+    case 'tag':
+      return (pin.tags || []).includes(term.value);
+    case 'collection': {
+      const name = term.value.toLowerCase();
+      return collections.some(
+        (collection) => collection.id === pin.collectionId && collection.name.toLowerCase() === name
+      );
+    }
+    case 'before':
+      return new Date(pin.createdAt) < pinQueryDate(term.value);
+    case 'after':
+      return new Date(pin.createdAt) >= pinQueryDate(term.value);
+    case 'is':
+      return PIN_STATES[term.value](pin);
+  }
+}
+
+/**
+ * Predicate for the field terms of a query, matching the same pins as the
+ * database filter the API builds from them
+ *
+ * @param collections Collections that `collection:` terms are looked up in
+ */
+export function compilePinQuery(
+  terms: PinFieldTerm[],
+  collections: Collection[]
+): (pin: Pin) => boolean {
+  return (pin) => terms.every((term) => matchesTerm(pin, term, collections) !== term.negated);
+}
+
+/**
+ * Whether the words of a phrase appear one after the other in a field of the pin
+ */
+export function pinContainsPhrase(pin: Pin, phrase: string): boolean {
+  const words = tokenize(phrase, 1);
+  const fields = [
+    pin.page.title,
+    ...(pin.tags || []),
+    pin.page.siteName,
+    pin.note,
+    pin.summary?.text,
+    pin.page.description,
+  ];
+
+  return fields.some((text) => {
+    const tokens = tokenize(text || '', 1);
+    return tokens.some((_, start) => words.every((word, i) => tokens[start + i] === word));
+  });
+}
@@ -0,0 +1,66 @@
+import type { Pin } from '@wiserpin/core';
+import type { SearchIndexEntry } from '../db/schema';
+import { tokenize, tokenizeUrl } from './tokenize';
+
+/**
+ * The search index store of any writable transaction (readwrite or upgrade)
+ */
+interface SearchIndexStore {
+  put(entry: SearchIndexEntry): Promise<unknown>;
+  delete(key: [string, string]): Promise<void>;
+  index(name: 'pinId'): { getAllKeys(pinId: string): Promise<[string, string][]> };
+}
+
+/**
+ * How much a match in each pin field counts towards relevance
+ */
+export const SEARCH_FIELD_WEIGHTS = {
+  title: 10,
+  tags: 8,
+  siteName: 6,
+  note: 4,
+  summary: 3,
+  description: 3,
+  url: 2,
+} as const;
+
+/**
+ * Build the index entries of a pin: one per distinct token, weighted by the
+ * fields it appears in
+ */
+export function buildSearchEntries(pin: Pin): SearchIndexEntry[] {
+  const fields: [keyof typeof SEARCH_FIELD_WEIGHTS, string[]][] = [
+    ['title', tokenize(pin.page.title || '')],
+    ['tags', (pin.tags || []).flatMap((tag) => tokenize(tag))],
+    ['siteName', tokenize(pin.page.siteName || '')],
+    ['note', tokenize(pin.note || '')],
+    ['summary', tokenize(pin.summary?.text || '')],
+    ['description', tokenize(pin.page.description || '')],
+    ['url', tokenizeUrl(pin.page.url || '')],
+  ];
+
+  const weights = new Map<string, number>();
+  for (const [field, tokens] of fields) {
+    for (const token of new Set(tokens)) {
+      weights.set(token, (weights.get(token) || 0) + SEARCH_FIELD_WEIGHTS[field]);
+    }
+  }
+
+  return [...weights].map(([token, weight]) => ({ token, pinId: pin.id, weight }));
+}
+
+/**
+ * Remove a pin from the search index
+ */
+export async function unindexPin(store: SearchIndexStore, pinId: string): Promise<void> {
+  const keys = await store.index('pinId').getAllKeys(pinId);
+  await Promise.all(keys.map((key) => store.delete(key)));
+}
+
+/**
+ * Add a pin to the search index, replacing its previous entries
+ */
+export async function indexPin(store: SearchIndexStore, pin: Pin): Promise<void> {
+  await unindexPin(store, pin.id);
+  await Promise.all(buildSearchEntries(pin).map((entry) => store.put(entry)));
+}
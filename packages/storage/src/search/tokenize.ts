@@ -0,0 +1,10 @@
+/**
+ * Text normalization and tokenization shared by the search index and queries.
+ * The rules live in @wiserpin/core, so the API's search follows them too.
+ */
+export {
+  MIN_INDEXED_TOKEN_LENGTH,
+  normalizeSearchText as normalizeText,
+  tokenizeSearchText as tokenize,
+  tokenizeSearchUrl as tokenizeUrl,
+} from '@wiserpin/core';
@@ -1,7 +1,8 @@
 import 'fake-indexeddb/auto';
 import { IDBFactory } from 'fake-indexeddb';
 import { afterEach, beforeEach } from 'vitest';
-import { closeDB } from './src/db/schema';
+import { closeDB } from './src/db/adapter';
+import { closeStorageEvents } from './src/events/storage-events';
 
 // Create a fresh IndexedDB instance for each test
 beforeEach(() => {
@@ -12,6 +13,7 @@ beforeEach(() => {
 
 afterEach(() => {
   closeDB(); // Clear the singleton
+  closeStorageEvents(); // Drop subscriptions, close the BroadcastChannel
   // Clean up
   // @ts-expect-error
   global.indexedDB = new IDBFactory();